@@ -10,4 +10,27 @@ const __dirname = dirname(__filename);
 export const DATA_DIR = path.resolve(__dirname, '..', '..', 'data');
 export const SNAPSHOT_FILE = path.join(DATA_DIR, 'snapshot.json');
 
+// Site credentials live in their own file, never in the snapshot
+export const CREDENTIALS_FILE = process.env.CREDENTIALS_FILE ?? path.join(DATA_DIR, 'credentials.json');
+
+// Response bodies served by 'mock' intercept rules, referenced by path relative to this directory
+export const FIXTURES_DIR = path.resolve(process.env.FIXTURES_DIR ?? path.join(DATA_DIR, 'fixtures'));
+
 export const DEFAULT_PORT = Number(process.env.PORT ?? 4000);
+
+// Run queue: max concurrent runs (each launches its own browsers) and per-run timeout
+// Values that aren't positive numbers (e.g. a typo) fall back to the defaults instead of disabling the limits
+export const RUN_QUEUE_CONCURRENCY = Math.max(1, Number(process.env.RUN_QUEUE_CONCURRENCY ?? 1) || 1);
+const DEFAULT_RUN_TIMEOUT_MS = 30 * 60 * 1000;
+const runTimeoutMs = Number(process.env.RUN_TIMEOUT_MS ?? DEFAULT_RUN_TIMEOUT_MS);
+export const RUN_TIMEOUT_MS = Number.isFinite(runTimeoutMs) && runTimeoutMs > 0 ? runTimeoutMs : DEFAULT_RUN_TIMEOUT_MS;
+
+// Crawls save a checkpoint after this many new pages so an interrupted run can be resumed
+export const CRAWL_CHECKPOINT_INTERVAL = Math.max(1, Number(process.env.CRAWL_CHECKPOINT_INTERVAL ?? 20));
+
+// What to do on boot with runs left queued/running by a previous process: 'requeue' or 'fail'
+export const RUN_RECOVERY_POLICY: 'requeue' | 'fail' = process.env.RUN_RECOVERY_POLICY === 'fail' ? 'fail' : 'requeue';
+
+// Storage adapter: 'file' (snapshot.json) or 'sqlite'
+export const STORAGE_DRIVER: 'file' | 'sqlite' = process.env.STORAGE_DRIVER === 'sqlite' ? 'sqlite' : 'file';
+export const SQLITE_FILE = process.env.SQLITE_FILE ?? path.join(DATA_DIR, 'migrate-guard.db');
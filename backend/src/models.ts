@@ -1,5 +1,5 @@
 export type JobStatus = 'pending' | 'active' | 'completed' | 'failed';
-export type RunStatus = 'queued' | 'running' | 'completed' | 'failed';
+export type RunStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
 
 /**
  * @deprecated Use ComparisonJob instead. Kept for migration purposes.
@@ -15,6 +15,20 @@ export interface Job {
   updatedAt: string;
 }
 
+/**
+ * How URLs are normalized into page identities for crawling, matching, pageMap lookup and artifact names
+ * The defaults drop query strings, fragments and trailing slashes and keep path case.
+ */
+export interface UrlNormalizationPolicy {
+  queryParams?: 'drop' | 'keep'; // Keep or drop query strings (default 'drop')
+  significantParams?: string[]; // Parameters always kept, even when query strings are dropped (e.g. ['page', 'id'])
+  stripTrackingParams?: boolean; // Drop utm_*, gclid, fbclid and similar from kept query strings (default true)
+  trailingSlash?: 'strip' | 'keep' | 'add'; // default 'strip'
+  caseInsensitivePaths?: boolean; // Lowercase paths so '/P' and '/p' are the same page (default false)
+  collapseIndexFiles?: boolean; // Treat '/docs/index.html' as '/docs/' (default false)
+  stripFragments?: boolean; // Drop '#fragment' (default true)
+}
+
 /**
  * Crawl configuration for website comparison
  */
@@ -24,6 +38,15 @@ export interface CrawlConfig {
   excludePaths?: string[]; // Path patterns to exclude (e.g., ['/admin/*', '/api/*'])
   maxPages?: number; // Maximum number of pages to crawl
   followExternalLinks?: boolean; // Whether to follow external links
+  respectRobotsTxt?: boolean; // Skip paths disallowed by robots.txt and honour its Crawl-delay
+  concurrency?: number; // Pages crawled in parallel per site (default 4)
+  requestsPerSecond?: number; // Per-host request rate limit; unlimited when omitted
+  maxRetries?: number; // Retries for 429/5xx responses (default 2)
+  retryDelayMs?: number; // Base delay for exponential backoff between retries (default 1000)
+  minMatchConfidence?: number; // Pages paired below this confidence (0-1) are reported as unmatched (default 0.5)
+  normalization?: UrlNormalizationPolicy; // URL normalization applied to both sites
+  spaDiscovery?: boolean; // Also click navigation-like elements and follow client-side (pushState) routes
+  spaMaxInteractions?: number; // Elements clicked per page in SPA discovery (default 20)
 }
 
 /**
@@ -33,6 +56,187 @@ export interface PageMap {
   baselinePath: string; // Path on baseline site (e.g., '/products/item-1')
   candidatePath: string; // Corresponding path on candidate site (e.g., '/products/new-item-1')
   notes?: string; // Optional notes about the mapping
+  rule?: string; // Rewrite rule that produced the mapping, if any
+}
+
+/**
+ * Regex rewrite from baseline paths to candidate paths, for migrations that rename whole sections
+ * e.g. { pattern: '^/blog/\\d{4}/\\d{2}/([^/]+)$', replacement: '/articles/$1' }
+ */
+export interface RewriteRule {
+  name?: string; // Label used in matches and the generated pageMap (defaults to 'rule N')
+  pattern: string; // Regular expression tested against the baseline path; capture groups feed the replacement
+  replacement: string; // Candidate path template using $1, $2 or $<name>
+  flags?: string; // Regex flags, e.g. 'i'
+}
+
+/**
+ * Expected redirect for a legacy URL that must point to a new location
+ */
+export interface RedirectRule {
+  from: string; // Legacy path or absolute URL requested on the candidate host (e.g., '/old-page')
+  to: string; // Expected final path or absolute URL (e.g., '/new-page')
+  expectedStatus?: number; // Expected status of the first hop (defaults to 301)
+}
+
+/**
+ * Rectangle in screenshot pixels (full-page coordinates)
+ */
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Rectangular area excluded from visual diffs, in CSS pixels of the full page
+ * Scaled to screenshot pixels by the capture profile's deviceScaleFactor.
+ */
+export interface IgnoreRegion extends Rect {
+  pathPattern?: string; // Path pattern the region applies to (e.g., '/blog/*'); all pages when omitted
+  viewport?: string; // Capture profile name (e.g., 'mobile'); all profiles when omitted
+}
+
+/**
+ * Dynamic content masking for visual diffs (carousels, timestamps, ad slots, cookie banners)
+ */
+export interface VisualMasks {
+  selectors?: string[]; // CSS selectors painted over before capture on both sites
+  ignoreRegions?: IgnoreRegion[];
+}
+
+/**
+ * Rendering controls applied identically to baseline and candidate captures so unchanged pages screenshot the same
+ */
+export interface CaptureOptions {
+  freezeTime?: boolean | string; // Fix Date/Date.now() at this ISO instant (true: DEFAULT_FROZEN_TIME)
+  disableAnimations?: boolean; // Stop CSS animations and transitions
+  hideCaret?: boolean; // Hide text carets (default true)
+  scrollToLoad?: boolean; // Scroll through the page before full-page captures so lazy content loads
+  waitForFonts?: boolean; // Wait for web fonts before capturing
+  randomSeed?: number; // Replace Math.random with a generator seeded with this value
+}
+
+/**
+ * Viewport and device emulation a page is captured with; screenshots and visual diffs are keyed by name
+ * Profiles that only set the viewport and media features reuse the site's browser context; the device options
+ * (scale factor, mobile, touch, user agent, locale, timezone) get a context of their own.
+ */
+export interface CaptureProfile {
+  name: string; // e.g. 'desktop', 'iphone-dark'; used in artifact file names
+  width: number;
+  height: number;
+  deviceScaleFactor?: number; // 2 for retina renderings
+  isMobile?: boolean; // Honour the meta viewport tag
+  hasTouch?: boolean;
+  userAgent?: string;
+  locale?: string; // e.g. 'de-DE'
+  timezoneId?: string; // e.g. 'Europe/Berlin'
+  colorScheme?: 'light' | 'dark' | 'no-preference';
+  reducedMotion?: 'reduce' | 'no-preference';
+}
+
+/**
+ * Connection presets, with Chrome DevTools' Slow/Fast 3G figures and WebPageTest's 4G figures
+ */
+export type NetworkPreset = 'slow-3g' | 'fast-3g' | '4g';
+
+/**
+ * Emulated connection a page load is measured on
+ * Either a preset, a custom connection, or a preset with some values overridden.
+ */
+export interface NetworkProfile {
+  name: string; // Label in metrics and the report, e.g. 'slow-3g'
+  preset?: NetworkPreset;
+  latencyMs?: number; // Added round-trip latency
+  downloadKbps?: number;
+  uploadKbps?: number;
+}
+
+/**
+ * Slow-connection and slow-device load measurements run on both sites after capture
+ */
+export interface ThrottlingConfig {
+  networkProfiles?: NetworkProfile[];
+  cpuSlowdown?: number; // CPU throttling rate (4 = four times slower); applied with every network profile
+}
+
+/**
+ * Network request interception applied while crawling and capturing
+ * `pattern` is a domain ('analytics.example.com', '*.doubleclick.net', subdomains included) or a URL glob
+ * where '*' stops at '/' and '**' doesn't. Rules are tried in order; the first match wins.
+ */
+export interface InterceptRule {
+  action: 'block' | 'mock' | 'rewrite';
+  pattern: string;
+  site?: 'baseline' | 'candidate'; // Only intercept on one site; both when unset
+  fixture?: string; // mock: file in the fixtures directory served as the body; empty when unset
+  status?: number; // mock: response status, 200 by default
+  contentType?: string; // mock: defaults from the fixture's extension
+  rewriteHost?: string; // rewrite: host[:port] the request is sent to instead, e.g. 'staging-api.example.com'
+}
+
+/**
+ * Single step of a user journey
+ * URLs in `goto` are resolved against each site's base URL; `assertUrl` patterns match
+ * the path (with '*' wildcards) so the same journey runs on baseline and candidate
+ */
+export type JourneyStep = { name?: string; timeoutMs?: number } & (
+  | { action: 'goto'; url: string }
+  | { action: 'click'; selector: string }
+  | { action: 'fill'; selector: string; value: string }
+  | { action: 'select'; selector: string; value: string }
+  | { action: 'waitFor'; selector?: string; state?: 'attached' | 'detached' | 'visible' | 'hidden' }
+  | { action: 'assertText'; text: string; selector?: string } // Text must appear in the element (default: body)
+  | { action: 'assertUrl'; url: string }
+  | { action: 'screenshot'; name: string; fullPage?: boolean } // Checkpoint compared across sites
+);
+
+export type JourneyStepAction = JourneyStep['action'];
+
+/**
+ * Scripted user flow (e.g. search → product → add to cart → checkout)
+ */
+export interface Journey {
+  name: string;
+  description?: string;
+  steps: JourneyStep[];
+}
+
+/**
+ * Cookie set on a site's browser context before crawling
+ */
+export interface AuthCookie {
+  name: string;
+  value: string;
+  domain?: string; // Defaults to the site's host
+  path?: string; // Defaults to '/'
+  expires?: number; // Unix time in seconds
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+/**
+ * How to sign in to one site (baseline or candidate)
+ * Every option is optional and they combine; a login journey runs after basic auth, headers and cookies are applied
+ */
+export interface SiteAuthConfig {
+  basic?: { username: string; password: string }; // HTTP basic auth
+  headers?: Record<string, string>; // Extra headers sent with every request (e.g. Authorization)
+  cookies?: AuthCookie[];
+  loginJourney?: Journey; // Recorded login flow; its `fill` values are treated as secrets
+}
+
+/**
+ * Credentials for a job, stored apart from the job body
+ */
+export interface JobCredentials {
+  jobId: string;
+  baseline?: SiteAuthConfig;
+  candidate?: SiteAuthConfig;
+  updatedAt: string;
 }
 
 /**
@@ -43,8 +247,46 @@ export interface TestMatrix {
   functional: boolean; // Functional testing (interactions, forms, navigation)
   data: boolean; // Data validation (content, API responses)
   seo: boolean; // SEO comparison (meta tags, structured data, sitemap)
+  performance?: boolean; // Core Web Vitals and page weight against performanceBudgets
+  accessibility?: boolean; // WCAG checks (alt text, labels, contrast, landmarks, ARIA, keyboard)
+}
+
+/**
+ * Page performance metrics compared between the sites
+ * Timings are in ms, cls is unitless, the byte metrics count bytes on the wire.
+ */
+export type PerformanceMetric =
+  | 'lcp'
+  | 'cls'
+  | 'inp'
+  | 'tbt'
+  | 'fcp'
+  | 'ttfb'
+  | 'transferBytes'
+  | 'requestCount'
+  | 'jsBytes'
+  | 'cssBytes'
+  | 'imageBytes';
+
+/**
+ * How much worse than the baseline a candidate metric may get
+ * Every limit that is set must hold; e.g. { metric: 'lcp', maxRegressionPercent: 10 }
+ */
+export interface PerformanceBudget {
+  metric: PerformanceMetric;
+  maxRegressionPercent?: number; // Allowed increase over the baseline value, in percent
+  maxIncrease?: number; // Allowed increase over the baseline value, in the metric's unit
+  maxValue?: number; // Ceiling for the candidate value regardless of the baseline
 }
 
+/**
+ * Where a job's pages come from
+ * - crawl: follow links from the base URL plus sitemap entries (default)
+ * - sitemap: visit sitemap entries only, without link discovery
+ * - list: visit the uploaded urlList only
+ */
+export type UrlSource = 'crawl' | 'sitemap' | 'list';
+
 /**
  * ComparisonJob domain model
  * Always compares a baseline (production) website with a candidate (migrated/changed) website
@@ -56,7 +298,18 @@ export interface ComparisonJob {
   baselineUrl: string; // Production/baseline website URL
   candidateUrl: string; // Migrated/candidate website URL
   crawlConfig: CrawlConfig;
+  urlSource?: UrlSource; // How pages are discovered, 'crawl' when unset
+  urlList?: string[]; // Baseline paths visited when urlSource is 'list'
   pageMap?: PageMap[]; // Optional explicit page mappings (baseline ↔ candidate)
+  rewriteRules?: RewriteRule[]; // Ordered baseline → candidate path rewrites; the first matching rule wins
+  redirectMap?: RedirectRule[]; // Optional legacy URL redirects verified on the candidate host
+  visualMasks?: VisualMasks; // Optional regions excluded from visual diffs
+  captureOptions?: CaptureOptions; // Optional deterministic rendering controls for screenshots
+  captureProfiles?: CaptureProfile[]; // Viewports/devices captured on both sites; desktop, tablet and mobile when unset
+  throttling?: ThrottlingConfig; // Optional throttled load measurements compared per network profile
+  performanceBudgets?: PerformanceBudget[]; // Budgets checked by the performance agent; defaults when unset
+  interceptRules?: InterceptRule[]; // Optional third-party blocking, mocking and host rewrites on every page a run loads
+  journeys?: Journey[]; // Optional scripted user journeys run on both sites
   testMatrix: TestMatrix;
   status: JobStatus;
   createdAt: string;
@@ -66,6 +319,22 @@ export interface ComparisonJob {
   snapshotVersion?: string; // Version of snapshot format
 }
 
+/**
+ * Accepted visual change: later runs pass this path/viewport while the candidate still matches the image
+ */
+export interface VisualApproval {
+  id: string;
+  jobId: string;
+  normalizedPath: string;
+  viewport: string; // Capture profile name (e.g., 'desktop')
+  runId: string; // Run whose candidate rendering was approved
+  imageHash: string; // SHA-256 of the approved candidate screenshot
+  imagePath: string; // Stored copy of the approved candidate screenshot
+  approvedBy: string;
+  comment?: string;
+  approvedAt: string;
+}
+
 export interface RunArtifact {
   id: string;
   runId: string;
@@ -75,13 +344,50 @@ export interface RunArtifact {
   createdAt: string;
 }
 
+/**
+ * Phases of a comparison run, in execution order
+ */
+export type RunPhaseName =
+  | 'crawl'
+  | 'match'
+  | 'redirects'
+  | 'execute'
+  | 'functional'
+  | 'data'
+  | 'seo'
+  | 'performance'
+  | 'accessibility'
+  | 'journeys'
+  | 'visual'
+  | 'ai'
+  | 'report';
+
+export type RunPhaseStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+/**
+ * Status and timing of a single run phase
+ */
+export interface RunPhase {
+  name: RunPhaseName;
+  status: RunPhaseStatus;
+  startedAt?: string;
+  completedAt?: string;
+  durationMs?: number;
+  error?: string;
+  note?: string; // e.g. why the phase was skipped
+}
+
 export interface Run {
   id: string;
   jobId: string;
   status: RunStatus;
   triggeredBy: string;
   triggeredAt: string;
+  startedAt?: string;
   completedAt?: string;
+  phases?: RunPhase[]; // Per-phase progress, populated by the run pipeline
+  error?: string; // Error that failed the run, if any
+  resumedAt?: string; // Last time the run was resumed from its crawl checkpoint
 }
 
 /**
@@ -93,6 +399,7 @@ export interface StorageSnapshot {
   comparisonJobs: ComparisonJob[]; // Current job format
   runs: Run[];
   artifacts: RunArtifact[];
+  approvals?: VisualApproval[];
   metadata?: {
     lastMigration?: string; // ISO timestamp of last migration
     migrationNotes?: string; // Notes about migrations performed
@@ -102,6 +409,13 @@ export interface StorageSnapshot {
 export interface StoragePort {
   load(): Promise<StorageSnapshot>;
   save(snapshot: StorageSnapshot): Promise<void>;
+  // Apply a change to the latest snapshot without losing concurrent writes
+  update(mutator: (snapshot: StorageSnapshot) => StorageSnapshot): Promise<StorageSnapshot>;
+  // Row-level writes for the hot paths; each touches only its own rows. Undefined when the row doesn't exist
+  addRun(run: Run): Promise<void>;
+  updateRun(runId: string, mutator: (run: Run) => Run): Promise<Run | undefined>;
+  addArtifacts(artifacts: RunArtifact[]): Promise<void>;
+  updateComparisonJob(id: string, mutator: (job: ComparisonJob) => ComparisonJob): Promise<ComparisonJob | undefined>;
 }
 
 export interface ComparisonJobServicePort {
@@ -139,4 +453,7 @@ export interface RunServicePort {
   triggerRun(jobId: string, triggeredBy: string): Promise<Run>;
   // Enforces dual-site comparison for ComparisonJob runs
   triggerComparisonRun(jobId: string, triggeredBy: string): Promise<Run>;
+  cancelRun(runId: string): Promise<Run>;
+  // Re-queues a failed or cancelled run so its crawl continues from the last checkpoint
+  resumeRun(runId: string): Promise<Run>;
 }
@@ -1,14 +1,264 @@
+import { OutgoingHttpHeaders } from 'http';
 import { FastifyInstance, FastifyPluginOptions } from 'fastify';
 import fp from 'fastify-plugin';
 import { ComparisonJobService, RunService } from '../services/domainServices';
-import { FileStorage } from '../services/fileStorage';
-import { CrawlConfig, TestMatrix, PageMap } from '../models';
+import { createStorage } from '../services/storageFactory';
+import { RedirectAgent } from '../services/redirectAgent';
+import { CrawlAgent } from '../services/crawlAgent';
+import { dryRunRewriteRules, validateRewriteRules } from '../services/rewriteRules';
+import { validateCaptureProfiles } from '../services/captureProfiles';
+import { validateThrottling } from '../services/throttling';
+import { validateInterceptRules } from '../services/requestInterception';
+import { JourneyAgent } from '../services/journeyAgent';
+import { VisualApprovalService } from '../services/visualApprovalService';
+import { CredentialStore } from '../services/credentialStore';
+import { redactCredentials } from '../services/authService';
+import { RunEvent, isTerminalEvent } from '../services/runEvents';
+import {
+  CrawlConfig,
+  TestMatrix,
+  PageMap,
+  RewriteRule,
+  RedirectRule,
+  VisualMasks,
+  CaptureOptions,
+  CaptureProfile,
+  ThrottlingConfig,
+  PerformanceBudget,
+  InterceptRule,
+  Journey,
+  SiteAuthConfig,
+  UrlSource,
+} from '../models';
 
-const storage = new FileStorage();
+const storage = createStorage();
 const jobService = new ComparisonJobService(storage);
 const runService = new RunService(storage);
+const redirectAgent = new RedirectAgent();
+const crawlAgent = new CrawlAgent();
+const journeyAgent = new JourneyAgent();
+const approvalService = new VisualApprovalService(storage);
+const credentialStore = new CredentialStore();
 
 // Request/Response schemas for validation
+const redirectMapSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    required: ['from', 'to'],
+    properties: {
+      from: { type: 'string', minLength: 1 },
+      to: { type: 'string', minLength: 1 },
+      expectedStatus: { type: 'number', enum: [301, 302, 303, 307, 308] },
+    },
+  },
+};
+
+const rewriteRulesSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    required: ['pattern', 'replacement'],
+    properties: {
+      name: { type: 'string', minLength: 1 },
+      pattern: { type: 'string', minLength: 1 },
+      replacement: { type: 'string' },
+      flags: { type: 'string', pattern: '^[imsu]*$' },
+    },
+  },
+};
+
+const captureOptionsSchema = {
+  type: 'object',
+  properties: {
+    freezeTime: { anyOf: [{ type: 'boolean' }, { type: 'string', format: 'date-time' }] },
+    disableAnimations: { type: 'boolean' },
+    hideCaret: { type: 'boolean' },
+    scrollToLoad: { type: 'boolean' },
+    waitForFonts: { type: 'boolean' },
+    randomSeed: { type: 'integer', minimum: 0, maximum: 4294967295 },
+  },
+};
+
+const captureProfilesSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    required: ['name', 'width', 'height'],
+    properties: {
+      name: { type: 'string', pattern: '^[A-Za-z0-9_-]+$' },
+      width: { type: 'integer', minimum: 1, maximum: 7680 },
+      height: { type: 'integer', minimum: 1, maximum: 4320 },
+      deviceScaleFactor: { type: 'number', exclusiveMinimum: 0, maximum: 4 },
+      isMobile: { type: 'boolean' },
+      hasTouch: { type: 'boolean' },
+      userAgent: { type: 'string', minLength: 1 },
+      locale: { type: 'string', minLength: 1 },
+      timezoneId: { type: 'string', minLength: 1 },
+      colorScheme: { type: 'string', enum: ['light', 'dark', 'no-preference'] },
+      reducedMotion: { type: 'string', enum: ['reduce', 'no-preference'] },
+    },
+  },
+};
+
+const throttlingSchema = {
+  type: 'object',
+  properties: {
+    networkProfiles: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          preset: { type: 'string', enum: ['slow-3g', 'fast-3g', '4g'] },
+          latencyMs: { type: 'number', minimum: 0, maximum: 60000 },
+          downloadKbps: { type: 'number', exclusiveMinimum: 0 },
+          uploadKbps: { type: 'number', exclusiveMinimum: 0 },
+        },
+      },
+    },
+    cpuSlowdown: { type: 'number', minimum: 1, maximum: 20 },
+  },
+};
+
+const performanceBudgetsSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    required: ['metric'],
+    properties: {
+      metric: {
+        type: 'string',
+        enum: ['lcp', 'cls', 'inp', 'tbt', 'fcp', 'ttfb', 'transferBytes', 'requestCount', 'jsBytes', 'cssBytes', 'imageBytes'],
+      },
+      maxRegressionPercent: { type: 'number', minimum: 0 },
+      maxIncrease: { type: 'number', minimum: 0 },
+      maxValue: { type: 'number', minimum: 0 },
+    },
+  },
+};
+
+const interceptRulesSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    required: ['action', 'pattern'],
+    properties: {
+      action: { type: 'string', enum: ['block', 'mock', 'rewrite'] },
+      pattern: { type: 'string', minLength: 1 },
+      site: { type: 'string', enum: ['baseline', 'candidate'] },
+      fixture: { type: 'string', minLength: 1 },
+      status: { type: 'integer', minimum: 100, maximum: 599 },
+      contentType: { type: 'string' },
+      rewriteHost: { type: 'string', minLength: 1 },
+    },
+  },
+};
+
+const visualMasksSchema = {
+  type: 'object',
+  properties: {
+    selectors: { type: 'array', items: { type: 'string', minLength: 1 } },
+    ignoreRegions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['x', 'y', 'width', 'height'],
+        properties: {
+          x: { type: 'number', minimum: 0 },
+          y: { type: 'number', minimum: 0 },
+          width: { type: 'number', exclusiveMinimum: 0 },
+          height: { type: 'number', exclusiveMinimum: 0 },
+          pathPattern: { type: 'string', minLength: 1 },
+          viewport: { type: 'string', minLength: 1 },
+        },
+      },
+    },
+  },
+};
+
+const journeysSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    required: ['name', 'steps'],
+    properties: {
+      name: { type: 'string', minLength: 1 },
+      description: { type: 'string' },
+      steps: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: ['action'],
+          properties: {
+            action: {
+              type: 'string',
+              enum: ['goto', 'click', 'fill', 'select', 'waitFor', 'assertText', 'assertUrl', 'screenshot'],
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+const siteAuthSchema = {
+  type: 'object',
+  properties: {
+    basic: {
+      type: 'object',
+      required: ['username', 'password'],
+      properties: {
+        username: { type: 'string', minLength: 1 },
+        password: { type: 'string' },
+      },
+    },
+    headers: { type: 'object', additionalProperties: { type: 'string' } },
+    cookies: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'value'],
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          value: { type: 'string' },
+          domain: { type: 'string', minLength: 1 },
+          path: { type: 'string', minLength: 1 },
+          expires: { type: 'number' },
+          httpOnly: { type: 'boolean' },
+          secure: { type: 'boolean' },
+          sameSite: { type: 'string', enum: ['Strict', 'Lax', 'None'] },
+        },
+      },
+    },
+    loginJourney: journeysSchema.items,
+  },
+};
+
+const credentialsSchema = {
+  type: 'object',
+  minProperties: 1,
+  properties: {
+    baseline: siteAuthSchema,
+    candidate: siteAuthSchema,
+  },
+};
+
+const normalizationSchema = {
+  type: 'object',
+  properties: {
+    queryParams: { type: 'string', enum: ['drop', 'keep'] },
+    significantParams: { type: 'array', items: { type: 'string', minLength: 1 } },
+    stripTrackingParams: { type: 'boolean' },
+    trailingSlash: { type: 'string', enum: ['strip', 'keep', 'add'] },
+    caseInsensitivePaths: { type: 'boolean' },
+    collapseIndexFiles: { type: 'boolean' },
+    stripFragments: { type: 'boolean' },
+  },
+};
+
 const createJobSchema = {
   type: 'object',
   required: ['name', 'baselineUrl', 'candidateUrl'],
@@ -25,8 +275,18 @@ const createJobSchema = {
         excludePaths: { type: 'array', items: { type: 'string' } },
         maxPages: { type: 'number', minimum: 1 },
         followExternalLinks: { type: 'boolean' },
+        respectRobotsTxt: { type: 'boolean' },
+        concurrency: { type: 'integer', minimum: 1, maximum: 16 },
+        requestsPerSecond: { type: 'number', exclusiveMinimum: 0, maximum: 100 },
+        maxRetries: { type: 'integer', minimum: 0, maximum: 10 },
+        retryDelayMs: { type: 'integer', minimum: 0, maximum: 60000 },
+        minMatchConfidence: { type: 'number', minimum: 0, maximum: 1 },
+        normalization: normalizationSchema,
+        spaDiscovery: { type: 'boolean' },
+        spaMaxInteractions: { type: 'integer', minimum: 1, maximum: 100 },
       },
     },
+    urlSource: { type: 'string', enum: ['crawl', 'sitemap', 'list'] },
     pageMap: {
       type: 'array',
       items: {
@@ -35,9 +295,19 @@ const createJobSchema = {
           baselinePath: { type: 'string' },
           candidatePath: { type: 'string' },
           notes: { type: 'string' },
+          rule: { type: 'string' },
         },
       },
     },
+    rewriteRules: rewriteRulesSchema,
+    redirectMap: redirectMapSchema,
+    visualMasks: visualMasksSchema,
+    captureOptions: captureOptionsSchema,
+    captureProfiles: captureProfilesSchema,
+    throttling: throttlingSchema,
+    performanceBudgets: performanceBudgetsSchema,
+    interceptRules: interceptRulesSchema,
+    journeys: journeysSchema,
     testMatrix: {
       type: 'object',
       properties: {
@@ -45,6 +315,8 @@ const createJobSchema = {
         functional: { type: 'boolean' },
         data: { type: 'boolean' },
         seo: { type: 'boolean' },
+        performance: { type: 'boolean' },
+        accessibility: { type: 'boolean' },
       },
     },
   },
@@ -65,8 +337,18 @@ const updateJobSchema = {
         excludePaths: { type: 'array', items: { type: 'string' } },
         maxPages: { type: 'number', minimum: 1 },
         followExternalLinks: { type: 'boolean' },
+        respectRobotsTxt: { type: 'boolean' },
+        concurrency: { type: 'integer', minimum: 1, maximum: 16 },
+        requestsPerSecond: { type: 'number', exclusiveMinimum: 0, maximum: 100 },
+        maxRetries: { type: 'integer', minimum: 0, maximum: 10 },
+        retryDelayMs: { type: 'integer', minimum: 0, maximum: 60000 },
+        minMatchConfidence: { type: 'number', minimum: 0, maximum: 1 },
+        normalization: normalizationSchema,
+        spaDiscovery: { type: 'boolean' },
+        spaMaxInteractions: { type: 'integer', minimum: 1, maximum: 100 },
       },
     },
+    urlSource: { type: 'string', enum: ['crawl', 'sitemap', 'list'] },
     pageMap: {
       type: 'array',
       items: {
@@ -75,9 +357,19 @@ const updateJobSchema = {
           baselinePath: { type: 'string' },
           candidatePath: { type: 'string' },
           notes: { type: 'string' },
+          rule: { type: 'string' },
         },
       },
     },
+    rewriteRules: rewriteRulesSchema,
+    redirectMap: redirectMapSchema,
+    visualMasks: visualMasksSchema,
+    captureOptions: captureOptionsSchema,
+    captureProfiles: captureProfilesSchema,
+    throttling: throttlingSchema,
+    performanceBudgets: performanceBudgetsSchema,
+    interceptRules: interceptRulesSchema,
+    journeys: journeysSchema,
     testMatrix: {
       type: 'object',
       properties: {
@@ -85,12 +377,61 @@ const updateJobSchema = {
         functional: { type: 'boolean' },
         data: { type: 'boolean' },
         seo: { type: 'boolean' },
+        performance: { type: 'boolean' },
+        accessibility: { type: 'boolean' },
       },
     },
     status: { type: 'string', enum: ['pending', 'active', 'completed', 'failed'] },
   },
 };
 
+const uploadRedirectMapSchema = {
+  type: 'object',
+  required: ['content'],
+  properties: {
+    format: { type: 'string', enum: ['csv', 'json'], default: 'csv' },
+    content: { type: 'string', minLength: 1 },
+  },
+};
+
+const uploadUrlListSchema = {
+  type: 'object',
+  required: ['content'],
+  properties: {
+    format: { type: 'string', enum: ['csv', 'txt'], default: 'txt' },
+    content: { type: 'string', minLength: 1 },
+  },
+};
+
+const uploadJourneysSchema = {
+  type: 'object',
+  required: ['content'],
+  properties: {
+    format: { type: 'string', enum: ['json', 'yaml'], default: 'yaml' },
+    content: { type: 'string', minLength: 1 },
+  },
+};
+
+const approveVisualChangeSchema = {
+  type: 'object',
+  required: ['runId', 'normalizedPath', 'viewport'],
+  properties: {
+    runId: { type: 'string', minLength: 1 },
+    normalizedPath: { type: 'string', minLength: 1 },
+    viewport: { type: 'string', minLength: 1 },
+    approvedBy: { type: 'string', default: 'system' },
+    comment: { type: 'string' },
+  },
+};
+
+const rewriteDryRunSchema = {
+  type: 'object',
+  properties: {
+    rules: rewriteRulesSchema,
+    runId: { type: 'string', minLength: 1 },
+  },
+};
+
 const triggerRunSchema = {
   type: 'object',
   properties: {
@@ -104,7 +445,17 @@ interface CreateJobBody {
   baselineUrl: string;
   candidateUrl: string;
   crawlConfig?: CrawlConfig;
+  urlSource?: UrlSource;
   pageMap?: PageMap[];
+  rewriteRules?: RewriteRule[];
+  redirectMap?: RedirectRule[];
+  visualMasks?: VisualMasks;
+  captureOptions?: CaptureOptions;
+  captureProfiles?: CaptureProfile[];
+  throttling?: ThrottlingConfig;
+  performanceBudgets?: PerformanceBudget[];
+  interceptRules?: InterceptRule[];
+  journeys?: Journey[];
   testMatrix?: TestMatrix;
 }
 
@@ -114,16 +465,67 @@ interface UpdateJobBody {
   baselineUrl?: string;
   candidateUrl?: string;
   crawlConfig?: CrawlConfig;
+  urlSource?: UrlSource;
   pageMap?: PageMap[];
+  rewriteRules?: RewriteRule[];
+  redirectMap?: RedirectRule[];
+  visualMasks?: VisualMasks;
+  captureOptions?: CaptureOptions;
+  captureProfiles?: CaptureProfile[];
+  throttling?: ThrottlingConfig;
+  performanceBudgets?: PerformanceBudget[];
+  interceptRules?: InterceptRule[];
+  journeys?: Journey[];
   testMatrix?: TestMatrix;
   status?: 'pending' | 'active' | 'completed' | 'failed';
 }
 
+interface UploadRedirectMapBody {
+  format?: 'csv' | 'json';
+  content: string;
+}
+
+interface UploadUrlListBody {
+  format?: 'csv' | 'txt';
+  content: string;
+}
+
+interface UploadJourneysBody {
+  format?: 'json' | 'yaml';
+  content: string;
+}
+
+interface ApproveVisualChangeBody {
+  runId: string;
+  normalizedPath: string;
+  viewport: string;
+  approvedBy?: string;
+  comment?: string;
+}
+
+interface CredentialsBody {
+  baseline?: SiteAuthConfig;
+  candidate?: SiteAuthConfig;
+}
+
+interface RewriteDryRunBody {
+  rules?: RewriteRule[];
+  runId?: string;
+}
+
 interface TriggerRunBody {
   triggeredBy?: string;
 }
 
 async function apiRoutes(fastify: FastifyInstance, _opts: FastifyPluginOptions) {
+  // Recover runs left queued/running by a previous process before serving requests
+  fastify.addHook('onReady', async () => {
+    const { requeued, failed } = await runService.recoverRuns();
+    if (requeued > 0 || failed > 0) {
+      fastify.log.info(`Recovered orphaned runs: ${requeued} re-queued, ${failed} marked failed`);
+    }
+  });
+
   // ComparisonJobs - CRUD operations
   fastify.post<{ Body: CreateJobBody }>(
     '/api/jobs',
@@ -138,7 +540,17 @@ async function apiRoutes(fastify: FastifyInstance, _opts: FastifyPluginOptions)
           baselineUrl: string;
           candidateUrl: string;
           crawlConfig?: CrawlConfig;
+          urlSource?: UrlSource;
           pageMap?: PageMap[];
+          rewriteRules?: RewriteRule[];
+          redirectMap?: RedirectRule[];
+          visualMasks?: VisualMasks;
+          captureOptions?: CaptureOptions;
+          captureProfiles?: CaptureProfile[];
+          throttling?: ThrottlingConfig;
+          performanceBudgets?: PerformanceBudget[];
+          interceptRules?: InterceptRule[];
+          journeys?: Journey[];
           testMatrix?: TestMatrix;
         } = {
           name: body.name,
@@ -150,9 +562,39 @@ async function apiRoutes(fastify: FastifyInstance, _opts: FastifyPluginOptions)
         if (body.crawlConfig) {
           createInput.crawlConfig = body.crawlConfig;
         }
+        if (body.urlSource) {
+          createInput.urlSource = body.urlSource;
+        }
         if (body.pageMap) {
           createInput.pageMap = body.pageMap;
         }
+        if (body.rewriteRules) {
+          createInput.rewriteRules = validateRewriteRules(body.rewriteRules);
+        }
+        if (body.redirectMap) {
+          createInput.redirectMap = body.redirectMap;
+        }
+        if (body.visualMasks) {
+          createInput.visualMasks = body.visualMasks;
+        }
+        if (body.captureOptions) {
+          createInput.captureOptions = body.captureOptions;
+        }
+        if (body.captureProfiles) {
+          createInput.captureProfiles = validateCaptureProfiles(body.captureProfiles);
+        }
+        if (body.throttling) {
+          createInput.throttling = validateThrottling(body.throttling);
+        }
+        if (body.performanceBudgets) {
+          createInput.performanceBudgets = body.performanceBudgets;
+        }
+        if (body.interceptRules) {
+          createInput.interceptRules = validateInterceptRules(body.interceptRules);
+        }
+        if (body.journeys) {
+          createInput.journeys = journeyAgent.validateJourneys(body.journeys);
+        }
         if (body.testMatrix) {
           createInput.testMatrix = body.testMatrix;
         }
@@ -162,7 +604,15 @@ async function apiRoutes(fastify: FastifyInstance, _opts: FastifyPluginOptions)
         reply.code(201).send(job);
       } catch (err) {
         if (err instanceof Error) {
-          if (err.message.includes('required') || err.message.includes('different')) {
+          if (
+            err.message.includes('required') ||
+            err.message.includes('different') ||
+            err.message.includes('Invalid journey') ||
+            err.message.includes('Invalid rewrite rule') ||
+            err.message.includes('Invalid capture profile') ||
+            err.message.includes('Invalid throttling') ||
+            err.message.includes('Invalid intercept rule')
+          ) {
             reply.code(400).send({ message: err.message });
             return;
           }
@@ -195,6 +645,21 @@ async function apiRoutes(fastify: FastifyInstance, _opts: FastifyPluginOptions)
       const body = request.body;
 
       try {
+        if (body.journeys) {
+          journeyAgent.validateJourneys(body.journeys);
+        }
+        if (body.rewriteRules) {
+          validateRewriteRules(body.rewriteRules);
+        }
+        if (body.captureProfiles) {
+          validateCaptureProfiles(body.captureProfiles);
+        }
+        if (body.throttling) {
+          validateThrottling(body.throttling);
+        }
+        if (body.interceptRules) {
+          validateInterceptRules(body.interceptRules);
+        }
         const job = await jobService.updateJob(id, body);
         reply.send(job);
       } catch (err) {
@@ -203,7 +668,15 @@ async function apiRoutes(fastify: FastifyInstance, _opts: FastifyPluginOptions)
             reply.code(404).send({ message: 'Job not found' });
             return;
           }
-          if (err.message.includes('required') || err.message.includes('different')) {
+          if (
+            err.message.includes('required') ||
+            err.message.includes('different') ||
+            err.message.includes('Invalid journey') ||
+            err.message.includes('Invalid rewrite rule') ||
+            err.message.includes('Invalid capture profile') ||
+            err.message.includes('Invalid throttling') ||
+            err.message.includes('Invalid intercept rule')
+          ) {
             reply.code(400).send({ message: err.message });
             return;
           }
@@ -220,9 +693,258 @@ async function apiRoutes(fastify: FastifyInstance, _opts: FastifyPluginOptions)
       reply.code(404).send({ message: 'Job not found' });
       return;
     }
+    await credentialStore.remove(id);
     reply.code(204).send();
   });
 
+  // Attach a legacy redirect map (CSV or JSON) to a job
+  fastify.put<{ Params: { id: string }; Body: UploadRedirectMapBody }>(
+    '/api/jobs/:id/redirect-map',
+    { schema: { body: uploadRedirectMapSchema } },
+    async (request, reply) => {
+      const { id } = request.params;
+      const { format = 'csv', content } = request.body;
+
+      try {
+        const redirectMap = redirectAgent.parseRedirectMap(content, format);
+        const job = await jobService.updateJob(id, { redirectMap });
+        reply.send({ count: redirectMap.length, redirectMap: job.redirectMap });
+      } catch (err) {
+        if (err instanceof Error) {
+          if (err.message.includes('not found')) {
+            reply.code(404).send({ message: 'Job not found' });
+            return;
+          }
+          if (err.message.includes('Invalid redirect map')) {
+            reply.code(400).send({ message: err.message });
+            return;
+          }
+        }
+        throw err;
+      }
+    }
+  );
+
+  // Replace crawling with an uploaded list of baseline paths (CSV first column or one per line)
+  fastify.put<{ Params: { id: string }; Body: UploadUrlListBody }>(
+    '/api/jobs/:id/url-list',
+    { schema: { body: uploadUrlListSchema } },
+    async (request, reply) => {
+      const { id } = request.params;
+      const { format = 'txt', content } = request.body;
+      const job = await jobService.getJobById(id);
+      if (!job) {
+        reply.code(404).send({ message: 'Job not found' });
+        return;
+      }
+
+      try {
+        const { paths, duplicates, excluded, invalid } = crawlAgent.importUrlList(content, format, job);
+        const updated = await jobService.updateJob(id, { urlSource: 'list', urlList: paths });
+        reply.send({ count: paths.length, duplicates, excluded, invalid, urlSource: updated.urlSource });
+      } catch (err) {
+        if (err instanceof Error) {
+          if (err.message.includes('not found')) {
+            reply.code(404).send({ message: 'Job not found' });
+            return;
+          }
+          if (err.message.includes('Invalid URL list')) {
+            reply.code(400).send({ message: err.message });
+            return;
+          }
+        }
+        throw err;
+      }
+    }
+  );
+
+  // Preview rewrite rules against the baseline paths crawled by a run (latest run by default)
+  fastify.post<{ Params: { id: string }; Body: RewriteDryRunBody }>(
+    '/api/jobs/:id/rewrite-rules/dry-run',
+    { schema: { body: rewriteDryRunSchema } },
+    async (request, reply) => {
+      const { id } = request.params;
+      const job = await jobService.getJobById(id);
+      if (!job) {
+        reply.code(404).send({ message: 'Job not found' });
+        return;
+      }
+
+      const body = request.body ?? {};
+      const runs = (await runService.listRuns())
+        .filter((r) => r.jobId === id && (!body.runId || r.id === body.runId))
+        .sort((a, b) => b.triggeredAt.localeCompare(a.triggeredAt));
+
+      try {
+        const rules = validateRewriteRules(body.rules ?? job.rewriteRules ?? []);
+        for (const run of runs) {
+          try {
+            const crawl = await crawlAgent.loadCrawlResults(run.id);
+            reply.send({
+              runId: run.id,
+              ...dryRunRewriteRules(
+                rules,
+                crawl.baseline.pages.map((p) => p.normalizedPath),
+                crawl.candidate.pages.map((p) => p.normalizedPath),
+                job.crawlConfig.normalization
+              ),
+            });
+            return;
+          } catch (err) {
+            // Runs that never finished crawling have no results, try the next one
+            if (!(err instanceof Error && err.message.includes('not found'))) throw err;
+          }
+        }
+        reply.code(404).send({
+          message: body.runId ? `Crawl results for run ${body.runId} not found` : 'No crawled runs for this job',
+        });
+      } catch (err) {
+        if (err instanceof Error && err.message.includes('Invalid rewrite rule')) {
+          reply.code(400).send({ message: err.message });
+          return;
+        }
+        throw err;
+      }
+    }
+  );
+
+  // Attach scripted user journeys (JSON or YAML) to a job
+  fastify.put<{ Params: { id: string }; Body: UploadJourneysBody }>(
+    '/api/jobs/:id/journeys',
+    { schema: { body: uploadJourneysSchema } },
+    async (request, reply) => {
+      const { id } = request.params;
+      const { format = 'yaml', content } = request.body;
+
+      try {
+        const journeys = journeyAgent.parseJourneys(content, format);
+        const job = await jobService.updateJob(id, { journeys });
+        reply.send({ count: journeys.length, journeys: job.journeys });
+      } catch (err) {
+        if (err instanceof Error) {
+          if (err.message.includes('not found')) {
+            reply.code(404).send({ message: 'Job not found' });
+            return;
+          }
+          if (err.message.includes('Invalid journey')) {
+            reply.code(400).send({ message: err.message });
+            return;
+          }
+        }
+        throw err;
+      }
+    }
+  );
+
+  // Site credentials - stored apart from the job and only ever returned redacted
+  fastify.get<{ Params: { id: string } }>('/api/jobs/:id/credentials', async (request, reply) => {
+    const { id } = request.params;
+    const credentials = await credentialStore.get(id);
+    if (!credentials) {
+      reply.code(404).send({ message: 'Credentials not found' });
+      return;
+    }
+    reply.send(redactCredentials(credentials));
+  });
+
+  fastify.put<{ Params: { id: string }; Body: CredentialsBody }>(
+    '/api/jobs/:id/credentials',
+    { schema: { body: credentialsSchema } },
+    async (request, reply) => {
+      const { id } = request.params;
+      const job = await jobService.getJobById(id);
+      if (!job) {
+        reply.code(404).send({ message: 'Job not found' });
+        return;
+      }
+
+      const { baseline, candidate } = request.body;
+      try {
+        for (const config of [baseline, candidate]) {
+          if (config?.loginJourney) {
+            journeyAgent.validateJourneys([config.loginJourney]);
+          }
+        }
+      } catch (err) {
+        if (err instanceof Error && err.message.includes('Invalid journey')) {
+          reply.code(400).send({ message: err.message });
+          return;
+        }
+        throw err;
+      }
+
+      const credentials = await credentialStore.set(id, { baseline, candidate });
+      reply.send(redactCredentials(credentials));
+    }
+  );
+
+  fastify.delete<{ Params: { id: string } }>('/api/jobs/:id/credentials', async (request, reply) => {
+    const { id } = request.params;
+    const removed = await credentialStore.remove(id);
+    if (!removed) {
+      reply.code(404).send({ message: 'Credentials not found' });
+      return;
+    }
+    reply.code(204).send();
+  });
+
+  // Visual approvals - accepted visual changes that later runs auto-pass
+  fastify.get<{ Params: { id: string } }>('/api/jobs/:id/approvals', async (request, reply) => {
+    const { id } = request.params;
+    const job = await jobService.getJobById(id);
+    if (!job) {
+      reply.code(404).send({ message: 'Job not found' });
+      return;
+    }
+    reply.send(await approvalService.listApprovals(id));
+  });
+
+  fastify.post<{ Params: { id: string }; Body: ApproveVisualChangeBody }>(
+    '/api/jobs/:id/approvals',
+    { schema: { body: approveVisualChangeSchema } },
+    async (request, reply) => {
+      const { id } = request.params;
+      const job = await jobService.getJobById(id);
+      if (!job) {
+        reply.code(404).send({ message: 'Job not found' });
+        return;
+      }
+
+      try {
+        const approval = await approvalService.approve(id, {
+          ...request.body,
+          approvedBy: request.body.approvedBy ?? 'system',
+        });
+        reply.code(201).send(approval);
+      } catch (err) {
+        if (err instanceof Error) {
+          if (err.message.includes('not found')) {
+            reply.code(404).send({ message: err.message });
+            return;
+          }
+          if (err.message.includes('does not belong')) {
+            reply.code(400).send({ message: err.message });
+            return;
+          }
+        }
+        throw err;
+      }
+    }
+  );
+
+  fastify.delete<{ Params: { id: string; approvalId: string } }>(
+    '/api/jobs/:id/approvals/:approvalId',
+    async (request, reply) => {
+      const { id, approvalId } = request.params;
+      const revoked = await approvalService.revoke(id, approvalId);
+      if (!revoked) {
+        reply.code(404).send({ message: 'Approval not found' });
+        return;
+      }
+      reply.code(204).send();
+    }
+  );
+
   // Migration endpoint (optional, for manual migration)
   fastify.post('/api/jobs/migrate', async (_request, reply) => {
     try {
@@ -286,6 +1008,124 @@ async function apiRoutes(fastify: FastifyInstance, _opts: FastifyPluginOptions)
     const artifacts = await runService.listArtifactsByRun(id);
     reply.send(artifacts);
   });
+
+  // Live run progress as Server-Sent Events
+  fastify.get<{ Params: { id: string } }>('/api/runs/:id/events', async (request, reply) => {
+    const { id } = request.params;
+
+    // Subscribe before reading the run so nothing published in between is lost; the history read in
+    // the same tick holds what came before, and events arriving until the stream is live wait in `pending`
+    const pending: RunEvent[] = [];
+    let live = false;
+    const unsubscribe = runService.events.subscribe(id, (event) => (live ? forward(event) : pending.push(event)));
+    const history = runService.events.history(id);
+
+    const run = await runService.getRunById(id);
+    if (!run) {
+      unsubscribe();
+      reply.code(404).send({ message: 'Run not found' });
+      return;
+    }
+
+    // Take over the raw response, keeping headers set by hooks (e.g. CORS)
+    reply.hijack();
+    reply.raw.writeHead(200, {
+      ...(reply.getHeaders() as OutgoingHttpHeaders),
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+
+    const send = (event: RunEvent) => {
+      reply.raw.write(`data: ${JSON.stringify(event)}\n\n`);
+    };
+
+    // Current state first, then the events the stored state doesn't cover
+    const timestamp = new Date().toISOString();
+    send({ type: 'status', status: run.status, error: run.error, runId: id, timestamp });
+    for (const phase of run.phases ?? []) {
+      const { name, status, durationMs, error } = phase;
+      send({ type: 'phase', phase: name, status, durationMs, error, runId: id, timestamp });
+    }
+
+    const heartbeat = setInterval(() => reply.raw.write(': ping\n\n'), 15000);
+    let closed = false;
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+      reply.raw.end();
+    };
+    request.raw.on('close', close);
+
+    if (['completed', 'failed', 'cancelled'].includes(run.status)) {
+      close();
+      return;
+    }
+
+    // Status and phase events from before the run was read are already part of the state sent above
+    const catchUp = [...history.filter((event) => event.type !== 'status' && event.type !== 'phase'), ...pending];
+    for (const event of catchUp) {
+      send(event);
+      if (isTerminalEvent(event)) {
+        close();
+        return;
+      }
+    }
+
+    function forward(event: RunEvent) {
+      send(event);
+      if (isTerminalEvent(event)) {
+        close();
+      }
+    }
+    live = true;
+  });
+
+  // Cancel a queued or running run
+  fastify.post<{ Params: { id: string } }>('/api/runs/:id/cancel', async (request, reply) => {
+    const { id } = request.params;
+
+    try {
+      const run = await runService.cancelRun(id);
+      reply.send(run);
+    } catch (err) {
+      if (err instanceof Error) {
+        if (err.message.includes('not found')) {
+          reply.code(404).send({ message: 'Run not found' });
+          return;
+        }
+        if (err.message.includes('cannot be cancelled')) {
+          reply.code(409).send({ message: err.message });
+          return;
+        }
+      }
+      throw err;
+    }
+  });
+
+  // Resume a failed or cancelled run from its last crawl checkpoint
+  fastify.post<{ Params: { id: string } }>('/api/runs/:id/resume', async (request, reply) => {
+    const { id } = request.params;
+
+    try {
+      const run = await runService.resumeRun(id);
+      reply.code(202).send(run);
+    } catch (err) {
+      if (err instanceof Error) {
+        if (err.message.includes('not found')) {
+          reply.code(404).send({ message: 'Run not found' });
+          return;
+        }
+        if (err.message.includes('cannot be resumed')) {
+          reply.code(409).send({ message: err.message });
+          return;
+        }
+      }
+      throw err;
+    }
+  });
 }
 
 export default fp(apiRoutes);
@@ -0,0 +1,55 @@
+/**
+ * One-shot importer: copies snapshot.json into the SQLite database
+ *
+ * Usage: npm run import:sqlite -- [--snapshot <file>] [--db <file>] [--force]
+ */
+import { existsSync } from 'fs';
+import { SNAPSHOT_FILE, SQLITE_FILE } from '../config/config';
+import { FileStorage } from '../services/fileStorage';
+import { SqliteStorage } from '../services/sqliteStorage';
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main(): Promise<void> {
+  const snapshotFile = argValue('--snapshot') ?? SNAPSHOT_FILE;
+  const dbFile = argValue('--db') ?? SQLITE_FILE;
+  const force = process.argv.includes('--force');
+
+  if (!existsSync(snapshotFile)) {
+    throw new Error(`Snapshot file ${snapshotFile} not found`);
+  }
+
+  const snapshot = await new FileStorage(snapshotFile).load();
+  const sqlite = new SqliteStorage(dbFile);
+
+  try {
+    if (!force && !(await sqlite.isEmpty())) {
+      throw new Error(`Database ${dbFile} already contains data, use --force to overwrite it`);
+    }
+
+    await sqlite.save({
+      ...snapshot,
+      metadata: {
+        ...snapshot.metadata,
+        lastMigration: new Date().toISOString(),
+        migrationNotes: `Imported from ${snapshotFile}`,
+      },
+    });
+
+    console.log(
+      `Imported ${snapshot.comparisonJobs.length} jobs, ${snapshot.jobs?.length ?? 0} legacy jobs, ` +
+        `${snapshot.runs.length} runs, ${snapshot.artifacts.length} artifacts and ` +
+        `${snapshot.approvals?.length ?? 0} visual approvals into ${dbFile}`
+    );
+  } finally {
+    sqlite.close();
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,511 @@
+import { BrowserContext, Page } from 'playwright';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DATA_DIR } from '../config/config';
+import { MatchedPage } from './crawlAgent';
+
+/**
+ * Severity levels for accessibility issues
+ */
+export type AccessibilitySeverity = 'none' | 'low' | 'medium' | 'high' | 'critical';
+
+/**
+ * Accessibility checks run on every page
+ */
+export type AccessibilityRule =
+  | 'image-alt'
+  | 'form-label'
+  | 'color-contrast'
+  | 'landmarks'
+  | 'heading-order'
+  | 'aria'
+  | 'focus-order'
+  | 'keyboard-trap';
+
+/**
+ * Issue found by an in-page check, before it is mapped to its rule's WCAG criteria
+ * `key` identifies the same problem on both sites (image file, field name, text) since selectors change in a migration.
+ */
+export interface RawAccessibilityIssue {
+  rule: AccessibilityRule;
+  selector: string;
+  key: string;
+  message: string;
+}
+
+/**
+ * A single accessibility issue on one site
+ */
+export interface AccessibilityIssue extends RawAccessibilityIssue {
+  severity: AccessibilitySeverity;
+  wcag: string[]; // Success criteria, e.g. '1.1.1 Non-text Content (A)'
+}
+
+/**
+ * Audit of one page on one site
+ */
+export interface PageAccessibilityAudit {
+  url: string;
+  status?: number; // HTTP status of the page load
+  issues: AccessibilityIssue[];
+  score: number; // 0-100, lower with every issue weighted by severity
+  error?: string; // Set when the page couldn't be audited, e.g. it failed to load or answered with an error page
+}
+
+/**
+ * Accessibility comparison for a matched page
+ */
+export interface PageAccessibilityResult {
+  normalizedPath: string;
+  baselineUrl: string;
+  candidateUrl: string;
+  baseline: PageAccessibilityAudit;
+  candidate: PageAccessibilityAudit;
+  newIssues: AccessibilityIssue[]; // Only on the candidate
+  fixedIssues: AccessibilityIssue[]; // Only on the baseline
+  unchangedIssues: number; // On both sites
+  overallSeverity: AccessibilitySeverity; // Highest severity among new issues
+}
+
+/**
+ * Complete accessibility comparison result
+ */
+export interface AccessibilityResult {
+  pages: PageAccessibilityResult[];
+  summary: {
+    totalPages: number;
+    pagesWithNewIssues: number;
+    newIssues: number;
+    fixedIssues: number;
+    criticalIssues: number; // New issues by severity
+    highIssues: number;
+    mediumIssues: number;
+    lowIssues: number;
+    newIssuesByRule: Partial<Record<AccessibilityRule, number>>;
+    skippedPages: number; // Not compared: a side failed to load or didn't answer with a 2xx status
+    averageBaselineScore: number;
+    averageCandidateScore: number;
+  };
+  artifactPaths: string[];
+}
+
+/**
+ * WCAG 2.1 criteria and severity per rule
+ */
+export const ACCESSIBILITY_RULES: Record<AccessibilityRule, { severity: AccessibilitySeverity; wcag: string[] }> = {
+  'image-alt': { severity: 'high', wcag: ['1.1.1 Non-text Content (A)'] },
+  'form-label': { severity: 'high', wcag: ['1.3.1 Info and Relationships (A)', '4.1.2 Name, Role, Value (A)'] },
+  'color-contrast': { severity: 'medium', wcag: ['1.4.3 Contrast (Minimum) (AA)'] },
+  landmarks: { severity: 'low', wcag: ['1.3.1 Info and Relationships (A)', '2.4.1 Bypass Blocks (A)'] },
+  'heading-order': { severity: 'low', wcag: ['1.3.1 Info and Relationships (A)', '2.4.6 Headings and Labels (AA)'] },
+  aria: { severity: 'medium', wcag: ['4.1.2 Name, Role, Value (A)'] },
+  'focus-order': { severity: 'medium', wcag: ['2.4.3 Focus Order (A)'] },
+  'keyboard-trap': { severity: 'critical', wcag: ['2.1.2 No Keyboard Trap (A)'] },
+};
+
+/**
+ * Score deducted per issue
+ */
+const SEVERITY_WEIGHT: Record<AccessibilitySeverity, number> = { none: 0, low: 1, medium: 3, high: 5, critical: 15 };
+
+const SEVERITY_ORDER: AccessibilitySeverity[] = ['none', 'low', 'medium', 'high', 'critical'];
+
+/**
+ * Tab presses are capped so huge pages don't take minutes
+ */
+const MAX_TAB_PRESSES = 100;
+
+/**
+ * In-page checks for alt text, labels, contrast, landmarks, headings, ARIA and positive tabindex
+ * Self-contained so Playwright can serialize it into the page.
+ */
+export function auditDocument(): RawAccessibilityIssue[] {
+  const issues: RawAccessibilityIssue[] = [];
+  const MAX_TEXT_ELEMENTS = 500;
+  const ROLES = new Set(
+    ('alert alertdialog application article banner blockquote button caption cell checkbox code columnheader combobox ' +
+      'complementary contentinfo definition deletion dialog directory document emphasis feed figure form generic grid ' +
+      'gridcell group heading img insertion link list listbox listitem log main marquee math menu menubar menuitem ' +
+      'menuitemcheckbox menuitemradio meter navigation none note option paragraph presentation progressbar radio ' +
+      'radiogroup region row rowgroup rowheader scrollbar search searchbox separator slider spinbutton status strong ' +
+      'subscript superscript switch tab table tablist tabpanel term textbox time timer toolbar tooltip tree treegrid treeitem').split(' ')
+  );
+  const ARIA_ATTRIBUTES = new Set(
+    ('activedescendant atomic autocomplete busy checked colcount colindex colspan controls current describedby ' +
+      'description details disabled dropeffect errormessage expanded flowto grabbed haspopup hidden invalid ' +
+      'keyshortcuts label labelledby level live modal multiline multiselectable orientation owns placeholder ' +
+      'posinset pressed readonly relevant required roledescription rowcount rowindex rowspan selected setsize sort ' +
+      'valuemax valuemin valuenow valuetext').split(' ')
+  );
+
+  const selectorOf = (element: Element): string => {
+    const parts: string[] = [];
+    let node: Element | null = element;
+    while (node && node !== document.documentElement && parts.length < 5) {
+      if (node.id) {
+        parts.unshift(`#${CSS.escape(node.id)}`);
+        break;
+      }
+      let part = node.tagName.toLowerCase();
+      const parent: Element | null = node.parentElement;
+      const tagName = node.tagName;
+      const siblings = parent ? Array.from(parent.children).filter((child) => child.tagName === tagName) : [];
+      if (siblings.length > 1) part += `:nth-of-type(${siblings.indexOf(node) + 1})`;
+      parts.unshift(part);
+      node = parent;
+    }
+    return parts.join(' > ');
+  };
+  const textOf = (element: Element) => (element.textContent || '').replace(/\s+/g, ' ').trim().slice(0, 60);
+  const isVisible = (element: Element) => {
+    if (element.closest('[aria-hidden="true"]')) return false;
+    const style = getComputedStyle(element);
+    return style.visibility !== 'hidden' && element.getClientRects().length > 0;
+  };
+  const labelledByText = (element: Element) =>
+    (element.getAttribute('aria-labelledby') || '')
+      .split(/\s+/)
+      .map((id) => (id ? document.getElementById(id)?.textContent || '' : ''))
+      .join(' ')
+      .trim();
+  const accessibleName = (element: Element) =>
+    (element.getAttribute('aria-label') || '').trim() ||
+    labelledByText(element) ||
+    textOf(element) ||
+    (element.getAttribute('title') || '').trim() ||
+    Array.from(element.querySelectorAll('img[alt]')).map((img) => img.getAttribute('alt')).join(' ').trim();
+  const add = (rule: AccessibilityRule, element: Element | null, key: string, message: string) =>
+    issues.push({ rule, selector: element ? selectorOf(element) : 'html', key: `${rule}:${key}`, message });
+
+  // Images need a text alternative; alt="" marks decorative images
+  for (const image of Array.from(document.querySelectorAll('img:not([alt]), input[type="image"]:not([alt]), [role="img"]'))) {
+    if (!isVisible(image)) continue;
+    if (image.getAttribute('role') === 'img' && (image.getAttribute('aria-label') || labelledByText(image))) continue;
+    if (image.tagName === 'IMG' && ['presentation', 'none'].includes(image.getAttribute('role') || '')) continue;
+    const src = image.getAttribute('src') || '';
+    add('image-alt', image, src.split(/[?#]/)[0].split('/').pop() || textOf(image) || selectorOf(image), `Image has no text alternative${src ? ` (${src.slice(0, 80)})` : ''}`);
+  }
+
+  // Form fields need a label; a placeholder isn't one
+  for (const field of Array.from(document.querySelectorAll('input, select, textarea')) as HTMLInputElement[]) {
+    if (['hidden', 'submit', 'button', 'reset', 'image'].includes(field.type) || !isVisible(field)) continue;
+    const labelled =
+      (field.labels && field.labels.length > 0 && Array.from(field.labels).some((label) => textOf(label))) ||
+      field.getAttribute('aria-label') ||
+      labelledByText(field) ||
+      field.getAttribute('title');
+    if (!labelled) {
+      const name = field.name || field.id || field.getAttribute('placeholder') || field.type;
+      add('form-label', field, `${field.tagName.toLowerCase()}:${name}`, `Form field "${name}" has no label`);
+    }
+  }
+
+  // Buttons and links need an accessible name
+  for (const control of Array.from(document.querySelectorAll('button, a[href], [role="button"], [role="link"]'))) {
+    if (!isVisible(control) || accessibleName(control)) continue;
+    const target = control.getAttribute('href') || control.getAttribute('class') || control.tagName.toLowerCase();
+    add('aria', control, `name:${target}`, `${control.tagName === 'A' ? 'Link' : 'Button'} has no accessible name`);
+  }
+
+  // Text contrast against the composited background; skipped over background images
+  const parseColor = (value: string): number[] | undefined => {
+    const match = /rgba?\(([^)]+)\)/.exec(value);
+    if (!match) return undefined;
+    const parts = match[1].split(/[\s,/]+/).filter(Boolean).map(Number);
+    return [parts[0], parts[1], parts[2], parts[3] ?? 1];
+  };
+  const luminance = ([r, g, b]: number[]) => {
+    const channel = (c: number) => {
+      const v = c / 255;
+      return v <= 0.03928 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+    };
+    return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+  };
+  const blend = (top: number[], bottom: number[]) => [0, 1, 2].map((i) => top[i] * top[3] + bottom[i] * (1 - top[3])).concat(1);
+  const backgroundOf = (element: Element): number[] | undefined => {
+    const layers: number[][] = [];
+    for (let node: Element | null = element; node; node = node.parentElement) {
+      const style = getComputedStyle(node);
+      if (style.backgroundImage !== 'none') return undefined;
+      const color = parseColor(style.backgroundColor);
+      if (color && color[3] > 0) {
+        layers.push(color);
+        if (color[3] >= 1) break;
+      }
+    }
+    return layers.reduceRight((below, layer) => blend(layer, below), [255, 255, 255, 1]);
+  };
+  let textElements = 0;
+  for (const element of Array.from(document.body.querySelectorAll('*'))) {
+    if (textElements >= MAX_TEXT_ELEMENTS) break;
+    const ownText = Array.from(element.childNodes)
+      .filter((node) => node.nodeType === Node.TEXT_NODE)
+      .map((node) => node.textContent || '')
+      .join('')
+      .trim();
+    if (!ownText || !isVisible(element)) continue;
+    textElements++;
+
+    const style = getComputedStyle(element);
+    const background = backgroundOf(element);
+    const foreground = parseColor(style.color);
+    if (!background || !foreground) continue;
+    const fontSize = parseFloat(style.fontSize);
+    const large = fontSize >= 24 || (fontSize >= 18.66 && Number(style.fontWeight) >= 700);
+    const [lighter, darker] = [luminance(blend(foreground, background)), luminance(background)].sort((a, b) => b - a);
+    const ratio = (lighter + 0.05) / (darker + 0.05);
+    const required = large ? 3 : 4.5;
+    if (ratio < required) {
+      add('color-contrast', element, ownText.slice(0, 60), `Text "${ownText.slice(0, 40)}" has contrast ${ratio.toFixed(2)}:1, below ${required}:1`);
+    }
+  }
+
+  // Landmarks
+  const mains = document.querySelectorAll('main, [role="main"]');
+  if (mains.length === 0) add('landmarks', null, 'main-missing', 'Page has no main landmark');
+  if (mains.length > 1) add('landmarks', mains[1], 'main-multiple', `Page has ${mains.length} main landmarks`);
+  if (document.querySelectorAll('nav, [role="navigation"]').length === 0 && document.querySelectorAll('a[href]').length > 5) {
+    add('landmarks', null, 'nav-missing', 'Page links are not inside a navigation landmark');
+  }
+
+  // Heading order: one h1 to start, no skipped levels
+  const headings = Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6')).filter(isVisible);
+  if (headings.length > 0 && !headings.some((heading) => heading.tagName === 'H1')) {
+    add('heading-order', null, 'h1-missing', 'Page has no h1 heading');
+  }
+  let previousLevel = 0;
+  for (const heading of headings) {
+    const level = Number(heading.tagName[1]);
+    if (previousLevel > 0 && level > previousLevel + 1) {
+      add('heading-order', heading, textOf(heading), `Heading "${textOf(heading)}" skips from h${previousLevel} to h${level}`);
+    }
+    previousLevel = level;
+  }
+
+  // ARIA misuse
+  for (const element of Array.from(document.querySelectorAll('*'))) {
+    const role = element.getAttribute('role');
+    if (role && !role.split(/\s+/).some((value) => ROLES.has(value))) {
+      add('aria', element, `role:${role}:${textOf(element)}`, `Unknown role "${role}"`);
+    }
+    for (const attribute of Array.from(element.attributes)) {
+      if (attribute.name.startsWith('aria-') && !ARIA_ATTRIBUTES.has(attribute.name.slice(5))) {
+        add('aria', element, `attribute:${attribute.name}:${textOf(element)}`, `Unknown attribute ${attribute.name}`);
+      }
+    }
+    for (const reference of ['aria-labelledby', 'aria-describedby', 'aria-controls']) {
+      const ids = (element.getAttribute(reference) || '').split(/\s+/).filter(Boolean);
+      const missing = ids.filter((id) => !document.getElementById(id));
+      if (missing.length > 0) {
+        add('aria', element, `${reference}:${missing.join(',')}`, `${reference} points to missing id ${missing.join(', ')}`);
+      }
+    }
+    if (
+      element.getAttribute('aria-hidden') === 'true' &&
+      element.matches('a[href], button, input, select, textarea, [tabindex]:not([tabindex="-1"])')
+    ) {
+      add('aria', element, `hidden-focusable:${textOf(element)}`, 'Focusable element is hidden from assistive technology');
+    }
+  }
+
+  // Positive tabindex overrides the document's focus order
+  for (const element of Array.from(document.querySelectorAll('[tabindex]'))) {
+    if (Number(element.getAttribute('tabindex')) > 0) {
+      add('focus-order', element, `tabindex:${textOf(element) || selectorOf(element)}`, `tabindex="${element.getAttribute('tabindex')}" changes the focus order`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Tab through the page and report focus that can't leave a group of elements
+ * Focus normally walks every tabbable element and leaves the document; a cycle among fewer elements is a trap.
+ */
+export async function checkKeyboardTraps(page: Page): Promise<RawAccessibilityIssue[]> {
+  const tabbableCount = await page.evaluate(
+    () =>
+      Array.from(
+        document.querySelectorAll('a[href], button, input, select, textarea, [tabindex]:not([tabindex="-1"]), [contenteditable="true"]')
+      ).filter((element) => !(element as HTMLInputElement).disabled && element.getClientRects().length > 0).length
+  );
+  if (tabbableCount === 0) return [];
+
+  const sequence: string[] = [];
+  const presses = Math.min(tabbableCount + 5, MAX_TAB_PRESSES);
+  for (let i = 0; i < presses; i++) {
+    await page.keyboard.press('Tab');
+    const focused = await page.evaluate(() => {
+      const element = document.activeElement;
+      if (!element || element === document.body) return '';
+      const name = (element.getAttribute('aria-label') || element.textContent || '').replace(/\s+/g, ' ').trim().slice(0, 40);
+      return `${element.tagName.toLowerCase()}${element.id ? `#${element.id}` : ''}|${name}`;
+    });
+    // Focus left the document, so nothing is trapped
+    if (!focused) return [];
+
+    const firstSeen = sequence.indexOf(focused);
+    if (firstSeen >= 0) {
+      const cycle = sequence.slice(firstSeen);
+      if (cycle.length < tabbableCount) {
+        const [selector, name] = focused.split('|');
+        return [
+          {
+            rule: 'keyboard-trap',
+            selector,
+            key: `keyboard-trap:${name || selector}`,
+            message: `Keyboard focus cycles among ${cycle.length} of ${tabbableCount} focusable elements and can't reach the rest`,
+          },
+        ];
+      }
+      return [];
+    }
+    sequence.push(focused);
+  }
+  return [];
+}
+
+/**
+ * Split issues into new on the candidate, fixed on the candidate and present on both, by issue key
+ */
+export function diffAccessibilityIssues(
+  baseline: AccessibilityIssue[],
+  candidate: AccessibilityIssue[]
+): { newIssues: AccessibilityIssue[]; fixedIssues: AccessibilityIssue[]; unchangedIssues: number } {
+  const baselineKeys = new Set(baseline.map((issue) => issue.key));
+  const candidateKeys = new Set(candidate.map((issue) => issue.key));
+  return {
+    newIssues: candidate.filter((issue) => !baselineKeys.has(issue.key)),
+    fixedIssues: baseline.filter((issue) => !candidateKeys.has(issue.key)),
+    unchangedIssues: candidate.filter((issue) => baselineKeys.has(issue.key)).length,
+  };
+}
+
+/**
+ * Score a page from its issues, 100 meaning nothing was found
+ */
+export function accessibilityScore(issues: AccessibilityIssue[]): number {
+  return Math.max(0, 100 - issues.reduce((sum, issue) => sum + SEVERITY_WEIGHT[issue.severity], 0));
+}
+
+/**
+ * AccessibilityAgent - Compares rule-based WCAG checks between baseline and candidate pages
+ * Covers alt text, form labels, colour contrast, landmarks, heading order, ARIA, focus order and keyboard traps
+ */
+export class AccessibilityAgent {
+  private readonly artifactsDir: string;
+
+  constructor() {
+    this.artifactsDir = path.join(DATA_DIR, 'artifacts');
+  }
+
+  /**
+   * Load a page and run every check on it
+   */
+  async auditPage(context: BrowserContext, url: string): Promise<PageAccessibilityAudit> {
+    const page = await context.newPage();
+    try {
+      const response = await page.goto(url, { waitUntil: 'networkidle', timeout: 30000 });
+      const status = response?.status();
+      // Error pages would be audited and diffed as if they were the page's content
+      if (status === undefined || status < 200 || status >= 300) {
+        return { url, status, issues: [], score: 0, error: `Page responded with ${status ?? 'no response'}` };
+      }
+      const raw = [...(await page.evaluate(auditDocument)), ...(await checkKeyboardTraps(page))];
+
+      // The same element can break a rule more than once (e.g. two unknown aria attributes); report each key once
+      const seen = new Set<string>();
+      const issues: AccessibilityIssue[] = raw
+        .filter((issue) => !seen.has(issue.key) && seen.add(issue.key))
+        .map((issue) => ({ ...issue, ...ACCESSIBILITY_RULES[issue.rule] }));
+
+      return { url, status, issues, score: accessibilityScore(issues) };
+    } catch (error) {
+      return { url, issues: [], score: 0, error: error instanceof Error ? error.message : String(error) };
+    } finally {
+      await page.close().catch(() => undefined);
+    }
+  }
+
+  private getOverallSeverity(issues: AccessibilityIssue[]): AccessibilitySeverity {
+    return issues.reduce<AccessibilitySeverity>(
+      (max, issue) => (SEVERITY_ORDER.indexOf(issue.severity) > SEVERITY_ORDER.indexOf(max) ? issue.severity : max),
+      'none'
+    );
+  }
+
+  /**
+   * Generate summary statistics
+   */
+  private generateSummary(pages: PageAccessibilityResult[]): AccessibilityResult['summary'] {
+    const newIssues = pages.flatMap((p) => p.newIssues);
+    const newIssuesByRule: Partial<Record<AccessibilityRule, number>> = {};
+    for (const issue of newIssues) {
+      newIssuesByRule[issue.rule] = (newIssuesByRule[issue.rule] ?? 0) + 1;
+    }
+    const count = (severity: AccessibilitySeverity) => newIssues.filter((issue) => issue.severity === severity).length;
+    const audited = pages.filter((p) => !p.baseline.error && !p.candidate.error);
+    const average = (scores: number[]) =>
+      scores.length > 0 ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : 0;
+
+    return {
+      totalPages: pages.length,
+      pagesWithNewIssues: pages.filter((p) => p.newIssues.length > 0).length,
+      newIssues: newIssues.length,
+      fixedIssues: pages.reduce((sum, p) => sum + p.fixedIssues.length, 0),
+      criticalIssues: count('critical'),
+      highIssues: count('high'),
+      mediumIssues: count('medium'),
+      lowIssues: count('low'),
+      newIssuesByRule,
+      skippedPages: pages.length - audited.length,
+      averageBaselineScore: average(audited.map((p) => p.baseline.score)),
+      averageCandidateScore: average(audited.map((p) => p.candidate.score)),
+    };
+  }
+
+  /**
+   * Execute accessibility comparison with browser contexts
+   */
+  async executeAccessibilityCheckWithContexts(
+    baselineContext: BrowserContext,
+    candidateContext: BrowserContext,
+    matchedPages: MatchedPage[],
+    runId: string
+  ): Promise<AccessibilityResult> {
+    const pageResults: PageAccessibilityResult[] = [];
+
+    for (const matchedPage of matchedPages) {
+      const baseline = await this.auditPage(baselineContext, matchedPage.baseline.url);
+      const candidate = await this.auditPage(candidateContext, matchedPage.candidate.url);
+      // A page that failed to load on either side has nothing to compare
+      const diff = baseline.error || candidate.error
+        ? { newIssues: [], fixedIssues: [], unchangedIssues: 0 }
+        : diffAccessibilityIssues(baseline.issues, candidate.issues);
+
+      pageResults.push({
+        normalizedPath: matchedPage.baseline.normalizedPath,
+        baselineUrl: matchedPage.baseline.url,
+        candidateUrl: matchedPage.candidate.url,
+        baseline,
+        candidate,
+        ...diff,
+        overallSeverity: this.getOverallSeverity(diff.newIssues),
+      });
+    }
+
+    // Save results
+    const resultsPath = path.join(this.artifactsDir, runId, 'accessibility-results.json');
+    await fs.mkdir(path.dirname(resultsPath), { recursive: true });
+
+    const result: AccessibilityResult = {
+      pages: pageResults,
+      summary: this.generateSummary(pageResults),
+      artifactPaths: [resultsPath],
+    };
+
+    await fs.writeFile(resultsPath, JSON.stringify(result, null, 2));
+
+    return result;
+  }
+}
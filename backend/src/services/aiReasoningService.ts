@@ -5,6 +5,11 @@ import { DATA_DIR } from '../config/config';
 import { VisualDiffResult } from './visualDiffService';
 import { FunctionalQAResult } from './functionalQaAgent';
 import { DataIntegrityResult } from './dataIntegrityAgent';
+import { SeoResult } from './seoAgent';
+import { PerformanceResult } from './performanceAgent';
+import { AccessibilityResult } from './accessibilityAgent';
+import { RedirectVerificationResult } from './redirectAgent';
+import { JourneyResult } from './journeyAgent';
 
 /**
  * Severity levels for AI analysis
@@ -15,7 +20,7 @@ export type AISeverity = 'none' | 'low' | 'medium' | 'high' | 'critical';
  * AI reasoning result for a specific category
  */
 export interface CategoryAnalysis {
-  category: 'visual' | 'functional' | 'data' | 'seo';
+  category: 'visual' | 'functional' | 'data' | 'seo' | 'performance' | 'accessibility' | 'redirects';
   severity: AISeverity;
   confidence: number; // 0-1
   explanation: string;
@@ -56,6 +61,7 @@ interface ArtifactSummary {
     pagesWithNavigationIssues: number;
     totalBrokenLinks: number;
     totalJSErrors: number;
+    statusRegressions: number; // Requests successful on the baseline, 4xx/5xx on the candidate
   };
   data?: {
     totalPages: number;
@@ -64,9 +70,31 @@ interface ArtifactSummary {
     criticalMismatches: number;
   };
   seo?: {
-    // SEO data would come from future SEO agent
-    [key: string]: any;
+    totalPages: number;
+    pagesWithIssues: number;
+    totalIssues: number;
+    criticalIssues: number;
+    highIssues: number;
+  };
+  performance?: {
+    measuredPages: number;
+    pagesWithViolations: number;
+    totalViolations: number;
+    criticalIssues: number;
+    highIssues: number;
+    mediumIssues: number;
+  };
+  accessibility?: {
+    totalPages: number;
+    pagesWithNewIssues: number;
+    newIssues: number;
+    fixedIssues: number;
+    criticalIssues: number;
+    highIssues: number;
+    mediumIssues: number;
   };
+  redirects?: RedirectVerificationResult['summary'];
+  journeys?: JourneyResult['summary'];
 }
 
 /**
@@ -112,7 +140,12 @@ export class AiReasoningService {
   private summarizeArtifacts(
     visualDiffResult?: VisualDiffResult,
     functionalQaResult?: FunctionalQAResult,
-    dataIntegrityResult?: DataIntegrityResult
+    dataIntegrityResult?: DataIntegrityResult,
+    seoResult?: SeoResult,
+    performanceResult?: PerformanceResult,
+    accessibilityResult?: AccessibilityResult,
+    redirectResult?: RedirectVerificationResult,
+    journeyResult?: JourneyResult
   ): ArtifactSummary {
     const summary: ArtifactSummary = {};
 
@@ -132,6 +165,7 @@ export class AiReasoningService {
         pagesWithNavigationIssues: functionalQaResult.baseline.summary.pagesWithNavigationIssues,
         totalBrokenLinks: functionalQaResult.baseline.summary.totalBrokenLinks + functionalQaResult.candidate.summary.totalBrokenLinks,
         totalJSErrors: functionalQaResult.baseline.summary.totalJSErrors + functionalQaResult.candidate.summary.totalJSErrors,
+        statusRegressions: functionalQaResult.networkDiff?.summary.statusRegressions ?? 0,
       };
     }
 
@@ -144,6 +178,47 @@ export class AiReasoningService {
       };
     }
 
+    if (seoResult) {
+      summary.seo = {
+        totalPages: seoResult.summary.totalPages,
+        pagesWithIssues: seoResult.summary.pagesWithIssues,
+        totalIssues: seoResult.summary.totalIssues,
+        criticalIssues: seoResult.summary.criticalIssues,
+        highIssues: seoResult.summary.highIssues,
+      };
+    }
+
+    if (performanceResult) {
+      summary.performance = {
+        measuredPages: performanceResult.summary.measuredPages,
+        pagesWithViolations: performanceResult.summary.pagesWithViolations,
+        totalViolations: performanceResult.summary.totalViolations,
+        criticalIssues: performanceResult.summary.criticalIssues,
+        highIssues: performanceResult.summary.highIssues,
+        mediumIssues: performanceResult.summary.mediumIssues,
+      };
+    }
+
+    if (accessibilityResult) {
+      summary.accessibility = {
+        totalPages: accessibilityResult.summary.totalPages,
+        pagesWithNewIssues: accessibilityResult.summary.pagesWithNewIssues,
+        newIssues: accessibilityResult.summary.newIssues,
+        fixedIssues: accessibilityResult.summary.fixedIssues,
+        criticalIssues: accessibilityResult.summary.criticalIssues,
+        highIssues: accessibilityResult.summary.highIssues,
+        mediumIssues: accessibilityResult.summary.mediumIssues,
+      };
+    }
+
+    if (redirectResult) {
+      summary.redirects = { ...redirectResult.summary };
+    }
+
+    if (journeyResult) {
+      summary.journeys = { ...journeyResult.summary };
+    }
+
     return summary;
   }
 
@@ -154,14 +229,38 @@ export class AiReasoningService {
     visualDiffResult: VisualDiffResult | undefined,
     functionalQaResult: FunctionalQAResult | undefined,
     dataIntegrityResult: DataIntegrityResult | undefined,
+    seoResult: SeoResult | undefined,
+    performanceResult: PerformanceResult | undefined,
+    accessibilityResult: AccessibilityResult | undefined,
+    redirectResult: RedirectVerificationResult | undefined,
+    journeyResult: JourneyResult | undefined,
     runId: string
   ): Promise<AIReasoningResult> {
     if (!this.isConfigured()) {
       // Fallback: Generate basic analysis without AI
-      return this.generateFallbackAnalysis(visualDiffResult, functionalQaResult, dataIntegrityResult, runId);
+      return this.generateFallbackAnalysis(
+        visualDiffResult,
+        functionalQaResult,
+        dataIntegrityResult,
+        seoResult,
+        performanceResult,
+        accessibilityResult,
+        redirectResult,
+        journeyResult,
+        runId
+      );
     }
 
-    const artifactSummary = this.summarizeArtifacts(visualDiffResult, functionalQaResult, dataIntegrityResult);
+    const artifactSummary = this.summarizeArtifacts(
+      visualDiffResult,
+      functionalQaResult,
+      dataIntegrityResult,
+      seoResult,
+      performanceResult,
+      accessibilityResult,
+      redirectResult,
+      journeyResult
+    );
 
     // Build prompt for AI analysis
     const prompt = this.buildAnalysisPrompt(artifactSummary);
@@ -201,7 +300,17 @@ You must be conservative and only flag real issues. Ignore:
     } catch (error) {
       console.error('Azure OpenAI error:', error);
       // Fallback to rule-based analysis
-      return this.generateFallbackAnalysis(visualDiffResult, functionalQaResult, dataIntegrityResult, runId);
+      return this.generateFallbackAnalysis(
+        visualDiffResult,
+        functionalQaResult,
+        dataIntegrityResult,
+        seoResult,
+        performanceResult,
+        accessibilityResult,
+        redirectResult,
+        journeyResult,
+        runId
+      );
     }
   }
 
@@ -225,7 +334,16 @@ You must be conservative and only flag real issues. Ignore:
       prompt += `- Total pages tested: ${summary.functional.totalPages}\n`;
       prompt += `- Pages with navigation issues: ${summary.functional.pagesWithNavigationIssues}\n`;
       prompt += `- Total broken links: ${summary.functional.totalBrokenLinks}\n`;
-      prompt += `- Total JavaScript errors: ${summary.functional.totalJSErrors}\n\n`;
+      prompt += `- Total JavaScript errors: ${summary.functional.totalJSErrors}\n`;
+      prompt += `- Requests successful on the baseline that fail (4xx/5xx) on the candidate: ${summary.functional.statusRegressions}\n\n`;
+    }
+
+    if (summary.journeys) {
+      prompt += `SCRIPTED USER JOURNEYS (part of the functional category):\n`;
+      prompt += `- Journeys replayed: ${summary.journeys.totalJourneys}\n`;
+      prompt += `- Pass on the baseline but fail on the candidate: ${summary.journeys.regressions}\n`;
+      prompt += `- Fail on both sites: ${summary.journeys.broken}, fixed on the candidate: ${summary.journeys.fixed}\n`;
+      prompt += `- Noticeably slower steps: ${summary.journeys.slowSteps}, checkpoints with visual differences: ${summary.journeys.checkpointsWithDiffs}\n\n`;
     }
 
     if (summary.data) {
@@ -236,6 +354,42 @@ You must be conservative and only flag real issues. Ignore:
       prompt += `- Critical mismatches: ${summary.data.criticalMismatches}\n\n`;
     }
 
+    if (summary.seo) {
+      prompt += `SEO:\n`;
+      prompt += `- Total pages tested: ${summary.seo.totalPages}\n`;
+      prompt += `- Pages with SEO differences: ${summary.seo.pagesWithIssues}\n`;
+      prompt += `- Total SEO issues: ${summary.seo.totalIssues}\n`;
+      prompt += `- Critical issues (e.g. new noindex): ${summary.seo.criticalIssues}\n`;
+      prompt += `- High severity issues (e.g. missing title or canonical): ${summary.seo.highIssues}\n\n`;
+    }
+
+    if (summary.performance) {
+      prompt += `PERFORMANCE BUDGETS:\n`;
+      prompt += `- Pages measured: ${summary.performance.measuredPages}\n`;
+      prompt += `- Pages over budget: ${summary.performance.pagesWithViolations}\n`;
+      prompt += `- Budget violations: ${summary.performance.totalViolations}\n`;
+      prompt += `- Critical violations (Core Web Vitals far over budget): ${summary.performance.criticalIssues}\n`;
+      prompt += `- High severity violations: ${summary.performance.highIssues}\n\n`;
+    }
+
+    if (summary.accessibility) {
+      prompt += `ACCESSIBILITY (WCAG):\n`;
+      prompt += `- Total pages tested: ${summary.accessibility.totalPages}\n`;
+      prompt += `- Pages with new issues: ${summary.accessibility.pagesWithNewIssues}\n`;
+      prompt += `- Issues new on the candidate: ${summary.accessibility.newIssues} (${summary.accessibility.fixedIssues} fixed)\n`;
+      prompt += `- Critical new issues (e.g. keyboard traps): ${summary.accessibility.criticalIssues}\n`;
+      prompt += `- High severity new issues (e.g. missing alt text or form labels): ${summary.accessibility.highIssues}\n\n`;
+    }
+
+    if (summary.redirects) {
+      prompt += `LEGACY REDIRECTS:\n`;
+      prompt += `- Redirect rules checked: ${summary.redirects.totalRules}\n`;
+      prompt += `- Failing rules: ${summary.redirects.failed}\n`;
+      prompt += `- Loops: ${summary.redirects.loops}, not redirected: ${summary.redirects.notRedirected}, broken targets: ${summary.redirects.brokenTargets}\n`;
+      prompt += `- Wrong targets: ${summary.redirects.wrongTarget}, unexpected status codes: ${summary.redirects.wrongStatus}\n`;
+      prompt += `- Multi-hop chains: ${summary.redirects.multiHopChains}\n\n`;
+    }
+
     prompt += `Provide your analysis in the following JSON format:
 {
   "overallSeverity": "none|low|medium|high|critical",
@@ -244,7 +398,7 @@ You must be conservative and only flag real issues. Ignore:
   "overallExplanation": "Brief explanation",
   "categoryAnalyses": [
     {
-      "category": "visual|functional|data|seo",
+      "category": "visual|functional|data|seo|performance|accessibility|redirects",
       "severity": "none|low|medium|high|critical",
       "confidence": 0.0-1.0,
       "explanation": "Detailed explanation",
@@ -294,12 +448,80 @@ You must be conservative and only flag real issues. Ignore:
     // Fallback if JSON parsing fails
     return this.generateFallbackAnalysis(
       summary.visual ? { summary: summary.visual } as any : undefined,
-      summary.functional ? { baseline: { summary: summary.functional }, candidate: { summary: summary.functional } } as any : undefined,
+      summary.functional
+        ? { baseline: { summary: summary.functional }, candidate: { summary: summary.functional }, networkDiff: { summary: summary.functional } } as any
+        : undefined,
       summary.data ? { summary: summary.data } as any : undefined,
+      summary.seo ? this.seoResultFromSummary(summary.seo) : undefined,
+      summary.performance ? this.performanceResultFromSummary(summary.performance) : undefined,
+      summary.accessibility ? this.accessibilityResultFromSummary(summary.accessibility) : undefined,
+      summary.redirects ? { candidateUrl: '', results: [], summary: summary.redirects, artifactPaths: [] } : undefined,
+      summary.journeys ? { journeys: [], summary: summary.journeys, artifactPaths: [] } : undefined,
       runId
     );
   }
 
+  /**
+   * SEO result carrying only the summarized counts, for the fallback analysis
+   */
+  private seoResultFromSummary(seo: NonNullable<ArtifactSummary['seo']>): SeoResult {
+    return {
+      pages: [],
+      summary: {
+        ...seo,
+        mediumIssues: 0,
+        lowIssues: 0,
+        issuesByCheck: {
+          title: 0,
+          metaDescription: 0,
+          canonical: 0,
+          robots: 0,
+          hreflang: 0,
+          openGraph: 0,
+          twitterCard: 0,
+          headings: 0,
+          jsonLd: 0,
+        },
+      },
+      artifactPaths: [],
+    };
+  }
+
+  /**
+   * Performance result carrying only the summarized counts, for the fallback analysis
+   */
+  private performanceResultFromSummary(performance: NonNullable<ArtifactSummary['performance']>): PerformanceResult {
+    return {
+      pages: [],
+      budgets: [],
+      summary: {
+        ...performance,
+        totalPages: performance.measuredPages,
+        lowIssues: 0,
+        violationsByMetric: {},
+      },
+      artifactPaths: [],
+    };
+  }
+
+  /**
+   * Accessibility result carrying only the summarized counts, for the fallback analysis
+   */
+  private accessibilityResultFromSummary(accessibility: NonNullable<ArtifactSummary['accessibility']>): AccessibilityResult {
+    return {
+      pages: [],
+      summary: {
+        ...accessibility,
+        lowIssues: 0,
+        newIssuesByRule: {},
+        skippedPages: 0,
+        averageBaselineScore: 0,
+        averageCandidateScore: 0,
+      },
+      artifactPaths: [],
+    };
+  }
+
   /**
    * Generate fallback analysis without AI
    */
@@ -307,6 +529,11 @@ You must be conservative and only flag real issues. Ignore:
     visualDiffResult?: VisualDiffResult,
     functionalQaResult?: FunctionalQAResult,
     dataIntegrityResult?: DataIntegrityResult,
+    seoResult?: SeoResult,
+    performanceResult?: PerformanceResult,
+    accessibilityResult?: AccessibilityResult,
+    redirectResult?: RedirectVerificationResult,
+    journeyResult?: JourneyResult,
     runId?: string
   ): AIReasoningResult {
     const categoryAnalyses: CategoryAnalysis[] = [];
@@ -337,21 +564,41 @@ You must be conservative and only flag real issues. Ignore:
       }
     }
 
-    // Analyze functional
-    if (functionalQaResult) {
-      const functionalSeverity = this.calculateSeverityFromFunctional(functionalQaResult);
+    // Analyze functional: page-level QA and scripted journeys
+    if (functionalQaResult || journeyResult) {
+      const qaSeverity = functionalQaResult ? this.calculateSeverityFromFunctional(functionalQaResult) : 'none';
+      const journeySeverity = journeyResult ? this.calculateSeverityFromJourneys(journeyResult) : 'none';
+      const functionalSeverity =
+        this.severityToNumber(journeySeverity) > this.severityToNumber(qaSeverity) ? journeySeverity : qaSeverity;
+      const explanations: string[] = [];
+      const keyFindings: string[] = [];
+      if (functionalQaResult) {
+        const statusRegressions = functionalQaResult.networkDiff?.summary.statusRegressions ?? 0;
+        explanations.push(
+          `${functionalQaResult.baseline.summary.totalBrokenLinks} broken links, ${functionalQaResult.baseline.summary.totalJSErrors} JS errors, ${statusRegressions} requests failing on the candidate only`
+        );
+        keyFindings.push(
+          `${functionalQaResult.baseline.summary.totalBrokenLinks} broken links detected`,
+          `${functionalQaResult.baseline.summary.totalJSErrors} JavaScript errors found`,
+          `${statusRegressions} requests return 4xx/5xx on the candidate but succeed on the baseline`
+        );
+      }
+      if (journeyResult) {
+        const { summary } = journeyResult;
+        explanations.push(
+          `${summary.regressions} of ${summary.totalJourneys} journeys fail on the candidate only, ${summary.broken} fail on both sites`
+        );
+        keyFindings.push(`${summary.regressions} journeys pass on the baseline but fail on the candidate`);
+      }
       categoryAnalyses.push({
         category: 'functional',
         severity: functionalSeverity,
         confidence: 0.8,
-        explanation: `Functional issues: ${functionalQaResult.baseline.summary.totalBrokenLinks} broken links, ${functionalQaResult.baseline.summary.totalJSErrors} JS errors`,
+        explanation: `Functional issues: ${explanations.join('; ')}`,
         pass: functionalSeverity === 'none' || functionalSeverity === 'low',
         falsePositives: [],
         expectedChanges: [],
-        keyFindings: [
-          `${functionalQaResult.baseline.summary.totalBrokenLinks} broken links detected`,
-          `${functionalQaResult.baseline.summary.totalJSErrors} JavaScript errors found`,
-        ],
+        keyFindings,
       });
       if (this.severityToNumber(functionalSeverity) > this.severityToNumber(overallSeverity)) {
         overallSeverity = functionalSeverity;
@@ -385,6 +632,105 @@ You must be conservative and only flag real issues. Ignore:
       }
     }
 
+    // Analyze SEO
+    if (seoResult) {
+      const seoSeverity = this.calculateSeverityFromSeo(seoResult);
+      categoryAnalyses.push({
+        category: 'seo',
+        severity: seoSeverity,
+        confidence: 0.8,
+        explanation: `SEO differences: ${seoResult.summary.pagesWithIssues} pages affected, ${seoResult.summary.totalIssues} issues (${seoResult.summary.criticalIssues} critical, ${seoResult.summary.highIssues} high)`,
+        pass: seoSeverity === 'none' || seoSeverity === 'low',
+        falsePositives: [],
+        expectedChanges: [],
+        keyFindings: [
+          `${seoResult.summary.pagesWithIssues} pages have SEO differences`,
+          `${seoResult.summary.criticalIssues + seoResult.summary.highIssues} critical or high severity SEO issues`,
+        ],
+      });
+      if (this.severityToNumber(seoSeverity) > this.severityToNumber(overallSeverity)) {
+        overallSeverity = seoSeverity;
+      }
+      if (seoSeverity === 'high' || seoSeverity === 'critical') {
+        overallPass = false;
+      }
+    }
+
+    // Analyze performance budgets
+    if (performanceResult) {
+      const performanceSeverity = this.calculateSeverityFromPerformance(performanceResult);
+      const { summary } = performanceResult;
+      categoryAnalyses.push({
+        category: 'performance',
+        severity: performanceSeverity,
+        confidence: 0.7,
+        explanation: `Performance budgets: ${summary.pagesWithViolations} of ${summary.measuredPages} pages over budget, ${summary.totalViolations} violations (${summary.criticalIssues} critical, ${summary.highIssues} high)`,
+        pass: performanceSeverity === 'none' || performanceSeverity === 'low',
+        falsePositives: [],
+        expectedChanges: [],
+        keyFindings: [
+          `${summary.pagesWithViolations} pages exceed their performance budgets`,
+          `${summary.criticalIssues + summary.highIssues} critical or high severity budget violations`,
+        ],
+      });
+      if (this.severityToNumber(performanceSeverity) > this.severityToNumber(overallSeverity)) {
+        overallSeverity = performanceSeverity;
+      }
+      if (performanceSeverity === 'high' || performanceSeverity === 'critical') {
+        overallPass = false;
+      }
+    }
+
+    // Analyze accessibility issues new on the candidate
+    if (accessibilityResult) {
+      const accessibilitySeverity = this.calculateSeverityFromAccessibility(accessibilityResult);
+      const { summary } = accessibilityResult;
+      categoryAnalyses.push({
+        category: 'accessibility',
+        severity: accessibilitySeverity,
+        confidence: 0.8,
+        explanation: `Accessibility: ${summary.newIssues} new WCAG issues on ${summary.pagesWithNewIssues} pages (${summary.criticalIssues} critical, ${summary.highIssues} high), ${summary.fixedIssues} fixed`,
+        pass: accessibilitySeverity === 'none' || accessibilitySeverity === 'low',
+        falsePositives: [],
+        expectedChanges: [],
+        keyFindings: [
+          `${summary.pagesWithNewIssues} pages have new accessibility issues`,
+          `${summary.criticalIssues + summary.highIssues} critical or high severity accessibility issues`,
+        ],
+      });
+      if (this.severityToNumber(accessibilitySeverity) > this.severityToNumber(overallSeverity)) {
+        overallSeverity = accessibilitySeverity;
+      }
+      if (accessibilitySeverity === 'high' || accessibilitySeverity === 'critical') {
+        overallPass = false;
+      }
+    }
+
+    // Analyze legacy redirect verification
+    if (redirectResult) {
+      const redirectSeverity = this.calculateSeverityFromRedirects(redirectResult);
+      const { summary } = redirectResult;
+      categoryAnalyses.push({
+        category: 'redirects',
+        severity: redirectSeverity,
+        confidence: 0.9,
+        explanation: `Legacy redirects: ${summary.failed} of ${summary.totalRules} rules failing (${summary.loops} loops, ${summary.notRedirected} not redirected, ${summary.brokenTargets} broken targets, ${summary.wrongTarget} wrong targets)`,
+        pass: redirectSeverity === 'none' || redirectSeverity === 'low',
+        falsePositives: [],
+        expectedChanges: [],
+        keyFindings: [
+          `${summary.failed} legacy URLs don't redirect as mapped`,
+          `${summary.multiHopChains} redirects need more than one hop`,
+        ],
+      });
+      if (this.severityToNumber(redirectSeverity) > this.severityToNumber(overallSeverity)) {
+        overallSeverity = redirectSeverity;
+      }
+      if (redirectSeverity === 'high' || redirectSeverity === 'critical') {
+        overallPass = false;
+      }
+    }
+
     return {
       overallSeverity,
       overallConfidence: 0.7,
@@ -415,12 +761,24 @@ You must be conservative and only flag real issues. Ignore:
   private calculateSeverityFromFunctional(result: FunctionalQAResult): AISeverity {
     const totalIssues = result.baseline.summary.totalBrokenLinks + result.baseline.summary.totalJSErrors;
     if (totalIssues > 20) return 'critical';
-    if (totalIssues > 10) return 'high';
+    // Any request the candidate breaks is high, as in the report's network finding
+    if (totalIssues > 10 || (result.networkDiff?.summary.statusRegressions ?? 0) > 0) return 'high';
     if (totalIssues > 5) return 'medium';
     if (totalIssues > 0) return 'low';
     return 'none';
   }
 
+  /**
+   * Calculate severity from scripted journeys, matching the report's journey finding
+   */
+  private calculateSeverityFromJourneys(result: JourneyResult): AISeverity {
+    const { summary } = result;
+    if (summary.regressions > 0 || summary.broken > 0) return 'high';
+    if (summary.checkpointsWithDiffs > 0) return 'medium';
+    if (summary.slowSteps > 0) return 'low';
+    return 'none';
+  }
+
   /**
    * Calculate severity from data integrity results
    */
@@ -432,6 +790,51 @@ You must be conservative and only flag real issues. Ignore:
     return 'none';
   }
 
+  /**
+   * Calculate severity from SEO results
+   */
+  private calculateSeverityFromSeo(result: SeoResult): AISeverity {
+    if (result.summary.criticalIssues > 0) return 'critical';
+    if (result.summary.highIssues > 0) return 'high';
+    if (result.summary.totalIssues > 20) return 'medium';
+    if (result.summary.totalIssues > 0) return 'low';
+    return 'none';
+  }
+
+  /**
+   * Calculate severity from performance budget violations
+   */
+  private calculateSeverityFromPerformance(result: PerformanceResult): AISeverity {
+    if (result.summary.criticalIssues > 0) return 'critical';
+    if (result.summary.highIssues > 0) return 'high';
+    if (result.summary.mediumIssues > 0) return 'medium';
+    if (result.summary.totalViolations > 0) return 'low';
+    return 'none';
+  }
+
+  /**
+   * Calculate severity from accessibility issues new on the candidate
+   */
+  private calculateSeverityFromAccessibility(result: AccessibilityResult): AISeverity {
+    if (result.summary.criticalIssues > 0) return 'critical';
+    if (result.summary.highIssues > 0) return 'high';
+    if (result.summary.mediumIssues > 0) return 'medium';
+    if (result.summary.newIssues > 0) return 'low';
+    return 'none';
+  }
+
+  /**
+   * Calculate severity from redirect verification, matching the report's redirect finding
+   */
+  private calculateSeverityFromRedirects(result: RedirectVerificationResult): AISeverity {
+    const { summary } = result;
+    if (summary.loops > 0 || summary.notRedirected > 0 || summary.brokenTargets > 0) return 'critical';
+    if (summary.wrongTarget > 0 || summary.errors > 0) return 'high';
+    if (summary.wrongStatus > 0 || summary.invalidRules > 0) return 'medium';
+    if (summary.multiHopChains > 0) return 'low';
+    return 'none';
+  }
+
   /**
    * Convert severity to number for comparison
    */
@@ -460,6 +863,14 @@ You must be conservative and only flag real issues. Ignore:
           recommendations.push(`Fix functional issues: ${analysis.explanation}`);
         } else if (analysis.category === 'data') {
           recommendations.push(`Resolve data integrity issues: ${analysis.explanation}`);
+        } else if (analysis.category === 'seo') {
+          recommendations.push(`Restore SEO signals before cutover: ${analysis.explanation}`);
+        } else if (analysis.category === 'performance') {
+          recommendations.push(`Bring the candidate back within its performance budgets: ${analysis.explanation}`);
+        } else if (analysis.category === 'accessibility') {
+          recommendations.push(`Fix accessibility regressions before cutover: ${analysis.explanation}`);
+        } else if (analysis.category === 'redirects') {
+          recommendations.push(`Fix the redirect map so every legacy URL reaches its new location: ${analysis.explanation}`);
         }
       }
     }
@@ -0,0 +1,226 @@
+import { chromium, Browser, BrowserContextOptions } from 'playwright';
+import { ComparisonJob, JobCredentials, SiteAuthConfig } from '../models';
+import { CredentialStore } from './credentialStore';
+import { JourneyAgent } from './journeyAgent';
+
+/**
+ * Replacement for secret values in logs, errors, reports and API responses
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Context options that carry a site's authenticated session
+ */
+export type AuthContextOptions = Pick<BrowserContextOptions, 'httpCredentials' | 'extraHTTPHeaders' | 'storageState'>;
+
+/**
+ * Authenticated context options per site; a missing site uses an anonymous context
+ */
+export type SiteContextOptions = Partial<Record<'baseline' | 'candidate', AuthContextOptions>>;
+
+/**
+ * Where a site's secrets live, in either its stored credentials or its session options
+ */
+interface SecretSource {
+  basic?: { username: string; password: string };
+  headers?: Record<string, string>;
+  cookies?: Array<{ value: string }>;
+  values?: string[];
+}
+
+function secretsFrom(sources: SecretSource[]): string[] {
+  const secrets: string[] = [];
+
+  for (const source of sources) {
+    if (source.basic) {
+      const { username, password } = source.basic;
+      secrets.push(password);
+      // Basic auth shows up base64-encoded in Authorization headers
+      secrets.push(Buffer.from(`${username}:${password}`).toString('base64'));
+    }
+    secrets.push(...Object.values(source.headers ?? {}));
+    secrets.push(...(source.cookies ?? []).map((c) => c.value));
+    secrets.push(...(source.values ?? []));
+  }
+
+  return [...new Set(secrets.filter((s) => s.length > 0))];
+}
+
+/**
+ * Secret values in a job's credentials: passwords, header and cookie values and login journey inputs
+ */
+export function collectSecrets(credentials: JobCredentials): string[] {
+  const configs = [credentials.baseline, credentials.candidate].filter((c): c is SiteAuthConfig => c !== undefined);
+  return secretsFrom(
+    configs.map((config) => ({
+      ...config,
+      values: (config.loginJourney?.steps ?? []).flatMap((step) => (step.action === 'fill' ? [step.value] : [])),
+    }))
+  );
+}
+
+/**
+ * Secret values in a site's session options: header values, the basic auth password and session cookies
+ */
+export function collectSessionSecrets(options: BrowserContextOptions): string[] {
+  return secretsFrom([
+    {
+      basic: options.httpCredentials,
+      headers: options.extraHTTPHeaders,
+      cookies: options.storageState && typeof options.storageState !== 'string' ? options.storageState.cookies : undefined,
+    },
+  ]);
+}
+
+/**
+ * Build a function that replaces every secret in a piece of text
+ */
+export function createRedactor(secrets: string[]): (text: string) => string {
+  // Longest first so a secret containing another is replaced whole
+  const sorted = [...secrets].sort((a, b) => b.length - a.length);
+  return (text) => sorted.reduce((result, secret) => result.split(secret).join(REDACTED), text);
+}
+
+/**
+ * Copy of a JSON value with `redact` applied to every string in it, for redacting before serializing
+ * (JSON escaping hides secrets containing quotes, backslashes or control characters from a text redactor).
+ * Name/value pairs for which `isSecretPair` holds, given the pair and the key it sits under, get their value blanked.
+ */
+export function redactDeep(
+  value: unknown,
+  redact: (text: string) => string,
+  isSecretPair: (pair: Record<string, unknown>, key?: string) => boolean = () => false,
+  key?: string
+): unknown {
+  if (typeof value === 'string') {
+    return redact(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactDeep(item, redact, isSecretPair, key));
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const secret = isSecretPair(record, key);
+    return Object.fromEntries(
+      Object.entries(record).map(([name, item]) => [
+        name,
+        secret && name === 'value' ? REDACTED : redactDeep(item, redact, isSecretPair, name),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Copy of a site config with secret values replaced, safe to return from the API
+ */
+export function redactSiteAuth(config: SiteAuthConfig): SiteAuthConfig {
+  return {
+    basic: config.basic && { username: config.basic.username, password: REDACTED },
+    headers: config.headers && Object.fromEntries(Object.keys(config.headers).map((name) => [name, REDACTED])),
+    cookies: config.cookies?.map((cookie) => ({ ...cookie, value: REDACTED })),
+    loginJourney: config.loginJourney && {
+      ...config.loginJourney,
+      steps: config.loginJourney.steps.map((step) => (step.action === 'fill' ? { ...step, value: REDACTED } : step)),
+    },
+  };
+}
+
+export function redactCredentials(credentials: JobCredentials): JobCredentials {
+  return {
+    ...credentials,
+    baseline: credentials.baseline && redactSiteAuth(credentials.baseline),
+    candidate: credentials.candidate && redactSiteAuth(credentials.candidate),
+  };
+}
+
+/**
+ * AuthService - Signs in to baseline and candidate sites before a run
+ * Produces a Playwright storage state per site that every context in the run reuses
+ */
+export class AuthService {
+  constructor(
+    private readonly credentialStore: CredentialStore = new CredentialStore(),
+    private readonly journeyAgent: JourneyAgent = new JourneyAgent()
+  ) {}
+
+  async getCredentials(jobId: string): Promise<JobCredentials | undefined> {
+    return this.credentialStore.get(jobId);
+  }
+
+  /**
+   * Sign in to every site that has credentials configured
+   */
+  async prepareSessions(
+    job: ComparisonJob,
+    credentials: JobCredentials,
+    runId: string,
+    onLog?: (message: string) => void
+  ): Promise<SiteContextOptions> {
+    const sites = (['baseline', 'candidate'] as const).filter((site) => credentials[site]);
+    if (sites.length === 0) {
+      return {};
+    }
+
+    const browser = await chromium.launch({ headless: true });
+    const sessions: SiteContextOptions = {};
+
+    try {
+      for (const site of sites) {
+        const baseUrl = site === 'baseline' ? job.baselineUrl : job.candidateUrl;
+        onLog?.(`Signing in to ${site} site`);
+        sessions[site] = await this.prepareSite(browser, credentials[site]!, baseUrl, site, runId);
+        onLog?.(`Prepared authenticated session for ${site} site`);
+      }
+    } finally {
+      await browser.close();
+    }
+
+    return sessions;
+  }
+
+  /**
+   * Apply basic auth, headers and cookies, run the login journey and capture the resulting storage state
+   */
+  async prepareSite(
+    browser: Browser,
+    config: SiteAuthConfig,
+    baseUrl: string,
+    siteType: 'baseline' | 'candidate',
+    runId: string
+  ): Promise<AuthContextOptions> {
+    const options: AuthContextOptions = {};
+    if (config.basic) {
+      options.httpCredentials = { username: config.basic.username, password: config.basic.password };
+    }
+    if (config.headers && Object.keys(config.headers).length > 0) {
+      options.extraHTTPHeaders = { ...config.headers };
+    }
+
+    const context = await browser.newContext({ ...options, ignoreHTTPSErrors: true });
+
+    try {
+      if (config.cookies && config.cookies.length > 0) {
+        await context.addCookies(
+          config.cookies.map(({ domain, path, ...cookie }) =>
+            domain ? { ...cookie, domain, path: path ?? '/' } : { ...cookie, url: new URL(path ?? '/', baseUrl).toString() }
+          )
+        );
+      }
+
+      if (config.loginJourney) {
+        const run = await this.journeyAgent.executeJourney(context, config.loginJourney, baseUrl, siteType, runId);
+        if (!run.passed) {
+          const failed = run.steps.find((s) => s.status === 'failed');
+          throw new Error(`Login journey failed on ${siteType} at "${failed?.label}": ${failed?.error ?? 'unknown error'}`);
+        }
+      }
+
+      options.storageState = await context.storageState();
+    } finally {
+      await context.close();
+    }
+
+    return options;
+  }
+}
@@ -0,0 +1,79 @@
+import { BrowserContextOptions } from 'playwright';
+import { CaptureProfile, Rect } from '../models';
+
+/**
+ * Profiles captured when a job sets none
+ */
+export const DEFAULT_CAPTURE_PROFILES: CaptureProfile[] = [
+  { name: 'desktop', width: 1920, height: 1080 },
+  { name: 'tablet', width: 768, height: 1024 },
+  { name: 'mobile', width: 375, height: 667 },
+];
+
+/**
+ * Profile names end up in artifact file names
+ */
+const PROFILE_NAME = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Whether the profile needs a browser context of its own
+ * Viewport size and media features can change on a live page; device options are fixed when a context is created.
+ */
+export function needsOwnContext(profile: CaptureProfile): boolean {
+  return (
+    profile.deviceScaleFactor !== undefined ||
+    profile.isMobile !== undefined ||
+    profile.hasTouch !== undefined ||
+    profile.userAgent !== undefined ||
+    profile.locale !== undefined ||
+    profile.timezoneId !== undefined
+  );
+}
+
+/**
+ * Browser context options emulating a profile
+ */
+export function profileContextOptions(profile: CaptureProfile): BrowserContextOptions {
+  const options: BrowserContextOptions = {
+    viewport: { width: profile.width, height: profile.height },
+  };
+  if (profile.deviceScaleFactor !== undefined) options.deviceScaleFactor = profile.deviceScaleFactor;
+  if (profile.isMobile !== undefined) options.isMobile = profile.isMobile;
+  if (profile.hasTouch !== undefined) options.hasTouch = profile.hasTouch;
+  if (profile.userAgent !== undefined) options.userAgent = profile.userAgent;
+  if (profile.locale !== undefined) options.locale = profile.locale;
+  if (profile.timezoneId !== undefined) options.timezoneId = profile.timezoneId;
+  if (profile.colorScheme !== undefined) options.colorScheme = profile.colorScheme;
+  if (profile.reducedMotion !== undefined) options.reducedMotion = profile.reducedMotion;
+  return options;
+}
+
+/**
+ * Convert CSS-pixel rectangles to pixels of a screenshot taken with the profile
+ * Screenshots are captured at the device scale factor, so a 2x profile's image is twice the page's CSS size.
+ */
+export function toScreenshotPixels(rects: Rect[], profile: CaptureProfile): Rect[] {
+  const scale = profile.deviceScaleFactor ?? 1;
+  return rects.map(({ x, y, width, height }) => {
+    const left = Math.floor(x * scale);
+    const top = Math.floor(y * scale);
+    return { x: left, y: top, width: Math.ceil((x + width) * scale) - left, height: Math.ceil((y + height) * scale) - top };
+  });
+}
+
+/**
+ * Check a job's capture profiles; throws on unusable or duplicate names
+ */
+export function validateCaptureProfiles(profiles: CaptureProfile[]): CaptureProfile[] {
+  const names = new Set<string>();
+  profiles.forEach((profile, index) => {
+    if (typeof profile.name !== 'string' || !PROFILE_NAME.test(profile.name)) {
+      throw new Error(`Invalid capture profile: profile ${index + 1} needs a name of letters, digits, '-' or '_'`);
+    }
+    if (names.has(profile.name)) {
+      throw new Error(`Invalid capture profile: duplicate name "${profile.name}"`);
+    }
+    names.add(profile.name);
+  });
+  return profiles;
+}
@@ -1,9 +1,35 @@
-import { chromium, Browser, Page } from 'playwright';
+import { chromium, Browser, BrowserContextOptions, Page, Response } from 'playwright';
 import { parseStringPromise } from 'xml2js';
 import { promises as fs } from 'fs';
 import path from 'path';
-import { CrawlConfig, PageMap, ComparisonJob } from '../models';
-import { DATA_DIR } from '../config/config';
+import { gunzipSync } from 'zlib';
+import { CrawlConfig, PageMap, ComparisonJob, InterceptRule, RewriteRule, UrlNormalizationPolicy, UrlSource } from '../models';
+import { CRAWL_CHECKPOINT_INTERVAL, DATA_DIR } from '../config/config';
+import { extractIdentifiers, minHashSignature, signatureSimilarity, slugOf, stringSimilarity } from './pageMatching';
+import { applyRewriteRules } from './rewriteRules';
+import { MAX_URL_LIST_SIZE, UrlListImport, parseUrlListEntries, toBaselinePath } from './urlList';
+import { RobotsRules, isAllowedByRobots, parseRobotsTxt } from './robotsTxt';
+import { normalizePath, normalizeUrlWithPolicy, pathOfNormalizedUrl } from './urlNormalization';
+import { SpaRoute, discoverSpaRoutes, installRouteHook } from './spaDiscovery';
+import { HostRateLimiter, isRetryableStatus, retryDelayMs, sleep } from './crawlPoliteness';
+import { InterceptedRequest, interceptRequests, rulesForSite } from './requestInterception';
+
+/**
+ * Sitemap indexes nested deeper than this are not followed
+ */
+const MAX_SITEMAP_DEPTH = 5;
+
+/**
+ * Crawl politeness defaults when the crawl config sets none
+ */
+export const DEFAULT_CRAWL_CONCURRENCY = 4;
+export const DEFAULT_MAX_RETRIES = 2;
+export const DEFAULT_RETRY_DELAY_MS = 1000;
+
+/**
+ * Minimum confidence for a page pair when the crawl config sets none
+ */
+export const DEFAULT_MIN_MATCH_CONFIDENCE = 0.5;
 
 /**
  * Crawled page information
@@ -20,6 +46,12 @@ export interface CrawledPage {
     ogTitle?: string;
     ogDescription?: string;
   };
+  canonicalUrl?: string; // Absolute URL from <link rel="canonical">
+  identifiers?: string[]; // JSON-LD identifiers as 'key:value' (e.g. 'sku:A-100')
+  contentSignature?: number[]; // MinHash signature of the main content text
+  spaRoutes?: SpaRoute[]; // Client-side routes revealed by clicking navigation-like elements
+  discoveredVia?: SpaRoute; // Interaction that revealed this page, when SPA discovery found it
+  interceptedRequests?: InterceptedRequest[]; // Requests blocked, mocked or rewritten while loading it, when rules apply
 }
 
 /**
@@ -31,6 +63,39 @@ export interface CrawlResult {
   sitemapUrls: string[];
   crawlLog: string[];
   errors: string[];
+  robotsDisallowed?: string[]; // URLs skipped because robots.txt disallows them
+  spaRoutes?: SpaRoute[]; // New client-side routes queued by SPA discovery, with the interaction that revealed them
+}
+
+/**
+ * URL waiting in the crawl queue
+ */
+export interface CrawlTarget {
+  url: string;
+  depth: number;
+  discoveredVia?: SpaRoute;
+}
+
+/**
+ * Crawl state saved at intervals so an interrupted crawl can continue where it stopped
+ */
+export interface CrawlCheckpoint {
+  baseUrl: string;
+  savedAt: string;
+  completed: boolean; // The crawl finished; resuming reuses the result as is
+  frontier: CrawlTarget[]; // URLs still to visit, including those loading when saved
+  visited: string[]; // Normalized URLs already handled
+  result: CrawlResult;
+}
+
+/**
+ * Baseline vs candidate sitemap comparison
+ */
+export interface SitemapDiff {
+  baselineCount: number;
+  candidateCount: number;
+  missingFromCandidate: Array<{ url: string; expectedPath: string; rewriteRule?: string }>;
+  extraInCandidate: string[]; // Candidate sitemap URLs no baseline entry maps to
 }
 
 /**
@@ -41,6 +106,31 @@ export interface MatchedPage {
   candidate: CrawledPage;
   confidence: number; // 0-1, how confident we are in the match
   matchReason: string; // Why these pages were matched
+  rewriteRule?: string; // Rewrite rule that mapped the baseline path, if any
+}
+
+/**
+ * Pages left without a counterpart after matching
+ */
+export interface UnmatchedPages {
+  baseline: CrawledPage[];
+  candidate: CrawledPage[];
+}
+
+/**
+ * Where crawlSite takes the URLs to visit from
+ */
+export interface CrawlDiscovery {
+  source: UrlSource;
+  paths?: string[]; // Paths visited for source 'list'
+}
+
+/**
+ * Optional callbacks to observe crawl progress as it happens
+ */
+export interface CrawlListener {
+  onLog?(message: string): void;
+  onPage?(page: CrawledPage): void;
 }
 
 /**
@@ -49,6 +139,7 @@ export interface MatchedPage {
  */
 export class CrawlAgent {
   private browser: Browser | null = null;
+  private browserLaunch: Promise<Browser> | null = null;
   private readonly artifactsDir: string;
 
   constructor() {
@@ -60,9 +151,11 @@ export class CrawlAgent {
    */
   async initialize(): Promise<void> {
     if (!this.browser) {
-      this.browser = await chromium.launch({
+      // Baseline and candidate crawls run in parallel and share one launch
+      this.browserLaunch ??= chromium.launch({
         headless: true,
       });
+      this.browser = await this.browserLaunch;
     }
   }
 
@@ -70,6 +163,7 @@ export class CrawlAgent {
    * Cleanup browser instance
    */
   async cleanup(): Promise<void> {
+    this.browserLaunch = null;
     if (this.browser) {
       await this.browser.close();
       this.browser = null;
@@ -77,33 +171,45 @@ export class CrawlAgent {
   }
 
   /**
-   * Read sitemap.xml from a URL
+   * Read a sitemap from a URL, following sitemap indexes and decompressing gzip sitemaps
    */
-  async readSitemap(sitemapUrl: string): Promise<string[]> {
-    const log: string[] = [];
+  async readSitemap(
+    sitemapUrl: string,
+    headers: Record<string, string> = {},
+    onLog?: (message: string) => void,
+    visited: Set<string> = new Set(),
+    depth = 0
+  ): Promise<string[]> {
     const urls: string[] = [];
 
+    if (visited.has(sitemapUrl) || depth > MAX_SITEMAP_DEPTH) {
+      return urls;
+    }
+    visited.add(sitemapUrl);
+
     try {
-      log.push(`Reading sitemap from: ${sitemapUrl}`);
-      const response = await fetch(sitemapUrl);
-      
+      onLog?.(`Reading sitemap from: ${sitemapUrl}`);
+      const response = await fetch(sitemapUrl, { headers });
+
       if (!response.ok) {
-        log.push(`Sitemap not found or inaccessible: ${response.status}`);
+        onLog?.(`Sitemap not found or inaccessible: ${response.status}`);
         return urls;
       }
 
-      const xmlContent = await response.text();
+      // .xml.gz files arrive compressed unless the server already decoded them via Content-Encoding
+      const body = Buffer.from(await response.arrayBuffer());
+      const xmlContent = (body[0] === 0x1f && body[1] === 0x8b ? gunzipSync(body) : body).toString('utf-8');
       const parsed = await parseStringPromise(xmlContent);
 
       // Handle sitemap index (contains multiple sitemaps)
       if (parsed.sitemapindex) {
-        log.push('Found sitemap index');
-        const sitemapUrls = (parsed.sitemapindex.sitemap as Array<{ loc?: string[] }>)?.map((s) => s.loc?.[0]).filter(Boolean) || [];
-        
+        const sitemapUrls = (parsed.sitemapindex.sitemap as Array<{ loc?: string[] }>)?.map((s) => s.loc?.[0]?.trim()).filter(Boolean) || [];
+        onLog?.(`Found sitemap index with ${sitemapUrls.length} sitemaps`);
+
         // Recursively read nested sitemaps
         for (const nestedSitemapUrl of sitemapUrls) {
           if (nestedSitemapUrl) {
-            const nestedUrls = await this.readSitemap(nestedSitemapUrl);
+            const nestedUrls = await this.readSitemap(nestedSitemapUrl, headers, onLog, visited, depth + 1);
             urls.push(...nestedUrls);
           }
         }
@@ -112,33 +218,45 @@ export class CrawlAgent {
 
       // Handle regular sitemap
       if (parsed.urlset?.url) {
-        const sitemapUrls = (parsed.urlset.url as Array<{ loc?: string[] }>).map((entry) => entry.loc?.[0]).filter(Boolean) as string[];
-        log.push(`Found ${sitemapUrls.length} URLs in sitemap`);
+        const sitemapUrls = (parsed.urlset.url as Array<{ loc?: string[] }>).map((entry) => entry.loc?.[0]?.trim()).filter(Boolean) as string[];
+        onLog?.(`Found ${sitemapUrls.length} URLs in ${sitemapUrl}`);
         urls.push(...sitemapUrls);
       }
     } catch (error) {
-      log.push(`Error reading sitemap: ${error instanceof Error ? error.message : String(error)}`);
+      onLog?.(`Error reading sitemap: ${error instanceof Error ? error.message : String(error)}`);
     }
 
     return urls;
   }
 
   /**
-   * Normalize URL to a stable path representation
+   * Read robots.txt for a site; undefined when the site has none
    */
-  normalizeUrl(url: string, baseUrl: string): string {
+  async readRobotsTxt(baseUrl: string, headers: Record<string, string> = {}): Promise<RobotsRules | undefined> {
     try {
-      const urlObj = new URL(url, baseUrl);
-      // Remove query params and hash for normalization
-      const normalized = `${urlObj.protocol}//${urlObj.host}${urlObj.pathname}`;
-      return normalized.replace(/\/$/, ''); // Remove trailing slash
+      const response = await fetch(new URL('/robots.txt', baseUrl).href, { headers });
+      if (!response.ok) {
+        return undefined;
+      }
+      return parseRobotsTxt(await response.text(), baseUrl);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Normalize URL to a stable path representation, following the job's normalization policy
+   */
+  normalizeUrl(url: string, baseUrl: string, policy?: UrlNormalizationPolicy): string {
+    try {
+      return normalizeUrlWithPolicy(url, baseUrl, policy);
     } catch (error) {
       return url;
     }
   }
 
   /**
-   * Extract path from URL (relative to base)
+   * Extract path from URL (relative to base), with whatever query string and fragment normalization kept
    */
   extractPath(url: string, baseUrl: string): string {
     try {
@@ -149,7 +267,7 @@ export class CrawlAgent {
         return url; // External link, return full URL
       }
 
-      return urlObj.pathname || '/';
+      return pathOfNormalizedUrl(urlObj.href);
     } catch (error) {
       return url;
     }
@@ -190,8 +308,18 @@ export class CrawlAgent {
   /**
    * Crawl a single page
    */
-  async crawlPage(page: Page, url: string, baseUrl: string, depth: number, maxDepth: number, visited: Set<string>, config: CrawlConfig): Promise<CrawledPage | null> {
-    const normalized = this.normalizeUrl(url, baseUrl);
+  async crawlPage(
+    page: Page,
+    url: string,
+    baseUrl: string,
+    depth: number,
+    maxDepth: number,
+    visited: Set<string>,
+    config: CrawlConfig,
+    rateLimiter: HostRateLimiter = HostRateLimiter.forRate(config.requestsPerSecond),
+    log?: (message: string) => void
+  ): Promise<CrawledPage | null> {
+    const normalized = this.normalizeUrl(url, baseUrl, config.normalization);
     
     // Skip if already visited
     if (visited.has(normalized)) {
@@ -211,7 +339,7 @@ export class CrawlAgent {
     visited.add(normalized);
 
     try {
-      const response = await page.goto(url, { waitUntil: 'networkidle', timeout: 30000 });
+      const response = await this.navigate(page, url, config, rateLimiter, log);
       const statusCode = response?.status() || 0;
 
       if (statusCode >= 400) {
@@ -240,22 +368,57 @@ export class CrawlAgent {
         };
       });
 
+      // Extract matching hints: canonical URL, JSON-LD and main content text
+      const content = await page.evaluate(() => {
+        const main = document.querySelector('main, article, [role="main"]') ?? document.body;
+        return {
+          canonical: document.querySelector('link[rel="canonical"]')?.getAttribute('href') || undefined,
+          jsonLd: Array.from(document.querySelectorAll('script[type="application/ld+json"]')).map((s) => s.textContent || ''),
+          text: ((main as HTMLElement | null)?.innerText ?? '').slice(0, 50000),
+        };
+      });
+
+      const identifiers = new Set<string>();
+      for (const block of content.jsonLd) {
+        try {
+          extractIdentifiers(JSON.parse(block), identifiers);
+        } catch {
+          // Ignore malformed JSON-LD
+        }
+      }
+
+      const isFollowable = (link: string) => {
+        try {
+          const linkUrl = new URL(link, baseUrl);
+          const baseUrlObj = new URL(baseUrl);
+          // Only include same-domain links or external if configured
+          return config.followExternalLinks || linkUrl.host === baseUrlObj.host;
+        } catch {
+          return false;
+        }
+      };
+      const canonicalUrl = content.canonical ? new URL(content.canonical, page.url()).toString() : undefined;
+
+      // Clicking changes the page, so this runs after everything else was read
+      let spaRoutes: SpaRoute[] | undefined;
+      if (config.spaDiscovery) {
+        spaRoutes = (await discoverSpaRoutes(page, config.spaMaxInteractions, log)).filter((route) => isFollowable(route.url));
+        if (spaRoutes.length > 0) {
+          log?.(`Discovered ${spaRoutes.length} client-side routes on ${url}`);
+        }
+      }
+
       return {
         url: normalized,
         normalizedPath: this.extractPath(normalized, baseUrl),
         title,
         statusCode,
-        links: links.filter((link) => {
-          try {
-            const linkUrl = new URL(link, baseUrl);
-            const baseUrlObj = new URL(baseUrl);
-            // Only include same-domain links or external if configured
-            return config.followExternalLinks || linkUrl.host === baseUrlObj.host;
-          } catch {
-            return false;
-          }
-        }),
+        links: links.filter(isFollowable),
         metadata,
+        canonicalUrl,
+        identifiers: identifiers.size > 0 ? [...identifiers] : undefined,
+        contentSignature: minHashSignature(content.text),
+        spaRoutes,
       };
     } catch (error) {
       // Page failed to load, return null
@@ -264,101 +427,454 @@ export class CrawlAgent {
   }
 
   /**
-   * Crawl a website starting from base URL
+   * Load a URL, retrying 429 and 5xx responses with backoff (or the server's Retry-After)
    */
-  async crawlSite(baseUrl: string, config: CrawlConfig, runId: string): Promise<CrawlResult> {
-    await this.initialize();
+  async navigate(
+    page: Page,
+    url: string,
+    config: CrawlConfig,
+    rateLimiter: HostRateLimiter,
+    log?: (message: string) => void
+  ): Promise<Response | null> {
+    const maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+    for (let attempt = 0; ; attempt++) {
+      await rateLimiter.acquire(url);
+      const response = await page.goto(url, { waitUntil: 'networkidle', timeout: 30000 });
+      const status = response?.status() ?? 0;
+
+      if (!isRetryableStatus(status) || attempt >= maxRetries) {
+        return response;
+      }
+
+      const delay = retryDelayMs(attempt, config.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS, response?.headers()['retry-after']);
+      log?.(`HTTP ${status} for ${url}, retrying in ${delay}ms (${attempt + 1}/${maxRetries})`);
+      await sleep(delay);
+    }
+  }
 
-    const result: CrawlResult = {
+  /**
+   * Crawl a website starting from base URL
+   * Context options carry the site's authenticated session, if any.
+   * Outside 'crawl' discovery, only sitemap entries or the listed paths are visited and links are not followed.
+   * Intercept rules, already narrowed to this site, are routed on every crawl page; sitemaps and robots.txt are fetched directly.
+   */
+  async crawlSite(
+    baseUrl: string,
+    config: CrawlConfig,
+    runId: string,
+    listener?: CrawlListener,
+    contextOptions: BrowserContextOptions = {},
+    discovery: CrawlDiscovery = { source: 'crawl' },
+    interceptRules: InterceptRule[] = []
+  ): Promise<CrawlResult> {
+    // A checkpoint only exists when this run was interrupted and resumed
+    const checkpoint = await this.loadCheckpoint(runId, baseUrl);
+
+    const result: CrawlResult = checkpoint?.result ?? {
       baseUrl,
       pages: [],
       sitemapUrls: [],
       crawlLog: [],
       errors: [],
     };
+    const log = (message: string) => {
+      result.crawlLog.push(message);
+      listener?.onLog?.(message);
+    };
 
-    const visited = new Set<string>();
-    const toVisit: Array<{ url: string; depth: number }> = [{ url: baseUrl, depth: 0 }];
+    if (checkpoint?.completed) {
+      log(`Reusing completed crawl from checkpoint: ${result.pages.length} pages`);
+      return result;
+    }
 
-    // Try to read sitemap first
-    const sitemapUrl = new URL('/sitemap.xml', baseUrl).href;
-    result.crawlLog.push(`Attempting to read sitemap from: ${sitemapUrl}`);
-    
-    try {
-      const sitemapUrls = await this.readSitemap(sitemapUrl);
-      result.sitemapUrls = sitemapUrls;
-      result.crawlLog.push(`Found ${sitemapUrls.length} URLs in sitemap`);
-
-      // Add sitemap URLs to crawl queue
-      for (const sitemapUrl of sitemapUrls.slice(0, config.maxPages || 100)) {
-        if (!visited.has(this.normalizeUrl(sitemapUrl, baseUrl))) {
-          toVisit.push({ url: sitemapUrl, depth: 0 });
+    await this.initialize();
+
+    // Sitemap discovery takes its URLs from the sitemaps read below
+    const followLinks = discovery.source === 'crawl';
+    const seeds =
+      discovery.source === 'list' ? (discovery.paths ?? []).map((p) => new URL(p, baseUrl).href) : followLinks ? [baseUrl] : [];
+
+    const visited = new Set<string>(checkpoint?.visited);
+    const toVisit: CrawlTarget[] = checkpoint
+      ? [...checkpoint.frontier]
+      : seeds.map((url) => ({ url, depth: 0 }));
+    const headers = this.sitemapHeaders(contextOptions);
+
+    // robots.txt declares sitemap locations and, when configured, limits what we crawl
+    const robots = await this.readRobotsTxt(baseUrl, headers);
+    if (robots) {
+      log(`Found robots.txt: ${robots.sitemaps.length} sitemaps, ${robots.disallow.length} disallow rules`);
+    }
+    const obeyedRobots = config.respectRobotsTxt ? robots : undefined;
+    if (obeyedRobots) {
+      result.robotsDisallowed ??= [];
+    }
+
+    if (checkpoint) {
+      // Sitemap URLs were queued before the checkpoint was taken
+      log(`Resuming crawl from checkpoint: ${result.pages.length} pages crawled, ${toVisit.length} URLs queued`);
+    } else if (discovery.source === 'list') {
+      log(`Visiting ${toVisit.length} listed paths without link discovery`);
+    } else {
+      // Try to read sitemaps first
+      const sitemapLocations = [...new Set([...(robots?.sitemaps ?? []), new URL('/sitemap.xml', baseUrl).href])];
+
+      try {
+        const readSitemaps = new Set<string>();
+        const sitemapUrls: string[] = [];
+        for (const sitemapUrl of sitemapLocations) {
+          log(`Attempting to read sitemap from: ${sitemapUrl}`);
+          sitemapUrls.push(...(await this.readSitemap(sitemapUrl, headers, log, readSitemaps)));
+        }
+        result.sitemapUrls = [...new Set(sitemapUrls)];
+        log(`Found ${result.sitemapUrls.length} URLs in sitemaps`);
+
+        // Add sitemap URLs to crawl queue
+        for (const sitemapUrl of result.sitemapUrls.slice(0, config.maxPages || 100)) {
+          if (!visited.has(this.normalizeUrl(sitemapUrl, baseUrl, config.normalization))) {
+            toVisit.push({ url: sitemapUrl, depth: 0 });
+          }
         }
+      } catch (error) {
+        log(`Could not read sitemap: ${error instanceof Error ? error.message : String(error)}`);
       }
-    } catch (error) {
-      result.crawlLog.push(`Could not read sitemap: ${error instanceof Error ? error.message : String(error)}`);
     }
 
     if (!this.browser) {
       throw new Error('Browser not initialized');
     }
 
-    const page = await this.browser.newPage();
+    const context = await this.browser.newContext(contextOptions);
+    if (config.spaDiscovery) {
+      await context.addInitScript(installRouteHook);
+      result.spaRoutes ??= [];
+    }
+    // An uploaded list is visited in full
+    const maxPages = discovery.source === 'list' ? (discovery.paths ?? []).length : config.maxPages || 100;
+    const rateLimiter = HostRateLimiter.forRate(config.requestsPerSecond, obeyedRobots?.crawlDelay);
+
+    // Workers share the queue; a worker with nothing to do waits while others may still discover links.
+    // Items count as in flight from the moment they are taken so idle workers don't exit early.
+    let inFlight = 0;
+    let waiting: Array<() => void> = [];
+    let interrupted: unknown;
+    const taken = new Set<CrawlTarget>();
+    const notify = () => {
+      const resolvers = waiting;
+      waiting = [];
+      resolvers.forEach((resolve) => resolve());
+    };
+    const nextItem = async (): Promise<CrawlTarget | undefined> => {
+      for (;;) {
+        if (interrupted) return undefined;
+        const item = result.pages.length + inFlight >= maxPages ? undefined : toVisit.shift();
+        if (item) {
+          inFlight++;
+          taken.add(item);
+          return item;
+        }
+        if (inFlight === 0) return undefined;
+        await new Promise<void>((resolve) => waiting.push(resolve));
+      }
+    };
 
-    try {
-      while (toVisit.length > 0 && result.pages.length < (config.maxPages || 100)) {
-        const { url, depth } = toVisit.shift()!;
-        const normalized = this.normalizeUrl(url, baseUrl);
+    // Checkpoints are written one at a time from a copy taken when requested.
+    // URLs still loading go back to the front of the queue so a resume loads them again.
+    let checkpointWrite = Promise.resolve();
+    const saveCheckpoint = (completed: boolean) => {
+      const crawled = new Set(result.pages.map((p) => p.url));
+      const loading = [...taken].filter((item) => !crawled.has(this.normalizeUrl(item.url, baseUrl, config.normalization)));
+      const loadingUrls = new Set(loading.map((item) => this.normalizeUrl(item.url, baseUrl, config.normalization)));
+      const state: CrawlCheckpoint = structuredClone({
+        baseUrl,
+        savedAt: new Date().toISOString(),
+        completed,
+        frontier: [...loading, ...toVisit],
+        visited: [...visited].filter((url) => !loadingUrls.has(url)),
+        result,
+      });
+      checkpointWrite = checkpointWrite
+        .then(() => this.saveCheckpoint(runId, state))
+        .then(
+          () => undefined,
+          (error) => log(`Could not save crawl checkpoint: ${error instanceof Error ? error.message : String(error)}`)
+        );
+      return checkpointWrite;
+    };
 
-        if (visited.has(normalized)) {
-          continue;
-        }
+    const visit = async (page: Page, { url, depth, discoveredVia }: CrawlTarget, intercepted: InterceptedRequest[]) => {
+      const normalized = this.normalizeUrl(url, baseUrl, config.normalization);
+
+      if (visited.has(normalized)) {
+        return;
+      }
+
+      if (obeyedRobots && !this.isAllowedByRobots(url, obeyedRobots)) {
+        visited.add(normalized);
+        result.robotsDisallowed!.push(url);
+        log(`Disallowed by robots.txt: ${url}`);
+        return;
+      }
+
+      log(`Crawling: ${url} (depth: ${depth})`);
 
-        result.crawlLog.push(`Crawling: ${url} (depth: ${depth})`);
+      const crawledPage = await this.crawlPage(page, url, baseUrl, depth, config.depth, visited, config, rateLimiter, log);
 
-        const crawledPage = await this.crawlPage(page, url, baseUrl, depth, config.depth, visited, config);
+      if (crawledPage && result.pages.length < maxPages) {
+        crawledPage.discoveredVia = discoveredVia;
+        if (interceptRules.length > 0) {
+          crawledPage.interceptedRequests = [...intercepted];
+        }
+        result.pages.push(crawledPage);
+        listener?.onPage?.(crawledPage);
+        log(`Successfully crawled: ${crawledPage.normalizedPath}`);
+
+        if (result.pages.length % CRAWL_CHECKPOINT_INTERVAL === 0) {
+          void saveCheckpoint(false);
+        }
 
-        if (crawledPage) {
-          result.pages.push(crawledPage);
-          result.crawlLog.push(`Successfully crawled: ${crawledPage.normalizedPath}`);
+        // Add links to queue if within depth limit
+        if (followLinks && depth < config.depth) {
+          for (const link of crawledPage.links) {
+            const linkNormalized = this.normalizeUrl(link, baseUrl, config.normalization);
+            if (!visited.has(linkNormalized)) {
+              toVisit.push({ url: link, depth: depth + 1 });
+            }
+          }
 
-          // Add links to queue if within depth limit
-          if (depth < config.depth) {
-            for (const link of crawledPage.links) {
-              const linkNormalized = this.normalizeUrl(link, baseUrl);
-              if (!visited.has(linkNormalized)) {
-                toVisit.push({ url: link, depth: depth + 1 });
-              }
+          // Routes only reachable through client-side navigation keep the interaction that revealed them
+          for (const route of crawledPage.spaRoutes ?? []) {
+            const routeNormalized = this.normalizeUrl(route.url, baseUrl, config.normalization);
+            const known =
+              visited.has(routeNormalized) ||
+              result.spaRoutes!.some((r) => this.normalizeUrl(r.url, baseUrl, config.normalization) === routeNormalized);
+            if (!known) {
+              result.spaRoutes!.push(route);
+              toVisit.push({ url: route.url, depth: depth + 1, discoveredVia: route });
             }
           }
-        } else {
-          result.crawlLog.push(`Skipped or failed: ${url}`);
         }
+      } else if (page.isClosed()) {
+        // The browser went away (crash or cancel); the URL stays queued for a resume
+        throw new Error(`Browser closed while crawling ${url}`);
+      } else {
+        log(`Skipped or failed: ${url}`);
       }
-    } catch (error) {
-      result.errors.push(`Crawl error: ${error instanceof Error ? error.message : String(error)}`);
+    };
+
+    const worker = async () => {
+      let page: Page | undefined;
+      // Requests intercepted on this worker's page since its current URL started loading
+      const intercepted: InterceptedRequest[] = [];
+      try {
+        page = await context.newPage();
+        await interceptRequests(page, interceptRules, (request) => intercepted.push(request));
+        for (let item = await nextItem(); item; item = await nextItem()) {
+          intercepted.length = 0;
+          try {
+            await visit(page, item, intercepted);
+            taken.delete(item);
+          } finally {
+            inFlight--;
+            notify();
+          }
+        }
+      } catch (error) {
+        // A broken page or browser stops every worker; what was crawled so far goes to the checkpoint
+        interrupted ??= error;
+        result.errors.push(`Crawl error: ${error instanceof Error ? error.message : String(error)}`);
+        notify();
+      } finally {
+        await page?.close().catch(() => undefined);
+      }
+    };
+
+    try {
+      const concurrency = Math.max(1, config.concurrency ?? DEFAULT_CRAWL_CONCURRENCY);
+      log(`Crawling with ${concurrency} concurrent pages`);
+      await Promise.all(Array.from({ length: concurrency }, () => worker()));
     } finally {
-      await page.close();
+      await context.close().catch(() => undefined);
+    }
+
+    if (interrupted) {
+      await saveCheckpoint(false);
+      throw new Error(
+        `Crawl of ${baseUrl} interrupted after ${result.pages.length} pages: ${interrupted instanceof Error ? interrupted.message : String(interrupted)}`
+      );
     }
 
-    result.crawlLog.push(`Crawl completed: ${result.pages.length} pages crawled`);
+    log(`Crawl completed: ${result.pages.length} pages crawled`);
+    await saveCheckpoint(true);
     return result;
   }
 
+  /**
+   * Location of a site's crawl checkpoint within the run's artifacts
+   */
+  private checkpointPath(runId: string, baseUrl: string): string {
+    const site = baseUrl
+      .replace(/^[a-z]+:\/\//i, '')
+      .replace(/[^a-z0-9]+/gi, '-')
+      .replace(/^-+|-+$/g, '');
+    return path.join(this.artifactsDir, runId, 'checkpoints', `crawl-${site}.json`);
+  }
+
+  /**
+   * Write a crawl checkpoint atomically so a crash mid-write leaves the previous one intact
+   */
+  async saveCheckpoint(runId: string, checkpoint: CrawlCheckpoint): Promise<string> {
+    const checkpointPath = this.checkpointPath(runId, checkpoint.baseUrl);
+    await fs.mkdir(path.dirname(checkpointPath), { recursive: true });
+    await fs.writeFile(`${checkpointPath}.tmp`, JSON.stringify(checkpoint));
+    await fs.rename(`${checkpointPath}.tmp`, checkpointPath);
+    return checkpointPath;
+  }
+
+  /**
+   * Load a site's crawl checkpoint for a run, if one was saved
+   */
+  async loadCheckpoint(runId: string, baseUrl: string): Promise<CrawlCheckpoint | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.checkpointPath(runId, baseUrl), 'utf-8')) as CrawlCheckpoint;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Whether a run saved any crawl checkpoint to resume from
+   */
+  async hasCheckpoint(runId: string): Promise<boolean> {
+    const files = await fs.readdir(path.join(this.artifactsDir, runId, 'checkpoints')).catch(() => []);
+    return files.some((file) => file.endsWith('.json'));
+  }
+
+  /**
+   * How a job's pages are discovered on each site
+   * In list mode the candidate visits each baseline path's pageMap entry or rewrite, else the same path.
+   */
+  discoveryFor(job: ComparisonJob, site: 'baseline' | 'candidate'): CrawlDiscovery {
+    const source = job.urlSource ?? 'crawl';
+    if (source !== 'list') {
+      return { source };
+    }
+
+    const policy = job.crawlConfig.normalization;
+    const paths = job.urlList ?? [];
+    if (site === 'baseline') {
+      return { source, paths };
+    }
+
+    const mapped = paths.map((baselinePath) =>
+      normalizePath(
+        job.pageMap?.find((m) => normalizePath(m.baselinePath, policy) === baselinePath)?.candidatePath ??
+          applyRewriteRules(baselinePath, job.rewriteRules ?? [])?.path ??
+          baselinePath,
+        policy
+      )
+    );
+    return { source, paths: [...new Set(mapped)] };
+  }
+
+  /**
+   * Validate an uploaded URL list (CSV or TXT) of baseline paths
+   * Entries are normalized like crawled pages, deduped and filtered by includePaths/excludePaths.
+   */
+  importUrlList(
+    content: string,
+    format: 'csv' | 'txt',
+    job: Pick<ComparisonJob, 'baselineUrl' | 'crawlConfig'>
+  ): UrlListImport {
+    const entries = parseUrlListEntries(content, format);
+    if (entries.length > MAX_URL_LIST_SIZE) {
+      throw new Error(`Invalid URL list: ${entries.length} entries exceed the limit of ${MAX_URL_LIST_SIZE}`);
+    }
+
+    const result: UrlListImport = { paths: [], duplicates: 0, excluded: [], invalid: [] };
+    const seen = new Set<string>();
+
+    for (const entry of entries) {
+      let listPath: string;
+      try {
+        listPath = toBaselinePath(entry.value, job.baselineUrl, job.crawlConfig.normalization);
+      } catch (error) {
+        result.invalid.push({ ...entry, reason: error instanceof Error ? error.message : String(error) });
+        continue;
+      }
+
+      if (seen.has(listPath)) {
+        result.duplicates++;
+        continue;
+      }
+      seen.add(listPath);
+
+      const { includePaths, excludePaths } = job.crawlConfig;
+      if (!this.matchesPatterns(new URL(listPath, job.baselineUrl).href, includePaths, excludePaths)) {
+        result.excluded.push(listPath);
+        continue;
+      }
+
+      result.paths.push(listPath);
+    }
+
+    if (result.paths.length === 0) {
+      throw new Error(
+        `Invalid URL list: no usable paths (${result.invalid.length} invalid, ${result.excluded.length} excluded by crawl config)`
+      );
+    }
+
+    return result;
+  }
+
+  private isAllowedByRobots(url: string, robots: RobotsRules): boolean {
+    try {
+      const { pathname, search } = new URL(url);
+      return isAllowedByRobots(`${pathname}${search}`, robots);
+    } catch {
+      return true;
+    }
+  }
+
+  /**
+   * Request headers for fetching the sitemap with the same credentials as the browser
+   */
+  private sitemapHeaders(contextOptions: BrowserContextOptions): Record<string, string> {
+    const headers = { ...contextOptions.extraHTTPHeaders };
+    const credentials = contextOptions.httpCredentials;
+    if (credentials) {
+      headers.Authorization = `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`;
+    }
+    return headers;
+  }
+
   /**
    * Match equivalent pages between baseline and candidate sites
+   * Explicit pageMap entries, rewrite rules and exact paths are paired first; the remaining pages are scored
+   * with every fuzzy strategy and paired greedily, best first. Pairs below minConfidence are dropped.
+   * PageMap entries and rewritten paths are normalized with the same policy as the crawled pages.
    */
-  matchPages(baselineResult: CrawlResult, candidateResult: CrawlResult, existingPageMap?: PageMap[]): MatchedPage[] {
+  matchPages(
+    baselineResult: CrawlResult,
+    candidateResult: CrawlResult,
+    existingPageMap?: PageMap[],
+    minConfidence: number = DEFAULT_MIN_MATCH_CONFIDENCE,
+    rewriteRules: RewriteRule[] = [],
+    normalization?: UrlNormalizationPolicy
+  ): MatchedPage[] {
     const matches: MatchedPage[] = [];
 
     // First, use explicit pageMap if provided
     if (existingPageMap && existingPageMap.length > 0) {
       for (const mapping of existingPageMap) {
+        const baselinePath = normalizePath(mapping.baselinePath, normalization);
+        const candidatePath = normalizePath(mapping.candidatePath, normalization);
         const baselinePage = baselineResult.pages.find(
-          (p) => p.normalizedPath === mapping.baselinePath || p.url.endsWith(mapping.baselinePath)
+          (p) => p.normalizedPath === baselinePath || p.url.endsWith(mapping.baselinePath)
         );
         const candidatePage = candidateResult.pages.find(
-          (p) => p.normalizedPath === mapping.candidatePath || p.url.endsWith(mapping.candidatePath)
+          (p) => p.normalizedPath === candidatePath || p.url.endsWith(mapping.candidatePath)
         );
 
         if (baselinePage && candidatePage) {
@@ -372,6 +888,27 @@ export class CrawlAgent {
       }
     }
 
+    // Then, rewrite baseline paths with the ordered rules and look up the result
+    for (const baselinePage of baselineResult.pages) {
+      if (rewriteRules.length === 0) break;
+      if (matches.some((m) => m.baseline.url === baselinePage.url)) continue;
+
+      const rewritten = applyRewriteRules(baselinePage.normalizedPath, rewriteRules);
+      if (!rewritten) continue;
+
+      const rewrittenPath = normalizePath(rewritten.path, normalization);
+      const candidatePage = candidateResult.pages.find((p) => p.normalizedPath === rewrittenPath);
+      if (candidatePage) {
+        matches.push({
+          baseline: baselinePage,
+          candidate: candidatePage,
+          confidence: 0.95,
+          matchReason: `Rewrite rule ${rewritten.rule}`,
+          rewriteRule: rewritten.rule,
+        });
+      }
+    }
+
     // Then, match by normalized path (exact match)
     for (const baselinePage of baselineResult.pages) {
       if (matches.some((m) => m.baseline.url === baselinePage.url)) {
@@ -392,33 +929,103 @@ export class CrawlAgent {
       }
     }
 
-      // Match by title similarity
-      for (const baselinePage of baselineResult.pages) {
-        if (matches.some((m) => m.baseline.url === baselinePage.url)) {
-          continue;
+    // Score every remaining pair, then pair greedily from the most confident
+    const scored: MatchedPage[] = [];
+    for (const baselinePage of baselineResult.pages) {
+      if (matches.some((m) => m.baseline.url === baselinePage.url)) continue;
+
+      for (const candidatePage of candidateResult.pages) {
+        if (matches.some((m) => m.candidate.url === candidatePage.url)) continue;
+
+        const score = this.scorePagePair(baselinePage, candidatePage, normalization);
+        if (score && score.confidence >= minConfidence) {
+          scored.push({ baseline: baselinePage, candidate: candidatePage, ...score });
         }
+      }
+    }
 
-        const baselineTitle = baselinePage.title;
-        if (!baselineTitle) continue;
+    scored.sort((a, b) => b.confidence - a.confidence);
+    for (const pair of scored) {
+      if (matches.some((m) => m.baseline.url === pair.baseline.url || m.candidate.url === pair.candidate.url)) {
+        continue;
+      }
+      matches.push(pair);
+    }
 
-        const candidatePage = candidateResult.pages.find((p) => {
-          if (matches.some((m) => m.candidate.url === p.url)) return false;
-          if (!p.title) return false;
-          // Simple title matching (can be enhanced with fuzzy matching)
-          return p.title.toLowerCase().trim() === baselineTitle.toLowerCase().trim();
-        });
+    return matches.filter((m) => m.confidence >= minConfidence);
+  }
 
-      if (candidatePage) {
-        matches.push({
-          baseline: baselinePage,
-          candidate: candidatePage,
-          confidence: 0.7,
-          matchReason: 'Title match',
-        });
+  /**
+   * Best fuzzy match between two pages: JSON-LD identifiers, canonical URL, main content,
+   * title edit distance or slug similarity, each with its own confidence
+   */
+  scorePagePair(
+    baseline: CrawledPage,
+    candidate: CrawledPage,
+    normalization?: UrlNormalizationPolicy
+  ): Pick<MatchedPage, 'confidence' | 'matchReason'> | undefined {
+    const scores: Array<Pick<MatchedPage, 'confidence' | 'matchReason'>> = [];
+    const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+    const sharedId = baseline.identifiers?.find((id) => candidate.identifiers?.includes(id));
+    if (sharedId) {
+      scores.push({ confidence: 0.95, matchReason: `Shared JSON-LD identifier (${sharedId})` });
+    }
+
+    const baselineCanonical = this.canonicalPath(baseline, normalization);
+    const candidateCanonical = this.canonicalPath(candidate, normalization);
+    if (
+      (candidateCanonical && candidateCanonical === normalizePath(baseline.normalizedPath, normalization)) ||
+      (baselineCanonical && baselineCanonical === normalizePath(candidate.normalizedPath, normalization)) ||
+      (baselineCanonical && baselineCanonical === candidateCanonical)
+    ) {
+      scores.push({ confidence: 0.85, matchReason: 'Canonical URL match' });
+    }
+
+    const contentSimilarity = signatureSimilarity(baseline.contentSignature, candidate.contentSignature);
+    if (contentSimilarity >= 0.6) {
+      scores.push({ confidence: 0.4 + 0.5 * contentSimilarity, matchReason: `Similar main content (${percent(contentSimilarity)})` });
+    }
+
+    if (baseline.title && candidate.title) {
+      const titleSimilarity = stringSimilarity(baseline.title, candidate.title);
+      if (titleSimilarity === 1) {
+        scores.push({ confidence: 0.7, matchReason: 'Title match' });
+      } else if (titleSimilarity >= 0.8) {
+        scores.push({ confidence: 0.7 * titleSimilarity, matchReason: `Similar title (${percent(titleSimilarity)})` });
+      }
+    }
+
+    const baselineSlug = slugOf(baseline.normalizedPath);
+    const candidateSlug = slugOf(candidate.normalizedPath);
+    if (baselineSlug && candidateSlug) {
+      const slugSimilarity = stringSimilarity(baselineSlug, candidateSlug);
+      if (slugSimilarity >= 0.75) {
+        scores.push({ confidence: 0.65 * slugSimilarity, matchReason: `Similar slug (${percent(slugSimilarity)})` });
       }
     }
 
-    return matches;
+    return scores.sort((a, b) => b.confidence - a.confidence)[0];
+  }
+
+  /**
+   * Pages on either side that have no counterpart in the matches
+   */
+  findUnmatchedPages(baselineResult: CrawlResult, candidateResult: CrawlResult, matches: MatchedPage[]): UnmatchedPages {
+    return {
+      baseline: baselineResult.pages.filter((p) => !matches.some((m) => m.baseline.url === p.url)),
+      candidate: candidateResult.pages.filter((p) => !matches.some((m) => m.candidate.url === p.url)),
+    };
+  }
+
+  private canonicalPath(page: CrawledPage, normalization?: UrlNormalizationPolicy): string | undefined {
+    if (!page.canonicalUrl) return undefined;
+    try {
+      const { pathname, search } = new URL(page.canonicalUrl);
+      return normalizePath(`${pathname}${search}`, normalization);
+    } catch {
+      return undefined;
+    }
   }
 
   /**
@@ -429,9 +1036,72 @@ export class CrawlAgent {
       baselinePath: match.baseline.normalizedPath,
       candidatePath: match.candidate.normalizedPath,
       notes: `Matched with ${(match.confidence * 100).toFixed(0)}% confidence: ${match.matchReason}`,
+      rule: match.rewriteRule,
     }));
   }
 
+  /**
+   * Compare both sitemaps by path, mapping baseline paths through the rewrite rules
+   * Undefined when neither site publishes a sitemap
+   */
+  diffSitemaps(
+    baselineResult: CrawlResult,
+    candidateResult: CrawlResult,
+    rewriteRules: RewriteRule[] = [],
+    normalization?: UrlNormalizationPolicy
+  ): SitemapDiff | undefined {
+    if (baselineResult.sitemapUrls.length === 0 && candidateResult.sitemapUrls.length === 0) {
+      return undefined;
+    }
+
+    const toPath = (url: string, baseUrl: string) => this.extractPath(this.normalizeUrl(url, baseUrl, normalization), baseUrl);
+    const candidatePaths = new Map(candidateResult.sitemapUrls.map((url) => [toPath(url, candidateResult.baseUrl), url]));
+    const expectedPaths = new Set<string>();
+    const missingFromCandidate: SitemapDiff['missingFromCandidate'] = [];
+
+    for (const url of baselineResult.sitemapUrls) {
+      const baselinePath = toPath(url, baselineResult.baseUrl);
+      const rewritten = applyRewriteRules(baselinePath, rewriteRules);
+      const expectedPath = rewritten ? normalizePath(rewritten.path, normalization) : baselinePath;
+      expectedPaths.add(expectedPath);
+
+      if (!candidatePaths.has(expectedPath)) {
+        missingFromCandidate.push({ url, expectedPath, rewriteRule: rewritten?.rule });
+      }
+    }
+
+    return {
+      baselineCount: baselineResult.sitemapUrls.length,
+      candidateCount: candidateResult.sitemapUrls.length,
+      missingFromCandidate,
+      extraInCandidate: [...candidatePaths].filter(([p]) => !expectedPaths.has(p)).map(([, url]) => url),
+    };
+  }
+
+  async saveSitemapDiff(runId: string, diff: SitemapDiff): Promise<string> {
+    const diffPath = path.join(this.artifactsDir, runId, 'sitemap-diff.json');
+    await fs.mkdir(path.dirname(diffPath), { recursive: true });
+    await fs.writeFile(diffPath, JSON.stringify(diff, null, 2));
+    return diffPath;
+  }
+
+  /**
+   * Load the crawl results saved for a run
+   */
+  async loadCrawlResults(runId: string): Promise<{ baseline: CrawlResult; candidate: CrawlResult }> {
+    const artifactsDir = path.join(this.artifactsDir, runId);
+    try {
+      const [baseline, candidate] = await Promise.all(
+        ['baseline-crawl.json', 'candidate-crawl.json'].map(async (file) =>
+          JSON.parse(await fs.readFile(path.join(artifactsDir, file), 'utf-8')) as CrawlResult
+        )
+      );
+      return { baseline, candidate };
+    } catch {
+      throw new Error(`Crawl results for run ${runId} not found`);
+    }
+  }
+
   /**
    * Save crawl artifacts and logs
    */
@@ -498,13 +1168,36 @@ export class CrawlAgent {
   }> {
     try {
       // Crawl baseline site
-      const baselineResult = await this.crawlSite(job.baselineUrl, job.crawlConfig, runId);
+      const baselineResult = await this.crawlSite(
+        job.baselineUrl,
+        job.crawlConfig,
+        runId,
+        undefined,
+        undefined,
+        this.discoveryFor(job, 'baseline'),
+        rulesForSite(job.interceptRules, 'baseline')
+      );
 
       // Crawl candidate site
-      const candidateResult = await this.crawlSite(job.candidateUrl, job.crawlConfig, runId);
+      const candidateResult = await this.crawlSite(
+        job.candidateUrl,
+        job.crawlConfig,
+        runId,
+        undefined,
+        undefined,
+        this.discoveryFor(job, 'candidate'),
+        rulesForSite(job.interceptRules, 'candidate')
+      );
 
       // Match pages
-      const matchedPages = this.matchPages(baselineResult, candidateResult, job.pageMap);
+      const matchedPages = this.matchPages(
+        baselineResult,
+        candidateResult,
+        job.pageMap,
+        job.crawlConfig.minMatchConfidence,
+        job.rewriteRules,
+        job.crawlConfig.normalization
+      );
 
       // Generate stable pageMap
       const pageMap = this.generatePageMap(matchedPages);
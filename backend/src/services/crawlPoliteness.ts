@@ -0,0 +1,72 @@
+/**
+ * Upper bound for a single retry wait, including Retry-After values sent by the server
+ */
+const MAX_RETRY_DELAY_MS = 30000;
+
+/**
+ * Spaces requests to each host so no host sees more than the configured rate
+ */
+export class HostRateLimiter {
+  private readonly nextSlot = new Map<string, number>();
+
+  /**
+   * @param intervalMs Minimum time between requests to the same host; 0 disables limiting
+   */
+  constructor(private readonly intervalMs: number) {}
+
+  /**
+   * Limiter for a requests-per-second setting and an optional robots.txt Crawl-delay (seconds)
+   */
+  static forRate(requestsPerSecond?: number, crawlDelaySeconds?: number): HostRateLimiter {
+    const fromRate = requestsPerSecond && requestsPerSecond > 0 ? 1000 / requestsPerSecond : 0;
+    return new HostRateLimiter(Math.max(fromRate, (crawlDelaySeconds ?? 0) * 1000));
+  }
+
+  /**
+   * Wait until a request to the URL's host may be sent
+   */
+  async acquire(url: string): Promise<void> {
+    if (this.intervalMs <= 0) return;
+
+    let host: string;
+    try {
+      host = new URL(url).host;
+    } catch {
+      return;
+    }
+
+    // Reserve the slot before waiting so concurrent callers queue up behind each other
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot.get(host) ?? now);
+    this.nextSlot.set(host, slot + this.intervalMs);
+
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+  }
+}
+
+/**
+ * Statuses worth retrying: rate limiting and server errors
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Delay before a retry: the server's Retry-After when given, otherwise exponential backoff
+ */
+export function retryDelayMs(attempt: number, baseDelayMs: number, retryAfter?: string | null): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const fromHeader = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+    if (Number.isFinite(fromHeader) && fromHeader >= 0) {
+      return Math.min(fromHeader, MAX_RETRY_DELAY_MS);
+    }
+  }
+  return Math.min(baseDelayMs * 2 ** attempt, MAX_RETRY_DELAY_MS);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
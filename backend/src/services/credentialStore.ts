@@ -0,0 +1,67 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CREDENTIALS_FILE } from '../config/config';
+import { JobCredentials } from '../models';
+
+/**
+ * CredentialStore - Keeps per-job site credentials in their own JSON file
+ * The file is written owner-only and never included in the storage snapshot
+ */
+export class CredentialStore {
+  // Serializes writes made from this process
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string = CREDENTIALS_FILE) {}
+
+  async get(jobId: string): Promise<JobCredentials | undefined> {
+    return (await this.readAll()).find((c) => c.jobId === jobId);
+  }
+
+  /**
+   * Replace the credentials of a job
+   */
+  async set(jobId: string, input: Pick<JobCredentials, 'baseline' | 'candidate'>): Promise<JobCredentials> {
+    const credentials: JobCredentials = {
+      jobId,
+      baseline: input.baseline,
+      candidate: input.candidate,
+      updatedAt: new Date().toISOString(),
+    };
+    await this.write((all) => [...all.filter((c) => c.jobId !== jobId), credentials]);
+    return credentials;
+  }
+
+  async remove(jobId: string): Promise<boolean> {
+    let removed = false;
+    await this.write((all) => {
+      removed = all.some((c) => c.jobId === jobId);
+      return all.filter((c) => c.jobId !== jobId);
+    });
+    return removed;
+  }
+
+  private async readAll(): Promise<JobCredentials[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf-8')) as JobCredentials[];
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw err;
+    }
+  }
+
+  private async write(mutator: (all: JobCredentials[]) => JobCredentials[]): Promise<void> {
+    const result = this.writes.then(async () => {
+      const next = mutator(await this.readAll());
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      // Write then rename so readers never see a half-written file
+      const tmpFile = `${this.filePath}.${randomUUID()}.tmp`;
+      await fs.writeFile(tmpFile, JSON.stringify(next, null, 2), { encoding: 'utf-8', mode: 0o600 });
+      await fs.rename(tmpFile, this.filePath);
+    });
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+}
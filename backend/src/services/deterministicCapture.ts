@@ -0,0 +1,107 @@
+import { Page, PageScreenshotOptions } from 'playwright';
+import { CaptureOptions } from '../models';
+
+/**
+ * Instant the page clock is fixed to when captureOptions.freezeTime is true
+ */
+export const DEFAULT_FROZEN_TIME = '2024-01-01T00:00:00.000Z';
+
+/**
+ * Scroll steps taken before giving up on reaching the bottom of an endless page
+ */
+const MAX_SCROLL_STEPS = 50;
+
+/**
+ * Stylesheet that stops animations and transitions at their end state
+ */
+const DISABLE_ANIMATIONS_CSS = `*, *::before, *::after {
+  animation-delay: 0s !important;
+  animation-duration: 0s !important;
+  animation-iteration-count: 1 !important;
+  transition-delay: 0s !important;
+  transition-duration: 0s !important;
+  scroll-behavior: auto !important;
+}`;
+
+/**
+ * Init script that replaces Math.random with a seeded mulberry32 generator
+ * Self-contained so Playwright can serialize it into the page.
+ */
+export function seedMathRandom(seed: number): void {
+  let state = seed >>> 0;
+  Math.random = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Instant the clock is frozen at, or undefined when the clock runs freely
+ * Throws when freezeTime isn't a valid date.
+ */
+export function frozenTime(options: CaptureOptions): Date | undefined {
+  if (!options.freezeTime) return undefined;
+  const time = new Date(options.freezeTime === true ? DEFAULT_FROZEN_TIME : options.freezeTime);
+  if (Number.isNaN(time.getTime())) {
+    throw new Error(`Invalid capture freezeTime: ${options.freezeTime}`);
+  }
+  return time;
+}
+
+/**
+ * Apply the options that must be in place before navigation (clock, random seed)
+ */
+export async function prepareCapturePage(page: Page, options: CaptureOptions): Promise<void> {
+  const time = frozenTime(options);
+  if (time) {
+    // Date is fixed; timers keep running so pages still finish loading
+    await page.clock.setFixedTime(time);
+  }
+  if (options.randomSeed !== undefined) {
+    await page.addInitScript(seedMathRandom, options.randomSeed);
+  }
+}
+
+/**
+ * Apply the options that act on the loaded document (animation styles, fonts)
+ * Carets are hidden by the screenshot call itself, see captureScreenshotOptions.
+ */
+export async function stabilizeLoadedPage(page: Page, options: CaptureOptions): Promise<void> {
+  if (options.disableAnimations) {
+    await page.addStyleTag({ content: DISABLE_ANIMATIONS_CSS });
+  }
+  if (options.waitForFonts) {
+    await page.evaluate(() => document.fonts.ready.then(() => undefined));
+  }
+}
+
+/**
+ * Scroll to the bottom one viewport at a time, then back to the top, so lazy images and sections load
+ */
+export async function scrollThroughPage(page: Page): Promise<void> {
+  await page.evaluate(async (maxSteps) => {
+    const pause = () => new Promise((resolve) => setTimeout(resolve, 100));
+    for (let step = 0; step < maxSteps; step++) {
+      const before = window.scrollY;
+      window.scrollBy(0, window.innerHeight);
+      await pause();
+      if (window.scrollY === before) break;
+    }
+    window.scrollTo(0, 0);
+    await pause();
+  }, MAX_SCROLL_STEPS);
+  await page.waitForLoadState('networkidle', { timeout: 5000 }).catch(() => undefined);
+}
+
+/**
+ * Screenshot options matching the capture options
+ */
+export function captureScreenshotOptions(options: CaptureOptions): Pick<PageScreenshotOptions, 'animations' | 'caret'> {
+  return {
+    animations: options.disableAnimations ? 'disabled' : 'allow',
+    caret: options.hideCaret === false ? 'initial' : 'hide',
+  };
+}
@@ -1,6 +1,8 @@
+import { randomUUID } from 'crypto';
 import { promises as fs } from 'fs';
-import { SNAPSHOT_FILE, DATA_DIR } from '../config/config';
-import { StoragePort, StorageSnapshot } from '../models';
+import path from 'path';
+import { SNAPSHOT_FILE } from '../config/config';
+import { ComparisonJob, Run, RunArtifact, StoragePort, StorageSnapshot } from '../models';
 
 const CURRENT_VERSION = '2.0';
 
@@ -12,10 +14,18 @@ const emptySnapshot: StorageSnapshot = {
   metadata: {},
 };
 
+/**
+ * FileStorage - Keeps the whole snapshot in a single JSON file
+ */
 export class FileStorage implements StoragePort {
+  // Serializes update() calls made from this process
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string = SNAPSHOT_FILE) {}
+
   async load(): Promise<StorageSnapshot> {
     try {
-      const buf = await fs.readFile(SNAPSHOT_FILE, 'utf-8');
+      const buf = await fs.readFile(this.filePath, 'utf-8');
       const parsed = JSON.parse(buf) as StorageSnapshot;
       
       // Migrate old format if needed
@@ -82,10 +92,54 @@ export class FileStorage implements StoragePort {
 
   async save(snapshot: StorageSnapshot): Promise<void> {
     await this.ensureDir();
-    await fs.writeFile(SNAPSHOT_FILE, JSON.stringify(snapshot, null, 2), 'utf-8');
+    // Write then rename so readers never see a half-written file
+    const tmpFile = `${this.filePath}.${randomUUID()}.tmp`;
+    await fs.writeFile(tmpFile, JSON.stringify(snapshot, null, 2), 'utf-8');
+    await fs.rename(tmpFile, this.filePath);
+  }
+
+  async update(mutator: (snapshot: StorageSnapshot) => StorageSnapshot): Promise<StorageSnapshot> {
+    const result = this.writes.then(async () => {
+      const next = mutator(await this.load());
+      await this.save(next);
+      return next;
+    });
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  // The whole file is rewritten on every write, so the row-level writes go through update()
+
+  async addRun(run: Run): Promise<void> {
+    await this.update((snapshot) => ({ ...snapshot, runs: [run, ...snapshot.runs] }));
+  }
+
+  async updateRun(runId: string, mutator: (run: Run) => Run): Promise<Run | undefined> {
+    let updated: Run | undefined;
+    await this.update((snapshot) => ({
+      ...snapshot,
+      runs: snapshot.runs.map((r) => (r.id === runId ? (updated = mutator(r)) : r)),
+    }));
+    return updated;
+  }
+
+  async addArtifacts(artifacts: RunArtifact[]): Promise<void> {
+    await this.update((snapshot) => ({ ...snapshot, artifacts: [...snapshot.artifacts, ...artifacts] }));
+  }
+
+  async updateComparisonJob(
+    id: string,
+    mutator: (job: ComparisonJob) => ComparisonJob
+  ): Promise<ComparisonJob | undefined> {
+    let updated: ComparisonJob | undefined;
+    await this.update((snapshot) => ({
+      ...snapshot,
+      comparisonJobs: (snapshot.comparisonJobs ?? []).map((j) => (j.id === id ? (updated = mutator(j)) : j)),
+    }));
+    return updated;
   }
 
   private async ensureDir(): Promise<void> {
-    await fs.mkdir(DATA_DIR, { recursive: true });
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
   }
 }
@@ -1,9 +1,22 @@
-import { BrowserContext, Page, Route } from 'playwright';
+import { BrowserContext, BrowserContextOptions, Page, Route } from 'playwright';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { DATA_DIR } from '../config/config';
+import { InterceptRule } from '../models';
 import { ExecutionResult, PageExecutionResult } from './playwrightExecutionService';
 import { MatchedPage } from './crawlAgent';
+import { collectSessionSecrets, createRedactor } from './authService';
+import {
+  NetworkDiffResult,
+  PageNetworkDiff,
+  diffHars,
+  readHar,
+  redactHarFile,
+  summarizeNetworkDiffs,
+  unavailableNetworkDiff,
+} from './harDiff';
+import { interceptRequests, rulesForSite } from './requestInterception';
+import { artifactFileName } from './urlNormalization';
 
 /**
  * Navigation validation result
@@ -66,7 +79,7 @@ export interface PageFunctionalResult {
   forms: FormSubmissionResult[];
   brokenLinks: BrokenLink[];
   jsErrors: JSRuntimeError[];
-  harPath?: string;
+  harPath?: string; // HAR 1.2 recording of the page's load and interactions
   errors: string[];
 }
 
@@ -92,12 +105,13 @@ export interface SiteFunctionalResult {
 export interface FunctionalQAResult {
   baseline: SiteFunctionalResult;
   candidate: SiteFunctionalResult;
+  networkDiff?: NetworkDiffResult; // HAR-to-HAR comparison per matched page, when HARs were recorded
   artifactPaths: string[];
 }
 
 /**
  * FunctionalQaAgent - Performs functional QA testing
- * Validates navigation, forms, links, and captures JS errors and HAR files
+ * Validates navigation, forms, links, and captures JS errors and HAR files compared between the sites
  */
 export class FunctionalQaAgent {
   private readonly artifactsDir: string;
@@ -367,149 +381,52 @@ export class FunctionalQaAgent {
   }
 
   /**
-   * Capture HAR file for a page using Playwright's CDP
+   * Location of a page's HAR within the run's artifacts
    */
-  async captureHAR(context: BrowserContext, page: Page, runId: string, normalizedPath: string, siteType: 'baseline' | 'candidate'): Promise<string | undefined> {
-    try {
-      // Use CDP to enable network domain and capture HAR
-      const client = await context.newCDPSession(page);
-      await client.send('Network.enable');
-      await client.send('Page.enable');
-
-      const harPath = path.join(
-        this.artifactsDir,
-        runId,
-        'har',
-        siteType,
-        `${this.sanitizePath(normalizedPath)}.har`
-      );
-      await fs.mkdir(path.dirname(harPath), { recursive: true });
-
-      // Collect network events
-      const entries: any[] = [];
-      const pages: any[] = [];
-
-      client.on('Network.responseReceived', (event) => {
-        entries.push({
-          request: {
-            method: 'GET',
-            url: event.response.url,
-            headers: {},
-          },
-          response: {
-            status: event.response.status,
-            statusText: event.response.statusText,
-            headers: event.response.headers,
-            content: {
-              size: event.response.headers['content-length'] ? parseInt(event.response.headers['content-length']) : 0,
-            },
-          },
-          time: event.response.timing?.requestTime || 0,
-        });
-      });
-
-      // Wait for page to load
-      await page.waitForLoadState('networkidle');
-
-      // Get performance timing
-      const performanceTiming = await page.evaluate(() => {
-        const perf = performance.timing;
-        return {
-          navigationStart: perf.navigationStart,
-          domContentLoadedEventEnd: perf.domContentLoadedEventEnd,
-          loadEventEnd: perf.loadEventEnd,
-        };
-      });
-
-      // Generate HAR structure
-      const har = {
-        log: {
-          version: '1.2',
-          creator: {
-            name: 'Migrate Guard FunctionalQaAgent',
-            version: '1.0',
-          },
-          browser: {
-            name: 'Chromium',
-            version: '1.0',
-          },
-          pages: [
-            {
-              startedDateTime: new Date(performanceTiming.navigationStart).toISOString(),
-              id: 'page_1',
-              title: await page.title(),
-              pageTimings: {
-                onContentLoad: performanceTiming.domContentLoadedEventEnd - performanceTiming.navigationStart,
-                onLoad: performanceTiming.loadEventEnd - performanceTiming.navigationStart,
-              },
-            },
-          ],
-          entries,
-        },
-      };
-
-      await fs.writeFile(harPath, JSON.stringify(har, null, 2));
-      await client.detach();
-
-      return harPath.replace(/^.*[\\/]data[\\/]/, 'data/');
-    } catch (error) {
-      console.error('Error capturing HAR:', error);
-      // Fallback: create a basic HAR structure
-      try {
-        const harPath = path.join(
-          this.artifactsDir,
-          runId,
-          'har',
-          siteType,
-          `${this.sanitizePath(normalizedPath)}.har`
-        );
-        await fs.mkdir(path.dirname(harPath), { recursive: true });
-        const har = await this.generateHARFromPage(page);
-        await fs.writeFile(harPath, JSON.stringify(har, null, 2));
-        return harPath.replace(/^.*[\\/]data[\\/]/, 'data/');
-      } catch (fallbackError) {
-        return undefined;
-      }
-    }
+  private harPath(runId: string, siteType: 'baseline' | 'candidate', normalizedPath: string): string {
+    return path.join(this.artifactsDir, runId, 'har', siteType, `${artifactFileName(normalizedPath)}.har`);
   }
 
   /**
-   * Generate basic HAR structure from page (fallback method)
+   * Open a page in a fresh context of the site's browser that records a HAR 1.2 file
+   * The HAR is written when the returned close() closes the context, then rewritten without the session's
+   * secrets. The site's intercept rules apply to the recording context as they do to the site's context.
+   * Without a browser to create the context in (e.g. a persistent context) the page opens in the site's
+   * context and nothing is recorded.
    */
-  private async generateHARFromPage(page: Page): Promise<any> {
-    // Add performance timing
-    const performanceTiming = await page.evaluate(() => {
-      const perf = performance.timing;
-      return {
-        navigationStart: perf.navigationStart,
-        domContentLoadedEventEnd: perf.domContentLoadedEventEnd,
-        loadEventEnd: perf.loadEventEnd,
-      };
-    });
+  async openRecordedPage(
+    context: BrowserContext,
+    harPath: string,
+    contextOptions: BrowserContextOptions = {},
+    interceptRules: InterceptRule[] = []
+  ): Promise<{ page: Page; recording: boolean; close: () => Promise<void> }> {
+    const browser = context.browser();
+    if (!browser) {
+      const page = await context.newPage();
+      return { page, recording: false, close: () => page.close() };
+    }
 
+    await fs.mkdir(path.dirname(harPath), { recursive: true });
+    const recorder = await browser.newContext({
+      ignoreHTTPSErrors: true,
+      ...contextOptions,
+      // Bodies are left out to keep HARs small; sizes and headers are still recorded
+      recordHar: { path: harPath, mode: 'full', content: 'omit' },
+    });
+    try {
+      await interceptRequests(recorder, interceptRules);
+    } catch (error) {
+      await recorder.close().catch(() => undefined);
+      throw error;
+    }
+    const page = await recorder.newPage();
+    const redact = createRedactor(collectSessionSecrets(contextOptions));
     return {
-      log: {
-        version: '1.2',
-        creator: {
-          name: 'Migrate Guard FunctionalQaAgent',
-          version: '1.0',
-        },
-        browser: {
-          name: 'Chromium',
-          version: '1.0',
-        },
-        pages: [
-          {
-            startedDateTime: new Date(performanceTiming.navigationStart).toISOString(),
-            id: 'page_1',
-            title: await page.title(),
-            pageTimings: {
-              onContentLoad: performanceTiming.domContentLoadedEventEnd - performanceTiming.navigationStart,
-              onLoad: performanceTiming.loadEventEnd - performanceTiming.navigationStart,
-            },
-          },
-        ],
-        entries: [], // Network entries would be populated from actual requests
+      page,
+      recording: true,
+      close: async () => {
+        await recorder.close();
+        await redactHarFile(harPath, redact);
       },
     };
   }
@@ -518,13 +435,10 @@ export class FunctionalQaAgent {
    * Execute functional QA on a single page
    */
   async executePageQA(
-    context: BrowserContext,
     page: Page,
     url: string,
     normalizedPath: string,
-    baseUrl: string,
-    runId: string,
-    siteType: 'baseline' | 'candidate'
+    baseUrl: string
   ): Promise<PageFunctionalResult> {
     const result: PageFunctionalResult = {
       url,
@@ -554,10 +468,6 @@ export class FunctionalQaAgent {
 
       // Get captured JS errors
       result.jsErrors = await jsErrorPromise;
-
-      // Capture HAR file
-      result.harPath = await this.captureHAR(context, page, runId, normalizedPath, siteType);
-
     } catch (error) {
       result.errors.push(error instanceof Error ? error.message : String(error));
     }
@@ -628,8 +538,66 @@ export class FunctionalQaAgent {
     return functionalResult;
   }
 
+  /**
+   * Execute functional QA on a page opened in a HAR-recording context
+   */
+  private async executeRecordedPageQA(
+    context: BrowserContext,
+    url: string,
+    normalizedPath: string,
+    baseUrl: string,
+    runId: string,
+    siteType: 'baseline' | 'candidate',
+    contextOptions: BrowserContextOptions | undefined,
+    interceptRules: InterceptRule[]
+  ): Promise<{ result: PageFunctionalResult; harFile?: string }> {
+    const harFile = this.harPath(runId, siteType, normalizedPath);
+    const recorded = await this.openRecordedPage(context, harFile, contextOptions, interceptRules);
+    let result: PageFunctionalResult;
+    try {
+      result = await this.executePageQA(recorded.page, url, normalizedPath, baseUrl);
+    } finally {
+      await recorded.close();
+    }
+
+    if (!recorded.recording) {
+      return { result };
+    }
+    result.harPath = harFile.replace(/^.*[\\/]data[\\/]/, 'data/');
+    return { result, harFile };
+  }
+
+  /**
+   * Compare the recorded HARs of every matched page
+   */
+  private async diffNetwork(
+    matchedPages: MatchedPage[],
+    harFiles: Map<string, { baseline?: string; candidate?: string }>,
+    baselineUrl: string,
+    candidateUrl: string
+  ): Promise<NetworkDiffResult> {
+    const pages: PageNetworkDiff[] = [];
+    for (const matchedPage of matchedPages) {
+      const normalizedPath = matchedPage.baseline.normalizedPath;
+      const files = harFiles.get(normalizedPath);
+      if (!files?.baseline || !files.candidate) {
+        pages.push(unavailableNetworkDiff(normalizedPath, 'HAR not recorded on both sites'));
+        continue;
+      }
+      try {
+        const [baselineHar, candidateHar] = await Promise.all([readHar(files.baseline), readHar(files.candidate)]);
+        pages.push(diffHars(normalizedPath, baselineHar, candidateHar, baselineUrl, candidateUrl));
+      } catch (error) {
+        pages.push(unavailableNetworkDiff(normalizedPath, error instanceof Error ? error.message : String(error)));
+      }
+    }
+    return { pages, summary: summarizeNetworkDiffs(pages) };
+  }
+
   /**
    * Execute functional QA with browser contexts
+   * Each page is loaded in its own context recording a HAR, with the site's session options and intercept rules;
+   * the baseline and candidate HARs are then diffed into network-diff.json.
    */
   async executeFunctionalQAWithContexts(
     baselineContext: BrowserContext,
@@ -637,47 +605,46 @@ export class FunctionalQaAgent {
     matchedPages: MatchedPage[],
     baselineUrl: string,
     candidateUrl: string,
-    runId: string
+    runId: string,
+    contextOptions: { baseline?: BrowserContextOptions; candidate?: BrowserContextOptions } = {},
+    interceptRules: InterceptRule[] = []
   ): Promise<FunctionalQAResult> {
     const baselineResults: PageFunctionalResult[] = [];
     const candidateResults: PageFunctionalResult[] = [];
+    const harFiles = new Map<string, { baseline?: string; candidate?: string }>();
 
     for (const matchedPage of matchedPages) {
       // Execute on baseline
-      const baselinePage = await baselineContext.newPage();
-      try {
-        const baselineResult = await this.executePageQA(
-          baselineContext,
-          baselinePage,
-          matchedPage.baseline.url,
-          matchedPage.baseline.normalizedPath,
-          baselineUrl,
-          runId,
-          'baseline'
-        );
-        baselineResults.push(baselineResult);
-      } finally {
-        await baselinePage.close();
-      }
+      const baseline = await this.executeRecordedPageQA(
+        baselineContext,
+        matchedPage.baseline.url,
+        matchedPage.baseline.normalizedPath,
+        baselineUrl,
+        runId,
+        'baseline',
+        contextOptions.baseline,
+        rulesForSite(interceptRules, 'baseline')
+      );
+      baselineResults.push(baseline.result);
 
       // Execute on candidate
-      const candidatePage = await candidateContext.newPage();
-      try {
-        const candidateResult = await this.executePageQA(
-          candidateContext,
-          candidatePage,
-          matchedPage.candidate.url,
-          matchedPage.candidate.normalizedPath,
-          candidateUrl,
-          runId,
-          'candidate'
-        );
-        candidateResults.push(candidateResult);
-      } finally {
-        await candidatePage.close();
-      }
+      const candidate = await this.executeRecordedPageQA(
+        candidateContext,
+        matchedPage.candidate.url,
+        matchedPage.candidate.normalizedPath,
+        candidateUrl,
+        runId,
+        'candidate',
+        contextOptions.candidate,
+        rulesForSite(interceptRules, 'candidate')
+      );
+      candidateResults.push(candidate.result);
+
+      harFiles.set(matchedPage.baseline.normalizedPath, { baseline: baseline.harFile, candidate: candidate.harFile });
     }
 
+    const networkDiff = await this.diffNetwork(matchedPages, harFiles, baselineUrl, candidateUrl);
+
     // Generate summaries
     const baselineSummary = this.generateSummary(baselineResults);
     const candidateSummary = this.generateSummary(candidateResults);
@@ -688,6 +655,10 @@ export class FunctionalQaAgent {
     const resultsPath = path.join(this.artifactsDir, runId, 'functional-qa-results.json');
     await fs.mkdir(path.dirname(resultsPath), { recursive: true });
 
+    // Save the HAR-to-HAR network diff
+    const networkDiffPath = path.join(this.artifactsDir, runId, 'network-diff.json');
+    await fs.writeFile(networkDiffPath, JSON.stringify(networkDiff, null, 2));
+
     const functionalResult: FunctionalQAResult = {
       baseline: {
         baseUrl: baselineUrl,
@@ -699,7 +670,8 @@ export class FunctionalQaAgent {
         pages: candidateResults,
         summary: candidateSummary,
       },
-      artifactPaths: [resultsPath],
+      networkDiff,
+      artifactPaths: [resultsPath, networkDiffPath],
     };
 
     await fs.writeFile(resultsPath, JSON.stringify(functionalResult, null, 2));
@@ -745,17 +717,5 @@ export class FunctionalQaAgent {
       pagesWithJSErrors,
     };
   }
-
-  /**
-   * Sanitize path for filesystem use
-   */
-  private sanitizePath(pathStr: string): string {
-    return pathStr
-      .replace(/^\/+/, '')
-      .replace(/\/+/g, '-')
-      .replace(/[^a-zA-Z0-9-_]/g, '_')
-      .replace(/_+/g, '_')
-      .replace(/^_|_$/g, '') || 'index';
-  }
 }
 
@@ -0,0 +1,356 @@
+import { promises as fs } from 'fs';
+import { redactDeep } from './authService';
+
+/**
+ * Parts of a HAR 1.2 log the network diff reads
+ */
+export interface HarHeader {
+  name: string;
+  value: string;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: { method: string; url: string; headers: HarHeader[] };
+  response: {
+    status: number;
+    statusText: string;
+    headers: HarHeader[];
+    bodySize: number; // Bytes received for the body, -1 when unknown
+    content: { size: number; mimeType: string };
+  };
+}
+
+export interface Har {
+  log: { version: string; entries: HarEntry[] };
+}
+
+/**
+ * Request of a page, keyed so the same endpoint lines up on both sites
+ */
+export interface EndpointSummary {
+  endpoint: string; // Method, path (host too for third parties) and query parameter names
+  url: string;
+  status: number;
+  mimeType: string;
+  size: number; // Decoded body bytes
+}
+
+/**
+ * Baseline vs candidate network activity of one matched page
+ */
+export interface PageNetworkDiff {
+  normalizedPath: string;
+  baselineRequests: number;
+  candidateRequests: number;
+  baselineBytes: number;
+  candidateBytes: number;
+  missingEndpoints: EndpointSummary[]; // Requested by the baseline only
+  newEndpoints: EndpointSummary[]; // Requested by the candidate only
+  statusChanges: Array<{ endpoint: string; baselineStatus: number; candidateStatus: number }>;
+  sizeChanges: Array<{ endpoint: string; baselineBytes: number; candidateBytes: number; deltaPercent: number }>;
+  cachingChanges: Array<{ endpoint: string; baseline: string; candidate: string }>; // Cache-Control plus validators
+  compressionChanges: Array<{ endpoint: string; baseline: string; candidate: string; candidateBytes: number }>;
+  duplicateRequests: Array<{ url: string; baselineCount: number; candidateCount: number }>; // Candidate repeats more often
+  error?: string; // Set when a HAR was missing or unreadable
+}
+
+/**
+ * Network diff of every matched page
+ */
+export interface NetworkDiffResult {
+  pages: PageNetworkDiff[];
+  summary: {
+    totalPages: number;
+    pagesWithChanges: number;
+    missingEndpoints: number;
+    newEndpoints: number;
+    statusChanges: number;
+    statusRegressions: number; // Successful on the baseline, 4xx/5xx on the candidate
+    sizeChanges: number;
+    cachingChanges: number;
+    compressionRegressions: number; // Compressed on the baseline, sent uncompressed by the candidate
+    duplicateRequests: number;
+  };
+}
+
+/**
+ * Payload changes smaller than this (or than 20%) are noise
+ */
+const SIZE_CHANGE_MIN_BYTES = 10 * 1024;
+const SIZE_CHANGE_MIN_RATIO = 0.2;
+
+/**
+ * Text responses at least this large are expected to be compressed
+ */
+const COMPRESSION_MIN_BYTES = 1024;
+
+const COMPRESSIBLE_MIME = /^(text\/|application\/(javascript|json|xml|[\w.-]+\+(json|xml))|image\/svg\+xml)/i;
+
+/**
+ * Build hashes in file names ('main.3f2a9c1b.js', 'app-5d41402a.css') change with every deploy
+ */
+const CONTENT_HASH = /[.-][0-9a-f]{8,}(?=\.[a-z0-9]+$)/i;
+
+function header(headers: HarHeader[], name: string): string | undefined {
+  return headers.find((h) => h.name.toLowerCase() === name)?.value;
+}
+
+/**
+ * Key of a request that matches the same endpoint on the other site
+ * First-party requests drop their host since the sites differ; query values are dropped since they vary per load.
+ */
+export function endpointKey(method: string, url: string, siteHost: string): string {
+  const parsed = new URL(url);
+  const host = parsed.host === siteHost ? '' : `//${parsed.host}`;
+  const params = [...new Set(parsed.searchParams.keys())].sort();
+  return `${method} ${host}${parsed.pathname.replace(CONTENT_HASH, '')}${params.length > 0 ? `?${params.join('&')}` : ''}`;
+}
+
+function bodyBytes(entry: HarEntry): number {
+  return Math.max(entry.response.content.size, entry.response.bodySize, 0);
+}
+
+function cachePolicy(entry: HarEntry): string {
+  const headers = entry.response.headers;
+  const cacheControl = header(headers, 'cache-control')
+    ?.toLowerCase()
+    .split(',')
+    .map((directive) => directive.trim())
+    .filter(Boolean)
+    .sort()
+    .join(', ');
+  const validators = [header(headers, 'etag') && 'etag', header(headers, 'last-modified') && 'last-modified'].filter(Boolean);
+  return [cacheControl || 'no cache-control', ...validators].join('; ');
+}
+
+function encoding(entry: HarEntry): string {
+  return header(entry.response.headers, 'content-encoding')?.toLowerCase() || 'identity';
+}
+
+/**
+ * HTTP(S) entries grouped by endpoint, in request order
+ */
+function entriesByEndpoint(har: Har, siteUrl: string): Map<string, HarEntry[]> {
+  const siteHost = new URL(siteUrl).host;
+  const byEndpoint = new Map<string, HarEntry[]>();
+  for (const entry of har.log.entries) {
+    if (!/^https?:/.test(entry.request.url)) continue;
+    const key = endpointKey(entry.request.method, entry.request.url, siteHost);
+    byEndpoint.set(key, [...(byEndpoint.get(key) ?? []), entry]);
+  }
+  return byEndpoint;
+}
+
+function summarize(endpoint: string, entry: HarEntry): EndpointSummary {
+  return {
+    endpoint,
+    url: entry.request.url,
+    status: entry.response.status,
+    mimeType: entry.response.content.mimeType,
+    size: bodyBytes(entry),
+  };
+}
+
+/**
+ * Most times any single URL of each endpoint was requested with the same method
+ */
+function requestCounts(har: Har, siteUrl: string): Map<string, { url: string; count: number }> {
+  const siteHost = new URL(siteUrl).host;
+  const byUrl = new Map<string, { endpoint: string; url: string; count: number }>();
+  for (const entry of har.log.entries) {
+    if (!/^https?:/.test(entry.request.url)) continue;
+    const id = `${entry.request.method} ${entry.request.url}`;
+    const counted = byUrl.get(id) ?? {
+      endpoint: endpointKey(entry.request.method, entry.request.url, siteHost),
+      url: entry.request.url,
+      count: 0,
+    };
+    counted.count++;
+    byUrl.set(id, counted);
+  }
+
+  const byEndpoint = new Map<string, { url: string; count: number }>();
+  for (const { endpoint, url, count } of byUrl.values()) {
+    if (count > (byEndpoint.get(endpoint)?.count ?? 0)) {
+      byEndpoint.set(endpoint, { url, count });
+    }
+  }
+  return byEndpoint;
+}
+
+/**
+ * Compare the HARs of a matched page
+ */
+export function diffHars(
+  normalizedPath: string,
+  baselineHar: Har,
+  candidateHar: Har,
+  baselineUrl: string,
+  candidateUrl: string
+): PageNetworkDiff {
+  const baseline = entriesByEndpoint(baselineHar, baselineUrl);
+  const candidate = entriesByEndpoint(candidateHar, candidateUrl);
+  const diff: PageNetworkDiff = {
+    normalizedPath,
+    baselineRequests: [...baseline.values()].reduce((sum, entries) => sum + entries.length, 0),
+    candidateRequests: [...candidate.values()].reduce((sum, entries) => sum + entries.length, 0),
+    baselineBytes: [...baseline.values()].flat().reduce((sum, entry) => sum + bodyBytes(entry), 0),
+    candidateBytes: [...candidate.values()].flat().reduce((sum, entry) => sum + bodyBytes(entry), 0),
+    missingEndpoints: [],
+    newEndpoints: [],
+    statusChanges: [],
+    sizeChanges: [],
+    cachingChanges: [],
+    compressionChanges: [],
+    duplicateRequests: [],
+  };
+
+  for (const [endpoint, [entry]] of baseline) {
+    if (!candidate.has(endpoint)) {
+      diff.missingEndpoints.push(summarize(endpoint, entry));
+    }
+  }
+
+  for (const [endpoint, [candidateEntry]] of candidate) {
+    const baselineEntry = baseline.get(endpoint)?.[0];
+    if (!baselineEntry) {
+      diff.newEndpoints.push(summarize(endpoint, candidateEntry));
+      continue;
+    }
+
+    const baselineStatus = baselineEntry.response.status;
+    const candidateStatus = candidateEntry.response.status;
+    if (baselineStatus !== candidateStatus) {
+      diff.statusChanges.push({ endpoint, baselineStatus, candidateStatus });
+    }
+    // Headers and bodies of responses that didn't succeed on both sites aren't comparable
+    if (baselineStatus < 200 || baselineStatus >= 300 || candidateStatus < 200 || candidateStatus >= 300) {
+      continue;
+    }
+
+    const baselineBytes = bodyBytes(baselineEntry);
+    const candidateBytes = bodyBytes(candidateEntry);
+    const delta = candidateBytes - baselineBytes;
+    if (Math.abs(delta) >= SIZE_CHANGE_MIN_BYTES && Math.abs(delta) >= baselineBytes * SIZE_CHANGE_MIN_RATIO) {
+      diff.sizeChanges.push({
+        endpoint,
+        baselineBytes,
+        candidateBytes,
+        deltaPercent: baselineBytes > 0 ? Math.round((delta / baselineBytes) * 1000) / 10 : 100,
+      });
+    }
+
+    const baselineCache = cachePolicy(baselineEntry);
+    const candidateCache = cachePolicy(candidateEntry);
+    if (baselineCache !== candidateCache) {
+      diff.cachingChanges.push({ endpoint, baseline: baselineCache, candidate: candidateCache });
+    }
+
+    const baselineEncoding = encoding(baselineEntry);
+    const candidateEncoding = encoding(candidateEntry);
+    const compressible =
+      COMPRESSIBLE_MIME.test(candidateEntry.response.content.mimeType) && candidateBytes >= COMPRESSION_MIN_BYTES;
+    if (baselineEncoding !== candidateEncoding && compressible) {
+      diff.compressionChanges.push({ endpoint, baseline: baselineEncoding, candidate: candidateEncoding, candidateBytes });
+    }
+  }
+
+  const baselineCounts = requestCounts(baselineHar, baselineUrl);
+  for (const [endpoint, { url, count }] of requestCounts(candidateHar, candidateUrl)) {
+    const baselineCount = baselineCounts.get(endpoint)?.count ?? 0;
+    if (count > 1 && count > baselineCount) {
+      diff.duplicateRequests.push({ url, baselineCount, candidateCount: count });
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Whether a page diff found anything
+ */
+export function hasNetworkChanges(diff: PageNetworkDiff): boolean {
+  return (
+    diff.missingEndpoints.length +
+      diff.newEndpoints.length +
+      diff.statusChanges.length +
+      diff.sizeChanges.length +
+      diff.cachingChanges.length +
+      diff.compressionChanges.length +
+      diff.duplicateRequests.length >
+    0
+  );
+}
+
+/**
+ * Summary counts across pages
+ */
+export function summarizeNetworkDiffs(pages: PageNetworkDiff[]): NetworkDiffResult['summary'] {
+  const total = (pick: (page: PageNetworkDiff) => unknown[]) => pages.reduce((sum, page) => sum + pick(page).length, 0);
+  return {
+    totalPages: pages.length,
+    pagesWithChanges: pages.filter(hasNetworkChanges).length,
+    missingEndpoints: total((p) => p.missingEndpoints),
+    newEndpoints: total((p) => p.newEndpoints),
+    statusChanges: total((p) => p.statusChanges),
+    statusRegressions: total((p) => p.statusChanges.filter((c) => c.baselineStatus < 400 && c.candidateStatus >= 400)),
+    sizeChanges: total((p) => p.sizeChanges),
+    cachingChanges: total((p) => p.cachingChanges),
+    compressionRegressions: total((p) => p.compressionChanges.filter((c) => c.baseline !== 'identity' && c.candidate === 'identity')),
+    duplicateRequests: total((p) => p.duplicateRequests),
+  };
+}
+
+/**
+ * Read a HAR file written by Playwright
+ */
+export async function readHar(harPath: string): Promise<Har> {
+  return JSON.parse(await fs.readFile(harPath, 'utf-8')) as Har;
+}
+
+/**
+ * Headers whose values are credentials whatever they contain
+ */
+const SENSITIVE_HEADERS = new Set(['authorization', 'proxy-authorization', 'cookie', 'set-cookie']);
+
+/**
+ * Headers and cookies whose values are blanked outright
+ */
+function isSensitiveHarPair(pair: Record<string, unknown>, key?: string): boolean {
+  return (
+    key === 'cookies' ||
+    (key === 'headers' && typeof pair.name === 'string' && SENSITIVE_HEADERS.has(pair.name.toLowerCase()))
+  );
+}
+
+/**
+ * Rewrite a recorded HAR without credentials
+ * Auth and cookie headers and all cookie values are blanked; `redact` replaces secrets anywhere else (URLs, custom headers).
+ */
+export async function redactHarFile(harPath: string, redact: (text: string) => string): Promise<void> {
+  const har = JSON.parse(await fs.readFile(harPath, 'utf-8')) as unknown;
+  await fs.writeFile(harPath, JSON.stringify(redactDeep(har, redact, isSensitiveHarPair)));
+}
+
+/**
+ * Page diff standing in for a page whose HARs couldn't be compared
+ */
+export function unavailableNetworkDiff(normalizedPath: string, error: string): PageNetworkDiff {
+  return {
+    normalizedPath,
+    baselineRequests: 0,
+    candidateRequests: 0,
+    baselineBytes: 0,
+    candidateBytes: 0,
+    missingEndpoints: [],
+    newEndpoints: [],
+    statusChanges: [],
+    sizeChanges: [],
+    cachingChanges: [],
+    compressionChanges: [],
+    duplicateRequests: [],
+    error,
+  };
+}
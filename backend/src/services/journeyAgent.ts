@@ -0,0 +1,474 @@
+import { BrowserContext, Page } from 'playwright';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { DATA_DIR } from '../config/config';
+import { Journey, JourneyStep, JourneyStepAction } from '../models';
+import { DiffSeverity, VisualDiffService } from './visualDiffService';
+
+export type JourneyStepStatus = 'passed' | 'failed' | 'skipped';
+
+/**
+ * Outcome of a single journey step on one site
+ */
+export interface JourneyStepResult {
+  index: number;
+  action: JourneyStepAction;
+  label: string;
+  status: JourneyStepStatus;
+  durationMs: number;
+  url?: string; // Page URL after the step
+  error?: string;
+  screenshotPath?: string; // Checkpoint screenshot for `screenshot` steps
+}
+
+/**
+ * A journey executed against one site
+ */
+export interface SiteJourneyRun {
+  baseUrl: string;
+  passed: boolean;
+  durationMs: number;
+  steps: JourneyStepResult[];
+}
+
+/**
+ * Step outcome and timing on both sites
+ */
+export interface JourneyStepDiff {
+  index: number;
+  label: string;
+  baselineStatus: JourneyStepStatus;
+  candidateStatus: JourneyStepStatus;
+  baselineMs: number;
+  candidateMs: number;
+  timingDeltaMs: number; // Positive when the candidate is slower
+  outcomeChanged: boolean;
+  slower: boolean; // Candidate exceeds the slowdown threshold
+}
+
+/**
+ * Checkpoint screenshot comparison between sites
+ */
+export interface JourneyCheckpointDiff {
+  name: string;
+  diffPercentage: number;
+  severity: DiffSeverity;
+  diffPath: string;
+  heatmapPath: string;
+}
+
+/**
+ * pass: both sites complete; regression: only the baseline completes;
+ * fixed: only the candidate completes; broken: neither completes
+ */
+export type JourneyVerdict = 'pass' | 'regression' | 'fixed' | 'broken';
+
+/**
+ * Journey executed on both sites and compared
+ */
+export interface JourneyComparison {
+  name: string;
+  verdict: JourneyVerdict;
+  baseline: SiteJourneyRun;
+  candidate: SiteJourneyRun;
+  stepDiffs: JourneyStepDiff[];
+  checkpoints: JourneyCheckpointDiff[];
+}
+
+/**
+ * Complete journey result for a run
+ */
+export interface JourneyResult {
+  journeys: JourneyComparison[];
+  summary: {
+    totalJourneys: number;
+    passed: number;
+    regressions: number;
+    fixed: number;
+    broken: number;
+    slowSteps: number;
+    checkpointsWithDiffs: number;
+  };
+  artifactPaths: string[];
+}
+
+const STEP_ACTIONS: JourneyStepAction[] = ['goto', 'click', 'fill', 'select', 'waitFor', 'assertText', 'assertUrl', 'screenshot'];
+
+/**
+ * Fields each action requires, used to validate uploaded journeys
+ */
+const REQUIRED_FIELDS: Record<JourneyStepAction, string[]> = {
+  goto: ['url'],
+  click: ['selector'],
+  fill: ['selector', 'value'],
+  select: ['selector', 'value'],
+  waitFor: [],
+  assertText: ['text'],
+  assertUrl: ['url'],
+  screenshot: ['name'],
+};
+
+/**
+ * JourneyAgent - Runs scripted user journeys on baseline and candidate sites
+ * Each journey runs in a fresh page per site; the first failing step skips the rest
+ */
+export class JourneyAgent {
+  private readonly artifactsDir: string;
+  private readonly stepTimeout: number;
+  private readonly slowdownThresholdMs: number;
+
+  constructor(
+    private readonly visualDiffService: VisualDiffService = new VisualDiffService(),
+    stepTimeout: number = 10000,
+    slowdownThresholdMs: number = 1000 // Candidate steps slower than this (and 50% slower) are flagged
+  ) {
+    this.artifactsDir = path.join(DATA_DIR, 'artifacts');
+    this.stepTimeout = stepTimeout;
+    this.slowdownThresholdMs = slowdownThresholdMs;
+  }
+
+  /**
+   * Parse journeys from JSON or YAML
+   * Accepts a single journey, an array of journeys or `{ journeys: [...] }`
+   */
+  parseJourneys(content: string, format: 'json' | 'yaml'): Journey[] {
+    let parsed: unknown;
+    try {
+      parsed = format === 'json' ? JSON.parse(content) : parseYaml(content);
+    } catch (error) {
+      throw new Error(`Invalid journey: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const record = parsed as { journeys?: unknown; steps?: unknown } | null;
+    const journeys = Array.isArray(parsed) ? parsed : record?.steps ? [parsed] : record?.journeys;
+    if (!Array.isArray(journeys)) {
+      throw new Error('Invalid journey: content must be a journey, an array of journeys or { journeys: [...] }');
+    }
+
+    return this.validateJourneys(journeys);
+  }
+
+  /**
+   * Check journey structure and required step fields
+   */
+  validateJourneys(journeys: unknown[]): Journey[] {
+    const names = new Set<string>();
+
+    journeys.forEach((entry, journeyIndex) => {
+      const journey = (entry ?? {}) as Partial<Journey>;
+      const where = `journey ${journeyIndex + 1}`;
+
+      if (!journey.name || typeof journey.name !== 'string') {
+        throw new Error(`Invalid journey: ${where} requires a name`);
+      }
+      if (names.has(journey.name)) {
+        throw new Error(`Invalid journey: duplicate journey name "${journey.name}"`);
+      }
+      names.add(journey.name);
+
+      if (!Array.isArray(journey.steps) || journey.steps.length === 0) {
+        throw new Error(`Invalid journey: "${journey.name}" requires at least one step`);
+      }
+
+      journey.steps.forEach((step, stepIndex) => {
+        const fields = step as unknown as Record<string, unknown>;
+        const action = fields.action as JourneyStepAction;
+        if (!STEP_ACTIONS.includes(action)) {
+          throw new Error(`Invalid journey: "${journey.name}" step ${stepIndex + 1} has unknown action "${String(action)}"`);
+        }
+        for (const field of REQUIRED_FIELDS[action]) {
+          if (typeof fields[field] !== 'string' || fields[field] === '') {
+            throw new Error(`Invalid journey: "${journey.name}" step ${stepIndex + 1} (${action}) requires "${field}"`);
+          }
+        }
+      });
+    });
+
+    return journeys as Journey[];
+  }
+
+  /**
+   * Execute a journey on one site
+   */
+  async executeJourney(
+    context: BrowserContext,
+    journey: Journey,
+    baseUrl: string,
+    siteType: 'baseline' | 'candidate',
+    runId: string
+  ): Promise<SiteJourneyRun> {
+    const page = await context.newPage();
+    const steps: JourneyStepResult[] = [];
+    const started = Date.now();
+    let failed = false;
+
+    try {
+      for (const [index, step] of journey.steps.entries()) {
+        const result: JourneyStepResult = {
+          index,
+          action: step.action,
+          label: this.describeStep(step),
+          status: 'skipped',
+          durationMs: 0,
+        };
+        steps.push(result);
+
+        if (failed) continue;
+
+        const stepStarted = Date.now();
+        try {
+          result.screenshotPath = await this.executeStep(page, step, baseUrl, journey.name, siteType, runId);
+          result.status = 'passed';
+        } catch (error) {
+          result.status = 'failed';
+          result.error = error instanceof Error ? error.message : String(error);
+          failed = true;
+        }
+        result.durationMs = Date.now() - stepStarted;
+        result.url = page.url();
+      }
+    } finally {
+      await page.close();
+    }
+
+    return {
+      baseUrl,
+      passed: !failed,
+      durationMs: Date.now() - started,
+      steps,
+    };
+  }
+
+  /**
+   * Run a single step, returning the checkpoint path for screenshot steps
+   */
+  private async executeStep(
+    page: Page,
+    step: JourneyStep,
+    baseUrl: string,
+    journeyName: string,
+    siteType: 'baseline' | 'candidate',
+    runId: string
+  ): Promise<string | undefined> {
+    const timeout = step.timeoutMs ?? this.stepTimeout;
+
+    switch (step.action) {
+      case 'goto': {
+        const response = await page.goto(new URL(step.url, baseUrl).toString(), {
+          waitUntil: 'networkidle',
+          timeout: step.timeoutMs ?? 30000,
+        });
+        if (response && response.status() >= 400) {
+          throw new Error(`HTTP ${response.status()} for ${step.url}`);
+        }
+        return undefined;
+      }
+      case 'click':
+        await page.click(step.selector, { timeout });
+        return undefined;
+      case 'fill':
+        await page.fill(step.selector, step.value, { timeout });
+        return undefined;
+      case 'select':
+        await page.selectOption(step.selector, step.value, { timeout });
+        return undefined;
+      case 'waitFor':
+        if (step.selector) {
+          await page.waitForSelector(step.selector, { state: step.state ?? 'visible', timeout });
+        } else {
+          await page.waitForLoadState('networkidle', { timeout });
+        }
+        return undefined;
+      case 'assertText': {
+        const text = await page.locator(step.selector ?? 'body').first().innerText({ timeout });
+        if (!text.includes(step.text)) {
+          throw new Error(`Expected "${step.text}" in ${step.selector ?? 'body'}`);
+        }
+        return undefined;
+      }
+      case 'assertUrl': {
+        const current = new URL(page.url());
+        const actual = /^https?:\/\//.test(step.url) ? current.toString() : `${current.pathname}${current.search}`;
+        if (!this.matchesUrlPattern(step.url, actual)) {
+          throw new Error(`Expected URL ${step.url} but was ${actual}`);
+        }
+        return undefined;
+      }
+      case 'screenshot': {
+        const screenshotPath = path.join(
+          this.artifactsDir,
+          runId,
+          'journeys',
+          this.sanitizePath(journeyName),
+          siteType,
+          `${this.sanitizePath(step.name)}.png`
+        );
+        await fs.mkdir(path.dirname(screenshotPath), { recursive: true });
+        await page.screenshot({ path: screenshotPath, fullPage: step.fullPage ?? false, timeout });
+        return screenshotPath;
+      }
+    }
+  }
+
+  /**
+   * Execute every journey on both sites and compare the outcomes
+   */
+  async executeJourneysWithContexts(
+    baselineContext: BrowserContext,
+    candidateContext: BrowserContext,
+    journeys: Journey[],
+    baselineUrl: string,
+    candidateUrl: string,
+    runId: string
+  ): Promise<JourneyResult> {
+    const comparisons: JourneyComparison[] = [];
+
+    for (const journey of journeys) {
+      const [baseline, candidate] = await Promise.all([
+        this.executeJourney(baselineContext, journey, baselineUrl, 'baseline', runId),
+        this.executeJourney(candidateContext, journey, candidateUrl, 'candidate', runId),
+      ]);
+
+      const comparison = this.compareJourneyRuns(journey.name, baseline, candidate);
+      comparison.checkpoints = await this.compareCheckpoints(journey, baseline, candidate, runId);
+      comparisons.push(comparison);
+    }
+
+    const summary = this.generateSummary(comparisons);
+    const resultsPath = path.join(this.artifactsDir, runId, 'journey-results.json');
+    await fs.mkdir(path.dirname(resultsPath), { recursive: true });
+    await fs.writeFile(resultsPath, JSON.stringify({ journeys: comparisons, summary }, null, 2));
+
+    return {
+      journeys: comparisons,
+      summary,
+      artifactPaths: [resultsPath],
+    };
+  }
+
+  /**
+   * Diff step outcomes and timings of a journey run on both sites
+   */
+  compareJourneyRuns(name: string, baseline: SiteJourneyRun, candidate: SiteJourneyRun): JourneyComparison {
+    const stepDiffs: JourneyStepDiff[] = baseline.steps.map((baselineStep, index) => {
+      const candidateStep = candidate.steps[index];
+      const timingDeltaMs = candidateStep.durationMs - baselineStep.durationMs;
+      const bothPassed = baselineStep.status === 'passed' && candidateStep.status === 'passed';
+
+      return {
+        index,
+        label: baselineStep.label,
+        baselineStatus: baselineStep.status,
+        candidateStatus: candidateStep.status,
+        baselineMs: baselineStep.durationMs,
+        candidateMs: candidateStep.durationMs,
+        timingDeltaMs,
+        outcomeChanged: baselineStep.status !== candidateStep.status,
+        slower: bothPassed && timingDeltaMs > this.slowdownThresholdMs && candidateStep.durationMs > baselineStep.durationMs * 1.5,
+      };
+    });
+
+    let verdict: JourneyVerdict = 'pass';
+    if (baseline.passed && !candidate.passed) verdict = 'regression';
+    else if (!baseline.passed && candidate.passed) verdict = 'fixed';
+    else if (!baseline.passed && !candidate.passed) verdict = 'broken';
+
+    return { name, verdict, baseline, candidate, stepDiffs, checkpoints: [] };
+  }
+
+  /**
+   * Visually compare checkpoint screenshots captured on both sites
+   */
+  private async compareCheckpoints(
+    journey: Journey,
+    baseline: SiteJourneyRun,
+    candidate: SiteJourneyRun,
+    runId: string
+  ): Promise<JourneyCheckpointDiff[]> {
+    const checkpoints: JourneyCheckpointDiff[] = [];
+
+    for (const [index, step] of journey.steps.entries()) {
+      const baselinePath = baseline.steps[index].screenshotPath;
+      const candidatePath = candidate.steps[index].screenshotPath;
+      if (step.action !== 'screenshot' || !baselinePath || !candidatePath) continue;
+
+      try {
+        const diff = await this.visualDiffService.compareScreenshots(
+          baselinePath,
+          candidatePath,
+          `/journeys/${journey.name}`,
+          // Checkpoints are keyed by name; they use the context viewport rather than a configured one
+          { name: this.sanitizePath(step.name), width: 0, height: 0 },
+          runId
+        );
+        checkpoints.push({
+          name: step.name,
+          diffPercentage: diff.pixelMetrics.diffPercentage,
+          severity: diff.severity,
+          diffPath: diff.diffPath,
+          heatmapPath: diff.heatmapPath,
+        });
+      } catch (error) {
+        console.error(`Error comparing journey checkpoint ${journey.name}/${step.name}:`, error);
+      }
+    }
+
+    return checkpoints;
+  }
+
+  private generateSummary(comparisons: JourneyComparison[]): JourneyResult['summary'] {
+    return {
+      totalJourneys: comparisons.length,
+      passed: comparisons.filter((c) => c.verdict === 'pass').length,
+      regressions: comparisons.filter((c) => c.verdict === 'regression').length,
+      fixed: comparisons.filter((c) => c.verdict === 'fixed').length,
+      broken: comparisons.filter((c) => c.verdict === 'broken').length,
+      slowSteps: comparisons.reduce((sum, c) => sum + c.stepDiffs.filter((d) => d.slower).length, 0),
+      checkpointsWithDiffs: comparisons.reduce(
+        (sum, c) => sum + c.checkpoints.filter((cp) => cp.severity !== 'none').length,
+        0
+      ),
+    };
+  }
+
+  /**
+   * Human readable step label, e.g. `click #add-to-cart`
+   */
+  private describeStep(step: JourneyStep): string {
+    if (step.name) return step.name;
+
+    switch (step.action) {
+      case 'goto':
+      case 'assertUrl':
+        return `${step.action} ${step.url}`;
+      case 'click':
+      case 'fill':
+      case 'select':
+        return `${step.action} ${step.selector}`;
+      case 'waitFor':
+        return `waitFor ${step.selector ?? 'network idle'}`;
+      case 'assertText':
+        return `assertText "${step.text}"`;
+      case 'screenshot':
+        return `screenshot ${step.name}`;
+    }
+  }
+
+  private matchesUrlPattern(pattern: string, actual: string): boolean {
+    const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    return new RegExp(`^${escaped}$`).test(actual);
+  }
+
+  /**
+   * Sanitize path for filesystem use
+   */
+  private sanitizePath(pathStr: string): string {
+    return pathStr
+      .replace(/^\/+/, '')
+      .replace(/\/+/g, '-')
+      .replace(/[^a-zA-Z0-9-_]/g, '_')
+      .replace(/_+/g, '_')
+      .replace(/^_|_$/g, '') || 'index';
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Similarity helpers used by CrawlAgent.matchPages to pair pages across restructured sites
+ */
+
+/**
+ * Number of hashes in a MinHash signature; the estimate's error is roughly 1/sqrt(size)
+ */
+const MINHASH_SIZE = 64;
+
+/**
+ * Words per shingle when fingerprinting main content
+ */
+const SHINGLE_SIZE = 5;
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity in [0, 1] from edit distance, ignoring case and surrounding whitespace
+ */
+export function stringSimilarity(a: string, b: string): number {
+  const left = a.toLowerCase().trim();
+  const right = b.toLowerCase().trim();
+  const length = Math.max(left.length, right.length);
+  if (length === 0) return 0;
+  return 1 - editDistance(left, right) / length;
+}
+
+/**
+ * Last path segment without file extension, with separators unified (e.g. '/Shop/Blue_Shoes.html' → 'blue-shoes')
+ */
+export function slugOf(normalizedPath: string): string {
+  const segment = normalizedPath.split('/').filter(Boolean).pop() ?? '';
+  return segment
+    .toLowerCase()
+    .replace(/\.(html?|php|aspx?|jsp)$/, '')
+    .replace(/[-_+\s]+/g, '-');
+}
+
+function hash32(text: string, seed: number): number {
+  // FNV-1a with a per-seed offset, finished with the murmur3 mixer
+  let h = (2166136261 ^ seed) >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/**
+ * MinHash signature of a text's word shingles; empty when the text has no words
+ */
+export function minHashSignature(text: string): number[] {
+  const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const shingles = new Set<string>();
+  for (let i = 0; i <= Math.max(0, words.length - SHINGLE_SIZE); i++) {
+    shingles.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+
+  const signature = new Array<number>(MINHASH_SIZE).fill(0xffffffff);
+  for (const shingle of shingles) {
+    for (let k = 0; k < MINHASH_SIZE; k++) {
+      const h = hash32(shingle, Math.imul(k + 1, 0x9e3779b1));
+      if (h < signature[k]) signature[k] = h;
+    }
+  }
+  return signature;
+}
+
+/**
+ * Estimated Jaccard similarity of the shingle sets behind two signatures
+ */
+export function signatureSimilarity(a: number[] | undefined, b: number[] | undefined): number {
+  if (!a || !b || a.length === 0 || a.length !== b.length) return 0;
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / a.length;
+}
+
+/**
+ * JSON-LD properties that identify the same item across sites
+ */
+const IDENTIFIER_KEYS = new Set(['sku', 'gtin', 'gtin8', 'gtin12', 'gtin13', 'gtin14', 'mpn', 'productID', 'isbn', 'identifier']);
+
+/**
+ * Collect identifiers such as SKU or GTIN from parsed JSON-LD, formatted as 'key:value'
+ */
+export function extractIdentifiers(jsonLd: unknown, identifiers: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(jsonLd)) {
+    jsonLd.forEach((item) => extractIdentifiers(item, identifiers));
+  } else if (jsonLd && typeof jsonLd === 'object') {
+    for (const [key, value] of Object.entries(jsonLd)) {
+      if (IDENTIFIER_KEYS.has(key) && (typeof value === 'string' || typeof value === 'number') && String(value).trim()) {
+        identifiers.add(`${key}:${String(value).trim()}`);
+      } else if (typeof value === 'object') {
+        extractIdentifiers(value, identifiers);
+      }
+    }
+  }
+  return identifiers;
+}
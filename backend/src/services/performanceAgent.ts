@@ -0,0 +1,388 @@
+import { BrowserContext } from 'playwright';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DATA_DIR } from '../config/config';
+import { PerformanceBudget, PerformanceMetric } from '../models';
+import { MatchedPage } from './crawlAgent';
+
+/**
+ * Severity levels for budget violations
+ */
+export type PerformanceSeverity = 'none' | 'low' | 'medium' | 'high' | 'critical';
+
+/**
+ * Metrics of one cold page load; a metric the browser didn't report is left out
+ * INP is only known when the page handled an interaction while it was measured.
+ */
+export type PerformanceMetrics = { [metric in PerformanceMetric]?: number };
+
+/**
+ * A candidate metric outside its budget
+ */
+export interface PerformanceViolation {
+  metric: PerformanceMetric;
+  severity: PerformanceSeverity;
+  message: string;
+  baselineValue?: number;
+  candidateValue: number;
+  budget: PerformanceBudget;
+}
+
+/**
+ * Performance comparison result for a single page
+ */
+export interface PagePerformanceResult {
+  normalizedPath: string;
+  baselineUrl: string;
+  candidateUrl: string;
+  baseline?: PerformanceMetrics;
+  candidate?: PerformanceMetrics;
+  violations: PerformanceViolation[];
+  overallSeverity: PerformanceSeverity;
+  error?: string; // Set when either site couldn't be measured
+}
+
+/**
+ * Complete performance comparison result
+ */
+export interface PerformanceResult {
+  pages: PagePerformanceResult[];
+  budgets: PerformanceBudget[];
+  summary: {
+    totalPages: number;
+    measuredPages: number;
+    pagesWithViolations: number;
+    totalViolations: number;
+    criticalIssues: number;
+    highIssues: number;
+    mediumIssues: number;
+    lowIssues: number;
+    violationsByMetric: Partial<Record<PerformanceMetric, number>>;
+  };
+  artifactPaths: string[];
+}
+
+/**
+ * Budgets applied when a job sets none
+ */
+export const DEFAULT_PERFORMANCE_BUDGETS: PerformanceBudget[] = [
+  { metric: 'lcp', maxRegressionPercent: 10 },
+  { metric: 'cls', maxIncrease: 0.05 },
+  { metric: 'inp', maxRegressionPercent: 20 },
+  { metric: 'tbt', maxRegressionPercent: 20 },
+  { metric: 'fcp', maxRegressionPercent: 10 },
+  { metric: 'ttfb', maxRegressionPercent: 20 },
+  { metric: 'transferBytes', maxRegressionPercent: 10 },
+  { metric: 'jsBytes', maxRegressionPercent: 10 },
+];
+
+/**
+ * Increases this small are measurement noise and never break a percentage budget
+ */
+const NOISE_FLOOR: Record<PerformanceMetric, number> = {
+  lcp: 50,
+  cls: 0.01,
+  inp: 50,
+  tbt: 50,
+  fcp: 50,
+  ttfb: 50,
+  transferBytes: 1024,
+  requestCount: 0,
+  jsBytes: 1024,
+  cssBytes: 1024,
+  imageBytes: 1024,
+};
+
+/**
+ * Severity of a violated budget, by how directly the metric affects users
+ */
+const METRIC_SEVERITY: Record<PerformanceMetric, PerformanceSeverity> = {
+  lcp: 'high',
+  cls: 'high',
+  inp: 'high',
+  tbt: 'medium',
+  fcp: 'medium',
+  ttfb: 'medium',
+  transferBytes: 'low',
+  requestCount: 'low',
+  jsBytes: 'medium',
+  cssBytes: 'low',
+  imageBytes: 'low',
+};
+
+const SEVERITY_ORDER: PerformanceSeverity[] = ['none', 'low', 'medium', 'high', 'critical'];
+
+/**
+ * Time left after network idle for late layout shifts, LCP candidates and long tasks
+ */
+const SETTLE_MS = 1000;
+
+interface PerformanceWindow {
+  __migrateGuardPerf?: {
+    lcp?: number;
+    cls: number;
+    inp?: number;
+    longTasks: Array<{ start: number; duration: number }>;
+  };
+}
+
+/**
+ * Init script that records LCP, CLS (largest session window), INP and long tasks in window.__migrateGuardPerf
+ */
+export function installPerformanceObservers(): void {
+  const perfWindow = window as unknown as PerformanceWindow;
+  if (perfWindow.__migrateGuardPerf) return;
+  const state: NonNullable<PerformanceWindow['__migrateGuardPerf']> = { cls: 0, longTasks: [] };
+  perfWindow.__migrateGuardPerf = state;
+
+  const observe = (type: string, callback: (entries: PerformanceEntryList) => void, options: object = {}) => {
+    try {
+      new PerformanceObserver((list) => callback(list.getEntries())).observe({ type, buffered: true, ...options });
+    } catch {
+      // Entry type not supported by this browser
+    }
+  };
+
+  observe('largest-contentful-paint', (entries) => {
+    state.lcp = entries[entries.length - 1].startTime;
+  });
+
+  // Shifts less than 1s apart form a session window of at most 5s; CLS is the largest window
+  let windowValue = 0;
+  let windowStart = 0;
+  let lastShift = 0;
+  observe('layout-shift', (entries) => {
+    for (const entry of entries as unknown as Array<PerformanceEntry & { value: number; hadRecentInput: boolean }>) {
+      if (entry.hadRecentInput) continue;
+      if (entry.startTime - lastShift > 1000 || entry.startTime - windowStart > 5000) {
+        windowValue = 0;
+        windowStart = entry.startTime;
+      }
+      windowValue += entry.value;
+      lastShift = entry.startTime;
+      state.cls = Math.max(state.cls, windowValue);
+    }
+  });
+
+  observe(
+    'event',
+    (entries) => {
+      for (const entry of entries as unknown as Array<PerformanceEntry & { interactionId?: number }>) {
+        if (entry.interactionId) state.inp = Math.max(state.inp ?? 0, entry.duration);
+      }
+    },
+    { durationThreshold: 16 }
+  );
+
+  observe('longtask', (entries) => {
+    for (const entry of entries) state.longTasks.push({ start: entry.startTime, duration: entry.duration });
+  });
+}
+
+/**
+ * Check candidate metrics against the baseline and budgets
+ * A budget with several limits reports the first one exceeded.
+ */
+export function checkPerformanceBudgets(
+  baseline: PerformanceMetrics,
+  candidate: PerformanceMetrics,
+  budgets: PerformanceBudget[]
+): PerformanceViolation[] {
+  const violations: PerformanceViolation[] = [];
+
+  for (const budget of budgets) {
+    const baselineValue = baseline[budget.metric];
+    const candidateValue = candidate[budget.metric];
+    if (candidateValue === undefined) continue;
+
+    const increase = baselineValue !== undefined ? candidateValue - baselineValue : undefined;
+    let message: string | undefined;
+
+    if (budget.maxValue !== undefined && candidateValue > budget.maxValue) {
+      message = `${budget.metric} is ${candidateValue}, above the budget of ${budget.maxValue}`;
+    } else if (
+      budget.maxRegressionPercent !== undefined &&
+      increase !== undefined &&
+      increase > NOISE_FLOOR[budget.metric] &&
+      increase > (baselineValue! * budget.maxRegressionPercent) / 100
+    ) {
+      const percent = baselineValue! > 0 ? `${((increase / baselineValue!) * 100).toFixed(1)}%` : 'from zero';
+      message = `${budget.metric} regressed by ${percent} (${baselineValue} → ${candidateValue}), more than the ${budget.maxRegressionPercent}% budget`;
+    } else if (budget.maxIncrease !== undefined && increase !== undefined && increase > budget.maxIncrease) {
+      message = `${budget.metric} increased by ${Number(increase.toFixed(4))} (${baselineValue} → ${candidateValue}), more than the allowed ${budget.maxIncrease}`;
+    }
+
+    if (message) {
+      violations.push({
+        metric: budget.metric,
+        severity: METRIC_SEVERITY[budget.metric],
+        message,
+        baselineValue,
+        candidateValue,
+        budget,
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * PerformanceAgent - Compares Core Web Vitals and page weight between baseline and candidate pages
+ * Each page gets a cold-cache load; in-page metrics come from PerformanceObserver, bytes and requests from CDP
+ */
+export class PerformanceAgent {
+  private readonly artifactsDir: string;
+
+  constructor() {
+    this.artifactsDir = path.join(DATA_DIR, 'artifacts');
+  }
+
+  /**
+   * Load a URL in a fresh page with the cache disabled and collect its metrics
+   */
+  async collectMetrics(context: BrowserContext, url: string): Promise<PerformanceMetrics> {
+    const page = await context.newPage();
+    try {
+      await page.addInitScript(installPerformanceObservers);
+
+      const cdp = await context.newCDPSession(page);
+      const resourceTypes = new Map<string, string>();
+      const bytes = { total: 0, Script: 0, Stylesheet: 0, Image: 0 };
+      let requestCount = 0;
+      cdp.on('Network.responseReceived', (event) => {
+        resourceTypes.set(event.requestId, event.type);
+      });
+      cdp.on('Network.loadingFinished', (event) => {
+        requestCount++;
+        bytes.total += event.encodedDataLength;
+        const type = resourceTypes.get(event.requestId);
+        if (type === 'Script' || type === 'Stylesheet' || type === 'Image') {
+          bytes[type] += event.encodedDataLength;
+        }
+      });
+      await cdp.send('Network.enable');
+      await cdp.send('Network.setCacheDisabled', { cacheDisabled: true });
+
+      const response = await page.goto(url, { waitUntil: 'networkidle', timeout: 30000 });
+      if (!response || response.status() >= 400) {
+        throw new Error(`Page load failed: ${response?.status() || 'No response'}`);
+      }
+      await page.waitForTimeout(SETTLE_MS);
+
+      const inPage = await page.evaluate(() => {
+        const [navigation] = performance.getEntriesByType('navigation') as PerformanceNavigationTiming[];
+        const fcp = performance.getEntriesByName('first-contentful-paint')[0]?.startTime;
+        const state = (window as unknown as PerformanceWindow).__migrateGuardPerf;
+        // Blocking time of long tasks after first contentful paint
+        const tbt = (state?.longTasks ?? [])
+          .filter((task) => fcp === undefined || task.start >= fcp)
+          .reduce((sum, task) => sum + Math.max(0, task.duration - 50), 0);
+        return {
+          ttfb: navigation?.responseStart,
+          fcp,
+          lcp: state?.lcp,
+          cls: state?.cls,
+          inp: state?.inp,
+          tbt,
+        };
+      });
+
+      const metrics: PerformanceMetrics = {
+        transferBytes: bytes.total,
+        requestCount,
+        jsBytes: bytes.Script,
+        cssBytes: bytes.Stylesheet,
+        imageBytes: bytes.Image,
+      };
+      for (const metric of ['ttfb', 'fcp', 'lcp', 'inp', 'tbt'] as const) {
+        if (inPage[metric] !== undefined) metrics[metric] = Math.round(inPage[metric]!);
+      }
+      if (inPage.cls !== undefined) metrics.cls = Number(inPage.cls.toFixed(4));
+      return metrics;
+    } finally {
+      await page.close().catch(() => undefined);
+    }
+  }
+
+  private getOverallSeverity(violations: PerformanceViolation[]): PerformanceSeverity {
+    return violations.reduce<PerformanceSeverity>(
+      (max, violation) => (SEVERITY_ORDER.indexOf(violation.severity) > SEVERITY_ORDER.indexOf(max) ? violation.severity : max),
+      'none'
+    );
+  }
+
+  /**
+   * Generate summary statistics
+   */
+  private generateSummary(pages: PagePerformanceResult[]): PerformanceResult['summary'] {
+    const violations = pages.flatMap((p) => p.violations);
+    const violationsByMetric: Partial<Record<PerformanceMetric, number>> = {};
+    for (const violation of violations) {
+      violationsByMetric[violation.metric] = (violationsByMetric[violation.metric] ?? 0) + 1;
+    }
+    const count = (severity: PerformanceSeverity) => violations.filter((v) => v.severity === severity).length;
+
+    return {
+      totalPages: pages.length,
+      measuredPages: pages.filter((p) => !p.error).length,
+      pagesWithViolations: pages.filter((p) => p.violations.length > 0).length,
+      totalViolations: violations.length,
+      criticalIssues: count('critical'),
+      highIssues: count('high'),
+      mediumIssues: count('medium'),
+      lowIssues: count('low'),
+      violationsByMetric,
+    };
+  }
+
+  /**
+   * Execute the performance comparison with browser contexts
+   * Pages are measured one at a time, baseline then candidate, so the sites don't compete for CPU.
+   */
+  async executePerformanceCheckWithContexts(
+    baselineContext: BrowserContext,
+    candidateContext: BrowserContext,
+    matchedPages: MatchedPage[],
+    runId: string,
+    budgets: PerformanceBudget[] = DEFAULT_PERFORMANCE_BUDGETS
+  ): Promise<PerformanceResult> {
+    const pageResults: PagePerformanceResult[] = [];
+
+    for (const matchedPage of matchedPages) {
+      const pageResult: PagePerformanceResult = {
+        normalizedPath: matchedPage.baseline.normalizedPath,
+        baselineUrl: matchedPage.baseline.url,
+        candidateUrl: matchedPage.candidate.url,
+        violations: [],
+        overallSeverity: 'none',
+      };
+
+      try {
+        pageResult.baseline = await this.collectMetrics(baselineContext, matchedPage.baseline.url);
+        pageResult.candidate = await this.collectMetrics(candidateContext, matchedPage.candidate.url);
+        pageResult.violations = checkPerformanceBudgets(pageResult.baseline, pageResult.candidate, budgets);
+        pageResult.overallSeverity = this.getOverallSeverity(pageResult.violations);
+      } catch (error) {
+        pageResult.error = error instanceof Error ? error.message : String(error);
+      }
+
+      pageResults.push(pageResult);
+    }
+
+    // Save results
+    const resultsPath = path.join(this.artifactsDir, runId, 'performance-results.json');
+    await fs.mkdir(path.dirname(resultsPath), { recursive: true });
+
+    const result: PerformanceResult = {
+      pages: pageResults,
+      budgets,
+      summary: this.generateSummary(pageResults),
+      artifactPaths: [resultsPath],
+    };
+
+    await fs.writeFile(resultsPath, JSON.stringify(result, null, 2));
+
+    return result;
+  }
+}
@@ -1,26 +1,25 @@
-import { chromium, Browser, BrowserContext, Page, ViewportSize } from 'playwright';
+import { chromium, Browser, BrowserContext, BrowserContextOptions, Page, ViewportSize } from 'playwright';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { DATA_DIR } from '../config/config';
+import { CaptureOptions, CaptureProfile, InterceptRule, Rect } from '../models';
+import { DEFAULT_CAPTURE_PROFILES, needsOwnContext, profileContextOptions, toScreenshotPixels } from './captureProfiles';
 import { MatchedPage } from './crawlAgent';
+import { captureScreenshotOptions, prepareCapturePage, scrollThroughPage, stabilizeLoadedPage } from './deterministicCapture';
+import { InterceptedRequest, interceptRequests, rulesForSite } from './requestInterception';
+import {
+  ThrottleProfile,
+  ThrottledLoad,
+  ThrottlingComparison,
+  compareThrottledLoads,
+  measureThrottledLoad,
+} from './throttling';
+import { artifactFileName } from './urlNormalization';
 
 /**
- * Viewport configuration for screenshot capture
+ * Colour painted over masked elements before capture
  */
-export interface ViewportConfig {
-  name: string;
-  width: number;
-  height: number;
-}
-
-/**
- * Default viewports to capture
- */
-const DEFAULT_VIEWPORTS: ViewportConfig[] = [
-  { name: 'desktop', width: 1920, height: 1080 },
-  { name: 'tablet', width: 768, height: 1024 },
-  { name: 'mobile', width: 375, height: 667 },
-];
+const MASK_COLOR = '#FF00FF';
 
 /**
  * Console message captured from browser
@@ -64,8 +63,9 @@ export interface DOMSnapshot {
 export interface ScreenshotArtifact {
   path: string;
   url: string;
-  viewport: ViewportConfig;
+  viewport: CaptureProfile; // Profile the screenshot was taken with; its name pairs baseline and candidate captures
   timestamp: string;
+  maskedRegions?: Rect[]; // Boxes of elements painted over by mask selectors, in screenshot pixels
 }
 
 /**
@@ -81,6 +81,8 @@ export interface PageExecutionResult {
   networkFailures: NetworkRequest[];
   errors: string[];
   loadTime?: number;
+  throttledLoads?: ThrottledLoad[]; // Cold loads measured under each throttle profile
+  interceptedRequests?: InterceptedRequest[]; // Requests blocked, mocked or rewritten during the main load, when rules apply
 }
 
 /**
@@ -101,10 +103,19 @@ export interface ExecutionResult {
   candidate: SiteExecutionResult;
   matchedPages: MatchedPage[];
   artifactPaths: string[];
+  throttling?: ThrottlingComparison[]; // Baseline vs candidate loads per throttle profile, when any were measured
   baselineContext?: BrowserContext;
   candidateContext?: BrowserContext;
 }
 
+/**
+ * Optional callbacks to observe execution progress as it happens
+ */
+export interface ExecutionListener {
+  onLog?(message: string, siteType: 'baseline' | 'candidate'): void;
+  onScreenshot?(screenshot: ScreenshotArtifact, siteType: 'baseline' | 'candidate', normalizedPath: string): void;
+}
+
 /**
  * PlaywrightExecutionService - Executes Playwright tests on baseline and candidate sites
  * Captures screenshots, DOM snapshots, console errors, and network failures
@@ -114,18 +125,28 @@ export class PlaywrightExecutionService {
   private candidateBrowser: Browser | null = null;
   private baselineContext: BrowserContext | null = null;
   private candidateContext: BrowserContext | null = null;
+  private contextOptions: { baseline?: BrowserContextOptions; candidate?: BrowserContextOptions } = {};
+  private readonly profileContexts = new Map<string, BrowserContext>();
+  private readonly interceptedContexts = new WeakSet<BrowserContext>();
+  // Requests intercepted during each page's main load, by page
+  private readonly interceptLogs = new Map<Page, InterceptedRequest[]>();
   private readonly artifactsDir: string;
-  private readonly viewports: ViewportConfig[];
+  private readonly profiles: CaptureProfile[];
 
-  constructor(viewports: ViewportConfig[] = DEFAULT_VIEWPORTS) {
+  constructor(profiles: CaptureProfile[] = DEFAULT_CAPTURE_PROFILES) {
     this.artifactsDir = path.join(DATA_DIR, 'artifacts');
-    this.viewports = viewports;
+    this.profiles = profiles;
   }
 
   /**
    * Initialize browser instances and contexts
+   * Per-site context options carry authenticated sessions and apply to contexts created by this call
    */
-  async initialize(): Promise<void> {
+  async initialize(
+    contextOptions: { baseline?: BrowserContextOptions; candidate?: BrowserContextOptions } = {}
+  ): Promise<void> {
+    this.contextOptions = contextOptions;
+
     if (!this.baselineBrowser) {
       this.baselineBrowser = await chromium.launch({
         headless: true,
@@ -142,6 +163,7 @@ export class PlaywrightExecutionService {
       this.baselineContext = await this.baselineBrowser.newContext({
         viewport: { width: 1920, height: 1080 },
         ignoreHTTPSErrors: true,
+        ...contextOptions.baseline,
       });
     }
 
@@ -149,6 +171,7 @@ export class PlaywrightExecutionService {
       this.candidateContext = await this.candidateBrowser.newContext({
         viewport: { width: 1920, height: 1080 },
         ignoreHTTPSErrors: true,
+        ...contextOptions.candidate,
       });
     }
   }
@@ -157,6 +180,11 @@ export class PlaywrightExecutionService {
    * Cleanup browser instances and contexts
    */
   async cleanup(): Promise<void> {
+    for (const context of this.profileContexts.values()) {
+      await context.close().catch(() => undefined);
+    }
+    this.profileContexts.clear();
+
     if (this.baselineContext) {
       await this.baselineContext.close();
       this.baselineContext = null;
@@ -178,16 +206,42 @@ export class PlaywrightExecutionService {
     }
   }
 
+  /**
+   * Install a site's intercept rules on a context once
+   * Routes stay on the context, so every later page in it (other agents' included) loads through the rules.
+   */
+  private async interceptContext(context: BrowserContext, interceptRules: InterceptRule[]): Promise<void> {
+    if (interceptRules.length === 0 || this.interceptedContexts.has(context)) {
+      return;
+    }
+    this.interceptedContexts.add(context);
+    await interceptRequests(context, interceptRules, (request, page) => {
+      if (page) {
+        this.interceptLogs.get(page)?.push(request);
+      }
+    });
+  }
+
   /**
    * Execute on a single page with a specific context
+   * Capture options (frozen clock, seeded Math.random, no animations, lazy-load scrolling, fonts) make repeated
+   * captures of an unchanged page identical.
+   * Intercept rules (already narrowed to this site) are installed on the context and apply to every load made in
+   * it; only the main load of the page is recorded.
    */
   async executePage(
     context: BrowserContext,
     url: string,
     normalizedPath: string,
     siteType: 'baseline' | 'candidate',
-    runId: string
+    runId: string,
+    maskSelectors: string[] = [],
+    captureOptions: CaptureOptions = {},
+    profiles: CaptureProfile[] = this.profiles,
+    throttleProfiles: ThrottleProfile[] = [],
+    interceptRules: InterceptRule[] = []
   ): Promise<PageExecutionResult> {
+    await this.interceptContext(context, interceptRules);
     const page = await context.newPage();
     const result: PageExecutionResult = {
       url,
@@ -203,8 +257,11 @@ export class PlaywrightExecutionService {
     const consoleMessages: ConsoleMessage[] = [];
     const networkRequests: NetworkRequest[] = [];
     const networkFailures: NetworkRequest[] = [];
+    const interceptedRequests: InterceptedRequest[] = [];
 
     try {
+      this.interceptLogs.set(page, interceptedRequests);
+
       // Set up console message listener
       page.on('console', (msg) => {
         const message: ConsoleMessage = {
@@ -254,6 +311,8 @@ export class PlaywrightExecutionService {
         networkFailures.push(networkRequest);
       });
 
+      await prepareCapturePage(page, captureOptions);
+
       // Navigate to page
       const startTime = Date.now();
       const response = await page.goto(url, {
@@ -271,6 +330,7 @@ export class PlaywrightExecutionService {
 
       // Wait for page to be fully loaded
       await page.waitForLoadState('networkidle');
+      await stabilizeLoadedPage(page, captureOptions);
 
       // Capture DOM snapshot for default viewport
       const defaultViewport = await page.viewportSize();
@@ -286,46 +346,35 @@ export class PlaywrightExecutionService {
         });
       }
 
-      // Capture screenshots for each viewport
-      for (const viewport of this.viewports) {
-        await page.setViewportSize({ width: viewport.width, height: viewport.height });
-        
-        // Wait for layout to stabilize
-        await page.waitForTimeout(500);
-
-        // Capture screenshot
-        const screenshotPath = path.join(
-          this.artifactsDir,
-          runId,
-          siteType,
-          this.sanitizePath(normalizedPath),
-          `screenshot-${viewport.name}.png`
-        );
-        await fs.mkdir(path.dirname(screenshotPath), { recursive: true });
-        await page.screenshot({ path: screenshotPath, fullPage: true });
-
-        result.screenshots.push({
-          path: screenshotPath.replace(/^.*[\\/]data[\\/]/, 'data/'),
-          url: page.url(),
-          viewport,
-          timestamp: new Date().toISOString(),
-        });
-
-        // Capture DOM snapshot for this viewport
-        const html = await page.content();
-        const textContent = await page.evaluate(() => document.body.innerText);
-        result.domSnapshots.push({
-          html,
-          textContent,
-          url: page.url(),
-          timestamp: new Date().toISOString(),
-          viewport: { width: viewport.width, height: viewport.height },
-        });
+      // Capture screenshots for each profile
+      for (const profile of profiles) {
+        let profilePage: Page | undefined;
+        try {
+          if (needsOwnContext(profile)) {
+            profilePage = await this.openProfilePage(context, siteType, profile, url, captureOptions, interceptRules);
+            await this.captureProfile(profilePage, profile, normalizedPath, siteType, runId, maskSelectors, captureOptions, result);
+          } else {
+            await this.captureProfile(page, profile, normalizedPath, siteType, runId, maskSelectors, captureOptions, result);
+          }
+        } catch (error) {
+          result.errors.push(`Capture error (${profile.name}): ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+          await profilePage?.close().catch(() => undefined);
+        }
       }
 
       // Reset to default viewport
       await page.setViewportSize({ width: 1920, height: 1080 });
 
+      // Measure cold loads on slow connections/devices, one fresh page per profile
+      for (const throttleProfile of throttleProfiles) {
+        const load = await measureThrottledLoad(context, url, throttleProfile);
+        result.throttledLoads = [...(result.throttledLoads ?? []), load];
+        if (load.error) {
+          result.errors.push(`Throttled load error (${throttleProfile.name}): ${load.error}`);
+        }
+      }
+
       // Collect all console messages and network data
       result.consoleMessages = consoleMessages;
       result.networkRequests = networkRequests;
@@ -334,12 +383,163 @@ export class PlaywrightExecutionService {
     } catch (error) {
       result.errors.push(`Execution error: ${error instanceof Error ? error.message : String(error)}`);
     } finally {
+      this.interceptLogs.delete(page);
       await page.close();
     }
 
+    if (interceptRules.length > 0) {
+      result.interceptedRequests = interceptedRequests;
+    }
+
     return result;
   }
 
+  /**
+   * Screenshot and DOM snapshot of a loaded page rendered with a profile
+   * Media features are emulated for the capture and reset afterwards.
+   */
+  private async captureProfile(
+    page: Page,
+    profile: CaptureProfile,
+    normalizedPath: string,
+    siteType: 'baseline' | 'candidate',
+    runId: string,
+    maskSelectors: string[],
+    captureOptions: CaptureOptions,
+    result: PageExecutionResult
+  ): Promise<void> {
+    const emulatesMedia = profile.colorScheme !== undefined || profile.reducedMotion !== undefined;
+    await page.setViewportSize({ width: profile.width, height: profile.height });
+    if (emulatesMedia) {
+      await page.emulateMedia({ colorScheme: profile.colorScheme, reducedMotion: profile.reducedMotion });
+    }
+
+    try {
+      // Wait for layout to stabilize
+      await page.waitForTimeout(500);
+      if (captureOptions.scrollToLoad) {
+        await scrollThroughPage(page);
+      }
+
+      // Capture screenshot
+      const screenshotPath = path.join(
+        this.artifactsDir,
+        runId,
+        siteType,
+        artifactFileName(normalizedPath),
+        `screenshot-${profile.name}.png`
+      );
+      await fs.mkdir(path.dirname(screenshotPath), { recursive: true });
+      const maskedRegions = toScreenshotPixels(await this.measureMaskedRegions(page, maskSelectors), profile);
+      await page.screenshot({
+        path: screenshotPath,
+        fullPage: true,
+        mask: maskSelectors.map((selector) => page.locator(selector)),
+        maskColor: MASK_COLOR,
+        ...captureScreenshotOptions(captureOptions),
+      });
+
+      result.screenshots.push({
+        path: screenshotPath.replace(/^.*[\\/]data[\\/]/, 'data/'),
+        url: page.url(),
+        viewport: profile,
+        timestamp: new Date().toISOString(),
+        ...(maskSelectors.length > 0 ? { maskedRegions } : {}),
+      });
+
+      // Capture DOM snapshot for this profile
+      const html = await page.content();
+      const textContent = await page.evaluate(() => document.body.innerText);
+      result.domSnapshots.push({
+        html,
+        textContent,
+        url: page.url(),
+        timestamp: new Date().toISOString(),
+        viewport: { width: profile.width, height: profile.height },
+      });
+    } finally {
+      if (emulatesMedia) {
+        await page.emulateMedia({ colorScheme: null, reducedMotion: null }).catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Load the URL in the site's browser context for a device profile, creating the context on first use
+   * The context carries the site's session options, so device captures stay signed in.
+   */
+  private async openProfilePage(
+    context: BrowserContext,
+    siteType: 'baseline' | 'candidate',
+    profile: CaptureProfile,
+    url: string,
+    captureOptions: CaptureOptions,
+    interceptRules: InterceptRule[]
+  ): Promise<Page> {
+    const key = `${siteType}:${profile.name}`;
+    let profileContext = this.profileContexts.get(key);
+    if (!profileContext) {
+      const browser = context.browser();
+      if (!browser) {
+        throw new Error(`No browser available to emulate profile ${profile.name}`);
+      }
+      profileContext = await browser.newContext({
+        ignoreHTTPSErrors: true,
+        ...this.contextOptions[siteType],
+        ...profileContextOptions(profile),
+      });
+      this.profileContexts.set(key, profileContext);
+    }
+    await this.interceptContext(profileContext, interceptRules);
+
+    const page = await profileContext.newPage();
+    try {
+      await prepareCapturePage(page, captureOptions);
+      const response = await page.goto(url, { waitUntil: 'networkidle', timeout: 30000 });
+      if (!response || response.status() >= 400) {
+        throw new Error(`Page load failed: ${response?.status() || 'No response'}`);
+      }
+      await stabilizeLoadedPage(page, captureOptions);
+      return page;
+    } catch (error) {
+      await page.close().catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Full-page bounding boxes of the visible elements matching the mask selectors, in CSS pixels
+   */
+  private async measureMaskedRegions(page: Page, selectors: string[]): Promise<Rect[]> {
+    if (selectors.length === 0) {
+      return [];
+    }
+
+    return page.evaluate((selectorList) => {
+      const rects: Array<{ x: number; y: number; width: number; height: number }> = [];
+      for (const selector of selectorList) {
+        let elements: Element[];
+        try {
+          elements = Array.from(document.querySelectorAll(selector));
+        } catch {
+          continue; // Invalid selector, nothing to mask
+        }
+        for (const element of elements) {
+          const box = element.getBoundingClientRect();
+          if (box.width > 0 && box.height > 0) {
+            rects.push({
+              x: Math.floor(box.left + window.scrollX),
+              y: Math.floor(box.top + window.scrollY),
+              width: Math.ceil(box.width),
+              height: Math.ceil(box.height),
+            });
+          }
+        }
+      }
+      return rects;
+    }, selectors);
+  }
+
   /**
    * Execute on multiple pages for a site
    */
@@ -348,7 +548,13 @@ export class PlaywrightExecutionService {
     baseUrl: string,
     pages: Array<{ url: string; normalizedPath: string }>,
     siteType: 'baseline' | 'candidate',
-    runId: string
+    runId: string,
+    listener?: ExecutionListener,
+    maskSelectors: string[] = [],
+    captureOptions: CaptureOptions = {},
+    profiles: CaptureProfile[] = this.profiles,
+    throttleProfiles: ThrottleProfile[] = [],
+    interceptRules: InterceptRule[] = []
   ): Promise<SiteExecutionResult> {
     const result: SiteExecutionResult = {
       baseUrl,
@@ -356,23 +562,36 @@ export class PlaywrightExecutionService {
       executionLog: [],
       errors: [],
     };
+    const log = (message: string) => {
+      result.executionLog.push(message);
+      listener?.onLog?.(message, siteType);
+    };
 
+    const siteRules = rulesForSite(interceptRules, siteType);
     for (const pageInfo of pages) {
       try {
-        result.executionLog.push(`Executing ${siteType} page: ${pageInfo.url}`);
+        log(`Executing ${siteType} page: ${pageInfo.url}`);
         const pageResult = await this.executePage(
           context,
           pageInfo.url,
           pageInfo.normalizedPath,
           siteType,
-          runId
+          runId,
+          maskSelectors,
+          captureOptions,
+          profiles,
+          throttleProfiles,
+          siteRules
         );
         result.pages.push(pageResult);
-        result.executionLog.push(`Completed ${siteType} page: ${pageInfo.normalizedPath}`);
+        for (const screenshot of pageResult.screenshots) {
+          listener?.onScreenshot?.(screenshot, siteType, pageInfo.normalizedPath);
+        }
+        log(`Completed ${siteType} page: ${pageInfo.normalizedPath}`);
       } catch (error) {
         const errorMsg = `Failed to execute ${siteType} page ${pageInfo.url}: ${error instanceof Error ? error.message : String(error)}`;
         result.errors.push(errorMsg);
-        result.executionLog.push(errorMsg);
+        log(errorMsg);
       }
     }
 
@@ -381,14 +600,25 @@ export class PlaywrightExecutionService {
 
   /**
    * Execute comparison on matched pages
+   * Both sites are captured with the same profiles; the service's defaults apply when none are given.
+   * Throttle profiles add cold-load measurements on each page, compared per profile in the result.
+   * Intercept rules block, mock or rewrite requests on every page load; rules with a `site` apply to that site only.
+   * They stay installed on the returned contexts, so agents that reuse them load pages through the same rules.
    */
   async executeComparison(
     baselineUrl: string,
     candidateUrl: string,
     matchedPages: MatchedPage[],
-    runId: string
+    runId: string,
+    listener?: ExecutionListener,
+    maskSelectors: string[] = [],
+    contextOptions: { baseline?: BrowserContextOptions; candidate?: BrowserContextOptions } = {},
+    captureOptions: CaptureOptions = {},
+    profiles: CaptureProfile[] = this.profiles,
+    throttleProfiles: ThrottleProfile[] = [],
+    interceptRules: InterceptRule[] = []
   ): Promise<ExecutionResult> {
-    await this.initialize();
+    await this.initialize(contextOptions);
 
     if (!this.baselineContext || !this.candidateContext) {
       throw new Error('Browser contexts not initialized');
@@ -408,16 +638,22 @@ export class PlaywrightExecutionService {
 
       // Execute both sites in parallel
       const [baselineResult, candidateResult] = await Promise.all([
-        this.executeSite(this.baselineContext, baselineUrl, baselinePages, 'baseline', runId),
-        this.executeSite(this.candidateContext, candidateUrl, candidatePages, 'candidate', runId),
+        this.executeSite(this.baselineContext, baselineUrl, baselinePages, 'baseline', runId, listener, maskSelectors, captureOptions, profiles, throttleProfiles, interceptRules),
+        this.executeSite(this.candidateContext, candidateUrl, candidatePages, 'candidate', runId, listener, maskSelectors, captureOptions, profiles, throttleProfiles, interceptRules),
       ]);
 
+      const throttling =
+        throttleProfiles.length > 0
+          ? compareThrottledLoads(baselineResult, candidateResult, matchedPages, throttleProfiles)
+          : undefined;
+
       // Save structured artifacts
       const artifactPaths = await this.saveExecutionArtifacts(
         runId,
         baselineResult,
         candidateResult,
-        matchedPages
+        matchedPages,
+        throttling
       );
 
       const result: ExecutionResult = {
@@ -425,6 +661,7 @@ export class PlaywrightExecutionService {
         candidate: candidateResult,
         matchedPages,
         artifactPaths,
+        throttling,
         baselineContext: this.baselineContext,
         candidateContext: this.candidateContext,
       };
@@ -448,7 +685,8 @@ export class PlaywrightExecutionService {
     runId: string,
     baselineResult: SiteExecutionResult,
     candidateResult: SiteExecutionResult,
-    matchedPages: MatchedPage[]
+    matchedPages: MatchedPage[],
+    throttling?: ThrottlingComparison[]
   ): Promise<string[]> {
     const artifactsDir = path.join(this.artifactsDir, runId);
     const artifactPaths: string[] = [];
@@ -517,6 +755,35 @@ export class PlaywrightExecutionService {
     await fs.writeFile(domFile, JSON.stringify(domSummary, null, 2));
     artifactPaths.push(domFile);
 
+    // Save throttled load comparison
+    if (throttling) {
+      const throttlingFile = path.join(artifactsDir, 'throttled-loads.json');
+      await fs.writeFile(throttlingFile, JSON.stringify(throttling, null, 2));
+      artifactPaths.push(throttlingFile);
+    }
+
+    // Save what intercept rules blocked, mocked or rewritten on each page
+    const interceptedPages = (site: SiteExecutionResult) =>
+      site.pages
+        .filter((p) => p.interceptedRequests)
+        .map((p) => ({
+          url: p.url,
+          normalizedPath: p.normalizedPath,
+          blocked: p.interceptedRequests!.filter((r) => r.action === 'block').length,
+          mocked: p.interceptedRequests!.filter((r) => r.action === 'mock').length,
+          rewritten: p.interceptedRequests!.filter((r) => r.action === 'rewrite').length,
+          requests: p.interceptedRequests!,
+        }));
+    const interceptionSummary = {
+      baseline: interceptedPages(baselineResult),
+      candidate: interceptedPages(candidateResult),
+    };
+    if (interceptionSummary.baseline.length > 0 || interceptionSummary.candidate.length > 0) {
+      const interceptionFile = path.join(artifactsDir, 'intercepted-requests.json');
+      await fs.writeFile(interceptionFile, JSON.stringify(interceptionSummary, null, 2));
+      artifactPaths.push(interceptionFile);
+    }
+
     // Save execution log
     const executionLog = [
       '=== Baseline Execution Log ===',
@@ -535,17 +802,5 @@ export class PlaywrightExecutionService {
 
     return artifactPaths;
   }
-
-  /**
-   * Sanitize path for filesystem use
-   */
-  private sanitizePath(pathStr: string): string {
-    return pathStr
-      .replace(/^\/+/, '')
-      .replace(/\/+/g, '-')
-      .replace(/[^a-zA-Z0-9-_]/g, '_')
-      .replace(/_+/g, '_')
-      .replace(/^_|_$/g, '') || 'index';
-  }
 }
 
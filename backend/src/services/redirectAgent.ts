@@ -0,0 +1,322 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DATA_DIR } from '../config/config';
+import { RedirectRule } from '../models';
+
+/**
+ * Outcome of verifying a single redirect rule
+ */
+export type RedirectCheckStatus =
+  | 'pass'
+  | 'wrong_target' // Chain ends on a different URL than expected
+  | 'wrong_status' // First hop uses an unexpected status code (e.g. 302 instead of 301)
+  | 'not_redirected' // Legacy URL answers directly without redirecting
+  | 'broken_target' // Chain ends on an error response
+  | 'loop' // Chain revisits a URL
+  | 'too_many_hops' // Chain exceeds the maximum number of hops
+  | 'invalid_rule' // From or to isn't a valid URL or path
+  | 'error'; // Request failed (DNS, timeout, TLS...)
+
+/**
+ * Single hop of a redirect chain
+ */
+export interface RedirectHop {
+  url: string;
+  status: number;
+  location?: string;
+}
+
+/**
+ * Verification result for a single redirect rule
+ */
+export interface RedirectCheckResult {
+  rule: RedirectRule;
+  requestedUrl: string;
+  expectedUrl: string;
+  finalUrl?: string;
+  finalStatus?: number;
+  hopCount: number;
+  statusCodes: number[];
+  chain: RedirectHop[];
+  status: RedirectCheckStatus;
+  issues: string[];
+}
+
+/**
+ * Complete redirect map verification result
+ */
+export interface RedirectVerificationResult {
+  candidateUrl: string;
+  results: RedirectCheckResult[];
+  summary: {
+    totalRules: number;
+    passed: number;
+    failed: number;
+    wrongTarget: number;
+    wrongStatus: number;
+    notRedirected: number;
+    brokenTargets: number;
+    loops: number;
+    multiHopChains: number; // Passing or failing rules that needed more than one hop
+    invalidRules: number;
+    errors: number;
+  };
+  artifactPaths: string[];
+}
+
+const DEFAULT_EXPECTED_STATUS = 301;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/**
+ * RedirectAgent - Verifies legacy URL redirect maps against the candidate host
+ * Follows each redirect chain hop by hop and reports final URL, hops, status codes and loops
+ */
+export class RedirectAgent {
+  private readonly artifactsDir: string;
+  private readonly maxHops: number;
+  private readonly requestTimeout: number;
+
+  constructor(maxHops: number = 10, requestTimeout: number = 15000) {
+    this.artifactsDir = path.join(DATA_DIR, 'artifacts');
+    this.maxHops = maxHops;
+    this.requestTimeout = requestTimeout;
+  }
+
+  /**
+   * Parse a redirect map from CSV (`from,to[,status]`) or JSON (array of rules)
+   */
+  parseRedirectMap(content: string, format: 'csv' | 'json'): RedirectRule[] {
+    const rules = format === 'json' ? this.parseJson(content) : this.parseCsv(content);
+
+    rules.forEach((rule, index) => {
+      if (!rule.from || !rule.to) {
+        throw new Error(`Invalid redirect map: rule ${index + 1} requires both "from" and "to"`);
+      }
+      if (rule.expectedStatus !== undefined && !REDIRECT_STATUSES.has(rule.expectedStatus)) {
+        throw new Error(`Invalid redirect map: rule ${index + 1} has unsupported status ${rule.expectedStatus}`);
+      }
+    });
+
+    return rules;
+  }
+
+  private parseJson(content: string): RedirectRule[] {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Invalid redirect map: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!Array.isArray(parsed)) {
+      throw new Error('Invalid redirect map: JSON content must be an array of rules');
+    }
+
+    return parsed.map((entry) => {
+      const record = (entry ?? {}) as Record<string, unknown>;
+      const status = record.expectedStatus ?? record.status;
+      return {
+        from: String(record.from ?? '').trim(),
+        to: String(record.to ?? '').trim(),
+        expectedStatus: status === undefined || status === '' ? undefined : Number(status),
+      };
+    });
+  }
+
+  private parseCsv(content: string): RedirectRule[] {
+    const lines = content
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0 && !line.startsWith('#'));
+
+    // Skip an optional header row
+    if (lines.length > 0 && /^"?from"?\s*[,;]/i.test(lines[0])) {
+      lines.shift();
+    }
+
+    return lines.map((line) => {
+      const [from, to, status] = line.split(/[,;\t]/).map((cell) => cell.trim().replace(/^"|"$/g, ''));
+      return {
+        from: from ?? '',
+        to: to ?? '',
+        expectedStatus: status ? Number(status) : undefined,
+      };
+    });
+  }
+
+  /**
+   * Follow a redirect chain manually, recording every hop
+   */
+  async followRedirects(url: string): Promise<{ chain: RedirectHop[]; loop: boolean; truncated: boolean }> {
+    const chain: RedirectHop[] = [];
+    const seen = new Set<string>();
+    let currentUrl = url;
+
+    while (chain.length <= this.maxHops) {
+      if (seen.has(currentUrl)) {
+        return { chain, loop: true, truncated: false };
+      }
+      seen.add(currentUrl);
+
+      const response = await fetch(currentUrl, {
+        method: 'GET',
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.requestTimeout),
+      });
+      // Body is not needed, release the connection
+      await response.body?.cancel().catch(() => undefined);
+
+      const location = response.headers.get('location') ?? undefined;
+      chain.push({ url: currentUrl, status: response.status, location });
+
+      if (!REDIRECT_STATUSES.has(response.status) || !location) {
+        return { chain, loop: false, truncated: false };
+      }
+
+      currentUrl = new URL(location, currentUrl).href;
+    }
+
+    return { chain, loop: false, truncated: true };
+  }
+
+  /**
+   * Verify a single redirect rule against the candidate host
+   */
+  async verifyRule(rule: RedirectRule, candidateUrl: string): Promise<RedirectCheckResult> {
+    const expectedStatus = rule.expectedStatus ?? DEFAULT_EXPECTED_STATUS;
+
+    const result: RedirectCheckResult = {
+      rule,
+      requestedUrl: rule.from,
+      expectedUrl: rule.to,
+      hopCount: 0,
+      statusCodes: [],
+      chain: [],
+      status: 'pass',
+      issues: [],
+    };
+
+    try {
+      result.requestedUrl = this.candidateRequestUrl(rule.from, candidateUrl);
+      result.expectedUrl = new URL(rule.to, candidateUrl).href;
+    } catch {
+      result.status = 'invalid_rule';
+      result.issues.push(`Invalid redirect rule: ${rule.from} → ${rule.to}`);
+      return result;
+    }
+    const { requestedUrl, expectedUrl } = result;
+
+    try {
+      const { chain, loop, truncated } = await this.followRedirects(requestedUrl);
+      const last = chain[chain.length - 1];
+
+      result.chain = chain;
+      result.statusCodes = chain.map((hop) => hop.status);
+      result.hopCount = chain.filter((hop) => REDIRECT_STATUSES.has(hop.status) && hop.location).length;
+      result.finalUrl = last?.url;
+      result.finalStatus = last?.status;
+
+      if (loop) {
+        result.status = 'loop';
+        result.issues.push(`Redirect loop detected after ${result.hopCount} hops`);
+        return result;
+      }
+
+      if (truncated) {
+        result.status = 'too_many_hops';
+        result.issues.push(`Redirect chain exceeds ${this.maxHops} hops`);
+        return result;
+      }
+
+      if (result.hopCount === 0) {
+        result.status = 'not_redirected';
+        result.issues.push(`Legacy URL responded with ${last?.status} instead of redirecting`);
+        return result;
+      }
+
+      if (result.hopCount > 1) {
+        result.issues.push(`Redirect chain has ${result.hopCount} hops: ${result.statusCodes.join(' → ')}`);
+      }
+
+      if (this.comparableUrl(result.finalUrl) !== this.comparableUrl(expectedUrl)) {
+        result.status = 'wrong_target';
+        result.issues.push(`Redirect ends at ${result.finalUrl} instead of ${expectedUrl}`);
+      } else if (last && last.status >= 400) {
+        result.status = 'broken_target';
+        result.issues.push(`Redirect target responded with ${last.status}`);
+      } else if (chain[0].status !== expectedStatus) {
+        result.status = 'wrong_status';
+        result.issues.push(`First hop responded with ${chain[0].status} instead of ${expectedStatus}`);
+      }
+    } catch (error) {
+      result.status = 'error';
+      result.issues.push(error instanceof Error ? error.message : String(error));
+    }
+
+    return result;
+  }
+
+  /**
+   * Verify every rule of a redirect map and save the results
+   */
+  async verifyRedirectMap(rules: RedirectRule[], candidateUrl: string, runId: string): Promise<RedirectVerificationResult> {
+    const results: RedirectCheckResult[] = [];
+
+    for (const rule of rules) {
+      results.push(await this.verifyRule(rule, candidateUrl));
+    }
+
+    const count = (status: RedirectCheckStatus) => results.filter((r) => r.status === status).length;
+    const summary: RedirectVerificationResult['summary'] = {
+      totalRules: results.length,
+      passed: count('pass'),
+      failed: results.filter((r) => r.status !== 'pass').length,
+      wrongTarget: count('wrong_target'),
+      wrongStatus: count('wrong_status'),
+      notRedirected: count('not_redirected'),
+      brokenTargets: count('broken_target'),
+      loops: count('loop') + count('too_many_hops'),
+      multiHopChains: results.filter((r) => r.hopCount > 1).length,
+      invalidRules: count('invalid_rule'),
+      errors: count('error'),
+    };
+
+    // Save results
+    const resultsPath = path.join(this.artifactsDir, runId, 'redirect-results.json');
+    await fs.mkdir(path.dirname(resultsPath), { recursive: true });
+
+    const verification: RedirectVerificationResult = {
+      candidateUrl,
+      results,
+      summary,
+      artifactPaths: [resultsPath],
+    };
+
+    await fs.writeFile(resultsPath, JSON.stringify(verification, null, 2));
+
+    return verification;
+  }
+
+  /**
+   * Legacy URL to request on the candidate host
+   * Absolute legacy URLs keep their path and query but are requested from the candidate, which now serves the old paths.
+   */
+  private candidateRequestUrl(from: string, candidateUrl: string): string {
+    const legacy = new URL(from, candidateUrl);
+    return new URL(`${legacy.pathname}${legacy.search}${legacy.hash}`, candidateUrl).href;
+  }
+
+  /**
+   * Normalize a URL for target comparison (ignores trailing slash and fragment)
+   */
+  private comparableUrl(url?: string): string | undefined {
+    if (!url) return undefined;
+    try {
+      const urlObj = new URL(url);
+      const pathname = urlObj.pathname.replace(/\/$/, '') || '/';
+      return `${urlObj.host}${pathname}${urlObj.search}`;
+    } catch {
+      return url;
+    }
+  }
+}
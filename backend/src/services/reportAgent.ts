@@ -1,11 +1,20 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import { DATA_DIR } from '../config/config';
-import { ComparisonJob, Run } from '../models';
+import { ComparisonJob, PerformanceMetric, Run } from '../models';
 import { AIReasoningResult } from './aiReasoningService';
 import { VisualDiffResult } from './visualDiffService';
 import { FunctionalQAResult } from './functionalQaAgent';
 import { DataIntegrityResult } from './dataIntegrityAgent';
+import { SeoResult } from './seoAgent';
+import { RedirectVerificationResult } from './redirectAgent';
+import { JourneyResult } from './journeyAgent';
+import { UnmatchedPages } from './crawlAgent';
+import { ThrottlingComparison } from './throttling';
+import { PerformanceResult } from './performanceAgent';
+import { AccessibilityResult } from './accessibilityAgent';
+import { NetworkDiffResult } from './harDiff';
+import { redactDeep } from './authService';
 
 /**
  * Risk score calculation (0-100)
@@ -16,6 +25,9 @@ export interface RiskScore {
   functional: number;
   data: number;
   seo: number;
+  performance: number;
+  accessibility: number;
+  redirects: number;
   breakdown: {
     critical: number;
     high: number;
@@ -29,7 +41,7 @@ export interface RiskScore {
  * Technical finding
  */
 export interface TechnicalFinding {
-  category: 'visual' | 'functional' | 'data' | 'seo';
+  category: 'visual' | 'functional' | 'data' | 'seo' | 'performance' | 'accessibility';
   severity: 'none' | 'low' | 'medium' | 'high' | 'critical';
   title: string;
   description: string;
@@ -68,6 +80,12 @@ export interface Report {
   riskScore: RiskScore;
   technicalFindings: TechnicalFinding[];
   aiAnalysis: AIReasoningResult;
+  journeys?: JourneyResult; // Scripted journey outcomes per site, when configured
+  unmatchedPages?: { baseline: string[]; candidate: string[] }; // Paths without a counterpart on the other site
+  throttling?: ThrottlingComparison[]; // Throttled load comparison per network/CPU profile, when configured
+  performance?: PerformanceResult; // Core Web Vitals and page weight per page, when the performance check ran
+  accessibility?: AccessibilityResult; // New and fixed WCAG issues per page, when the accessibility check ran
+  network?: NetworkDiffResult; // HAR-to-HAR comparison per page, when functional QA recorded HARs
   recommendations: string[];
   metadata: {
     jobId: string;
@@ -77,6 +95,14 @@ export interface Report {
   };
 }
 
+function formatMs(value: number | undefined): string {
+  return value === undefined ? '-' : `${value}ms`;
+}
+
+function formatKb(bytes: number | undefined): string {
+  return bytes === undefined ? '-' : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
 /**
  * ReportAgent - Generates comprehensive migration test reports
  * Supports markdown and JSON output formats
@@ -115,6 +141,9 @@ export class ReportAgent {
     let functionalRisk = 0;
     let dataRisk = 0;
     let seoRisk = 0;
+    let performanceRisk = 0;
+    let accessibilityRisk = 0;
+    let redirectRisk = 0;
 
     for (const analysis of aiResult.categoryAnalyses) {
       const risk = this.severityToRiskScore(analysis.severity);
@@ -131,13 +160,22 @@ export class ReportAgent {
         case 'seo':
           seoRisk = risk;
           break;
+        case 'performance':
+          performanceRisk = risk;
+          break;
+        case 'accessibility':
+          accessibilityRisk = risk;
+          break;
+        case 'redirects':
+          redirectRisk = risk;
+          break;
       }
     }
 
     // Calculate overall risk score (weighted average)
     const categoryCount = aiResult.categoryAnalyses.length;
     const overallRisk = categoryCount > 0
-      ? (visualRisk + functionalRisk + dataRisk + seoRisk) / categoryCount
+      ? (visualRisk + functionalRisk + dataRisk + seoRisk + performanceRisk + accessibilityRisk + redirectRisk) / categoryCount
       : this.severityToRiskScore(aiResult.overallSeverity);
 
     return {
@@ -146,6 +184,9 @@ export class ReportAgent {
       functional: Math.round(functionalRisk),
       data: Math.round(dataRisk),
       seo: Math.round(seoRisk),
+      performance: Math.round(performanceRisk),
+      accessibility: Math.round(accessibilityRisk),
+      redirects: Math.round(redirectRisk),
       breakdown,
     };
   }
@@ -171,7 +212,12 @@ export class ReportAgent {
     aiResult: AIReasoningResult,
     visualResult?: VisualDiffResult,
     functionalResult?: FunctionalQAResult,
-    dataResult?: DataIntegrityResult
+    dataResult?: DataIntegrityResult,
+    seoResult?: SeoResult,
+    redirectResult?: RedirectVerificationResult,
+    journeyResult?: JourneyResult,
+    performanceResult?: PerformanceResult,
+    accessibilityResult?: AccessibilityResult
   ): TechnicalFinding[] {
     const findings: TechnicalFinding[] = [];
 
@@ -192,6 +238,11 @@ export class ReportAgent {
           evidence: `Average diff percentage: ${visualResult.summary.averageDiffPercentage.toFixed(2)}%`,
         });
       }
+
+      const approvedFinding = this.generateApprovedChangesFinding(visualResult);
+      if (approvedFinding) {
+        findings.push(approvedFinding);
+      }
     }
 
     // Functional findings
@@ -208,6 +259,13 @@ export class ReportAgent {
           evidence: `Navigation issues: ${functionalResult.baseline.summary.pagesWithNavigationIssues} pages`,
         });
       }
+
+      if (functionalResult.networkDiff) {
+        const networkFinding = this.generateNetworkDiffFinding(functionalResult.networkDiff);
+        if (networkFinding) {
+          findings.push(networkFinding);
+        }
+      }
     }
 
     // Data integrity findings
@@ -229,9 +287,262 @@ export class ReportAgent {
       }
     }
 
+    // SEO findings
+    if (seoResult) {
+      const seoAnalysis = aiResult.categoryAnalyses.find((a) => a.category === 'seo');
+      if (seoAnalysis && !seoAnalysis.pass) {
+        const checksWithIssues = Object.entries(seoResult.summary.issuesByCheck)
+          .filter(([, count]) => count > 0)
+          .map(([check, count]) => `${check} (${count})`);
+        findings.push({
+          category: 'seo',
+          severity: seoAnalysis.severity as TechnicalFinding['severity'],
+          title: 'SEO Regressions Detected',
+          description: seoAnalysis.explanation,
+          impact: `${seoResult.summary.pagesWithIssues} of ${seoResult.summary.totalPages} pages have SEO differences that may affect rankings after cutover`,
+          recommendation: 'Restore missing titles, canonicals, robots directives and structured data before cutover',
+          affectedPages: seoResult.pages
+            .filter((p) => p.overallSeverity !== 'none')
+            .map((p) => p.normalizedPath),
+          evidence: `Issues by check: ${checksWithIssues.join(', ') || 'none'}`,
+        });
+      }
+    }
+
+    // Legacy redirect findings (reported under SEO since broken redirects lose link equity)
+    if (redirectResult) {
+      const redirectFinding = this.generateRedirectFinding(redirectResult);
+      if (redirectFinding) {
+        findings.push(redirectFinding);
+      }
+    }
+
+    // Scripted journey findings
+    if (journeyResult) {
+      const journeyFinding = this.generateJourneyFinding(journeyResult);
+      if (journeyFinding) {
+        findings.push(journeyFinding);
+      }
+    }
+
+    // Performance budget findings
+    if (performanceResult) {
+      const performanceFinding = this.generatePerformanceFinding(performanceResult);
+      if (performanceFinding) {
+        findings.push(performanceFinding);
+      }
+    }
+
+    // Accessibility regression findings
+    if (accessibilityResult) {
+      const accessibilityFinding = this.generateAccessibilityFinding(accessibilityResult);
+      if (accessibilityFinding) {
+        findings.push(accessibilityFinding);
+      }
+    }
+
     return findings;
   }
 
+  /**
+   * Build a technical finding from journeys that break, slow down or render differently on the candidate
+   */
+  private generateJourneyFinding(journeyResult: JourneyResult): TechnicalFinding | undefined {
+    const { summary } = journeyResult;
+    if (summary.regressions === 0 && summary.slowSteps === 0 && summary.checkpointsWithDiffs === 0) {
+      return undefined;
+    }
+
+    const affected = journeyResult.journeys.filter(
+      (j) => j.verdict === 'regression' || j.stepDiffs.some((d) => d.slower) || j.checkpoints.some((c) => c.severity !== 'none')
+    );
+    const failedSteps = journeyResult.journeys
+      .filter((j) => j.verdict === 'regression')
+      .map((j) => {
+        const step = j.candidate.steps.find((s) => s.status === 'failed');
+        return `${j.name}: "${step?.label}" ${step?.error ?? 'failed'}`;
+      });
+
+    let severity: TechnicalFinding['severity'] = 'low';
+    if (summary.regressions > 0) {
+      severity = 'high';
+    } else if (summary.checkpointsWithDiffs > 0) {
+      severity = 'medium';
+    }
+
+    return {
+      category: 'functional',
+      severity,
+      title: summary.regressions > 0 ? 'User Journeys Fail on Candidate' : 'User Journeys Differ on Candidate',
+      description: `${summary.regressions} of ${summary.totalJourneys} journeys pass on the baseline but fail on the candidate`,
+      impact: `${summary.slowSteps} steps are noticeably slower and ${summary.checkpointsWithDiffs} checkpoint screenshots differ`,
+      recommendation: 'Replay the failing journeys on the candidate and fix the broken steps before cutover',
+      affectedPages: affected.map((j) => j.name),
+      evidence: failedSteps.join('; ') || undefined,
+    };
+  }
+
+  /**
+   * Build a technical finding from candidate pages that break their performance budgets
+   */
+  private generatePerformanceFinding(performanceResult: PerformanceResult): TechnicalFinding | undefined {
+    const { summary } = performanceResult;
+    if (summary.totalViolations === 0) {
+      return undefined;
+    }
+
+    let severity: TechnicalFinding['severity'] = 'low';
+    if (summary.criticalIssues > 0) {
+      severity = 'critical';
+    } else if (summary.highIssues > 0) {
+      severity = 'high';
+    } else if (summary.mediumIssues > 0) {
+      severity = 'medium';
+    }
+
+    const byMetric = Object.entries(summary.violationsByMetric).map(([metric, count]) => `${metric} (${count})`);
+    const examples = performanceResult.pages
+      .flatMap((p) => p.violations.map((v) => `${p.normalizedPath}: ${v.message}`))
+      .slice(0, 5);
+
+    return {
+      category: 'performance',
+      severity,
+      title: 'Performance Budgets Exceeded',
+      description: `${summary.pagesWithViolations} of ${summary.measuredPages} measured pages are slower or heavier on the candidate than the budgets allow`,
+      impact: `Budgets broken: ${byMetric.join(', ')}`,
+      recommendation: 'Compare the candidate\'s largest resources, render-blocking scripts and layout shifts with the baseline before cutover',
+      affectedPages: performanceResult.pages.filter((p) => p.violations.length > 0).map((p) => p.normalizedPath),
+      evidence: examples.join('; '),
+    };
+  }
+
+  /**
+   * Build a technical finding from network differences between the sites' HARs
+   */
+  private generateNetworkDiffFinding(networkDiff: NetworkDiffResult): TechnicalFinding | undefined {
+    const { summary } = networkDiff;
+    if (summary.pagesWithChanges === 0) {
+      return undefined;
+    }
+
+    let severity: TechnicalFinding['severity'] = 'low';
+    if (summary.statusRegressions > 0) {
+      severity = 'high';
+    } else if (summary.missingEndpoints > 0 || summary.compressionRegressions > 0) {
+      severity = 'medium';
+    }
+
+    const examples = networkDiff.pages
+      .flatMap((p) => [
+        ...p.statusChanges.map((c) => `${p.normalizedPath}: ${c.endpoint} ${c.baselineStatus} → ${c.candidateStatus}`),
+        ...p.missingEndpoints.map((e) => `${p.normalizedPath}: ${e.endpoint} not requested by the candidate`),
+      ])
+      .slice(0, 5);
+
+    return {
+      category: 'functional',
+      severity,
+      title: 'Network Requests Differ on Candidate',
+      description: `${summary.pagesWithChanges} of ${summary.totalPages} pages make different requests on the candidate: ${summary.missingEndpoints} endpoints missing, ${summary.newEndpoints} new, ${summary.statusChanges} with a different status`,
+      impact: `${summary.sizeChanges} payload size changes, ${summary.cachingChanges} caching header changes, ${summary.compressionRegressions} responses no longer compressed and ${summary.duplicateRequests} duplicated requests`,
+      recommendation: 'Check that missing endpoints were intentionally removed and restore caching and compression settings on the candidate',
+      affectedPages: networkDiff.pages.filter((p) => p.statusChanges.length > 0 || p.missingEndpoints.length > 0).map((p) => p.normalizedPath),
+      evidence: examples.join('; ') || undefined,
+    };
+  }
+
+  /**
+   * Build a technical finding from accessibility issues introduced on the candidate
+   */
+  private generateAccessibilityFinding(accessibilityResult: AccessibilityResult): TechnicalFinding | undefined {
+    const { summary } = accessibilityResult;
+    if (summary.newIssues === 0) {
+      return undefined;
+    }
+
+    let severity: TechnicalFinding['severity'] = 'low';
+    if (summary.criticalIssues > 0) {
+      severity = 'critical';
+    } else if (summary.highIssues > 0) {
+      severity = 'high';
+    } else if (summary.mediumIssues > 0) {
+      severity = 'medium';
+    }
+
+    const byRule = Object.entries(summary.newIssuesByRule).map(([rule, count]) => `${rule} (${count})`);
+    const examples = accessibilityResult.pages
+      .flatMap((p) => p.newIssues.map((i) => `${p.normalizedPath}: ${i.message} at ${i.selector} [WCAG ${i.wcag[0]}]`))
+      .slice(0, 5);
+
+    return {
+      category: 'accessibility',
+      severity,
+      title: 'Accessibility Regressions on Candidate',
+      description: `${summary.newIssues} accessibility issues on ${summary.pagesWithNewIssues} of ${summary.totalPages} pages are new on the candidate (${summary.fixedIssues} fixed)`,
+      impact: `Rules broken: ${byRule.join(', ')}; average score ${summary.averageBaselineScore} → ${summary.averageCandidateScore}`,
+      recommendation: 'Fix the new issues on the candidate so the migration does not make the site harder to use with assistive technology',
+      affectedPages: accessibilityResult.pages.filter((p) => p.newIssues.length > 0).map((p) => p.normalizedPath),
+      evidence: examples.join('; '),
+    };
+  }
+
+  /**
+   * Build an informational finding listing visual diffs accepted by approvals
+   */
+  private generateApprovedChangesFinding(visualResult: VisualDiffResult): TechnicalFinding | undefined {
+    const approved = visualResult.pages.flatMap((p) =>
+      p.screenshotDiffs.filter((d) => d.verdict === 'approved').map((d) => ({ page: p, diff: d }))
+    );
+    if (approved.length === 0) {
+      return undefined;
+    }
+
+    const approvers = [...new Set(approved.map(({ diff }) => diff.approval!.approvedBy))];
+
+    return {
+      category: 'visual',
+      severity: 'none',
+      title: 'Approved Visual Changes',
+      description: `${approved.length} visual differences match previously approved renderings and are not counted as regressions`,
+      impact: 'None - these changes were accepted as intentional',
+      recommendation: 'Revoke the approval if a change is no longer expected',
+      affectedPages: approved.map(({ page, diff }) => `${page.normalizedPath} (${diff.viewport.name})`),
+      evidence: `Approved by: ${approvers.join(', ')}`,
+    };
+  }
+
+  /**
+   * Build a technical finding from redirect map verification results
+   */
+  private generateRedirectFinding(redirectResult: RedirectVerificationResult): TechnicalFinding | undefined {
+    const { summary } = redirectResult;
+    if (summary.failed === 0 && summary.multiHopChains === 0) {
+      return undefined;
+    }
+
+    let severity: TechnicalFinding['severity'] = 'low';
+    if (summary.loops > 0 || summary.notRedirected > 0 || summary.brokenTargets > 0 || summary.wrongTarget > 0 || summary.errors > 0) {
+      severity = 'high';
+    } else if (summary.wrongStatus > 0 || summary.invalidRules > 0) {
+      severity = 'medium';
+    }
+
+    const failing = redirectResult.results.filter((r) => r.status !== 'pass');
+    const chained = redirectResult.results.filter((r) => r.status === 'pass' && r.hopCount > 1);
+
+    return {
+      category: 'seo',
+      severity,
+      title: summary.failed > 0 ? 'Legacy Redirects Failing' : 'Legacy Redirects Use Multi-Hop Chains',
+      description: `${summary.failed} of ${summary.totalRules} legacy redirects do not resolve as expected on the candidate site`,
+      impact: `${summary.wrongTarget} wrong targets, ${summary.notRedirected} not redirected, ${summary.brokenTargets} broken targets, ${summary.loops} loops, ${summary.wrongStatus} unexpected status codes, ${summary.invalidRules} invalid rules`,
+      recommendation: 'Fix the redirect configuration so every legacy URL returns a single 301 to its new location',
+      affectedPages: [...failing, ...chained].map((r) => r.rule.from),
+      evidence: `${summary.multiHopChains} redirects need more than one hop`,
+    };
+  }
+
   /**
    * Generate executive summary
    */
@@ -242,23 +553,32 @@ export class ReportAgent {
     riskScore: RiskScore,
     visualResult?: VisualDiffResult,
     functionalResult?: FunctionalQAResult,
-    dataResult?: DataIntegrityResult
+    dataResult?: DataIntegrityResult,
+    seoResult?: SeoResult,
+    redirectResult?: RedirectVerificationResult
   ): ExecutiveSummary {
     const totalPages = visualResult?.summary.totalPages || 
                       functionalResult?.baseline.summary.totalPages || 
                       dataResult?.summary.totalPages || 
+                      seoResult?.summary.totalPages ||
                       0;
 
     const issuesFound = (visualResult?.summary.pagesWithDiffs || 0) +
                        (functionalResult?.baseline.summary.totalBrokenLinks || 0) +
                        (functionalResult?.baseline.summary.totalJSErrors || 0) +
-                       (dataResult?.summary.totalFieldDiffs || 0);
+                       (dataResult?.summary.totalFieldDiffs || 0) +
+                       (seoResult?.summary.pagesWithIssues || 0);
 
     const criticalIssues = (visualResult?.summary.criticalIssues || 0) +
-                          (dataResult?.summary.criticalMismatches || 0);
+                          (dataResult?.summary.criticalMismatches || 0) +
+                          (seoResult?.summary.criticalIssues || 0) +
+                          (redirectResult?.summary.loops || 0) +
+                          (redirectResult?.summary.notRedirected || 0) +
+                          (redirectResult?.summary.brokenTargets || 0);
 
+    // Issue counts can exceed the page count (e.g. several broken links on one page)
     const passRate = totalPages > 0 
-      ? ((totalPages - issuesFound) / totalPages) * 100 
+      ? (Math.max(0, totalPages - issuesFound) / totalPages) * 100 
       : aiResult.overallPass ? 100 : 0;
 
     // Determine Go/No-Go decision
@@ -345,10 +665,27 @@ export class ReportAgent {
     visualResult: VisualDiffResult | undefined,
     functionalResult: FunctionalQAResult | undefined,
     dataResult: DataIntegrityResult | undefined,
-    runId: string
+    seoResult: SeoResult | undefined,
+    redirectResult: RedirectVerificationResult | undefined,
+    journeyResult: JourneyResult | undefined,
+    unmatchedPages: UnmatchedPages | undefined,
+    runId: string,
+    throttling?: ThrottlingComparison[],
+    performanceResult?: PerformanceResult,
+    accessibilityResult?: AccessibilityResult
   ): Promise<Report> {
     const riskScore = this.calculateRiskScore(aiResult, visualResult, functionalResult, dataResult);
-    const technicalFindings = this.generateTechnicalFindings(aiResult, visualResult, functionalResult, dataResult);
+    const technicalFindings = this.generateTechnicalFindings(
+      aiResult,
+      visualResult,
+      functionalResult,
+      dataResult,
+      seoResult,
+      redirectResult,
+      journeyResult,
+      performanceResult,
+      accessibilityResult
+    );
     const executiveSummary = this.generateExecutiveSummary(
       job,
       run,
@@ -356,7 +693,9 @@ export class ReportAgent {
       riskScore,
       visualResult,
       functionalResult,
-      dataResult
+      dataResult,
+      seoResult,
+      redirectResult
     );
 
     const report: Report = {
@@ -364,6 +703,15 @@ export class ReportAgent {
       riskScore,
       technicalFindings,
       aiAnalysis: aiResult,
+      journeys: journeyResult,
+      unmatchedPages: unmatchedPages && {
+        baseline: unmatchedPages.baseline.map((p) => p.normalizedPath),
+        candidate: unmatchedPages.candidate.map((p) => p.normalizedPath),
+      },
+      throttling,
+      performance: performanceResult,
+      accessibility: accessibilityResult,
+      network: functionalResult?.networkDiff,
       recommendations: aiResult.recommendations,
       metadata: {
         jobId: job.id,
@@ -438,6 +786,9 @@ export class ReportAgent {
     md.push(`- **Functional:** ${report.riskScore.functional}/100`);
     md.push(`- **Data:** ${report.riskScore.data}/100`);
     md.push(`- **SEO:** ${report.riskScore.seo}/100`);
+    md.push(`- **Performance:** ${report.riskScore.performance}/100`);
+    md.push(`- **Accessibility:** ${report.riskScore.accessibility}/100`);
+    md.push(`- **Redirects:** ${report.riskScore.redirects}/100`);
     md.push('');
     md.push('### Severity Breakdown');
     md.push('');
@@ -475,6 +826,166 @@ export class ReportAgent {
       });
     }
 
+    // User Journeys
+    if (report.journeys && report.journeys.journeys.length > 0) {
+      md.push('## User Journeys');
+      md.push('');
+      for (const journey of report.journeys.journeys) {
+        md.push(`### ${journey.name} - ${journey.verdict.toUpperCase()}`);
+        md.push('');
+        md.push('| Step | Baseline | Candidate | Δ Time |');
+        md.push('|------|----------|-----------|--------|');
+        for (const diff of journey.stepDiffs) {
+          const delta = `${diff.timingDeltaMs >= 0 ? '+' : ''}${diff.timingDeltaMs}ms${diff.slower ? ' ⚠' : ''}`;
+          md.push(
+            `| ${diff.label} | ${diff.baselineStatus} (${diff.baselineMs}ms) | ${diff.candidateStatus} (${diff.candidateMs}ms) | ${delta} |`
+          );
+        }
+        if (journey.checkpoints.length > 0) {
+          md.push('');
+          md.push(
+            `**Checkpoints:** ${journey.checkpoints
+              .map((c) => `${c.name} (${c.severity}, ${c.diffPercentage.toFixed(2)}%)`)
+              .join(', ')}`
+          );
+        }
+        md.push('');
+      }
+    }
+
+    // Performance
+    if (report.performance && report.performance.pages.length > 0) {
+      md.push('## Performance');
+      md.push('');
+      md.push('Baseline → candidate for each page, from a cold-cache load.');
+      md.push('');
+      md.push('| Page | LCP | CLS | TBT | FCP | TTFB | Transfer | JS | Budgets |');
+      md.push('|------|-----|-----|-----|-----|------|----------|----|---------|');
+      for (const page of report.performance.pages) {
+        if (page.error) {
+          md.push(`| ${page.normalizedPath} | - | - | - | - | - | - | - | Not measured: ${page.error} |`);
+          continue;
+        }
+        const pair = (format: (value: number | undefined) => string, metric: PerformanceMetric) =>
+          `${format(page.baseline?.[metric])} → ${format(page.candidate?.[metric])}`;
+        const cls = (value: number | undefined) => (value === undefined ? '-' : value.toFixed(3));
+        const budgets = page.violations.length > 0 ? `⚠ ${page.violations.map((v) => v.metric).join(', ')}` : 'OK';
+        md.push(
+          `| ${page.normalizedPath} | ${pair(formatMs, 'lcp')} | ${pair(cls, 'cls')} | ${pair(formatMs, 'tbt')} | ${pair(formatMs, 'fcp')} | ${pair(formatMs, 'ttfb')} | ${pair(formatKb, 'transferBytes')} | ${pair(formatKb, 'jsBytes')} | ${budgets} |`
+        );
+      }
+      md.push('');
+    }
+
+    // Accessibility
+    if (report.accessibility && report.accessibility.pages.length > 0) {
+      md.push('## Accessibility');
+      md.push('');
+      if (report.accessibility.summary.skippedPages > 0) {
+        md.push(
+          `${report.accessibility.summary.skippedPages} pages were not compared because a site failed to load them or answered with an error status.`
+        );
+        md.push('');
+      }
+      md.push('| Page | Score (B → C) | New | Fixed | Unchanged |');
+      md.push('|------|---------------|-----|-------|-----------|');
+      for (const page of report.accessibility.pages) {
+        const error = page.baseline.error ?? page.candidate.error;
+        if (error) {
+          md.push(`| ${page.normalizedPath} | Not audited: ${error} | - | - | - |`);
+          continue;
+        }
+        md.push(
+          `| ${page.normalizedPath} | ${page.baseline.score} → ${page.candidate.score} | ${page.newIssues.length} | ${page.fixedIssues.length} | ${page.unchangedIssues} |`
+        );
+      }
+      md.push('');
+      const pagesWithNewIssues = report.accessibility.pages.filter((p) => p.newIssues.length > 0);
+      for (const page of pagesWithNewIssues) {
+        md.push(`### ${page.normalizedPath}`);
+        md.push('');
+        for (const issue of page.newIssues) {
+          md.push(`- **${issue.severity.toUpperCase()}** ${issue.message} (\`${issue.selector}\`, WCAG ${issue.wcag.join(', ')})`);
+        }
+        md.push('');
+      }
+    }
+
+    // Network Diff
+    if (report.network && report.network.pages.length > 0) {
+      md.push('## Network Diff');
+      md.push('');
+      md.push('Compared from HAR recordings of each page on both sites.');
+      md.push('');
+      md.push('| Page | Requests (B → C) | Body bytes (B → C) | Missing | New | Status | Size | Caching | Compression | Duplicates |');
+      md.push('|------|------------------|--------------------|---------|-----|--------|------|---------|-------------|------------|');
+      for (const page of report.network.pages) {
+        if (page.error) {
+          md.push(`| ${page.normalizedPath} | Not compared: ${page.error} | - | - | - | - | - | - | - | - |`);
+          continue;
+        }
+        md.push(
+          `| ${page.normalizedPath} | ${page.baselineRequests} → ${page.candidateRequests} | ${formatKb(page.baselineBytes)} → ${formatKb(page.candidateBytes)} | ${page.missingEndpoints.length} | ${page.newEndpoints.length} | ${page.statusChanges.length} | ${page.sizeChanges.length} | ${page.cachingChanges.length} | ${page.compressionChanges.length} | ${page.duplicateRequests.length} |`
+        );
+      }
+      md.push('');
+      const statusChanges = report.network.pages.flatMap((p) =>
+        p.statusChanges.map((c) => `- ${p.normalizedPath}: \`${c.endpoint}\` ${c.baselineStatus} → ${c.candidateStatus}`)
+      );
+      if (statusChanges.length > 0) {
+        md.push('**Status changes:**');
+        md.push('');
+        md.push(...statusChanges);
+        md.push('');
+      }
+    }
+
+    // Throttled Loads
+    if (report.throttling && report.throttling.length > 0) {
+      md.push('## Throttled Loads');
+      md.push('');
+      for (const comparison of report.throttling) {
+        const network = comparison.downloadKbps !== undefined
+          ? `${comparison.latencyMs}ms latency, ${comparison.downloadKbps}/${comparison.uploadKbps ?? '-'} kbps down/up`
+          : `${comparison.latencyMs}ms latency, unthrottled throughput`;
+        const cpu = comparison.cpuSlowdown > 1 ? `, CPU ${comparison.cpuSlowdown}x slower` : '';
+        md.push(`### ${comparison.profile}`);
+        md.push('');
+        md.push(`${network}${cpu}. Average load: baseline ${formatMs(comparison.baselineAverageLoadMs)}, candidate ${formatMs(comparison.candidateAverageLoadMs)}; ${comparison.slowerPages} page(s) notably slower.`);
+        md.push('');
+        md.push('| Page | Baseline load | Candidate load | Δ Load | Baseline FCP | Candidate FCP | Transfer (B / C) |');
+        md.push('|------|---------------|----------------|--------|--------------|---------------|------------------|');
+        for (const page of comparison.pages) {
+          const delta = page.loadDeltaMs !== undefined
+            ? `${page.loadDeltaMs >= 0 ? '+' : ''}${page.loadDeltaMs}ms${page.slower ? ' ⚠' : ''}`
+            : '-';
+          md.push(
+            `| ${page.normalizedPath} | ${formatMs(page.baseline?.loadMs)} | ${formatMs(page.candidate?.loadMs)} | ${delta} | ${formatMs(page.baseline?.firstContentfulPaintMs)} | ${formatMs(page.candidate?.firstContentfulPaintMs)} | ${formatKb(page.baseline?.transferBytes)} / ${formatKb(page.candidate?.transferBytes)} |`
+          );
+        }
+        md.push('');
+      }
+    }
+
+    // Unmatched Pages
+    const unmatched = report.unmatchedPages;
+    if (unmatched && (unmatched.baseline.length > 0 || unmatched.candidate.length > 0)) {
+      md.push('## Unmatched Pages');
+      md.push('');
+      md.push('Pages below the minimum match confidence were not compared.');
+      md.push('');
+      for (const [label, paths] of [
+        ['Baseline only', unmatched.baseline],
+        ['Candidate only', unmatched.candidate],
+      ] as const) {
+        if (paths.length === 0) continue;
+        md.push(`### ${label} (${paths.length})`);
+        md.push('');
+        paths.forEach((p) => md.push(`- ${p}`));
+        md.push('');
+      }
+    }
+
     // AI Analysis
     md.push('## AI Analysis');
     md.push('');
@@ -543,19 +1054,20 @@ export class ReportAgent {
    */
   async saveReport(
     report: Report,
-    runId: string
+    runId: string,
+    redact: (text: string) => string = (text) => text
   ): Promise<{ jsonPath: string; markdownPath: string }> {
     const reportsDir = path.join(this.artifactsDir, runId, 'reports');
     await fs.mkdir(reportsDir, { recursive: true });
 
     // Save JSON
     const jsonPath = path.join(reportsDir, 'report.json');
-    await fs.writeFile(jsonPath, JSON.stringify(report, null, 2));
+    await fs.writeFile(jsonPath, JSON.stringify(redactDeep(report, redact), null, 2));
 
     // Save Markdown
     const markdownContent = await this.generateMarkdownReport(report, runId);
     const markdownPath = path.join(reportsDir, 'report.md');
-    await fs.writeFile(markdownPath, markdownContent);
+    await fs.writeFile(markdownPath, redact(markdownContent));
 
     return {
       jsonPath: jsonPath.replace(/^.*[\\/]data[\\/]/, 'data/'),
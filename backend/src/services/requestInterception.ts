@@ -0,0 +1,177 @@
+import { BrowserContext, Page, Request } from 'playwright';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FIXTURES_DIR } from '../config/config';
+import { InterceptRule } from '../models';
+
+/**
+ * Content types of mocked responses by fixture extension
+ */
+const FIXTURE_CONTENT_TYPES: Record<string, string> = {
+  '.json': 'application/json',
+  '.js': 'application/javascript',
+  '.css': 'text/css',
+  '.html': 'text/html',
+  '.txt': 'text/plain',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+};
+
+/**
+ * Request handled by an intercept rule
+ */
+export interface InterceptedRequest {
+  url: string;
+  method: string;
+  resourceType: string; // Playwright resource type, e.g. 'script', 'xhr', 'image'
+  action: InterceptRule['action'];
+  pattern: string; // Pattern of the rule that matched
+  fixture?: string; // Fixture served for 'mock'
+  status?: number; // Status served for 'mock'
+  rewrittenUrl?: string; // URL requested instead for 'rewrite'
+  error?: string; // The rule couldn't be applied (e.g. missing fixture); the request was aborted
+}
+
+/**
+ * Rules that apply to one site
+ */
+export function rulesForSite(rules: InterceptRule[] | undefined, site: 'baseline' | 'candidate'): InterceptRule[] {
+  return (rules ?? []).filter((rule) => !rule.site || rule.site === site);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Test a URL against a rule pattern: a domain (subdomains included) or a URL glob
+ */
+export function matchesInterceptPattern(url: string, pattern: string): boolean {
+  if (!pattern.includes('/')) {
+    let hostname: string;
+    try {
+      hostname = new URL(url).hostname;
+    } catch {
+      return false;
+    }
+    const domain = escapeRegExp(pattern.toLowerCase().replace(/^\*\./, '')).replace(/\*/g, '[^.]*').replace(/\?/g, '.');
+    return new RegExp(`^(?:.+\\.)?${domain}$`).test(hostname);
+  }
+
+  const source = pattern
+    .split('**')
+    .map((part) => escapeRegExp(part).replace(/\*/g, '[^/]*').replace(/\?/g, '.'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(url);
+}
+
+/**
+ * Absolute path of a fixture, or undefined when it points outside the fixtures directory
+ */
+export function resolveFixturePath(fixture: string): string | undefined {
+  const resolved = path.resolve(FIXTURES_DIR, fixture);
+  const relative = path.relative(FIXTURES_DIR, resolved);
+  return path.isAbsolute(fixture) || relative === '' || relative.startsWith('..') ? undefined : resolved;
+}
+
+/**
+ * Check a job's intercept rules; throws on rules that can't be applied
+ */
+export function validateInterceptRules(rules: InterceptRule[]): InterceptRule[] {
+  rules.forEach((rule, index) => {
+    const label = `Invalid intercept rule ${index + 1}`;
+    if (!rule.pattern.trim()) {
+      throw new Error(`${label}: pattern is empty`);
+    }
+    if (rule.action === 'mock' && rule.fixture !== undefined && !resolveFixturePath(rule.fixture)) {
+      throw new Error(`${label}: fixture "${rule.fixture}" must be a file inside the fixtures directory`);
+    }
+    if (rule.action === 'rewrite' && !/^[a-z0-9.-]+(:\d+)?$/i.test(rule.rewriteHost ?? '')) {
+      throw new Error(`${label}: rewrite needs a rewriteHost as host[:port]`);
+    }
+  });
+  return rules;
+}
+
+/**
+ * Page a request was made from, or undefined for service worker requests
+ */
+function requestPage(request: Request): Page | undefined {
+  try {
+    return request.frame().page();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Route every request of a browser context (or a single page) through the rules; requests no rule matches
+ * continue untouched. Rules on a context cover every page opened in it, including pages opened later.
+ * Each request a rule handles is passed to `onIntercept` with its page. Fixtures are read once per target.
+ */
+export async function interceptRequests(
+  target: BrowserContext | Page,
+  rules: InterceptRule[],
+  onIntercept: (request: InterceptedRequest, page: Page | undefined) => void = () => undefined
+): Promise<void> {
+  if (rules.length === 0) {
+    return;
+  }
+
+  const fixtures = new Map<string, Promise<Buffer>>();
+  const readFixture = (file: string) => {
+    if (!fixtures.has(file)) {
+      fixtures.set(file, fs.readFile(file));
+    }
+    return fixtures.get(file)!;
+  };
+
+  await target.route('**/*', async (route) => {
+    const request = route.request();
+    const url = request.url();
+    const rule = rules.find((r) => matchesInterceptPattern(url, r.pattern));
+    if (!rule) {
+      await route.fallback();
+      return;
+    }
+
+    const entry: InterceptedRequest = {
+      url,
+      method: request.method(),
+      resourceType: request.resourceType(),
+      action: rule.action,
+      pattern: rule.pattern,
+    };
+    try {
+      if (rule.action === 'block') {
+        await route.abort('blockedbyclient');
+      } else if (rule.action === 'mock') {
+        const fixturePath = rule.fixture !== undefined ? resolveFixturePath(rule.fixture) : undefined;
+        if (rule.fixture !== undefined && !fixturePath) {
+          throw new Error(`Fixture outside the fixtures directory: ${rule.fixture}`);
+        }
+        entry.fixture = rule.fixture;
+        entry.status = rule.status ?? 200;
+        await route.fulfill({
+          status: entry.status,
+          contentType:
+            rule.contentType ?? (fixturePath ? FIXTURE_CONTENT_TYPES[path.extname(fixturePath).toLowerCase()] : undefined),
+          body: fixturePath ? await readFixture(fixturePath) : '',
+        });
+      } else {
+        const target = new URL(url);
+        target.host = rule.rewriteHost!;
+        entry.rewrittenUrl = target.href;
+        await route.continue({ url: target.href });
+      }
+    } catch (error) {
+      entry.error = error instanceof Error ? error.message : String(error);
+      await route.abort('failed').catch(() => undefined);
+    }
+    onIntercept(entry, requestPage(request));
+  });
+}
@@ -0,0 +1,107 @@
+import { RewriteRule, UrlNormalizationPolicy } from '../models';
+import { normalizePath } from './urlNormalization';
+
+/**
+ * Result of rewriting a baseline path
+ */
+export interface RewrittenPath {
+  path: string;
+  rule: string; // Label of the rule that matched
+  ruleIndex: number;
+}
+
+/**
+ * Baseline paths mapped by one rule in a dry run
+ */
+export interface RewriteRuleDryRun {
+  rule: string;
+  pattern: string;
+  replacement: string;
+  mapped: Array<{ baselinePath: string; candidatePath: string; candidateFound?: boolean }>;
+}
+
+/**
+ * Outcome of applying rewrite rules to crawled baseline paths without running a comparison
+ */
+export interface RewriteDryRunResult {
+  rules: RewriteRuleDryRun[];
+  unmapped: string[]; // Baseline paths no rule matched
+}
+
+/**
+ * Label of a rule in matches, the generated pageMap and dry runs
+ */
+export function ruleLabel(rule: RewriteRule, index: number): string {
+  return rule.name || `rule ${index + 1}`;
+}
+
+/**
+ * Check every rule has a pattern that compiles and a replacement
+ */
+export function validateRewriteRules(rules: unknown[]): RewriteRule[] {
+  rules.forEach((entry, index) => {
+    const rule = (entry ?? {}) as Partial<RewriteRule>;
+    if (typeof rule.pattern !== 'string' || rule.pattern === '') {
+      throw new Error(`Invalid rewrite rule: rule ${index + 1} requires a pattern`);
+    }
+    if (typeof rule.replacement !== 'string') {
+      throw new Error(`Invalid rewrite rule: rule ${index + 1} requires a replacement`);
+    }
+    try {
+      new RegExp(rule.pattern, rule.flags);
+    } catch (error) {
+      throw new Error(`Invalid rewrite rule: rule ${index + 1} - ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+  return rules as RewriteRule[];
+}
+
+/**
+ * Rewrite a baseline path with the first matching rule
+ */
+export function applyRewriteRules(baselinePath: string, rules: RewriteRule[]): RewrittenPath | undefined {
+  for (const [index, rule] of rules.entries()) {
+    // Sticky and global flags would make test() stateful
+    const regex = new RegExp(rule.pattern, (rule.flags ?? '').replace(/[gy]/g, ''));
+    if (regex.test(baselinePath)) {
+      return { path: baselinePath.replace(regex, rule.replacement), rule: ruleLabel(rule, index), ruleIndex: index };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Show which baseline paths each rule maps, and whether the target was crawled on the candidate
+ */
+export function dryRunRewriteRules(
+  rules: RewriteRule[],
+  baselinePaths: string[],
+  candidatePaths?: string[],
+  normalization?: UrlNormalizationPolicy
+): RewriteDryRunResult {
+  const result: RewriteDryRunResult = {
+    rules: rules.map((rule, index) => ({
+      rule: ruleLabel(rule, index),
+      pattern: rule.pattern,
+      replacement: rule.replacement,
+      mapped: [],
+    })),
+    unmapped: [],
+  };
+
+  for (const baselinePath of baselinePaths) {
+    const rewritten = applyRewriteRules(baselinePath, rules);
+    if (!rewritten) {
+      result.unmapped.push(baselinePath);
+      continue;
+    }
+    const candidatePath = normalizePath(rewritten.path, normalization);
+    result.rules[rewritten.ruleIndex].mapped.push({
+      baselinePath,
+      candidatePath,
+      candidateFound: candidatePaths ? candidatePaths.includes(candidatePath) : undefined,
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,94 @@
+/**
+ * User-agent token the crawler matches against robots.txt groups
+ */
+export const ROBOTS_USER_AGENT = 'migrate-guard';
+
+/**
+ * Rules from robots.txt that apply to the crawler
+ */
+export interface RobotsRules {
+  sitemaps: string[]; // Absolute sitemap URLs declared with 'Sitemap:'
+  allow: string[];
+  disallow: string[];
+  crawlDelay?: number; // Seconds between requests
+}
+
+/**
+ * Parse robots.txt, keeping the group for our user agent (or '*' when there is none)
+ */
+export function parseRobotsTxt(content: string, baseUrl: string, userAgent: string = ROBOTS_USER_AGENT): RobotsRules {
+  const sitemaps: string[] = [];
+  const groups: Array<{ agents: string[]; allow: string[]; disallow: string[]; crawlDelay?: number }> = [];
+  let current: (typeof groups)[number] | undefined;
+  let lastWasAgent = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'sitemap') {
+      try {
+        sitemaps.push(new URL(value, baseUrl).toString());
+      } catch {
+        // Ignore malformed sitemap URLs
+      }
+      continue;
+    }
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], allow: [], disallow: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (field === 'allow' && value) {
+      current.allow.push(value);
+    } else if (field === 'disallow' && value) {
+      current.disallow.push(value);
+    } else if (field === 'crawl-delay') {
+      const delay = Number(value);
+      if (Number.isFinite(delay) && delay >= 0) current.crawlDelay = delay;
+    }
+  }
+
+  const agent = userAgent.toLowerCase();
+  const group =
+    groups.find((g) => g.agents.some((a) => a !== '*' && agent.includes(a))) ?? groups.find((g) => g.agents.includes('*'));
+
+  return {
+    sitemaps,
+    allow: group?.allow ?? [],
+    disallow: group?.disallow ?? [],
+    crawlDelay: group?.crawlDelay,
+  };
+}
+
+function patternToRegex(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Whether a path (with query string) may be crawled; the longest matching rule wins and Allow wins ties
+ */
+export function isAllowedByRobots(pathWithQuery: string, rules: RobotsRules): boolean {
+  const longest = (patterns: string[]) =>
+    Math.max(-1, ...patterns.filter((p) => patternToRegex(p).test(pathWithQuery)).map((p) => p.length));
+
+  return longest(rules.allow) >= longest(rules.disallow);
+}
@@ -0,0 +1,89 @@
+import { EventEmitter } from 'events';
+import { RunPhaseName, RunPhaseStatus, RunStatus } from '../models';
+
+/**
+ * Progress events published while a run executes
+ */
+export type RunEventPayload =
+  | { type: 'status'; status: RunStatus; error?: string }
+  | { type: 'phase'; phase: RunPhaseName; status: RunPhaseStatus; durationMs?: number; error?: string }
+  | { type: 'progress'; percent: number; phase?: RunPhaseName }
+  | { type: 'page-crawled'; site: 'baseline' | 'candidate'; path: string; count: number }
+  | {
+      type: 'pages-matched';
+      matched: number;
+      baselinePages: number;
+      candidatePages: number;
+      unmatchedBaseline: number;
+      unmatchedCandidate: number;
+    }
+  | { type: 'screenshot'; site: 'baseline' | 'candidate'; path: string; viewport: string }
+  | { type: 'diff'; path: string; viewport: string; severity: string; diffPercentage: number }
+  | { type: 'log'; source: string; message: string };
+
+export type RunEvent = RunEventPayload & {
+  runId: string;
+  timestamp: string;
+};
+
+export type RunEventListener = (event: RunEvent) => void;
+
+const TERMINAL_STATUSES: RunStatus[] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Whether an event ends the stream for its run
+ */
+export function isTerminalEvent(event: RunEvent): boolean {
+  return event.type === 'status' && TERMINAL_STATUSES.includes(event.status);
+}
+
+/**
+ * RunEventBus - In-process pub/sub for run progress
+ * Keeps the most recent events per run so late subscribers can catch up
+ */
+export class RunEventBus {
+  private readonly emitter = new EventEmitter();
+  private readonly recent = new Map<string, RunEvent[]>();
+
+  constructor(private readonly historySize: number = 200) {
+    // One listener per open SSE connection
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(runId: string, payload: RunEventPayload): RunEvent {
+    const event = { ...payload, runId, timestamp: new Date().toISOString() } as RunEvent;
+
+    const history = this.recent.get(runId) ?? [];
+    history.push(event);
+    if (history.length > this.historySize) {
+      history.splice(0, history.length - this.historySize);
+    }
+    this.recent.set(runId, history);
+
+    this.emitter.emit(runId, event);
+
+    // Nothing more will be published for this run
+    if (isTerminalEvent(event)) {
+      this.recent.delete(runId);
+    }
+
+    return event;
+  }
+
+  /**
+   * Subscribe to a run's events, returns an unsubscribe function
+   */
+  subscribe(runId: string, listener: RunEventListener): () => void {
+    this.emitter.on(runId, listener);
+    return () => {
+      this.emitter.off(runId, listener);
+    };
+  }
+
+  /**
+   * Events published so far for a run that is still in progress
+   */
+  history(runId: string): RunEvent[] {
+    return [...(this.recent.get(runId) ?? [])];
+  }
+}
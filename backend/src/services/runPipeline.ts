@@ -0,0 +1,793 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  ComparisonJob,
+  Run,
+  RunArtifact,
+  RunPhase,
+  RunPhaseName,
+  RunStatus,
+  StoragePort,
+} from '../models';
+import { CrawlAgent, CrawlResult, MatchedPage, UnmatchedPages } from './crawlAgent';
+import { PlaywrightExecutionService, ExecutionResult } from './playwrightExecutionService';
+import { VisualDiffService, VisualDiffResult } from './visualDiffService';
+import { FunctionalQaAgent, FunctionalQAResult } from './functionalQaAgent';
+import { DataIntegrityAgent, DataIntegrityResult } from './dataIntegrityAgent';
+import { SeoAgent, SeoResult } from './seoAgent';
+import { PerformanceAgent, PerformanceResult } from './performanceAgent';
+import { AccessibilityAgent, AccessibilityResult } from './accessibilityAgent';
+import { RedirectAgent, RedirectVerificationResult } from './redirectAgent';
+import { JourneyAgent, JourneyResult } from './journeyAgent';
+import { AiReasoningService, AIReasoningResult } from './aiReasoningService';
+import { AuthService, SiteContextOptions, collectSecrets, createRedactor } from './authService';
+import { ReportAgent } from './reportAgent';
+import { resolveThrottleProfiles } from './throttling';
+import { rulesForSite } from './requestInterception';
+import { RunEventBus, RunEventPayload } from './runEvents';
+import { DATA_DIR } from '../config/config';
+
+/**
+ * Agents used by the pipeline, injectable for testing
+ */
+export interface RunPipelineAgents {
+  authService: AuthService;
+  crawlAgent: CrawlAgent;
+  executionService: PlaywrightExecutionService;
+  redirectAgent: RedirectAgent;
+  functionalQaAgent: FunctionalQaAgent;
+  dataIntegrityAgent: DataIntegrityAgent;
+  seoAgent: SeoAgent;
+  performanceAgent: PerformanceAgent;
+  accessibilityAgent: AccessibilityAgent;
+  journeyAgent: JourneyAgent;
+  visualDiffService: VisualDiffService;
+  aiReasoningService: AiReasoningService;
+  reportAgent: ReportAgent;
+}
+
+/**
+ * Phases in execution order
+ */
+export const RUN_PHASES: RunPhaseName[] = [
+  'crawl',
+  'match',
+  'redirects',
+  'execute',
+  'functional',
+  'data',
+  'seo',
+  'performance',
+  'accessibility',
+  'journeys',
+  'visual',
+  'ai',
+  'report',
+];
+
+/**
+ * Core phases abort the run when they fail; analysis phases only mark themselves failed
+ */
+const CORE_PHASES = new Set<RunPhaseName>(['crawl', 'match', 'execute', 'ai', 'report']);
+
+const TERMINAL_STATUSES: RunStatus[] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * RunPipeline - Executes a comparison run end to end
+ * crawl → match → execute → enabled test agents → AI reasoning → report,
+ * persisting artifacts and per-phase status on the Run as it goes
+ */
+export class RunPipeline {
+  private readonly agents: RunPipelineAgents;
+  // Strips the job's credentials from logs, errors and reports
+  private redact: (text: string) => string = (text) => text;
+
+  constructor(
+    private readonly storage: StoragePort,
+    agents: Partial<RunPipelineAgents> = {},
+    private readonly events?: RunEventBus
+  ) {
+    this.agents = {
+      authService: agents.authService ?? new AuthService(),
+      crawlAgent: agents.crawlAgent ?? new CrawlAgent(),
+      executionService: agents.executionService ?? new PlaywrightExecutionService(),
+      redirectAgent: agents.redirectAgent ?? new RedirectAgent(),
+      functionalQaAgent: agents.functionalQaAgent ?? new FunctionalQaAgent(),
+      dataIntegrityAgent: agents.dataIntegrityAgent ?? new DataIntegrityAgent(),
+      seoAgent: agents.seoAgent ?? new SeoAgent(),
+      performanceAgent: agents.performanceAgent ?? new PerformanceAgent(),
+      accessibilityAgent: agents.accessibilityAgent ?? new AccessibilityAgent(),
+      journeyAgent: agents.journeyAgent ?? new JourneyAgent(),
+      visualDiffService: agents.visualDiffService ?? new VisualDiffService(),
+      aiReasoningService: agents.aiReasoningService ?? new AiReasoningService(),
+      reportAgent: agents.reportAgent ?? new ReportAgent(),
+    };
+  }
+
+  /**
+   * Execute all phases for a run
+   * - Updates run status to 'running' -> 'completed'|'failed'
+   * - A failed core phase stops the run; a failed analysis phase is recorded and the run continues
+   * - When the signal aborts, browsers are closed and the run stops before the next phase;
+   *   the final status is then left to whoever aborted it (cancel or timeout)
+   */
+  async execute(runId: string, job: ComparisonJob, signal?: AbortSignal): Promise<Run | undefined> {
+    const phases: RunPhase[] = RUN_PHASES.map((name) => ({ name, status: 'pending' }));
+    const { run, started } = await this.startRun(runId, phases, signal);
+    if (!run || !started) return run;
+
+    const { crawlAgent, executionService, authService } = this.agents;
+    const { testMatrix } = job;
+
+    const credentials = await authService.getCredentials(job.id);
+    if (credentials) {
+      this.redact = createRedactor(collectSecrets(credentials));
+    }
+
+    // Closing the browsers makes any in-flight Playwright call fail fast
+    const onAbort = () => {
+      crawlAgent.cleanup().catch(() => undefined);
+      executionService.cleanup().catch(() => undefined);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let sessions: SiteContextOptions = {};
+    let baselineResult: CrawlResult | undefined;
+    let candidateResult: CrawlResult | undefined;
+    let matchedPages: MatchedPage[] = [];
+    let unmatchedPages: UnmatchedPages | undefined;
+    let executionResult: ExecutionResult | undefined;
+    let redirectResult: RedirectVerificationResult | undefined;
+    let functionalQaResult: FunctionalQAResult | undefined;
+    let dataIntegrityResult: DataIntegrityResult | undefined;
+    let seoResult: SeoResult | undefined;
+    let performanceResult: PerformanceResult | undefined;
+    let accessibilityResult: AccessibilityResult | undefined;
+    let journeyResult: JourneyResult | undefined;
+    let visualDiffResult: VisualDiffResult | undefined;
+    let aiResult: AIReasoningResult | undefined;
+
+    const runPhase = (name: RunPhaseName, fn: () => Promise<RunArtifact[]>) =>
+      this.runPhase(runId, phases, name, fn, signal);
+
+    try {
+      await runPhase('crawl', async () => {
+        const listener = (site: 'baseline' | 'candidate') => {
+          let count = 0;
+          return {
+            onLog: (message: string) => this.emit(runId, { type: 'log', source: `crawl:${site}`, message }),
+            onPage: (page: { normalizedPath: string }) =>
+              this.emit(runId, { type: 'page-crawled', site, path: page.normalizedPath, count: ++count }),
+          };
+        };
+
+        // Sign in first so every context in the run reuses the same sessions
+        if (credentials) {
+          sessions = await authService.prepareSessions(job, credentials, runId, (message) =>
+            this.emit(runId, { type: 'log', source: 'auth', message })
+          );
+        }
+
+        try {
+          // Both sites are crawled at once; each applies its own concurrency and rate limits
+          [baselineResult, candidateResult] = await Promise.all([
+            crawlAgent.crawlSite(
+              job.baselineUrl,
+              job.crawlConfig,
+              runId,
+              listener('baseline'),
+              sessions.baseline,
+              crawlAgent.discoveryFor(job, 'baseline'),
+              rulesForSite(job.interceptRules, 'baseline')
+            ),
+            crawlAgent.crawlSite(
+              job.candidateUrl,
+              job.crawlConfig,
+              runId,
+              listener('candidate'),
+              sessions.candidate,
+              crawlAgent.discoveryFor(job, 'candidate'),
+              rulesForSite(job.interceptRules, 'candidate')
+            ),
+          ]);
+        } finally {
+          await crawlAgent.cleanup();
+        }
+        return [];
+      });
+
+      await runPhase('match', async () => {
+        matchedPages = crawlAgent.matchPages(
+          baselineResult!,
+          candidateResult!,
+          job.pageMap,
+          job.crawlConfig.minMatchConfidence,
+          job.rewriteRules,
+          job.crawlConfig.normalization
+        );
+        unmatchedPages = crawlAgent.findUnmatchedPages(baselineResult!, candidateResult!, matchedPages);
+        this.emit(runId, {
+          type: 'pages-matched',
+          matched: matchedPages.length,
+          baselinePages: baselineResult!.pages.length,
+          candidatePages: candidateResult!.pages.length,
+          unmatchedBaseline: unmatchedPages.baseline.length,
+          unmatchedCandidate: unmatchedPages.candidate.length,
+        });
+        const pageMap = crawlAgent.generatePageMap(matchedPages);
+        const artifactPaths = await crawlAgent.saveCrawlArtifacts(
+          runId,
+          baselineResult!,
+          candidateResult!,
+          matchedPages,
+          pageMap
+        );
+
+        const sitemapDiff = crawlAgent.diffSitemaps(
+          baselineResult!,
+          candidateResult!,
+          job.rewriteRules,
+          job.crawlConfig.normalization
+        );
+        if (sitemapDiff) {
+          artifactPaths.push(await crawlAgent.saveSitemapDiff(runId, sitemapDiff));
+        }
+
+        // Keep the generated pageMap on the job if none was configured
+        if (pageMap.length > 0 && (!job.pageMap || job.pageMap.length === 0)) {
+          await this.updateJobPageMap(job.id, pageMap);
+        }
+
+        const summaryPath = await this.saveCrawlSummary(
+          runId,
+          job,
+          baselineResult!,
+          candidateResult!,
+          matchedPages,
+          unmatchedPages,
+          pageMap.length
+        );
+        return [...artifactPaths, summaryPath].map((p) => this.toArtifact(runId, p));
+      });
+
+      if (job.redirectMap && job.redirectMap.length > 0) {
+        await runPhase('redirects', async () => {
+          redirectResult = await this.agents.redirectAgent.verifyRedirectMap(job.redirectMap!, job.candidateUrl, runId);
+          return redirectResult.artifactPaths.map((p) => this.toArtifact(runId, p, 'Redirect Map Verification'));
+        });
+      } else {
+        await this.skipPhase(runId, phases, 'redirects', 'No redirect map configured');
+      }
+
+      if (matchedPages.length === 0) {
+        const note = 'No matched pages to execute';
+        for (const name of ['execute', 'functional', 'data', 'seo', 'performance', 'accessibility', 'journeys', 'visual'] as RunPhaseName[]) {
+          await this.skipPhase(runId, phases, name, note);
+        }
+      } else {
+        try {
+          await runPhase('execute', async () => {
+            executionResult = await executionService.executeComparison(
+              job.baselineUrl,
+              job.candidateUrl,
+              matchedPages,
+              runId,
+              {
+                onLog: (message, site) => this.emit(runId, { type: 'log', source: `execute:${site}`, message }),
+                onScreenshot: (screenshot, site, normalizedPath) =>
+                  this.emit(runId, { type: 'screenshot', site, path: normalizedPath, viewport: screenshot.viewport.name }),
+              },
+              job.visualMasks?.selectors ?? [],
+              sessions,
+              job.captureOptions ?? {},
+              job.captureProfiles?.length ? job.captureProfiles : undefined,
+              resolveThrottleProfiles(job.throttling),
+              job.interceptRules ?? []
+            );
+            return this.executionArtifacts(runId, executionResult);
+          });
+
+          const contexts = executionResult?.baselineContext && executionResult?.candidateContext
+            ? { baseline: executionResult.baselineContext, candidate: executionResult.candidateContext }
+            : undefined;
+
+          if (!testMatrix.functional) {
+            await this.skipPhase(runId, phases, 'functional', 'Disabled in test matrix');
+          } else if (!contexts) {
+            await this.skipPhase(runId, phases, 'functional', 'Browser contexts unavailable');
+          } else {
+            await runPhase('functional', async () => {
+              functionalQaResult = await this.agents.functionalQaAgent.executeFunctionalQAWithContexts(
+                contexts.baseline,
+                contexts.candidate,
+                matchedPages,
+                job.baselineUrl,
+                job.candidateUrl,
+                runId,
+                sessions,
+                job.interceptRules ?? []
+              );
+              return this.functionalArtifacts(runId, functionalQaResult);
+            });
+          }
+
+          if (!testMatrix.data) {
+            await this.skipPhase(runId, phases, 'data', 'Disabled in test matrix');
+          } else if (!contexts) {
+            await this.skipPhase(runId, phases, 'data', 'Browser contexts unavailable');
+          } else {
+            await runPhase('data', async () => {
+              dataIntegrityResult = await this.agents.dataIntegrityAgent.executeDataIntegrityCheckWithContexts(
+                contexts.baseline,
+                contexts.candidate,
+                matchedPages,
+                job.baselineUrl,
+                job.candidateUrl,
+                runId
+              );
+              return dataIntegrityResult.artifactPaths.map((p) => this.toArtifact(runId, p, 'Data Integrity Results'));
+            });
+          }
+
+          if (!testMatrix.seo) {
+            await this.skipPhase(runId, phases, 'seo', 'Disabled in test matrix');
+          } else if (!contexts) {
+            await this.skipPhase(runId, phases, 'seo', 'Browser contexts unavailable');
+          } else {
+            await runPhase('seo', async () => {
+              seoResult = await this.agents.seoAgent.executeSeoCheckWithContexts(
+                contexts.baseline,
+                contexts.candidate,
+                matchedPages,
+                job.baselineUrl,
+                job.candidateUrl,
+                runId
+              );
+              return seoResult.artifactPaths.map((p) => this.toArtifact(runId, p, 'SEO Comparison Results'));
+            });
+          }
+
+          if (!testMatrix.performance) {
+            await this.skipPhase(runId, phases, 'performance', 'Disabled in test matrix');
+          } else if (!contexts) {
+            await this.skipPhase(runId, phases, 'performance', 'Browser contexts unavailable');
+          } else {
+            await runPhase('performance', async () => {
+              performanceResult = await this.agents.performanceAgent.executePerformanceCheckWithContexts(
+                contexts.baseline,
+                contexts.candidate,
+                matchedPages,
+                runId,
+                job.performanceBudgets?.length ? job.performanceBudgets : undefined
+              );
+              return performanceResult.artifactPaths.map((p) => this.toArtifact(runId, p, 'Performance Comparison Results'));
+            });
+          }
+
+          if (!testMatrix.accessibility) {
+            await this.skipPhase(runId, phases, 'accessibility', 'Disabled in test matrix');
+          } else if (!contexts) {
+            await this.skipPhase(runId, phases, 'accessibility', 'Browser contexts unavailable');
+          } else {
+            await runPhase('accessibility', async () => {
+              accessibilityResult = await this.agents.accessibilityAgent.executeAccessibilityCheckWithContexts(
+                contexts.baseline,
+                contexts.candidate,
+                matchedPages,
+                runId
+              );
+              return accessibilityResult.artifactPaths.map((p) =>
+                this.toArtifact(runId, p, 'Accessibility Comparison Results')
+              );
+            });
+          }
+
+          if (!job.journeys || job.journeys.length === 0) {
+            await this.skipPhase(runId, phases, 'journeys', 'No journeys configured');
+          } else if (!testMatrix.functional) {
+            await this.skipPhase(runId, phases, 'journeys', 'Disabled in test matrix');
+          } else if (!contexts) {
+            await this.skipPhase(runId, phases, 'journeys', 'Browser contexts unavailable');
+          } else {
+            await runPhase('journeys', async () => {
+              journeyResult = await this.agents.journeyAgent.executeJourneysWithContexts(
+                contexts.baseline,
+                contexts.candidate,
+                job.journeys!,
+                job.baselineUrl,
+                job.candidateUrl,
+                runId
+              );
+              return this.journeyArtifacts(runId, journeyResult);
+            });
+          }
+        } finally {
+          // Browsers are no longer needed once page-level agents are done
+          await executionService.cleanup();
+        }
+
+        if (!testMatrix.visual) {
+          await this.skipPhase(runId, phases, 'visual', 'Disabled in test matrix');
+        } else {
+          await runPhase('visual', async () => {
+            const approvals = ((await this.storage.load()).approvals ?? []).filter((a) => a.jobId === job.id);
+            visualDiffResult = await this.agents.visualDiffService.compareExecutionResults(
+              executionResult!,
+              runId,
+              job.visualMasks,
+              approvals
+            );
+            for (const pageDiff of visualDiffResult.pages) {
+              for (const screenshotDiff of pageDiff.screenshotDiffs) {
+                this.emit(runId, {
+                  type: 'diff',
+                  path: pageDiff.normalizedPath,
+                  viewport: screenshotDiff.viewport.name,
+                  severity: screenshotDiff.severity,
+                  diffPercentage: screenshotDiff.pixelMetrics.diffPercentage,
+                });
+              }
+            }
+            return this.visualArtifacts(runId, visualDiffResult);
+          });
+        }
+      }
+
+      await runPhase('ai', async () => {
+        const { aiReasoningService } = this.agents;
+        aiResult = await aiReasoningService.analyzeArtifacts(
+          visualDiffResult,
+          functionalQaResult,
+          dataIntegrityResult,
+          seoResult,
+          performanceResult,
+          accessibilityResult,
+          redirectResult,
+          journeyResult,
+          runId
+        );
+        const resultsPath = await aiReasoningService.saveResults(aiResult, runId);
+        return [this.toArtifact(runId, resultsPath, 'AI Reasoning Results')];
+      });
+
+      await runPhase('report', async () => {
+        const { reportAgent } = this.agents;
+        const report = await reportAgent.generateReport(
+          job,
+          { ...run, status: 'running' },
+          aiResult!,
+          visualDiffResult,
+          functionalQaResult,
+          dataIntegrityResult,
+          seoResult,
+          redirectResult,
+          journeyResult,
+          unmatchedPages,
+          runId,
+          executionResult?.throttling,
+          performanceResult,
+          accessibilityResult
+        );
+        const reportPaths = await reportAgent.saveReport(report, runId, this.redact);
+        return [
+          this.toArtifact(runId, reportPaths.jsonPath, 'Migration Test Report (JSON)'),
+          this.toArtifact(runId, reportPaths.markdownPath, 'Migration Test Report (Markdown)'),
+        ];
+      });
+    } catch (error) {
+      // The failing phase has already been recorded, anything left never ran
+      for (const phase of phases) {
+        if (phase.status === 'pending') {
+          phase.status = 'skipped';
+          phase.note = signal?.aborted ? 'Not run because the run was stopped' : 'Not run because an earlier phase failed';
+        }
+      }
+
+      if (signal?.aborted) {
+        return this.updateRun(runId, { phases });
+      }
+
+      return this.updateRun(runId, {
+        status: 'failed',
+        completedAt: new Date().toISOString(),
+        phases,
+        error: this.redact(error instanceof Error ? error.message : String(error)),
+      });
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    const failedPhases = phases.filter((p) => p.status === 'failed');
+    return this.updateRun(runId, {
+      status: failedPhases.length > 0 ? 'failed' : 'completed',
+      completedAt: new Date().toISOString(),
+      phases,
+      error: failedPhases.length > 0
+        ? `Phases failed: ${failedPhases.map((p) => p.name).join(', ')}`
+        : undefined,
+    });
+  }
+
+  /**
+   * Run a single phase, recording its status, timing and artifacts
+   * Errors in core phases, and any error once the run is aborted, are rethrown to stop the run
+   */
+  private async runPhase(
+    runId: string,
+    phases: RunPhase[],
+    name: RunPhaseName,
+    fn: () => Promise<RunArtifact[]>,
+    signal?: AbortSignal
+  ): Promise<void> {
+    signal?.throwIfAborted();
+
+    const phase = phases.find((p) => p.name === name)!;
+    const started = Date.now();
+    phase.status = 'running';
+    phase.startedAt = new Date(started).toISOString();
+    await this.updateRun(runId, { phases });
+    this.emitPhase(runId, phases, phase);
+
+    let artifacts: RunArtifact[] = [];
+    let failure: unknown;
+
+    try {
+      artifacts = await fn();
+      phase.status = 'completed';
+    } catch (error) {
+      failure = error;
+      phase.status = 'failed';
+      phase.error = this.redact(error instanceof Error ? error.message : String(error));
+      artifacts = await this.savePhaseError(runId, name, phase.error);
+    }
+
+    phase.completedAt = new Date().toISOString();
+    phase.durationMs = Date.now() - started;
+    await this.updateRun(runId, { phases }, artifacts);
+    this.emitPhase(runId, phases, phase);
+
+    if (failure !== undefined && (CORE_PHASES.has(name) || signal?.aborted)) {
+      throw failure;
+    }
+  }
+
+  private async skipPhase(runId: string, phases: RunPhase[], name: RunPhaseName, note: string): Promise<void> {
+    const phase = phases.find((p) => p.name === name)!;
+    phase.status = 'skipped';
+    phase.note = note;
+    await this.updateRun(runId, { phases });
+    this.emitPhase(runId, phases, phase);
+  }
+
+  private emit(runId: string, payload: RunEventPayload): void {
+    this.events?.publish(runId, payload.type === 'log' ? { ...payload, message: this.redact(payload.message) } : payload);
+  }
+
+  /**
+   * Publish a phase change along with overall progress
+   */
+  private emitPhase(runId: string, phases: RunPhase[], phase: RunPhase): void {
+    const done = phases.filter((p) => p.status !== 'pending' && p.status !== 'running').length;
+    this.emit(runId, {
+      type: 'phase',
+      phase: phase.name,
+      status: phase.status,
+      durationMs: phase.durationMs,
+      error: phase.error,
+    });
+    this.emit(runId, { type: 'progress', percent: Math.round((done / phases.length) * 100), phase: phase.name });
+  }
+
+  /**
+   * Mark a run running, unless it was cancelled or timed out before the pipeline picked it up
+   */
+  private async startRun(runId: string, phases: RunPhase[], signal?: AbortSignal): Promise<{ run?: Run; started: boolean }> {
+    let started = false;
+
+    const run = await this.storage.updateRun(runId, (r) => {
+      if (signal?.aborted || TERMINAL_STATUSES.includes(r.status)) {
+        return r;
+      }
+      started = true;
+      return { ...r, status: 'running', startedAt: new Date().toISOString(), phases: phases.map((p) => ({ ...p })), error: undefined };
+    });
+
+    if (started) {
+      this.emit(runId, { type: 'status', status: 'running' });
+    }
+
+    return { run, started };
+  }
+
+  /**
+   * Register new artifacts, then apply a patch to the run
+   * Artifacts go in first so a run that reads as finished already lists everything it produced.
+   */
+  private async updateRun(runId: string, patch: Partial<Run>, artifacts: RunArtifact[] = []): Promise<Run | undefined> {
+    if (artifacts.length > 0) {
+      await this.storage.addArtifacts(artifacts);
+    }
+    const updated = await this.storage.updateRun(runId, (r) => ({
+      ...r,
+      ...patch,
+      phases: patch.phases ? patch.phases.map((p) => ({ ...p })) : r.phases,
+    }));
+
+    if (patch.status) {
+      this.emit(runId, { type: 'status', status: patch.status, error: patch.error });
+    }
+
+    return updated;
+  }
+
+  private async updateJobPageMap(jobId: string, pageMap: ComparisonJob['pageMap']): Promise<void> {
+    await this.storage.updateComparisonJob(jobId, (j) => ({ ...j, pageMap, updatedAt: new Date().toISOString() }));
+  }
+
+  private async saveCrawlSummary(
+    runId: string,
+    job: ComparisonJob,
+    baselineResult: CrawlResult,
+    candidateResult: CrawlResult,
+    matchedPages: MatchedPage[],
+    unmatchedPages: UnmatchedPages,
+    pageMapCount: number
+  ): Promise<string> {
+    const summary = {
+      runId,
+      jobId: job.id,
+      baselineUrl: job.baselineUrl,
+      candidateUrl: job.candidateUrl,
+      baselinePagesCount: baselineResult.pages.length,
+      candidatePagesCount: candidateResult.pages.length,
+      matchedPagesCount: matchedPages.length,
+      unmatchedBaselinePaths: unmatchedPages.baseline.map((p) => p.normalizedPath),
+      unmatchedCandidatePaths: unmatchedPages.candidate.map((p) => p.normalizedPath),
+      pageMapGenerated: pageMapCount,
+      crawlConfig: job.crawlConfig,
+      timestamp: new Date().toISOString(),
+    };
+
+    const summaryPath = path.join(DATA_DIR, 'artifacts', runId, 'crawl-summary.json');
+    await fs.mkdir(path.dirname(summaryPath), { recursive: true });
+    await fs.writeFile(summaryPath, JSON.stringify(summary, null, 2));
+    return summaryPath;
+  }
+
+  /**
+   * Write a failed phase's error log; no artifact when the log couldn't be written
+   */
+  private async savePhaseError(runId: string, name: RunPhaseName, message: string): Promise<RunArtifact[]> {
+    const errorPath = path.join(DATA_DIR, 'artifacts', runId, `${name}-error.log`);
+    try {
+      await fs.mkdir(path.dirname(errorPath), { recursive: true });
+      await fs.writeFile(errorPath, message, 'utf-8');
+    } catch (error) {
+      console.error(`Failed to write ${name} phase error log for run ${runId}:`, error);
+      return [];
+    }
+    return [this.toArtifact(runId, errorPath, `${name[0].toUpperCase()}${name.slice(1)} Phase Error`, 'log')];
+  }
+
+  private executionArtifacts(runId: string, executionResult: ExecutionResult): RunArtifact[] {
+    const artifacts = executionResult.artifactPaths.map((p) => this.toArtifact(runId, p));
+
+    for (const [site, label] of [
+      [executionResult.baseline, 'Baseline'],
+      [executionResult.candidate, 'Candidate'],
+    ] as const) {
+      for (const pageResult of site.pages) {
+        for (const screenshot of pageResult.screenshots) {
+          artifacts.push({
+            ...this.toArtifact(runId, screenshot.path, `${label}: ${pageResult.normalizedPath} (${screenshot.viewport.name})`, 'screenshot'),
+            createdAt: screenshot.timestamp,
+          });
+        }
+      }
+    }
+
+    return artifacts;
+  }
+
+  private functionalArtifacts(runId: string, functionalQaResult: FunctionalQAResult): RunArtifact[] {
+    const artifacts = functionalQaResult.artifactPaths.map((p) =>
+      this.toArtifact(runId, p, path.basename(p) === 'network-diff.json' ? 'Network Diff (HAR)' : 'Functional QA Results')
+    );
+
+    for (const [site, label] of [
+      [functionalQaResult.baseline, 'Baseline'],
+      [functionalQaResult.candidate, 'Candidate'],
+    ] as const) {
+      for (const pageResult of site.pages) {
+        if (pageResult.harPath) {
+          artifacts.push(this.toArtifact(runId, pageResult.harPath, `${label} HAR: ${pageResult.normalizedPath}`));
+        }
+      }
+    }
+
+    return artifacts;
+  }
+
+  private journeyArtifacts(runId: string, journeyResult: JourneyResult): RunArtifact[] {
+    const artifacts = journeyResult.artifactPaths.map((p) => this.toArtifact(runId, p, 'Journey Results'));
+
+    for (const journey of journeyResult.journeys) {
+      for (const [site, label] of [
+        [journey.baseline, 'Baseline'],
+        [journey.candidate, 'Candidate'],
+      ] as const) {
+        for (const step of site.steps) {
+          if (step.screenshotPath) {
+            artifacts.push(this.toArtifact(runId, step.screenshotPath, `${label} journey: ${journey.name} - ${step.label}`, 'screenshot'));
+          }
+        }
+      }
+      for (const checkpoint of journey.checkpoints) {
+        artifacts.push(
+          this.toArtifact(runId, checkpoint.diffPath, `Journey diff: ${journey.name} - ${checkpoint.name} - ${checkpoint.severity}`, 'screenshot')
+        );
+      }
+    }
+
+    return artifacts;
+  }
+
+  private visualArtifacts(runId: string, visualDiffResult: VisualDiffResult): RunArtifact[] {
+    const artifacts = visualDiffResult.artifactPaths.map((p) => this.toArtifact(runId, p, 'Visual Diff Results'));
+
+    for (const pageDiff of visualDiffResult.pages) {
+      for (const screenshotDiff of pageDiff.screenshotDiffs) {
+        const viewport = screenshotDiff.viewport.name;
+        artifacts.push(
+          {
+            ...this.toArtifact(
+              runId,
+              screenshotDiff.diffPath,
+              `Diff: ${pageDiff.normalizedPath} (${viewport}) - ${screenshotDiff.severity}`,
+              'screenshot'
+            ),
+            createdAt: screenshotDiff.timestamp,
+          },
+          {
+            ...this.toArtifact(runId, screenshotDiff.heatmapPath, `Heatmap: ${pageDiff.normalizedPath} (${viewport})`, 'screenshot'),
+            createdAt: screenshotDiff.timestamp,
+          }
+        );
+      }
+    }
+
+    return artifacts;
+  }
+
+  /**
+   * Build a RunArtifact for a file, storing its path relative to the data directory
+   */
+  private toArtifact(runId: string, artifactPath: string, label?: string, type?: RunArtifact['type']): RunArtifact {
+    return {
+      id: randomUUID(),
+      runId,
+      type: type ?? (artifactPath.endsWith('.png') ? 'screenshot' : artifactPath.endsWith('.log') ? 'log' : 'report'),
+      label: label ?? this.getArtifactLabel(artifactPath),
+      path: artifactPath.replace(/^.*[\\/]data[\\/]/, 'data/'),
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Get artifact label from file path
+   */
+  private getArtifactLabel(artifactPath: string): string {
+    const filename = artifactPath.split(/[\\/]/).pop() || '';
+
+    if (filename.includes('baseline-crawl')) return 'Baseline Crawl Results';
+    if (filename.includes('candidate-crawl')) return 'Candidate Crawl Results';
+    if (filename.includes('matched-pages')) return 'Matched Pages';
+    if (filename.includes('generated-pageMap')) return 'Generated Page Map';
+    if (filename.includes('crawl.log')) return 'Crawl Log';
+    if (filename.includes('crawl-summary')) return 'Crawl Summary';
+    if (filename.includes('sitemap-diff')) return 'Sitemap Diff';
+
+    return filename.replace(/[-_]/g, ' ').replace(/\.[^.]+$/, '');
+  }
+}
@@ -0,0 +1,253 @@
+import { Run, RunStatus, StoragePort } from '../models';
+import { RUN_QUEUE_CONCURRENCY, RUN_RECOVERY_POLICY, RUN_TIMEOUT_MS } from '../config/config';
+import { RunEventBus } from './runEvents';
+
+/**
+ * Executes a single run; must stop promptly once the signal is aborted
+ */
+export type RunExecutor = (runId: string, signal: AbortSignal) => Promise<void>;
+
+export interface RunQueueOptions {
+  concurrency?: number;
+  timeoutMs?: number; // 0 disables the per-run timeout
+  events?: RunEventBus; // Receives status changes made by the queue (cancel, timeout)
+}
+
+export interface RunRecoveryResult {
+  requeued: number;
+  failed: number;
+}
+
+interface ActiveRun {
+  controller: AbortController;
+  timer?: NodeJS.Timeout;
+  outcome?: Partial<Run>; // Terminal state forced by cancel/timeout
+}
+
+const TERMINAL_STATUSES: RunStatus[] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * RunQueue - Storage-backed queue of comparison runs
+ * Queued runs live in storage (status 'queued'), so they survive restarts.
+ * Limits how many runs execute at once and enforces cancellation and timeouts.
+ */
+export class RunQueue {
+  private readonly active = new Map<string, ActiveRun>();
+  private readonly concurrency: number;
+  private readonly timeoutMs: number;
+  private readonly events?: RunEventBus;
+  private pumping = false;
+  private pumpRequested = false;
+
+  constructor(
+    private readonly storage: StoragePort,
+    private readonly executor: RunExecutor,
+    options: RunQueueOptions = {}
+  ) {
+    this.concurrency = Math.max(1, options.concurrency ?? RUN_QUEUE_CONCURRENCY);
+    this.timeoutMs = options.timeoutMs ?? RUN_TIMEOUT_MS;
+    this.events = options.events;
+  }
+
+  /**
+   * Notify the queue that runs are waiting in storage
+   */
+  enqueue(): void {
+    this.pump().catch((err) => {
+      console.error('Error starting queued runs:', err);
+    });
+  }
+
+  /**
+   * Cancel a queued or running run
+   */
+  async cancel(runId: string): Promise<Run> {
+    const snapshot = await this.storage.load();
+    const run = snapshot.runs.find((r) => r.id === runId);
+
+    if (!run) {
+      throw new Error(`Run ${runId} not found`);
+    }
+
+    if (TERMINAL_STATUSES.includes(run.status)) {
+      throw new Error(`Run ${runId} is already ${run.status} and cannot be cancelled`);
+    }
+
+    const outcome: Partial<Run> = { status: 'cancelled', completedAt: new Date().toISOString() };
+    const entry = this.active.get(runId);
+    if (entry) {
+      entry.outcome = outcome;
+      entry.controller.abort(new Error('Run cancelled'));
+    }
+
+    return (await this.updateRun(runId, outcome))!;
+  }
+
+  /**
+   * Put a failed or cancelled run back in the queue
+   * Artifacts of the earlier attempt are dropped; the phases write them again.
+   */
+  async resume(runId: string): Promise<Run> {
+    const snapshot = await this.storage.load();
+    const run = snapshot.runs.find((r) => r.id === runId);
+
+    if (!run) {
+      throw new Error(`Run ${runId} not found`);
+    }
+
+    if (run.status !== 'failed' && run.status !== 'cancelled') {
+      throw new Error(`Run ${runId} is ${run.status} and cannot be resumed`);
+    }
+
+    // Settling a stopped run would overwrite the queued status
+    if (this.active.has(runId)) {
+      throw new Error(`Run ${runId} is still stopping and cannot be resumed yet`);
+    }
+
+    await this.storage.update((latest) => ({
+      ...latest,
+      artifacts: latest.artifacts.filter((a) => a.runId !== runId),
+    }));
+    const resumed = (await this.updateRun(runId, {
+      status: 'queued',
+      startedAt: undefined,
+      completedAt: undefined,
+      error: undefined,
+      resumedAt: new Date().toISOString(),
+    }))!;
+
+    this.enqueue();
+    return resumed;
+  }
+
+  /**
+   * Recover runs left queued or running by a previous process
+   * - 'requeue': put them back in the queue
+   * - 'fail': mark them failed
+   */
+  async recover(policy: 'requeue' | 'fail' = RUN_RECOVERY_POLICY): Promise<RunRecoveryResult> {
+    const now = new Date().toISOString();
+    let orphaned = 0;
+
+    await this.storage.update((snapshot) => ({
+      ...snapshot,
+      runs: snapshot.runs.map((r): Run => {
+        if ((r.status !== 'queued' && r.status !== 'running') || this.active.has(r.id)) return r;
+        orphaned++;
+        return policy === 'fail'
+          ? { ...r, status: 'failed', completedAt: now, error: 'Run interrupted by a server restart' }
+          : { ...r, status: 'queued', startedAt: undefined };
+      }),
+    }));
+
+    if (policy === 'requeue') {
+      this.enqueue();
+      return { requeued: orphaned, failed: 0 };
+    }
+
+    return { requeued: 0, failed: orphaned };
+  }
+
+  /**
+   * Start queued runs (oldest first) until the concurrency limit is reached
+   */
+  private async pump(): Promise<void> {
+    if (this.pumping) {
+      this.pumpRequested = true;
+      return;
+    }
+
+    this.pumping = true;
+    try {
+      do {
+        this.pumpRequested = false;
+        while (this.active.size < this.concurrency) {
+          const next = await this.nextQueuedRun();
+          if (!next) break;
+          this.start(next.id);
+        }
+      } while (this.pumpRequested);
+    } finally {
+      this.pumping = false;
+    }
+  }
+
+  private async nextQueuedRun(): Promise<Run | undefined> {
+    const snapshot = await this.storage.load();
+    return snapshot.runs
+      .filter((r) => r.status === 'queued' && !this.active.has(r.id))
+      .sort((a, b) => a.triggeredAt.localeCompare(b.triggeredAt))[0];
+  }
+
+  private start(runId: string): void {
+    const entry: ActiveRun = { controller: new AbortController() };
+
+    if (this.timeoutMs > 0) {
+      entry.timer = setTimeout(() => {
+        entry.outcome = {
+          status: 'failed',
+          completedAt: new Date().toISOString(),
+          error: `Run timed out after ${this.timeoutMs}ms`,
+        };
+        entry.controller.abort(new Error(entry.outcome.error));
+        this.updateRun(runId, entry.outcome).catch((err) => {
+          console.error(`Error marking run ${runId} as timed out:`, err);
+        });
+      }, this.timeoutMs);
+    }
+
+    this.active.set(runId, entry);
+
+    this.executor(runId, entry.controller.signal)
+      .then(
+        () => undefined,
+        (err: unknown) => {
+          // Errors caused by cancel/timeout are expected, the outcome is recorded in settle()
+          if (!entry.controller.signal.aborted) {
+            console.error(`Error executing run ${runId}:`, err);
+          }
+          return err;
+        }
+      )
+      .then((err) => this.settle(runId, entry, err))
+      .catch((err) => {
+        console.error(`Error settling run ${runId}:`, err);
+      })
+      .finally(() => {
+        clearTimeout(entry.timer);
+        this.active.delete(runId);
+        this.enqueue();
+      });
+  }
+
+  /**
+   * Make sure a finished run ends in a terminal state
+   * Cancel/timeout outcomes win over whatever the executor wrote while stopping
+   */
+  private async settle(runId: string, entry: ActiveRun, error?: unknown): Promise<void> {
+    if (entry.outcome) {
+      await this.updateRun(runId, entry.outcome);
+      return;
+    }
+
+    const snapshot = await this.storage.load();
+    const run = snapshot.runs.find((r) => r.id === runId);
+    if (run && !TERMINAL_STATUSES.includes(run.status)) {
+      await this.updateRun(runId, {
+        status: 'failed',
+        completedAt: new Date().toISOString(),
+        error: run.error ?? (error instanceof Error ? error.message : 'Run stopped without reaching a final status'),
+      });
+    }
+  }
+
+  private async updateRun(runId: string, patch: Partial<Run>): Promise<Run | undefined> {
+    const updated = await this.storage.updateRun(runId, (r) => ({ ...r, ...patch }));
+
+    if (updated && patch.status) {
+      this.events?.publish(runId, { type: 'status', status: patch.status, error: patch.error });
+    }
+
+    return updated;
+  }
+}
@@ -0,0 +1,551 @@
+import { Page, BrowserContext } from 'playwright';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DATA_DIR } from '../config/config';
+import { MatchedPage } from './crawlAgent';
+
+/**
+ * Severity levels for SEO issues
+ */
+export type SeoSeverity = 'none' | 'low' | 'medium' | 'high' | 'critical';
+
+/**
+ * SEO checks performed for each matched page pair
+ */
+export type SeoCheck =
+  | 'title'
+  | 'metaDescription'
+  | 'canonical'
+  | 'robots'
+  | 'hreflang'
+  | 'openGraph'
+  | 'twitterCard'
+  | 'headings'
+  | 'jsonLd';
+
+/**
+ * SEO-relevant data extracted from a page
+ */
+export interface SeoData {
+  url: string;
+  normalizedPath: string;
+  title?: string;
+  metaDescription?: string;
+  canonical?: string;
+  robots?: string;
+  hreflang: Array<{ lang: string; href: string }>;
+  openGraph: Record<string, string>;
+  twitter: Record<string, string>;
+  headings: Array<{ level: number; text: string }>;
+  jsonLdTypes: string[];
+}
+
+/**
+ * A single SEO difference between baseline and candidate
+ */
+export interface SeoIssue {
+  check: SeoCheck;
+  field: string;
+  severity: SeoSeverity;
+  message: string;
+  baselineValue?: unknown;
+  candidateValue?: unknown;
+}
+
+/**
+ * SEO comparison result for a single page
+ */
+export interface PageSeoResult {
+  normalizedPath: string;
+  baselineUrl: string;
+  candidateUrl: string;
+  baseline: SeoData;
+  candidate: SeoData;
+  issues: SeoIssue[];
+  overallSeverity: SeoSeverity;
+}
+
+/**
+ * Complete SEO comparison result
+ */
+export interface SeoResult {
+  pages: PageSeoResult[];
+  summary: {
+    totalPages: number;
+    pagesWithIssues: number;
+    totalIssues: number;
+    criticalIssues: number;
+    highIssues: number;
+    mediumIssues: number;
+    lowIssues: number;
+    issuesByCheck: Record<SeoCheck, number>;
+  };
+  artifactPaths: string[];
+}
+
+const SEVERITY_ORDER: SeoSeverity[] = ['none', 'low', 'medium', 'high', 'critical'];
+
+/**
+ * SeoAgent - Compares SEO signals between baseline and candidate pages
+ * Covers title, meta description, canonical, robots, hreflang, social cards, headings and JSON-LD
+ */
+export class SeoAgent {
+  private readonly artifactsDir: string;
+
+  constructor() {
+    this.artifactsDir = path.join(DATA_DIR, 'artifacts');
+  }
+
+  /**
+   * Extract SEO data from a loaded page
+   */
+  async extractSeoData(page: Page, url: string, normalizedPath: string): Promise<SeoData> {
+    const data = await page.evaluate(() => {
+      const attr = (selector: string, name: string) =>
+        document.querySelector(selector)?.getAttribute(name)?.trim() || undefined;
+
+      const collectMeta = (prefix: string, attribute: 'property' | 'name') => {
+        const values: Record<string, string> = {};
+        document.querySelectorAll(`meta[${attribute}^="${prefix}"]`).forEach((meta) => {
+          const key = meta.getAttribute(attribute);
+          const content = meta.getAttribute('content');
+          if (key && content !== null && !(key in values)) {
+            values[key] = content.trim();
+          }
+        });
+        return values;
+      };
+
+      const hreflang = Array.from(document.querySelectorAll('link[rel="alternate"][hreflang]')).map((link) => ({
+        lang: (link.getAttribute('hreflang') || '').toLowerCase(),
+        href: (link as HTMLLinkElement).href,
+      }));
+
+      const headings = Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6')).map((h) => ({
+        level: parseInt(h.tagName.charAt(1)),
+        text: h.textContent?.replace(/\s+/g, ' ').trim() || '',
+      }));
+
+      // Collect @type values from JSON-LD blocks, including @graph entries
+      const jsonLdTypes: string[] = [];
+      const collectTypes = (node: unknown) => {
+        if (Array.isArray(node)) {
+          node.forEach(collectTypes);
+          return;
+        }
+        if (!node || typeof node !== 'object') return;
+        const record = node as Record<string, unknown>;
+        const type = record['@type'];
+        if (typeof type === 'string') jsonLdTypes.push(type);
+        if (Array.isArray(type)) type.forEach((t) => typeof t === 'string' && jsonLdTypes.push(t));
+        if (record['@graph']) collectTypes(record['@graph']);
+      };
+      document.querySelectorAll('script[type="application/ld+json"]').forEach((script) => {
+        try {
+          collectTypes(JSON.parse(script.textContent || 'null'));
+        } catch {
+          // Ignore malformed JSON-LD blocks
+        }
+      });
+
+      const canonicalLink = document.querySelector('link[rel="canonical"]') as HTMLLinkElement | null;
+
+      return {
+        title: document.title?.trim() || undefined,
+        metaDescription: attr('meta[name="description"]', 'content'),
+        canonical: canonicalLink?.href || undefined,
+        robots: attr('meta[name="robots"]', 'content'),
+        hreflang,
+        openGraph: collectMeta('og:', 'property'),
+        twitter: collectMeta('twitter:', 'name'),
+        headings,
+        jsonLdTypes: Array.from(new Set(jsonLdTypes)).sort(),
+      };
+    });
+
+    return {
+      url,
+      normalizedPath,
+      ...data,
+    };
+  }
+
+  /**
+   * Compare SEO data between baseline and candidate
+   */
+  compareSeoData(baseline: SeoData, candidate: SeoData): SeoIssue[] {
+    const issues: SeoIssue[] = [];
+
+    // Title
+    if (baseline.title && !candidate.title) {
+      issues.push({
+        check: 'title',
+        field: 'title',
+        severity: 'high',
+        message: 'Title is missing on candidate',
+        baselineValue: baseline.title,
+      });
+    } else if (baseline.title !== candidate.title) {
+      issues.push({
+        check: 'title',
+        field: 'title',
+        severity: 'medium',
+        message: 'Title changed',
+        baselineValue: baseline.title,
+        candidateValue: candidate.title,
+      });
+    }
+
+    // Meta description
+    if (baseline.metaDescription && !candidate.metaDescription) {
+      issues.push({
+        check: 'metaDescription',
+        field: 'meta[name=description]',
+        severity: 'medium',
+        message: 'Meta description is missing on candidate',
+        baselineValue: baseline.metaDescription,
+      });
+    } else if (baseline.metaDescription !== candidate.metaDescription) {
+      issues.push({
+        check: 'metaDescription',
+        field: 'meta[name=description]',
+        severity: 'low',
+        message: 'Meta description changed',
+        baselineValue: baseline.metaDescription,
+        candidateValue: candidate.metaDescription,
+      });
+    }
+
+    // Canonical - hosts differ between sites, so compare the canonical path only
+    const baselineCanonical = this.canonicalPath(baseline.canonical);
+    const candidateCanonical = this.canonicalPath(candidate.canonical);
+    if (baselineCanonical && !candidateCanonical) {
+      issues.push({
+        check: 'canonical',
+        field: 'link[rel=canonical]',
+        severity: 'high',
+        message: 'Canonical link is missing on candidate',
+        baselineValue: baseline.canonical,
+      });
+    } else if (baselineCanonical !== candidateCanonical) {
+      issues.push({
+        check: 'canonical',
+        field: 'link[rel=canonical]',
+        severity: baselineCanonical ? 'high' : 'low',
+        message: baselineCanonical ? 'Canonical link points to a different path' : 'Canonical link added on candidate',
+        baselineValue: baseline.canonical,
+        candidateValue: candidate.canonical,
+      });
+    }
+
+    // Robots meta - newly introduced noindex/nofollow directives de-index pages at cutover
+    const baselineRobots = this.parseRobots(baseline.robots);
+    const candidateRobots = this.parseRobots(candidate.robots);
+    const addedBlocking = ['noindex', 'nofollow', 'none'].filter(
+      (directive) => candidateRobots.includes(directive) && !baselineRobots.includes(directive)
+    );
+    if (addedBlocking.length > 0) {
+      issues.push({
+        check: 'robots',
+        field: 'meta[name=robots]',
+        severity: 'critical',
+        message: `Candidate adds blocking robots directives: ${addedBlocking.join(', ')}`,
+        baselineValue: baseline.robots,
+        candidateValue: candidate.robots,
+      });
+    } else if (baselineRobots.join(',') !== candidateRobots.join(',')) {
+      issues.push({
+        check: 'robots',
+        field: 'meta[name=robots]',
+        severity: 'medium',
+        message: 'Robots directives changed',
+        baselineValue: baseline.robots,
+        candidateValue: candidate.robots,
+      });
+    }
+
+    // Hreflang
+    const candidateHreflang = new Map(candidate.hreflang.map((h) => [h.lang, h.href]));
+    const baselineLangs = new Set(baseline.hreflang.map((h) => h.lang));
+    for (const alternate of baseline.hreflang) {
+      const candidateHref = candidateHreflang.get(alternate.lang);
+      if (candidateHref === undefined) {
+        issues.push({
+          check: 'hreflang',
+          field: `hreflang[${alternate.lang}]`,
+          severity: 'medium',
+          message: `Hreflang alternate "${alternate.lang}" is missing on candidate`,
+          baselineValue: alternate.href,
+        });
+      } else if (this.canonicalPath(alternate.href) !== this.canonicalPath(candidateHref)) {
+        issues.push({
+          check: 'hreflang',
+          field: `hreflang[${alternate.lang}]`,
+          severity: 'low',
+          message: `Hreflang alternate "${alternate.lang}" points to a different path`,
+          baselineValue: alternate.href,
+          candidateValue: candidateHref,
+        });
+      }
+    }
+    for (const alternate of candidate.hreflang) {
+      if (!baselineLangs.has(alternate.lang)) {
+        issues.push({
+          check: 'hreflang',
+          field: `hreflang[${alternate.lang}]`,
+          severity: 'low',
+          message: `Hreflang alternate "${alternate.lang}" added on candidate`,
+          candidateValue: alternate.href,
+        });
+      }
+    }
+
+    // Open Graph and Twitter cards
+    issues.push(...this.compareSocialTags('openGraph', baseline.openGraph, candidate.openGraph));
+    issues.push(...this.compareSocialTags('twitterCard', baseline.twitter, candidate.twitter));
+
+    // Heading outline
+    const baselineH1 = baseline.headings.filter((h) => h.level === 1).map((h) => h.text);
+    const candidateH1 = candidate.headings.filter((h) => h.level === 1).map((h) => h.text);
+    if (baselineH1.length > 0 && candidateH1.length === 0) {
+      issues.push({
+        check: 'headings',
+        field: 'h1',
+        severity: 'medium',
+        message: 'H1 heading is missing on candidate',
+        baselineValue: baselineH1,
+      });
+    } else if (baselineH1.join('|') !== candidateH1.join('|')) {
+      issues.push({
+        check: 'headings',
+        field: 'h1',
+        severity: 'medium',
+        message: 'H1 heading changed',
+        baselineValue: baselineH1,
+        candidateValue: candidateH1,
+      });
+    }
+
+    const baselineOutline = baseline.headings.map((h) => `h${h.level}`).join(' ');
+    const candidateOutline = candidate.headings.map((h) => `h${h.level}`).join(' ');
+    if (baselineOutline !== candidateOutline) {
+      issues.push({
+        check: 'headings',
+        field: 'outline',
+        severity: 'low',
+        message: `Heading outline changed (${baseline.headings.length} vs ${candidate.headings.length} headings)`,
+        baselineValue: baselineOutline,
+        candidateValue: candidateOutline,
+      });
+    }
+
+    // JSON-LD types
+    const missingTypes = baseline.jsonLdTypes.filter((t) => !candidate.jsonLdTypes.includes(t));
+    const addedTypes = candidate.jsonLdTypes.filter((t) => !baseline.jsonLdTypes.includes(t));
+    if (missingTypes.length > 0) {
+      issues.push({
+        check: 'jsonLd',
+        field: 'application/ld+json',
+        severity: 'medium',
+        message: `Structured data types missing on candidate: ${missingTypes.join(', ')}`,
+        baselineValue: baseline.jsonLdTypes,
+        candidateValue: candidate.jsonLdTypes,
+      });
+    }
+    if (addedTypes.length > 0) {
+      issues.push({
+        check: 'jsonLd',
+        field: 'application/ld+json',
+        severity: 'low',
+        message: `Structured data types added on candidate: ${addedTypes.join(', ')}`,
+        baselineValue: baseline.jsonLdTypes,
+        candidateValue: candidate.jsonLdTypes,
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Compare a family of social meta tags (og:*, twitter:*)
+   */
+  private compareSocialTags(
+    check: 'openGraph' | 'twitterCard',
+    baseline: Record<string, string>,
+    candidate: Record<string, string>
+  ): SeoIssue[] {
+    const issues: SeoIssue[] = [];
+    const allKeys = new Set([...Object.keys(baseline), ...Object.keys(candidate)]);
+
+    for (const key of allKeys) {
+      const baselineValue = baseline[key];
+      const candidateValue = candidate[key];
+
+      // URL-valued tags legitimately differ by host, compare their paths instead
+      const isUrlTag = /(:url|:image)$/.test(key);
+      const normalize = (value?: string) => (isUrlTag ? this.canonicalPath(value) : value);
+
+      if (baselineValue !== undefined && candidateValue === undefined) {
+        issues.push({
+          check,
+          field: key,
+          severity: 'low',
+          message: `${key} is missing on candidate`,
+          baselineValue,
+        });
+      } else if (baselineValue !== undefined && normalize(baselineValue) !== normalize(candidateValue)) {
+        issues.push({
+          check,
+          field: key,
+          severity: 'low',
+          message: `${key} changed`,
+          baselineValue,
+          candidateValue,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Reduce a URL to its path + query so values can be compared across hosts
+   */
+  private canonicalPath(url?: string): string | undefined {
+    if (!url) return undefined;
+    try {
+      const urlObj = new URL(url);
+      const pathname = urlObj.pathname.replace(/\/$/, '') || '/';
+      return `${pathname}${urlObj.search}`;
+    } catch {
+      return url;
+    }
+  }
+
+  /**
+   * Parse robots meta content into a sorted list of directives
+   */
+  private parseRobots(robots?: string): string[] {
+    if (!robots) return [];
+    return robots
+      .toLowerCase()
+      .split(',')
+      .map((d) => d.trim())
+      .filter(Boolean)
+      .sort();
+  }
+
+  /**
+   * Get overall severity from a list of issues
+   */
+  private getOverallSeverity(issues: SeoIssue[]): SeoSeverity {
+    return issues.reduce<SeoSeverity>(
+      (max, issue) => (SEVERITY_ORDER.indexOf(issue.severity) > SEVERITY_ORDER.indexOf(max) ? issue.severity : max),
+      'none'
+    );
+  }
+
+  /**
+   * Generate summary statistics
+   */
+  private generateSummary(pages: PageSeoResult[]): SeoResult['summary'] {
+    const issuesByCheck: Record<SeoCheck, number> = {
+      title: 0,
+      metaDescription: 0,
+      canonical: 0,
+      robots: 0,
+      hreflang: 0,
+      openGraph: 0,
+      twitterCard: 0,
+      headings: 0,
+      jsonLd: 0,
+    };
+    const severityCounts: Record<SeoSeverity, number> = {
+      none: 0,
+      low: 0,
+      medium: 0,
+      high: 0,
+      critical: 0,
+    };
+
+    for (const page of pages) {
+      for (const issue of page.issues) {
+        issuesByCheck[issue.check]++;
+        severityCounts[issue.severity]++;
+      }
+    }
+
+    return {
+      totalPages: pages.length,
+      pagesWithIssues: pages.filter((p) => p.issues.length > 0).length,
+      totalIssues: pages.reduce((sum, p) => sum + p.issues.length, 0),
+      criticalIssues: severityCounts.critical,
+      highIssues: severityCounts.high,
+      mediumIssues: severityCounts.medium,
+      lowIssues: severityCounts.low,
+      issuesByCheck,
+    };
+  }
+
+  /**
+   * Execute SEO comparison with browser contexts
+   */
+  async executeSeoCheckWithContexts(
+    baselineContext: BrowserContext,
+    candidateContext: BrowserContext,
+    matchedPages: MatchedPage[],
+    baselineUrl: string,
+    candidateUrl: string,
+    runId: string
+  ): Promise<SeoResult> {
+    const pageResults: PageSeoResult[] = [];
+
+    for (const matchedPage of matchedPages) {
+      // Extract from baseline
+      const baselinePage = await baselineContext.newPage();
+      let baselineData: SeoData;
+      try {
+        await baselinePage.goto(matchedPage.baseline.url, { waitUntil: 'networkidle' });
+        baselineData = await this.extractSeoData(baselinePage, matchedPage.baseline.url, matchedPage.baseline.normalizedPath);
+      } finally {
+        await baselinePage.close();
+      }
+
+      // Extract from candidate
+      const candidatePage = await candidateContext.newPage();
+      let candidateData: SeoData;
+      try {
+        await candidatePage.goto(matchedPage.candidate.url, { waitUntil: 'networkidle' });
+        candidateData = await this.extractSeoData(candidatePage, matchedPage.candidate.url, matchedPage.candidate.normalizedPath);
+      } finally {
+        await candidatePage.close();
+      }
+
+      const issues = this.compareSeoData(baselineData, candidateData);
+
+      pageResults.push({
+        normalizedPath: matchedPage.baseline.normalizedPath,
+        baselineUrl: matchedPage.baseline.url,
+        candidateUrl: matchedPage.candidate.url,
+        baseline: baselineData,
+        candidate: candidateData,
+        issues,
+        overallSeverity: this.getOverallSeverity(issues),
+      });
+    }
+
+    // Save results
+    const resultsPath = path.join(this.artifactsDir, runId, 'seo-results.json');
+    await fs.mkdir(path.dirname(resultsPath), { recursive: true });
+
+    const result: SeoResult = {
+      pages: pageResults,
+      summary: this.generateSummary(pageResults),
+      artifactPaths: [resultsPath],
+    };
+
+    await fs.writeFile(resultsPath, JSON.stringify(result, null, 2));
+
+    return result;
+  }
+}
@@ -0,0 +1,110 @@
+import { Page } from 'playwright';
+
+/**
+ * Client-side route revealed by interacting with a page
+ */
+export interface SpaRoute {
+  url: string; // Absolute URL of the route
+  fromUrl: string; // Page the interaction happened on
+  interaction: string; // What was done to reveal it, e.g. 'click button "Pricing"'
+  method: 'pushState' | 'replaceState' | 'navigation';
+}
+
+/**
+ * Clicks tried per page when the crawl config sets no limit
+ */
+export const DEFAULT_SPA_MAX_INTERACTIONS = 20;
+
+/**
+ * Elements that look like navigation without being plain links
+ */
+export const SPA_NAVIGATION_SELECTOR = '[role="link"]:not([href]), nav button, [role="navigation"] button';
+
+interface RouteWindow {
+  __migrateGuardRoutes?: Array<{ url: string; method: 'pushState' | 'replaceState' }>;
+}
+
+/**
+ * Init script that records history.pushState/replaceState calls in window.__migrateGuardRoutes
+ */
+export function installRouteHook(): void {
+  const routeWindow = window as unknown as RouteWindow;
+  if (routeWindow.__migrateGuardRoutes) return;
+  routeWindow.__migrateGuardRoutes = [];
+
+  for (const method of ['pushState', 'replaceState'] as const) {
+    const original = history[method];
+    history[method] = function (this: History, ...args: Parameters<History['pushState']>) {
+      const result = original.apply(this, args);
+      routeWindow.__migrateGuardRoutes?.push({ url: location.href, method });
+      return result;
+    };
+  }
+}
+
+/**
+ * Click each navigation-like element on a loaded page and record the routes it reveals
+ * The page is reloaded after every click that changed its URL, so it ends on the page it started on.
+ * Needs installRouteHook as an init script to see pushState/replaceState routes.
+ */
+export async function discoverSpaRoutes(
+  page: Page,
+  maxInteractions: number = DEFAULT_SPA_MAX_INTERACTIONS,
+  log?: (message: string) => void
+): Promise<SpaRoute[]> {
+  const fromUrl = page.url();
+  const candidates = await page.$$eval(
+    SPA_NAVIGATION_SELECTOR,
+    (elements, max) =>
+      elements
+        .map((element, index) => ({ element: element as HTMLElement, index }))
+        .filter(({ element }) => {
+          const box = element.getBoundingClientRect();
+          return box.width > 0 && box.height > 0 && !element.closest('form') && !element.hasAttribute('disabled');
+        })
+        .slice(0, max)
+        .map(({ element, index }) => {
+          const text = (element.getAttribute('aria-label') || element.innerText || '').replace(/\s+/g, ' ').trim();
+          const role = element.getAttribute('role') || element.tagName.toLowerCase();
+          return { index, description: `${role} "${text.slice(0, 60)}"` };
+        }),
+    maxInteractions
+  );
+
+  const routes: SpaRoute[] = [];
+  const seen = new Set<string>([fromUrl]);
+
+  for (const candidate of candidates) {
+    const interaction = `click ${candidate.description}`;
+    try {
+      await page.evaluate(() => {
+        const routeWindow = window as unknown as RouteWindow;
+        if (routeWindow.__migrateGuardRoutes) routeWindow.__migrateGuardRoutes = [];
+      });
+      await page.locator(SPA_NAVIGATION_SELECTOR).nth(candidate.index).click({ timeout: 2000 });
+      await page.waitForLoadState('networkidle', { timeout: 5000 }).catch(() => undefined);
+
+      const pushed = await page
+        .evaluate(() => (window as unknown as RouteWindow).__migrateGuardRoutes ?? [])
+        .catch(() => []);
+      const currentUrl = page.url();
+      // A full navigation replaces the document, and with it the recorded history calls
+      const changes: Array<Pick<SpaRoute, 'url' | 'method'>> =
+        pushed.length > 0 ? pushed : currentUrl !== fromUrl ? [{ url: currentUrl, method: 'navigation' }] : [];
+
+      for (const change of changes) {
+        if (seen.has(change.url)) continue;
+        seen.add(change.url);
+        routes.push({ url: change.url, fromUrl, interaction, method: change.method });
+      }
+
+      if (currentUrl !== fromUrl) {
+        await page.goto(fromUrl, { waitUntil: 'networkidle', timeout: 30000 });
+      }
+    } catch (error) {
+      log?.(`SPA interaction failed on ${fromUrl} (${interaction}): ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return routes;
+}
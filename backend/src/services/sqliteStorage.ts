@@ -0,0 +1,355 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import path from 'path';
+import { SQLITE_FILE } from '../config/config';
+import { ComparisonJob, Job, Run, RunArtifact, StoragePort, StorageSnapshot, VisualApproval } from '../models';
+
+const CURRENT_VERSION = '2.0';
+
+/**
+ * Schema migrations, applied in order and recorded in the `migrations` table
+ */
+const MIGRATIONS: Array<{ id: number; name: string; sql: string }> = [
+  {
+    id: 1,
+    name: 'initial-schema',
+    sql: `
+      CREATE TABLE comparison_jobs (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        baseline_url TEXT NOT NULL,
+        candidate_url TEXT NOT NULL,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+
+      CREATE TABLE legacy_jobs (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+
+      CREATE TABLE runs (
+        id TEXT PRIMARY KEY,
+        job_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        triggered_at TEXT NOT NULL,
+        completed_at TEXT,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_runs_job_id ON runs (job_id);
+      CREATE INDEX idx_runs_status ON runs (status);
+
+      CREATE TABLE artifacts (
+        id TEXT PRIMARY KEY,
+        run_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        label TEXT NOT NULL,
+        path TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_artifacts_run_id ON artifacts (run_id);
+
+      CREATE TABLE metadata (
+        id TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    id: 2,
+    name: 'visual-approvals',
+    sql: `
+      CREATE TABLE visual_approvals (
+        id TEXT PRIMARY KEY,
+        job_id TEXT NOT NULL,
+        normalized_path TEXT NOT NULL,
+        viewport TEXT NOT NULL,
+        approved_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_visual_approvals_job_id ON visual_approvals (job_id);
+    `,
+  },
+];
+
+type Row = Record<string, string | null>;
+
+const COMPARISON_JOB_COLUMNS = ['id', 'name', 'baseline_url', 'candidate_url', 'status', 'created_at', 'updated_at', 'data'];
+const RUN_COLUMNS = ['id', 'job_id', 'status', 'triggered_at', 'completed_at', 'data'];
+const ARTIFACT_COLUMNS = ['id', 'run_id', 'type', 'label', 'path', 'created_at'];
+
+function comparisonJobRow(job: ComparisonJob): Row {
+  return {
+    id: job.id,
+    name: job.name,
+    baseline_url: job.baselineUrl,
+    candidate_url: job.candidateUrl,
+    status: job.status,
+    created_at: job.createdAt,
+    updated_at: job.updatedAt,
+    data: JSON.stringify(job),
+  };
+}
+
+function runRow(run: Run): Row {
+  return {
+    id: run.id,
+    job_id: run.jobId,
+    status: run.status,
+    triggered_at: run.triggeredAt,
+    completed_at: run.completedAt ?? null,
+    data: JSON.stringify(run),
+  };
+}
+
+function artifactRow(artifact: RunArtifact): Row {
+  return {
+    id: artifact.id,
+    run_id: artifact.runId,
+    type: artifact.type,
+    label: artifact.label,
+    path: artifact.path,
+    created_at: artifact.createdAt,
+  };
+}
+
+/**
+ * Upsert that only touches rows whose columns actually changed
+ */
+function upsertSql(table: string, columns: string[]): string {
+  const updated = columns.filter((c) => c !== 'id');
+  return `
+    INSERT INTO ${table} (${columns.join(', ')})
+    VALUES (${columns.map((c) => `@${c}`).join(', ')})
+    ON CONFLICT (id) DO UPDATE SET ${updated.map((c) => `${c} = excluded.${c}`).join(', ')}
+    WHERE (${updated.map((c) => `${table}.${c}`).join(', ')}) IS NOT (${updated.map((c) => `excluded.${c}`).join(', ')})
+  `;
+}
+
+/**
+ * SqliteStorage - StoragePort backed by a SQLite database
+ * Each entity lives in its own table; save() only writes rows that changed and
+ * update() runs inside a single transaction so concurrent writers never lose updates.
+ * The row-level writes (runs, artifacts, jobs) read and write a single row, so their cost
+ * doesn't grow with the number of stored runs and artifacts.
+ */
+export class SqliteStorage implements StoragePort {
+  private readonly db: Database.Database;
+  private readonly statements = new Map<string, Database.Statement>();
+
+  constructor(filePath: string = SQLITE_FILE) {
+    if (filePath !== ':memory:') {
+      mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.migrate();
+  }
+
+  async load(): Promise<StorageSnapshot> {
+    return this.db.transaction(() => this.read())();
+  }
+
+  async save(snapshot: StorageSnapshot): Promise<void> {
+    this.db.transaction(() => this.write(snapshot)).immediate();
+  }
+
+  async update(mutator: (snapshot: StorageSnapshot) => StorageSnapshot): Promise<StorageSnapshot> {
+    return this.db
+      .transaction(() => {
+        const next = mutator(this.read());
+        this.write(next);
+        return next;
+      })
+      .immediate();
+  }
+
+  async addRun(run: Run): Promise<void> {
+    this.statement(upsertSql('runs', RUN_COLUMNS)).run(runRow(run));
+  }
+
+  async updateRun(runId: string, mutator: (run: Run) => Run): Promise<Run | undefined> {
+    return this.db
+      .transaction(() => {
+        const row = this.statement('SELECT data FROM runs WHERE id = ?').get(runId) as { data: string } | undefined;
+        if (!row) return undefined;
+        const run = mutator(JSON.parse(row.data) as Run);
+        this.statement(upsertSql('runs', RUN_COLUMNS)).run(runRow(run));
+        return run;
+      })
+      .immediate();
+  }
+
+  async addArtifacts(artifacts: RunArtifact[]): Promise<void> {
+    const upsert = this.statement(upsertSql('artifacts', ARTIFACT_COLUMNS));
+    this.db
+      .transaction(() => {
+        for (const artifact of artifacts) {
+          upsert.run(artifactRow(artifact));
+        }
+      })
+      .immediate();
+  }
+
+  async updateComparisonJob(
+    id: string,
+    mutator: (job: ComparisonJob) => ComparisonJob
+  ): Promise<ComparisonJob | undefined> {
+    return this.db
+      .transaction(() => {
+        const row = this.statement('SELECT data FROM comparison_jobs WHERE id = ?').get(id) as
+          | { data: string }
+          | undefined;
+        if (!row) return undefined;
+        const job = mutator(JSON.parse(row.data) as ComparisonJob);
+        this.statement(upsertSql('comparison_jobs', COMPARISON_JOB_COLUMNS)).run(comparisonJobRow(job));
+        return job;
+      })
+      .immediate();
+  }
+
+  /**
+   * Whether the database holds no jobs, runs, artifacts or approvals
+   */
+  async isEmpty(): Promise<boolean> {
+    const { count } = this.db
+      .prepare(
+        `SELECT (SELECT COUNT(*) FROM comparison_jobs) + (SELECT COUNT(*) FROM legacy_jobs)
+              + (SELECT COUNT(*) FROM runs) + (SELECT COUNT(*) FROM artifacts)
+              + (SELECT COUNT(*) FROM visual_approvals) AS count`
+      )
+      .get() as { count: number };
+    return count === 0;
+  }
+
+  /**
+   * Names of the schema migrations applied to this database
+   */
+  appliedMigrations(): string[] {
+    return (this.db.prepare('SELECT name FROM migrations ORDER BY id').all() as Array<{ name: string }>).map(
+      (row) => row.name
+    );
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS migrations (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
+    `);
+
+    const applied = new Set(
+      (this.db.prepare('SELECT id FROM migrations').all() as Array<{ id: number }>).map((row) => row.id)
+    );
+    const record = this.db.prepare('INSERT INTO migrations (id, name, applied_at) VALUES (?, ?, ?)');
+
+    for (const migration of MIGRATIONS) {
+      if (applied.has(migration.id)) continue;
+      this.db.transaction(() => {
+        this.db.exec(migration.sql);
+        record.run(migration.id, migration.name, new Date().toISOString());
+      })();
+    }
+  }
+
+  private read(): StorageSnapshot {
+    const parse = <T>(rows: unknown[]): T[] => (rows as Array<{ data: string }>).map((row) => JSON.parse(row.data) as T);
+
+    const comparisonJobs = parse<ComparisonJob>(
+      this.statement('SELECT data FROM comparison_jobs ORDER BY created_at, rowid').all()
+    );
+    const jobs = parse<Job>(this.statement('SELECT data FROM legacy_jobs ORDER BY created_at, rowid').all());
+    // Newest first, matching the order runs are prepended in the snapshot
+    const runs = parse<Run>(this.statement('SELECT data FROM runs ORDER BY triggered_at DESC, rowid DESC').all());
+    const artifacts = this
+      .statement('SELECT id, run_id AS runId, type, label, path, created_at AS createdAt FROM artifacts ORDER BY rowid')
+      .all() as RunArtifact[];
+    const approvals = parse<VisualApproval>(
+      this.statement('SELECT data FROM visual_approvals ORDER BY approved_at, rowid').all()
+    );
+
+    const metadata = Object.fromEntries(
+      (this.statement('SELECT id, value FROM metadata').all() as Array<{ id: string; value: string }>).map(
+        (row) => [row.id, row.value]
+      )
+    );
+
+    return {
+      version: CURRENT_VERSION,
+      jobs,
+      comparisonJobs,
+      runs,
+      artifacts,
+      approvals,
+      metadata,
+    };
+  }
+
+  private write(snapshot: StorageSnapshot): void {
+    this.syncTable('comparison_jobs', COMPARISON_JOB_COLUMNS, (snapshot.comparisonJobs ?? []).map(comparisonJobRow));
+
+    this.syncTable(
+      'legacy_jobs',
+      ['id', 'created_at', 'data'],
+      (snapshot.jobs ?? []).map((job) => ({ id: job.id, created_at: job.createdAt, data: JSON.stringify(job) }))
+    );
+
+    this.syncTable('runs', RUN_COLUMNS, snapshot.runs.map(runRow));
+
+    this.syncTable('artifacts', ARTIFACT_COLUMNS, snapshot.artifacts.map(artifactRow));
+
+    this.syncTable(
+      'visual_approvals',
+      ['id', 'job_id', 'normalized_path', 'viewport', 'approved_at', 'data'],
+      (snapshot.approvals ?? []).map((approval) => ({
+        id: approval.id,
+        job_id: approval.jobId,
+        normalized_path: approval.normalizedPath,
+        viewport: approval.viewport,
+        approved_at: approval.approvedAt,
+        data: JSON.stringify(approval),
+      }))
+    );
+
+    const metadata = Object.entries(snapshot.metadata ?? {}).filter(([, value]) => value !== undefined);
+    this.syncTable(
+      'metadata',
+      ['id', 'value'],
+      metadata.map(([key, value]) => ({ id: key, value: String(value) }))
+    );
+  }
+
+  /**
+   * Make a table hold exactly the given rows
+   */
+  private syncTable(table: string, columns: string[], rows: Row[]): void {
+    const upsert = this.statement(upsertSql(table, columns));
+    for (const row of rows) {
+      upsert.run(row);
+    }
+
+    this.statement(`DELETE FROM ${table} WHERE id NOT IN (SELECT value FROM json_each(?))`).run(
+      JSON.stringify(rows.map((row) => row.id))
+    );
+  }
+
+  private statement(sql: string): Database.Statement {
+    let statement = this.statements.get(sql);
+    if (!statement) {
+      statement = this.db.prepare(sql);
+      this.statements.set(sql, statement);
+    }
+    return statement;
+  }
+}
@@ -0,0 +1,11 @@
+import { STORAGE_DRIVER } from '../config/config';
+import { StoragePort } from '../models';
+import { FileStorage } from './fileStorage';
+import { SqliteStorage } from './sqliteStorage';
+
+/**
+ * Create the storage adapter selected by STORAGE_DRIVER ('file' or 'sqlite')
+ */
+export function createStorage(driver: 'file' | 'sqlite' = STORAGE_DRIVER): StoragePort {
+  return driver === 'sqlite' ? new SqliteStorage() : new FileStorage();
+}
@@ -0,0 +1,232 @@
+import { BrowserContext } from 'playwright';
+import { NetworkPreset, NetworkProfile, ThrottlingConfig } from '../models';
+import { MatchedPage } from './crawlAgent';
+import { SiteExecutionResult } from './playwrightExecutionService';
+
+/**
+ * Connection figures per preset
+ * Slow/Fast 3G match Chrome DevTools (latency already includes its RTT multiplier); 4G matches WebPageTest.
+ */
+export const NETWORK_PRESETS: Record<NetworkPreset, { latencyMs: number; downloadKbps: number; uploadKbps: number }> = {
+  'slow-3g': { latencyMs: 2000, downloadKbps: 400, uploadKbps: 400 },
+  'fast-3g': { latencyMs: 563, downloadKbps: 1440, uploadKbps: 675 },
+  '4g': { latencyMs: 170, downloadKbps: 9000, uploadKbps: 9000 },
+};
+
+/**
+ * Throttled loads may take far longer than a normal navigation
+ */
+const THROTTLED_LOAD_TIMEOUT_MS = 120000;
+
+/**
+ * Candidate loads slower than this (and 50% slower than the baseline) are flagged
+ */
+const SLOWDOWN_THRESHOLD_MS = 1000;
+
+/**
+ * Network profile with every value filled in; undefined throughput means unthrottled
+ */
+export interface ThrottleProfile {
+  name: string;
+  latencyMs: number;
+  downloadKbps?: number;
+  uploadKbps?: number;
+  cpuSlowdown: number;
+}
+
+/**
+ * Navigation timing of one cold page load, in ms from navigation start
+ */
+export interface LoadMetrics {
+  ttfbMs: number;
+  domContentLoadedMs: number;
+  loadMs: number;
+  firstContentfulPaintMs?: number;
+  transferBytes: number; // Document plus subresources, as reported by Resource Timing
+  requestCount: number;
+}
+
+/**
+ * Load of a page under one throttle profile
+ */
+export interface ThrottledLoad {
+  profile: string;
+  metrics?: LoadMetrics;
+  error?: string;
+}
+
+/**
+ * Baseline vs candidate load of one matched page under a profile
+ */
+export interface ThrottledPageComparison {
+  normalizedPath: string;
+  baseline?: LoadMetrics;
+  candidate?: LoadMetrics;
+  loadDeltaMs?: number; // Positive when the candidate is slower
+  slower: boolean; // Candidate exceeds the slowdown threshold
+}
+
+/**
+ * All matched pages compared under one profile
+ */
+export interface ThrottlingComparison {
+  profile: string;
+  latencyMs: number;
+  downloadKbps?: number;
+  uploadKbps?: number;
+  cpuSlowdown: number;
+  pages: ThrottledPageComparison[];
+  baselineAverageLoadMs?: number;
+  candidateAverageLoadMs?: number;
+  slowerPages: number;
+}
+
+/**
+ * Fill network profiles in from their presets and attach the CPU slowdown
+ * A CPU slowdown without network profiles is measured on an unthrottled connection.
+ */
+export function resolveThrottleProfiles(config: ThrottlingConfig | undefined): ThrottleProfile[] {
+  const cpuSlowdown = config?.cpuSlowdown ?? 1;
+  const networkProfiles = config?.networkProfiles ?? [];
+
+  if (networkProfiles.length === 0) {
+    return cpuSlowdown > 1 ? [{ name: `cpu-${cpuSlowdown}x`, latencyMs: 0, cpuSlowdown }] : [];
+  }
+
+  return networkProfiles.map((profile) => {
+    const preset = profile.preset ? NETWORK_PRESETS[profile.preset] : undefined;
+    return {
+      name: profile.name,
+      latencyMs: profile.latencyMs ?? preset?.latencyMs ?? 0,
+      downloadKbps: profile.downloadKbps ?? preset?.downloadKbps,
+      uploadKbps: profile.uploadKbps ?? preset?.uploadKbps,
+      cpuSlowdown,
+    };
+  });
+}
+
+/**
+ * Check a job's throttling config; throws on duplicate names or profiles that throttle nothing
+ */
+export function validateThrottling(config: ThrottlingConfig): ThrottlingConfig {
+  const names = new Set<string>();
+  (config.networkProfiles ?? []).forEach((profile: NetworkProfile, index) => {
+    if (names.has(profile.name)) {
+      throw new Error(`Invalid throttling: duplicate network profile "${profile.name}"`);
+    }
+    names.add(profile.name);
+    if (!profile.preset && profile.latencyMs === undefined && profile.downloadKbps === undefined && profile.uploadKbps === undefined) {
+      throw new Error(`Invalid throttling: network profile ${index + 1} needs a preset or latency/throughput values`);
+    }
+  });
+  return config;
+}
+
+/**
+ * kbit/s to the bytes/s CDP expects; -1 disables throughput throttling
+ */
+function toBytesPerSecond(kbps: number | undefined): number {
+  return kbps === undefined ? -1 : (kbps * 1000) / 8;
+}
+
+/**
+ * Load a URL with a cold cache in a fresh page of the context, throttled through CDP
+ * Errors are returned with the load rather than thrown so one slow page doesn't stop the others.
+ */
+export async function measureThrottledLoad(
+  context: BrowserContext,
+  url: string,
+  profile: ThrottleProfile
+): Promise<ThrottledLoad> {
+  const page = await context.newPage();
+  try {
+    const cdp = await context.newCDPSession(page);
+    await cdp.send('Network.enable');
+    await cdp.send('Network.setCacheDisabled', { cacheDisabled: true });
+    await cdp.send('Network.emulateNetworkConditions', {
+      offline: false,
+      latency: profile.latencyMs,
+      downloadThroughput: toBytesPerSecond(profile.downloadKbps),
+      uploadThroughput: toBytesPerSecond(profile.uploadKbps),
+    });
+    if (profile.cpuSlowdown > 1) {
+      await cdp.send('Emulation.setCPUThrottlingRate', { rate: profile.cpuSlowdown });
+    }
+
+    const response = await page.goto(url, { waitUntil: 'load', timeout: THROTTLED_LOAD_TIMEOUT_MS });
+    if (!response || response.status() >= 400) {
+      return { profile: profile.name, error: `Page load failed: ${response?.status() || 'No response'}` };
+    }
+
+    const metrics = await page.evaluate((): LoadMetrics => {
+      const [navigation] = performance.getEntriesByType('navigation') as PerformanceNavigationTiming[];
+      const resources = performance.getEntriesByType('resource') as PerformanceResourceTiming[];
+      const paint = performance.getEntriesByName('first-contentful-paint')[0];
+      return {
+        ttfbMs: Math.round(navigation?.responseStart ?? 0),
+        domContentLoadedMs: Math.round(navigation?.domContentLoadedEventEnd ?? 0),
+        loadMs: Math.round(navigation?.loadEventEnd || performance.now()),
+        firstContentfulPaintMs: paint ? Math.round(paint.startTime) : undefined,
+        transferBytes: (navigation?.transferSize ?? 0) + resources.reduce((sum, entry) => sum + entry.transferSize, 0),
+        requestCount: resources.length + 1,
+      };
+    });
+    return { profile: profile.name, metrics };
+  } catch (error) {
+    return { profile: profile.name, error: error instanceof Error ? error.message : String(error) };
+  } finally {
+    await page.close().catch(() => undefined);
+  }
+}
+
+function average(values: number[]): number | undefined {
+  return values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : undefined;
+}
+
+/**
+ * Compare baseline and candidate throttled loads of every matched page, per profile
+ */
+export function compareThrottledLoads(
+  baselineResult: SiteExecutionResult,
+  candidateResult: SiteExecutionResult,
+  matchedPages: MatchedPage[],
+  profiles: ThrottleProfile[]
+): ThrottlingComparison[] {
+  const baselineByPath = new Map(baselineResult.pages.map((page) => [page.normalizedPath, page]));
+  const candidateByPath = new Map(candidateResult.pages.map((page) => [page.normalizedPath, page]));
+
+  return profiles.map((profile) => {
+    const pages: ThrottledPageComparison[] = matchedPages.map((matched) => {
+      const baseline = baselineByPath
+        .get(matched.baseline.normalizedPath)
+        ?.throttledLoads?.find((load) => load.profile === profile.name)?.metrics;
+      const candidate = candidateByPath
+        .get(matched.candidate.normalizedPath)
+        ?.throttledLoads?.find((load) => load.profile === profile.name)?.metrics;
+      const loadDeltaMs = baseline && candidate ? candidate.loadMs - baseline.loadMs : undefined;
+
+      return {
+        normalizedPath: matched.baseline.normalizedPath,
+        baseline,
+        candidate,
+        loadDeltaMs,
+        slower:
+          loadDeltaMs !== undefined &&
+          loadDeltaMs > SLOWDOWN_THRESHOLD_MS &&
+          candidate!.loadMs > baseline!.loadMs * 1.5,
+      };
+    });
+
+    return {
+      profile: profile.name,
+      latencyMs: profile.latencyMs,
+      downloadKbps: profile.downloadKbps,
+      uploadKbps: profile.uploadKbps,
+      cpuSlowdown: profile.cpuSlowdown,
+      pages,
+      baselineAverageLoadMs: average(pages.flatMap((page) => (page.baseline ? [page.baseline.loadMs] : []))),
+      candidateAverageLoadMs: average(pages.flatMap((page) => (page.candidate ? [page.candidate.loadMs] : []))),
+      slowerPages: pages.filter((page) => page.slower).length,
+    };
+  });
+}
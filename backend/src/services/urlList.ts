@@ -0,0 +1,79 @@
+import { UrlNormalizationPolicy } from '../models';
+import { normalizeUrlWithPolicy, pathOfNormalizedUrl } from './urlNormalization';
+
+/**
+ * Uploaded URL lists are capped so a single job can't queue an unbounded crawl
+ */
+export const MAX_URL_LIST_SIZE = 10000;
+
+/**
+ * One non-empty entry of an uploaded list, with its 1-based line number
+ */
+export interface UrlListEntry {
+  line: number;
+  value: string;
+}
+
+/**
+ * Outcome of importing a URL list for a job
+ */
+export interface UrlListImport {
+  paths: string[]; // Deduplicated baseline paths, in upload order
+  duplicates: number; // Entries dropped because the same path came earlier
+  excluded: string[]; // Paths dropped by the crawl config's includePaths/excludePaths
+  invalid: Array<UrlListEntry & { reason: string }>;
+}
+
+/**
+ * Header cells recognised on the first row of a CSV export
+ */
+const HEADER_CELL = /^(urls?|paths?|pages?|page paths?|landing pages?|address|loc)$/i;
+
+function firstCsvCell(line: string): string {
+  if (!line.startsWith('"')) {
+    return line.split(/[,;\t]/)[0].trim();
+  }
+  // Quoted cell; "" is an escaped quote
+  const match = /^"((?:[^"]|"")*)"/.exec(line);
+  return (match ? match[1] : line.slice(1)).replace(/""/g, '"').trim();
+}
+
+/**
+ * Read the entries of a TXT list (one per line) or a CSV export (first column, optional header row)
+ * Blank lines and lines starting with '#' are ignored.
+ */
+export function parseUrlListEntries(content: string, format: 'csv' | 'txt'): UrlListEntry[] {
+  const entries: UrlListEntry[] = [];
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const value = format === 'csv' ? firstCsvCell(line) : line;
+    if (format === 'csv' && entries.length === 0 && HEADER_CELL.test(value)) return;
+    if (value) entries.push({ line: index + 1, value });
+  });
+
+  return entries;
+}
+
+/**
+ * Turn a list entry into a baseline path with the normalization policy the crawler applies to pages
+ * Throws with the reason when unusable.
+ */
+export function toBaselinePath(value: string, baselineUrl: string, policy?: UrlNormalizationPolicy): string {
+  const base = new URL(baselineUrl);
+  let url: URL;
+
+  if (value.startsWith('/') || /^https?:\/\//i.test(value)) {
+    url = new URL(value, base);
+  } else {
+    throw new Error('not a path or http(s) URL');
+  }
+
+  if (url.host !== base.host) {
+    throw new Error(`host ${url.host} is not the baseline site ${base.host}`);
+  }
+
+  return pathOfNormalizedUrl(normalizeUrlWithPolicy(url.href, baselineUrl, policy));
+}
@@ -0,0 +1,97 @@
+import { createHash } from 'crypto';
+import { UrlNormalizationPolicy } from '../models';
+
+/**
+ * Campaign and click-tracking parameters dropped from kept query strings
+ */
+const TRACKING_PARAMS = [
+  /^utm_/i,
+  /^(gclid|gbraid|wbraid|dclid|fbclid|msclkid|yclid|twclid|igshid|mc_cid|mc_eid|_ga|_gl|_hsenc|_hsmi|mkt_tok)$/i,
+];
+
+/**
+ * Directory index files collapsed onto their directory
+ */
+const INDEX_FILE = /\/(index|default)\.(html?|php|aspx?|jsp)$/i;
+
+export function isTrackingParam(name: string): boolean {
+  return TRACKING_PARAMS.some((pattern) => pattern.test(name));
+}
+
+function normalizeQuery(params: URLSearchParams, policy: UrlNormalizationPolicy): string {
+  const significant = new Set(policy.significantParams ?? []);
+  const stripTracking = policy.stripTrackingParams ?? true;
+
+  const kept = [...params].filter(
+    ([name]) => significant.has(name) || (policy.queryParams === 'keep' && !(stripTracking && isTrackingParam(name)))
+  );
+  if (kept.length === 0) return '';
+
+  // Parameter order doesn't change the page; values of a repeated parameter keep their order
+  kept.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `?${new URLSearchParams(kept).toString()}`;
+}
+
+function applyTrailingSlash(pathname: string, mode: NonNullable<UrlNormalizationPolicy['trailingSlash']>): string {
+  if (mode === 'strip') return pathname.replace(/\/+$/, '');
+  // Paths ending in a file name keep their form
+  if (mode === 'add' && !pathname.endsWith('/') && !/\.[a-z0-9]+$/i.test(pathname)) return `${pathname}/`;
+  return pathname;
+}
+
+/**
+ * Normalize a URL with a job's policy
+ * The default policy drops query strings, fragments and trailing slashes (the root becomes 'https://host').
+ * Throws when the URL can't be parsed.
+ */
+export function normalizeUrlWithPolicy(url: string, baseUrl: string, policy: UrlNormalizationPolicy = {}): string {
+  const parsed = new URL(url, baseUrl);
+
+  let pathname = parsed.pathname;
+  if (policy.collapseIndexFiles) pathname = pathname.replace(INDEX_FILE, '/');
+  if (policy.caseInsensitivePaths) pathname = pathname.toLowerCase();
+  pathname = applyTrailingSlash(pathname, policy.trailingSlash ?? 'strip');
+
+  const search = normalizeQuery(parsed.searchParams, policy);
+  const hash = policy.stripFragments === false ? parsed.hash : '';
+  return `${parsed.protocol}//${parsed.host}${pathname}${search}${hash}`;
+}
+
+/**
+ * Path (with any query string and fragment the policy keeps) of a normalized URL
+ */
+export function pathOfNormalizedUrl(normalizedUrl: string): string {
+  const { pathname, search, hash } = new URL(normalizedUrl);
+  return `${pathname || '/'}${search}${hash}`;
+}
+
+/**
+ * Normalize a path from a pageMap, rewrite rule or URL list the same way crawled pages are
+ */
+export function normalizePath(pathWithQuery: string, policy: UrlNormalizationPolicy = {}): string {
+  try {
+    return pathOfNormalizedUrl(normalizeUrlWithPolicy(pathWithQuery, 'http://localhost', policy));
+  } catch {
+    return pathWithQuery;
+  }
+}
+
+/**
+ * Directory or file name for a page's artifacts
+ * Paths made only of lowercase letters, digits, '/' and '-' keep a readable name; anything else
+ * (query strings, upper case, other symbols) also gets a short hash so distinct pages never share files.
+ */
+export function artifactFileName(normalizedPath: string): string {
+  const name =
+    normalizedPath
+      .replace(/^\/+/, '')
+      .replace(/\/+/g, '-')
+      .replace(/[^a-zA-Z0-9-_]/g, '_')
+      .replace(/_+/g, '_')
+      .replace(/^_|_$/g, '') || 'index';
+
+  if (/^[a-z0-9/-]*$/.test(normalizedPath)) {
+    return name;
+  }
+  return `${name}-${createHash('sha1').update(normalizedPath).digest('hex').slice(0, 8)}`;
+}
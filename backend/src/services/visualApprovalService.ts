@@ -0,0 +1,138 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DATA_DIR } from '../config/config';
+import { StoragePort, VisualApproval } from '../models';
+import { ScreenshotDiffResult, hashFile } from './visualDiffService';
+
+/**
+ * Input for approving a screenshot diff of a previous run
+ */
+export interface ApproveVisualChangeInput {
+  runId: string;
+  normalizedPath: string;
+  viewport: string;
+  approvedBy: string;
+  comment?: string;
+}
+
+/**
+ * VisualApprovalService - Records accepted visual changes per job
+ * Approving copies the run's candidate screenshot so later runs can be checked against it
+ */
+export class VisualApprovalService {
+  private readonly artifactsDir: string;
+  private readonly approvalsDir: string;
+
+  constructor(private readonly storage: StoragePort) {
+    this.artifactsDir = path.join(DATA_DIR, 'artifacts');
+    this.approvalsDir = path.join(DATA_DIR, 'approvals');
+  }
+
+  async listApprovals(jobId: string): Promise<VisualApproval[]> {
+    const snapshot = await this.storage.load();
+    return (snapshot.approvals ?? []).filter((a) => a.jobId === jobId);
+  }
+
+  /**
+   * Approve a screenshot diff, replacing any earlier approval for the same path and viewport
+   */
+  async approve(jobId: string, input: ApproveVisualChangeInput): Promise<VisualApproval> {
+    const snapshot = await this.storage.load();
+    const run = snapshot.runs.find((r) => r.id === input.runId);
+    if (!run) {
+      throw new Error(`Run ${input.runId} not found`);
+    }
+    if (run.jobId !== jobId) {
+      throw new Error(`Run ${input.runId} does not belong to job ${jobId}`);
+    }
+
+    const diff = await this.findScreenshotDiff(input.runId, input.normalizedPath, input.viewport);
+    const candidatePath = path.isAbsolute(diff.candidatePath)
+      ? diff.candidatePath
+      : path.resolve(DATA_DIR, diff.candidatePath.replace(/^data[\\/]/, ''));
+
+    const id = randomUUID();
+    const imagePath = path.join(this.approvalsDir, jobId, `${id}.png`);
+    await fs.mkdir(path.dirname(imagePath), { recursive: true });
+    await fs.copyFile(candidatePath, imagePath);
+
+    const approval: VisualApproval = {
+      id,
+      jobId,
+      normalizedPath: input.normalizedPath,
+      viewport: input.viewport,
+      runId: input.runId,
+      imageHash: await hashFile(imagePath),
+      imagePath: imagePath.replace(/^.*[\\/]data[\\/]/, 'data/'),
+      approvedBy: input.approvedBy,
+      comment: input.comment,
+      approvedAt: new Date().toISOString(),
+    };
+
+    let replaced: VisualApproval | undefined;
+    await this.storage.update((latest) => {
+      const approvals = latest.approvals ?? [];
+      replaced = approvals.find(
+        (a) => a.jobId === jobId && a.normalizedPath === approval.normalizedPath && a.viewport === approval.viewport
+      );
+      return {
+        ...latest,
+        approvals: [...approvals.filter((a) => a !== replaced), approval],
+      };
+    });
+
+    if (replaced) {
+      await this.removeImage(replaced);
+    }
+
+    return approval;
+  }
+
+  /**
+   * Revoke an approval so the diff is reported as a regression again
+   */
+  async revoke(jobId: string, approvalId: string): Promise<boolean> {
+    let removed: VisualApproval | undefined;
+    await this.storage.update((latest) => {
+      removed = (latest.approvals ?? []).find((a) => a.id === approvalId && a.jobId === jobId);
+      return removed ? { ...latest, approvals: latest.approvals!.filter((a) => a !== removed) } : latest;
+    });
+
+    if (!removed) {
+      return false;
+    }
+
+    await this.removeImage(removed);
+    return true;
+  }
+
+  /**
+   * Look up a screenshot diff in the run's saved visual diff results
+   */
+  private async findScreenshotDiff(
+    runId: string,
+    normalizedPath: string,
+    viewport: string
+  ): Promise<ScreenshotDiffResult> {
+    const resultsPath = path.join(this.artifactsDir, runId, 'visual-diff-results.json');
+    let pages: Array<{ normalizedPath: string; screenshotDiffs: ScreenshotDiffResult[] }>;
+    try {
+      pages = JSON.parse(await fs.readFile(resultsPath, 'utf-8')).pages;
+    } catch {
+      throw new Error(`Visual diff results for run ${runId} not found`);
+    }
+
+    const diff = pages
+      .find((p) => p.normalizedPath === normalizedPath)
+      ?.screenshotDiffs.find((d) => d.viewport.name === viewport);
+    if (!diff) {
+      throw new Error(`Screenshot diff for ${normalizedPath} (${viewport}) not found in run ${runId}`);
+    }
+    return diff;
+  }
+
+  private async removeImage(approval: VisualApproval): Promise<void> {
+    await fs.rm(path.resolve(DATA_DIR, approval.imagePath.replace(/^data[\\/]/, '')), { force: true });
+  }
+}
@@ -1,10 +1,13 @@
+import { createHash } from 'crypto';
 import { promises as fs } from 'fs';
 import path from 'path';
 import pixelmatch from 'pixelmatch';
 import { PNG } from 'pngjs';
 import { DATA_DIR } from '../config/config';
+import { CaptureProfile, Rect, VisualApproval, VisualMasks } from '../models';
 import { ExecutionResult, ScreenshotArtifact, PageExecutionResult } from './playwrightExecutionService';
-import { ViewportConfig } from './playwrightExecutionService';
+import { toScreenshotPixels } from './captureProfiles';
+import { artifactFileName } from './urlNormalization';
 
 /**
  * Severity levels for visual differences
@@ -30,12 +33,28 @@ export interface LayoutShift {
  * Pixel diff metrics
  */
 export interface PixelDiffMetrics {
-  totalPixels: number;
+  totalPixels: number; // Compared pixels, masked pixels excluded
+  maskedPixels: number;
   differentPixels: number;
   diffPercentage: number;
   diffRatio: number; // 0-1, where 1 is completely different
 }
 
+/**
+ * Outcome of a screenshot comparison: no diff, a diff matching an approval, or a regression
+ */
+export type DiffVerdict = 'pass' | 'approved' | 'regression';
+
+/**
+ * Approval that accepted a screenshot diff
+ */
+export interface ApprovedChange {
+  approvalId: string;
+  approvedBy: string;
+  approvedAt: string;
+  comment?: string;
+}
+
 /**
  * Visual diff result for a single screenshot comparison
  */
@@ -44,11 +63,14 @@ export interface ScreenshotDiffResult {
   candidatePath: string;
   diffPath: string;
   heatmapPath: string;
-  viewport: ViewportConfig;
+  viewport: CaptureProfile; // Profile both screenshots were taken with
   normalizedPath: string;
   pixelMetrics: PixelDiffMetrics;
   layoutShifts: LayoutShift[];
+  maskedRegions: Rect[]; // Regions ignored by the comparison, in baseline pixels
   severity: DiffSeverity;
+  verdict: DiffVerdict;
+  approval?: ApprovedChange; // Set when the verdict is 'approved'
   timestamp: string;
 }
 
@@ -60,9 +82,10 @@ export interface PageDiffResult {
   baselineUrl: string;
   candidateUrl: string;
   screenshotDiffs: ScreenshotDiffResult[];
-  overallSeverity: DiffSeverity;
-  totalDiffPercentage: number;
+  overallSeverity: DiffSeverity; // Approved diffs excluded
+  totalDiffPercentage: number; // Approved diffs excluded
   hasLayoutShifts: boolean;
+  approvedDiffs: number;
 }
 
 /**
@@ -80,10 +103,46 @@ export interface VisualDiffResult {
     lowIssues: number;
     noneIssues: number;
     averageDiffPercentage: number;
+    approvedChanges: number; // Screenshot diffs accepted by an approval
   };
   artifactPaths: string[];
 }
 
+/**
+ * Colour used to outline and tint masked regions on the heatmap
+ */
+const MASK_COLOR = [255, 0, 255];
+
+/**
+ * Convert a '*' wildcard path pattern to a regex matching the whole path
+ */
+function pathPatternToRegex(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Ignore regions of a job that apply to the given page and profile, in the profile's screenshot pixels
+ */
+export function resolveIgnoreRegions(
+  masks: VisualMasks | undefined,
+  normalizedPath: string,
+  profile: CaptureProfile
+): Rect[] {
+  const regions = (masks?.ignoreRegions ?? [])
+    .filter((region) => !region.viewport || region.viewport === profile.name)
+    .filter((region) => !region.pathPattern || pathPatternToRegex(region.pathPattern).test(normalizedPath))
+    .map(({ x, y, width, height }) => ({ x, y, width, height }));
+  return toScreenshotPixels(regions, profile);
+}
+
+/**
+ * SHA-256 of a file, used to fingerprint approved screenshots
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  return createHash('sha256').update(await fs.readFile(filePath)).digest('hex');
+}
+
 /**
  * VisualDiffService - Compares baseline and candidate screenshots
  * Detects layout shifts, pixel differences, and generates heatmaps
@@ -92,14 +151,17 @@ export class VisualDiffService {
   private readonly artifactsDir: string;
   private readonly diffThreshold: number; // Pixel difference threshold (0-1)
   private readonly layoutShiftThreshold: number; // Minimum pixels for layout shift detection
+  private readonly approvalTolerance: number; // Ratio of pixels that may differ from an approved image (0-1)
 
   constructor(
     diffThreshold: number = 0.1, // 10% difference threshold
-    layoutShiftThreshold: number = 5 // 5 pixels minimum for layout shift
+    layoutShiftThreshold: number = 5, // 5 pixels minimum for layout shift
+    approvalTolerance: number = 0.001 // 0.1% of pixels may drift from the approved image
   ) {
     this.artifactsDir = path.join(DATA_DIR, 'artifacts');
     this.diffThreshold = diffThreshold;
     this.layoutShiftThreshold = layoutShiftThreshold;
+    this.approvalTolerance = approvalTolerance;
   }
 
   /**
@@ -153,7 +215,8 @@ export class VisualDiffService {
   private detectLayoutShifts(
     baselineImg: PNG,
     candidateImg: PNG,
-    diffImg: PNG
+    diffImg: PNG,
+    mask: Uint8Array
   ): LayoutShift[] {
     const shifts: LayoutShift[] = [];
 
@@ -178,7 +241,10 @@ export class VisualDiffService {
 
         for (let dy = 0; dy < 10 && y + dy < height; dy++) {
           for (let dx = 0; dx < 10 && x + dx < width; dx++) {
-            const idx = ((y + dy) * width + (x + dx)) * 4;
+            const pixel = (y + dy) * width + (x + dx);
+            if (mask[pixel]) continue; // Masked pixels never count as a shift
+
+            const idx = pixel * 4;
             const r = diffImg.data[idx];
             const g = diffImg.data[idx + 1];
             const b = diffImg.data[idx + 2];
@@ -232,16 +298,93 @@ export class VisualDiffService {
     return shifts;
   }
 
+  /**
+   * Build a per-pixel mask (1 = ignored) from regions, clipped to the image
+   */
+  private buildMask(width: number, height: number, regions: Rect[]): Uint8Array {
+    const mask = new Uint8Array(width * height);
+
+    for (const region of regions) {
+      const startX = Math.max(0, Math.floor(region.x));
+      const startY = Math.max(0, Math.floor(region.y));
+      const endX = Math.min(width, Math.ceil(region.x + region.width));
+      const endY = Math.min(height, Math.ceil(region.y + region.height));
+
+      for (let y = startY; y < endY; y++) {
+        mask.fill(1, y * width + startX, Math.max(y * width + startX, y * width + endX));
+      }
+    }
+
+    return mask;
+  }
+
+  /**
+   * Whether a candidate screenshot still matches an approved image within tolerance
+   */
+  async matchesApproval(candidatePath: string, approval: VisualApproval, regions: Rect[] = []): Promise<boolean> {
+    if ((await hashFile(candidatePath)) === approval.imageHash) {
+      return true;
+    }
+
+    const approvedPath = path.resolve(DATA_DIR, approval.imagePath.replace(/^data[\\/]/, ''));
+    let approvedImg: PNG;
+    try {
+      approvedImg = await this.loadPNG(approvedPath);
+    } catch {
+      return false; // Approved image missing, treat as a regression
+    }
+
+    const candidateImg = await this.loadPNG(candidatePath);
+    if (approvedImg.width !== candidateImg.width || approvedImg.height !== candidateImg.height) {
+      return false;
+    }
+
+    const mask = this.buildMask(candidateImg.width, candidateImg.height, regions);
+    let comparablePixels = 0;
+    for (let pixel = 0; pixel < mask.length; pixel++) {
+      if (mask[pixel]) {
+        approvedImg.data.copy(candidateImg.data, pixel * 4, pixel * 4, pixel * 4 + 4);
+      } else {
+        comparablePixels++;
+      }
+    }
+
+    const numDiffPixels = pixelmatch(
+      approvedImg.data,
+      candidateImg.data,
+      null,
+      candidateImg.width,
+      candidateImg.height,
+      { threshold: this.diffThreshold, includeAA: false }
+    );
+
+    return comparablePixels === 0 || numDiffPixels / comparablePixels <= this.approvalTolerance;
+  }
+
   /**
    * Generate heatmap from diff image
+   * Masked regions are tinted and outlined so reviewers can see what was ignored
    */
-  private generateHeatmap(diffImg: PNG, baselineImg: PNG, candidateImg: PNG): PNG {
+  private generateHeatmap(diffImg: PNG, baselineImg: PNG, candidateImg: PNG, mask: Uint8Array): PNG {
     const heatmap = new PNG({ width: diffImg.width, height: diffImg.height });
+    const { width, height } = diffImg;
+    const isMasked = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x] === 1;
 
     for (let y = 0; y < diffImg.height; y++) {
       for (let x = 0; x < diffImg.width; x++) {
         const idx = (y * diffImg.width + x) * 4;
 
+        if (mask[y * width + x]) {
+          const isEdge = !isMasked(x - 1, y) || !isMasked(x + 1, y) || !isMasked(x, y - 1) || !isMasked(x, y + 1);
+          for (let channel = 0; channel < 3; channel++) {
+            heatmap.data[idx + channel] = isEdge
+              ? MASK_COLOR[channel]
+              : Math.round((baselineImg.data[idx + channel] + MASK_COLOR[channel]) / 2);
+          }
+          heatmap.data[idx + 3] = 255;
+          continue;
+        }
+
         // Get diff intensity
         const r = diffImg.data[idx];
         const g = diffImg.data[idx + 1];
@@ -287,18 +430,33 @@ export class VisualDiffService {
 
   /**
    * Compare two screenshots
+   * maskedRegions are in baseline pixels; candidateMaskedRegions are scaled if the candidate is resized
    */
   async compareScreenshots(
     baselinePath: string,
     candidatePath: string,
     normalizedPath: string,
-    viewport: ViewportConfig,
-    runId: string
+    viewport: CaptureProfile,
+    runId: string,
+    maskedRegions: Rect[] = [],
+    candidateMaskedRegions: Rect[] = []
   ): Promise<ScreenshotDiffResult> {
     // Load images
     const baselineImg = await this.loadPNG(baselinePath);
     const candidateImg = await this.loadPNG(candidatePath);
 
+    const scaleX = baselineImg.width / candidateImg.width;
+    const scaleY = baselineImg.height / candidateImg.height;
+    const regions = [
+      ...maskedRegions,
+      ...candidateMaskedRegions.map((region) => ({
+        x: region.x * scaleX,
+        y: region.y * scaleY,
+        width: region.width * scaleX,
+        height: region.height * scaleY,
+      })),
+    ];
+
     // Ensure images are same size (resize candidate if needed)
     if (baselineImg.width !== candidateImg.width || baselineImg.height !== candidateImg.height) {
       // Create resized candidate image
@@ -322,6 +480,16 @@ export class VisualDiffService {
       candidateImg.data = resized.data;
     }
 
+    // Copy baseline pixels into masked regions of the candidate so they never differ
+    const mask = this.buildMask(baselineImg.width, baselineImg.height, regions);
+    let maskedPixels = 0;
+    for (let pixel = 0; pixel < mask.length; pixel++) {
+      if (mask[pixel]) {
+        maskedPixels++;
+        baselineImg.data.copy(candidateImg.data, pixel * 4, pixel * 4, pixel * 4 + 4);
+      }
+    }
+
     // Create diff image
     const diffImg = new PNG({ width: baselineImg.width, height: baselineImg.height });
 
@@ -339,25 +507,26 @@ export class VisualDiffService {
     );
 
     // Calculate metrics
-    const totalPixels = baselineImg.width * baselineImg.height;
-    const diffPercentage = (numDiffPixels / totalPixels) * 100;
-    const diffRatio = numDiffPixels / totalPixels;
+    const totalPixels = baselineImg.width * baselineImg.height - maskedPixels;
+    const diffRatio = totalPixels > 0 ? numDiffPixels / totalPixels : 0;
+    const diffPercentage = diffRatio * 100;
 
     const pixelMetrics: PixelDiffMetrics = {
       totalPixels,
+      maskedPixels,
       differentPixels: numDiffPixels,
       diffPercentage,
       diffRatio,
     };
 
     // Detect layout shifts
-    const layoutShifts = this.detectLayoutShifts(baselineImg, candidateImg, diffImg);
+    const layoutShifts = this.detectLayoutShifts(baselineImg, candidateImg, diffImg, mask);
 
     // Generate heatmap
-    const heatmap = this.generateHeatmap(diffImg, baselineImg, candidateImg);
+    const heatmap = this.generateHeatmap(diffImg, baselineImg, candidateImg, mask);
 
     // Save diff and heatmap images
-    const sanitizedPath = this.sanitizePath(normalizedPath);
+    const sanitizedPath = artifactFileName(normalizedPath);
     const diffPath = path.join(
       this.artifactsDir,
       runId,
@@ -388,7 +557,9 @@ export class VisualDiffService {
       normalizedPath,
       pixelMetrics,
       layoutShifts,
+      maskedRegions: regions,
       severity,
+      verdict: severity === 'none' ? 'pass' : 'regression',
       timestamp: new Date().toISOString(),
     };
   }
@@ -398,7 +569,9 @@ export class VisualDiffService {
    */
   async compareExecutionResults(
     executionResult: ExecutionResult,
-    runId: string
+    runId: string,
+    masks?: VisualMasks,
+    approvals: VisualApproval[] = []
   ): Promise<VisualDiffResult> {
     const pageDiffs: PageDiffResult[] = [];
     const artifactPaths: string[] = [];
@@ -426,14 +599,14 @@ export class VisualDiffService {
 
       const screenshotDiffs: ScreenshotDiffResult[] = [];
 
-      // Compare screenshots for each viewport
+      // Compare screenshots for each capture profile, paired by profile name
       for (const baselineScreenshot of baselinePage.screenshots) {
         const candidateScreenshot = candidatePage.screenshots.find(
           (s) => s.viewport.name === baselineScreenshot.viewport.name
         );
 
         if (!candidateScreenshot) {
-          continue; // Skip if viewport not found in candidate
+          continue; // Skip if profile not captured in candidate
         }
 
         // Resolve absolute paths
@@ -441,13 +614,37 @@ export class VisualDiffService {
         const candidateAbsPath = path.resolve(DATA_DIR, candidateScreenshot.path.replace(/^data[\\/]/, ''));
 
         try {
+          const ignoreRegions = resolveIgnoreRegions(masks, baselinePage.normalizedPath, baselineScreenshot.viewport);
           const diffResult = await this.compareScreenshots(
             baselineAbsPath,
             candidateAbsPath,
             baselinePage.normalizedPath,
             baselineScreenshot.viewport,
-            runId
+            runId,
+            [...ignoreRegions, ...(baselineScreenshot.maskedRegions ?? [])],
+            candidateScreenshot.maskedRegions ?? []
           );
+
+          const approval = approvals.find(
+            (a) => a.normalizedPath === baselinePage.normalizedPath && a.viewport === baselineScreenshot.viewport.name
+          );
+          if (
+            approval &&
+            diffResult.verdict === 'regression' &&
+            (await this.matchesApproval(candidateAbsPath, approval, [
+              ...ignoreRegions,
+              ...(candidateScreenshot.maskedRegions ?? []),
+            ]))
+          ) {
+            diffResult.verdict = 'approved';
+            diffResult.approval = {
+              approvalId: approval.id,
+              approvedBy: approval.approvedBy,
+              approvedAt: approval.approvedAt,
+              comment: approval.comment,
+            };
+          }
+
           screenshotDiffs.push(diffResult);
         } catch (error) {
           // Log error but continue with other comparisons
@@ -455,15 +652,16 @@ export class VisualDiffService {
         }
       }
 
-      // Calculate overall page metrics
-      const totalDiffPercentage = screenshotDiffs.reduce(
+      // Calculate overall page metrics, approved changes do not count against the page
+      const unapprovedDiffs = screenshotDiffs.filter((diff) => diff.verdict !== 'approved');
+      const totalDiffPercentage = unapprovedDiffs.reduce(
         (sum, diff) => sum + diff.pixelMetrics.diffPercentage,
         0
-      ) / screenshotDiffs.length || 0;
+      ) / unapprovedDiffs.length || 0;
 
-      const hasLayoutShifts = screenshotDiffs.some((diff) => diff.layoutShifts.length > 0);
+      const hasLayoutShifts = unapprovedDiffs.some((diff) => diff.layoutShifts.length > 0);
 
-      const severities = screenshotDiffs.map((diff) => diff.severity);
+      const severities = unapprovedDiffs.map((diff) => diff.severity);
       const overallSeverity = this.getOverallSeverity(severities);
 
       pageDiffs.push({
@@ -474,6 +672,7 @@ export class VisualDiffService {
         overallSeverity,
         totalDiffPercentage,
         hasLayoutShifts,
+        approvedDiffs: screenshotDiffs.length - unapprovedDiffs.length,
       });
     }
 
@@ -548,19 +747,8 @@ export class VisualDiffService {
       lowIssues: severityCounts.low,
       noneIssues: severityCounts.none,
       averageDiffPercentage: totalDiffPercentage,
+      approvedChanges: pageDiffs.reduce((sum, p) => sum + p.approvedDiffs, 0),
     };
   }
-
-  /**
-   * Sanitize path for filesystem use
-   */
-  private sanitizePath(pathStr: string): string {
-    return pathStr
-      .replace(/^\/+/, '')
-      .replace(/\/+/g, '-')
-      .replace(/[^a-zA-Z0-9-_]/g, '_')
-      .replace(/_+/g, '_')
-      .replace(/^_|_$/g, '') || 'index';
-  }
 }
 
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import type { BrowserContext, Page } from 'playwright';
+import {
+  ACCESSIBILITY_RULES,
+  AccessibilityAgent,
+  AccessibilityIssue,
+  AccessibilityResult,
+  AccessibilityRule,
+  accessibilityScore,
+  checkKeyboardTraps,
+  diffAccessibilityIssues,
+} from '../src/services/accessibilityAgent';
+import { AiReasoningService } from '../src/services/aiReasoningService';
+import { ReportAgent } from '../src/services/reportAgent';
+
+function issue(rule: AccessibilityRule, key: string, selector = 'main > img'): AccessibilityIssue {
+  return { rule, key: `${rule}:${key}`, selector, message: `${rule} ${key}`, ...ACCESSIBILITY_RULES[rule] };
+}
+
+/**
+ * Page whose Tab presses walk the given focus sequence, then stay on its last entries in a loop
+ */
+function tabbingPage(tabbable: number, focusOrder: string[], loop: string[] = []): Page {
+  let presses = 0;
+  return {
+    keyboard: { press: async () => void presses++ },
+    evaluate: async () => {
+      if (presses === 0) return tabbable;
+      const index = presses - 1;
+      return index < focusOrder.length ? focusOrder[index] : loop[(index - focusOrder.length) % loop.length] ?? '';
+    },
+  } as unknown as Page;
+}
+
+describe('AccessibilityAgent', () => {
+  it('matches issues across sites by key, not selector', () => {
+    const baseline = [issue('image-alt', 'hero.jpg', 'div:nth-of-type(2) > img'), issue('landmarks', 'main-missing', 'html')];
+    const candidate = [issue('image-alt', 'hero.jpg', '#hero > img'), issue('form-label', 'input:email'), issue('keyboard-trap', 'Close')];
+
+    const diff = diffAccessibilityIssues(baseline, candidate);
+
+    expect(diff.newIssues.map((i) => i.key)).toEqual(['form-label:input:email', 'keyboard-trap:Close']);
+    expect(diff.fixedIssues.map((i) => i.key)).toEqual(['landmarks:main-missing']);
+    expect(diff.unchangedIssues).toBe(1);
+    expect(diff.newIssues[1].wcag).toEqual(['2.1.2 No Keyboard Trap (A)']);
+    expect(accessibilityScore(candidate)).toBe(100 - 5 - 5 - 15);
+  });
+
+  it('reports focus that cycles within part of the page as a keyboard trap', async () => {
+    const trapped = await checkKeyboardTraps(
+      tabbingPage(6, ['a|Home', 'button#open|Open', 'input#email|', 'button#close|Close'], ['input#email|', 'button#close|Close'])
+    );
+    expect(trapped).toEqual([
+      {
+        rule: 'keyboard-trap',
+        selector: 'input#email',
+        key: 'keyboard-trap:input#email',
+        message: "Keyboard focus cycles among 2 of 6 focusable elements and can't reach the rest",
+      },
+    ]);
+
+    // Focus leaving the document after the last element is the normal tab order
+    expect(await checkKeyboardTraps(tabbingPage(3, ['a|Home', 'a|About', 'button|Menu']))).toEqual([]);
+  });
+
+  it('does not audit pages that answer with an error status', async () => {
+    let audited = false;
+    const page = {
+      goto: async () => ({ status: () => 404 }),
+      evaluate: async () => void (audited = true),
+      close: async () => undefined,
+    };
+    const context = { newPage: async () => page } as unknown as BrowserContext;
+
+    const audit = await new AccessibilityAgent().auditPage(context, 'https://new.example.com/gone');
+
+    expect(audit).toEqual({
+      url: 'https://new.example.com/gone',
+      status: 404,
+      issues: [],
+      score: 0,
+      error: 'Page responded with 404',
+    });
+    expect(audited).toBe(false);
+  });
+
+  it('raises the risk score of runs with new accessibility issues', async () => {
+    const result: AccessibilityResult = {
+      pages: [],
+      summary: {
+        totalPages: 2,
+        pagesWithNewIssues: 1,
+        newIssues: 2,
+        fixedIssues: 0,
+        criticalIssues: 1,
+        highIssues: 1,
+        mediumIssues: 0,
+        lowIssues: 0,
+        newIssuesByRule: { 'keyboard-trap': 1, 'image-alt': 1 },
+        skippedPages: 0,
+        averageBaselineScore: 100,
+        averageCandidateScore: 80,
+      },
+      artifactPaths: [],
+    };
+
+    const aiResult = await new AiReasoningService().analyzeArtifacts(
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      result,
+      undefined,
+      undefined,
+      'run-1'
+    );
+    const risk = new ReportAgent().calculateRiskScore(aiResult);
+
+    expect(aiResult.overallPass).toBe(false);
+    expect(aiResult.categoryAnalyses).toMatchObject([{ category: 'accessibility', severity: 'critical' }]);
+    expect(risk.accessibility).toBe(100);
+    expect(risk.overall).toBe(100);
+  });
+});
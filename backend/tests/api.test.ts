@@ -50,4 +50,26 @@ describe('API routes', () => {
 
     expect(res.statusCode).toBe(404);
   });
+
+  it('returns 404 when streaming events for a missing run', async () => {
+    const app = createTestServer();
+
+    const res = await app.inject({
+      method: 'GET',
+      url: '/api/runs/non-existent/events',
+    });
+
+    expect(res.statusCode).toBe(404);
+  });
+
+  it('returns 404 when listing approvals for a missing job', async () => {
+    const app = createTestServer();
+
+    const res = await app.inject({
+      method: 'GET',
+      url: '/api/jobs/non-existent/approvals',
+    });
+
+    expect(res.statusCode).toBe(404);
+  });
 });
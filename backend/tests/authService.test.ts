@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Browser } from 'playwright';
+import {
+  AuthService,
+  REDACTED,
+  collectSecrets,
+  createRedactor,
+  redactCredentials,
+  redactDeep,
+} from '../src/services/authService';
+import { CredentialStore } from '../src/services/credentialStore';
+import { JobCredentials, SiteAuthConfig } from '../src/models';
+
+const baseline: SiteAuthConfig = {
+  basic: { username: 'qa', password: 's3cret' },
+  headers: { 'X-Api-Key': 'key-123' },
+  cookies: [{ name: 'consent', value: 'cookie-value' }],
+  loginJourney: {
+    name: 'login',
+    steps: [
+      { action: 'goto', url: '/login' },
+      { action: 'fill', selector: '#password', value: 'hunter2' },
+      { action: 'click', selector: 'button[type=submit]' },
+    ],
+  },
+};
+
+/**
+ * Browser whose context records what it was configured with and fakes a login page
+ */
+function fakeBrowser(status = 200) {
+  const page = {
+    goto: vi.fn(async () => ({ status: () => status })),
+    fill: vi.fn(async () => undefined),
+    click: vi.fn(async () => undefined),
+    url: () => 'https://old.example.com/account',
+    close: vi.fn(async () => undefined),
+  };
+  const context = {
+    newPage: async () => page,
+    addCookies: vi.fn(async () => undefined),
+    storageState: vi.fn(async () => ({ cookies: [], origins: [] })),
+    close: vi.fn(async () => undefined),
+  };
+  const browser = { newContext: vi.fn(async () => context) };
+  return { browser: browser as unknown as Browser, newContext: browser.newContext, context, page };
+}
+
+describe('AuthService', () => {
+  let dir: string;
+  let store: CredentialStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'migrate-guard-'));
+    store = new CredentialStore(path.join(dir, 'credentials.json'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('stores credentials per job in an owner-only file', async () => {
+    await store.set('job-1', { baseline });
+    await store.set('job-2', { candidate: { headers: { Authorization: 'Bearer t' } } });
+
+    expect((await store.get('job-1'))?.baseline).toEqual(baseline);
+    expect((await fs.stat(path.join(dir, 'credentials.json'))).mode & 0o777).toBe(0o600);
+
+    expect(await store.remove('job-1')).toBe(true);
+    expect(await store.remove('job-1')).toBe(false);
+    expect(await store.get('job-1')).toBeUndefined();
+    expect(await store.get('job-2')).toBeDefined();
+  });
+
+  it('redacts secret values from text and API responses', () => {
+    const credentials: JobCredentials = { jobId: 'job-1', baseline, updatedAt: '2024-01-01T00:00:00.000Z' };
+    const redact = createRedactor(collectSecrets(credentials));
+
+    expect(redact('fill failed with hunter2 and s3cret, auth cWE6czNjcmV0')).toBe(
+      `fill failed with ${REDACTED} and ${REDACTED}, auth ${REDACTED}`
+    );
+
+    const redacted = redactCredentials(credentials).baseline!;
+    expect(redacted.basic).toEqual({ username: 'qa', password: REDACTED });
+    expect(redacted.headers).toEqual({ 'X-Api-Key': REDACTED });
+    expect(redacted.cookies?.[0].value).toBe(REDACTED);
+    expect(redacted.loginJourney?.steps[1]).toMatchObject({ action: 'fill', value: REDACTED });
+    expect(JSON.stringify(redacted)).not.toMatch(/s3cret|key-123|cookie-value|hunter2/);
+  });
+
+  it('redacts secrets that JSON escaping would hide from a text redactor', () => {
+    const redact = createRedactor(['pa"ss\\word']);
+    const report = { evidence: ['login failed for pa"ss\\word'], pages: [{ error: 'pa"ss\\word rejected', status: 401 }] };
+
+    const text = JSON.stringify(redactDeep(report, redact));
+
+    expect(redact(JSON.stringify(report))).toContain('pa\\"ss');
+    expect(text).not.toContain('pa\\"ss');
+    expect(JSON.parse(text)).toEqual({
+      evidence: [`login failed for ${REDACTED}`],
+      pages: [{ error: `${REDACTED} rejected`, status: 401 }],
+    });
+  });
+
+  it('signs in and returns a storage state with the site credentials', async () => {
+    const { browser, newContext, context, page } = fakeBrowser();
+    const options = await new AuthService(store).prepareSite(browser, baseline, 'https://old.example.com', 'baseline', 'auth-run');
+
+    expect(newContext).toHaveBeenCalledWith(
+      expect.objectContaining({
+        httpCredentials: { username: 'qa', password: 's3cret' },
+        extraHTTPHeaders: { 'X-Api-Key': 'key-123' },
+      })
+    );
+    expect(context.addCookies).toHaveBeenCalledWith([{ name: 'consent', value: 'cookie-value', url: 'https://old.example.com/' }]);
+    expect(page.fill).toHaveBeenCalledWith('#password', 'hunter2', expect.anything());
+    expect(options.storageState).toEqual({ cookies: [], origins: [] });
+    expect(context.close).toHaveBeenCalled();
+  });
+
+  it('fails when the login journey fails', async () => {
+    const { browser, context } = fakeBrowser(500);
+
+    await expect(
+      new AuthService(store).prepareSite(browser, baseline, 'https://old.example.com', 'baseline', 'auth-run')
+    ).rejects.toThrow('Login journey failed on baseline at "goto /login"');
+    expect(context.close).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { BrowserContext, BrowserContextOptions } from 'playwright';
+import { DATA_DIR } from '../src/config/config';
+import { PlaywrightExecutionService } from '../src/services/playwrightExecutionService';
+import { needsOwnContext, profileContextOptions, toScreenshotPixels, validateCaptureProfiles } from '../src/services/captureProfiles';
+import { CaptureProfile } from '../src/models';
+
+const runId = 'capture-profiles-test';
+
+/**
+ * Page that records viewport, media and screenshot calls under a label
+ */
+function fakePage(label: string, calls: string[]) {
+  return {
+    on: () => undefined,
+    url: () => 'https://old.example.com/pricing',
+    goto: async () => {
+      calls.push(`${label} goto`);
+      return { status: () => 200 };
+    },
+    waitForLoadState: async () => undefined,
+    // Mask measurements get CSS-pixel boxes; every other evaluate call gets text
+    evaluate: async (_fn: unknown, arg?: unknown) => (Array.isArray(arg) ? [{ x: 10, y: 20.5, width: 100, height: 50 }] : ''),
+    viewportSize: async () => ({ width: 1920, height: 1080 }),
+    content: async () => '<html></html>',
+    setViewportSize: async ({ width, height }: { width: number; height: number }) =>
+      void calls.push(`${label} viewport ${width}x${height}`),
+    emulateMedia: async ({ colorScheme }: { colorScheme?: string | null }) =>
+      void calls.push(`${label} media ${colorScheme}`),
+    waitForTimeout: async () => undefined,
+    locator: () => ({}),
+    screenshot: async ({ path }: { path: string }) => void calls.push(`${label} screenshot ${path.split(/[\\/]/).pop()}`),
+    close: async () => undefined,
+  };
+}
+
+describe('Capture profiles', () => {
+  afterEach(async () => {
+    await fs.rm(path.join(DATA_DIR, 'artifacts', runId), { recursive: true, force: true });
+  });
+
+  it('validates profile names', () => {
+    const profile = { name: 'desktop-dark', width: 1280, height: 800 };
+    expect(validateCaptureProfiles([profile])).toEqual([profile]);
+    expect(() => validateCaptureProfiles([profile, { ...profile }])).toThrow('duplicate name "desktop-dark"');
+    expect(() => validateCaptureProfiles([{ name: 'a b', width: 1, height: 1 }])).toThrow('Invalid capture profile');
+  });
+
+  it('maps device options to a context of their own', () => {
+    const retina: CaptureProfile = { name: 'retina', width: 1440, height: 900, deviceScaleFactor: 2, locale: 'de-DE' };
+    expect(needsOwnContext({ name: 'dark', width: 1280, height: 800, colorScheme: 'dark' })).toBe(false);
+    expect(needsOwnContext(retina)).toBe(true);
+    expect(profileContextOptions(retina)).toEqual({
+      viewport: { width: 1440, height: 900 },
+      deviceScaleFactor: 2,
+      locale: 'de-DE',
+    });
+  });
+
+  it('captures media profiles on the page and device profiles in their own context', async () => {
+    const calls: string[] = [];
+    const contextOptions: BrowserContextOptions[] = [];
+    const browser = {
+      newContext: async (options: BrowserContextOptions) => {
+        contextOptions.push(options);
+        return { newPage: async () => fakePage('device', calls), close: async () => undefined };
+      },
+    };
+    const context = { newPage: async () => fakePage('main', calls), browser: () => browser } as unknown as BrowserContext;
+    const service = new PlaywrightExecutionService();
+
+    const result = await service.executePage(context, 'https://old.example.com/pricing', '/pricing', 'baseline', runId, [], {}, [
+      { name: 'desktop-dark', width: 1280, height: 800, colorScheme: 'dark' },
+      { name: 'iphone', width: 390, height: 844, deviceScaleFactor: 3, isMobile: true, hasTouch: true },
+    ]);
+
+    expect(result.errors).toEqual([]);
+    expect(calls).toEqual([
+      'main goto',
+      'main viewport 1280x800',
+      'main media dark',
+      'main screenshot screenshot-desktop-dark.png',
+      'main media null',
+      'device goto',
+      'device viewport 390x844',
+      'device screenshot screenshot-iphone.png',
+      'main viewport 1920x1080',
+    ]);
+    expect(contextOptions[0]).toMatchObject({ deviceScaleFactor: 3, isMobile: true, hasTouch: true });
+    expect(result.screenshots.map((screenshot) => screenshot.viewport.name)).toEqual(['desktop-dark', 'iphone']);
+
+    await service.cleanup();
+  });
+
+  it('records mask boxes in the screenshot pixels of the profile scale factor', async () => {
+    const retina: CaptureProfile = { name: 'retina', width: 1440, height: 900, deviceScaleFactor: 2 };
+    expect(toScreenshotPixels([{ x: 10, y: 20.5, width: 100, height: 50 }], retina)).toEqual([
+      { x: 20, y: 41, width: 200, height: 100 },
+    ]);
+
+    const browser = {
+      newContext: async () => ({ newPage: async () => fakePage('device', []), close: async () => undefined }),
+    };
+    const context = { newPage: async () => fakePage('main', []), browser: () => browser } as unknown as BrowserContext;
+    const service = new PlaywrightExecutionService();
+
+    const result = await service.executePage(context, 'https://old.example.com/pricing', '/pricing', 'baseline', runId, ['.carousel'], {}, [
+      { name: 'desktop', width: 1280, height: 800 },
+      retina,
+    ]);
+
+    expect(result.screenshots.map((screenshot) => screenshot.maskedRegions)).toEqual([
+      [{ x: 10, y: 20, width: 100, height: 51 }],
+      [{ x: 20, y: 41, width: 200, height: 100 }],
+    ]);
+
+    await service.cleanup();
+  });
+});
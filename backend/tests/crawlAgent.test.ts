@@ -0,0 +1,482 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { gzipSync } from 'zlib';
+import { CrawlAgent, CrawlCheckpoint, CrawledPage, CrawlResult } from '../src/services/crawlAgent';
+import { minHashSignature, signatureSimilarity, slugOf, stringSimilarity } from '../src/services/pageMatching';
+import { isAllowedByRobots, parseRobotsTxt } from '../src/services/robotsTxt';
+import { HostRateLimiter, retryDelayMs } from '../src/services/crawlPoliteness';
+import { discoverSpaRoutes } from '../src/services/spaDiscovery';
+import { Browser, Page } from 'playwright';
+
+function site(baseUrl: string, pages: Array<Partial<CrawledPage> & { normalizedPath: string }>): CrawlResult {
+  return {
+    baseUrl,
+    pages: pages.map((p) => ({ url: `${baseUrl}${p.normalizedPath}`, statusCode: 200, links: [], ...p })),
+    sitemapUrls: [],
+    crawlLog: [],
+    errors: [],
+  };
+}
+
+const article =
+  'Our spring collection brings lightweight running shoes with breathable mesh uppers, ' +
+  'recycled rubber soles and a cushioned heel designed for long distance training on roads and trails.';
+
+describe('CrawlAgent.matchPages', () => {
+  const agent = new CrawlAgent();
+
+  it('pairs restructured pages with fuzzy strategies and reports the reason', () => {
+    const baseline = site('https://old.example.com', [
+      { normalizedPath: '/about' },
+      { normalizedPath: '/product.php', identifiers: ['sku:A-100'] },
+      { normalizedPath: '/legacy/contact-us', canonicalUrl: 'https://old.example.com/contact' },
+      { normalizedPath: '/news/2024/spring', contentSignature: minHashSignature(article) },
+      { normalizedPath: '/p/1', title: 'Shipping & Returns Policy' },
+      { normalizedPath: '/blog/my_first_post' },
+    ]);
+    const candidate = site('https://new.example.com', [
+      { normalizedPath: '/about' },
+      { normalizedPath: '/shop/blue-shoes', identifiers: ['sku:A-100', 'gtin:123'] },
+      { normalizedPath: '/contact' },
+      { normalizedPath: '/stories/spring-collection', contentSignature: minHashSignature(`${article} Shop now.`) },
+      { normalizedPath: '/help/shipping', title: 'Shipping and Returns Policy' },
+      { normalizedPath: '/articles/my-first-post' },
+    ]);
+
+    const reasons = Object.fromEntries(
+      agent.matchPages(baseline, candidate).map((m) => [m.baseline.normalizedPath, [m.candidate.normalizedPath, m.matchReason]])
+    );
+
+    expect(reasons['/about']).toEqual(['/about', 'Exact path match']);
+    expect(reasons['/product.php']).toEqual(['/shop/blue-shoes', 'Shared JSON-LD identifier (sku:A-100)']);
+    expect(reasons['/legacy/contact-us']).toEqual(['/contact', 'Canonical URL match']);
+    expect(reasons['/news/2024/spring'][0]).toBe('/stories/spring-collection');
+    expect(reasons['/news/2024/spring'][1]).toMatch(/^Similar main content/);
+    expect(reasons['/p/1'][1]).toMatch(/^Similar title/);
+    expect(reasons['/blog/my_first_post']).toEqual(['/articles/my-first-post', 'Similar slug (100%)']);
+  });
+
+  it('drops pairs below the minimum confidence and lists unmatched pages', () => {
+    const baseline = site('https://old.example.com', [{ normalizedPath: '/about' }, { normalizedPath: '/blog/my_first_post' }]);
+    const candidate = site('https://new.example.com', [
+      { normalizedPath: '/about' },
+      { normalizedPath: '/articles/my-first-post' },
+      { normalizedPath: '/new-only' },
+    ]);
+
+    const matches = agent.matchPages(baseline, candidate, [], 0.8);
+    expect(matches.map((m) => m.matchReason)).toEqual(['Exact path match']);
+
+    const unmatched = agent.findUnmatchedPages(baseline, candidate, matches);
+    expect(unmatched.baseline.map((p) => p.normalizedPath)).toEqual(['/blog/my_first_post']);
+    expect(unmatched.candidate.map((p) => p.normalizedPath)).toEqual(['/articles/my-first-post', '/new-only']);
+  });
+
+  it('applies rewrite rules before path matching and records the rule in the pageMap', () => {
+    const baseline = site('https://old.example.com', [{ normalizedPath: '/blog/2024/03/launch' }, { normalizedPath: '/about' }]);
+    const candidate = site('https://new.example.com', [{ normalizedPath: '/articles/launch' }, { normalizedPath: '/about' }]);
+    const rules = [{ name: 'blog', pattern: '^/blog/\\d{4}/\\d{2}/([^/]+)$', replacement: '/articles/$1' }];
+
+    const matches = agent.matchPages(baseline, candidate, [], undefined, rules);
+    expect(matches.map((m) => [m.baseline.normalizedPath, m.candidate.normalizedPath, m.matchReason])).toEqual([
+      ['/blog/2024/03/launch', '/articles/launch', 'Rewrite rule blog'],
+      ['/about', '/about', 'Exact path match'],
+    ]);
+    expect(agent.generatePageMap(matches).map((m) => m.rule)).toEqual(['blog', undefined]);
+  });
+
+  it('normalizes crawled URLs, pageMap entries and rewritten paths with the job policy', () => {
+    const policy = { caseInsensitivePaths: true, significantParams: ['page'] };
+    const toPage = (url: string) => {
+      const normalized = agent.normalizeUrl(url, 'https://old.example.com', policy);
+      return { normalizedPath: agent.extractPath(normalized, 'https://old.example.com') };
+    };
+    expect(toPage('/Blog/?page=2&utm_source=x').normalizedPath).toBe('/blog?page=2');
+
+    const baseline = site('https://old.example.com', [toPage('/Blog/?page=2'), toPage('/Old-Team/')]);
+    const candidate = site('https://old.example.com', [toPage('/blog?page=2'), toPage('/people/team')]);
+    const matches = agent.matchPages(
+      baseline,
+      candidate,
+      [{ baselinePath: '/OLD-TEAM/', candidatePath: '/People/Team' }],
+      undefined,
+      [],
+      policy
+    );
+
+    expect(matches.map((m) => [m.baseline.normalizedPath, m.candidate.normalizedPath, m.matchReason])).toEqual([
+      ['/old-team', '/people/team', 'Explicit pageMap mapping'],
+      ['/blog?page=2', '/blog?page=2', 'Exact path match'],
+    ]);
+  });
+
+  it('computes similarity helpers', () => {
+    expect(slugOf('/Shop/Blue_Shoes.html')).toBe('blue-shoes');
+    expect(slugOf('/')).toBe('');
+    expect(stringSimilarity('Kitten', 'sitting')).toBeCloseTo(1 - 3 / 7);
+    expect(signatureSimilarity(minHashSignature(article), minHashSignature(article))).toBe(1);
+    expect(signatureSimilarity(minHashSignature(article), minHashSignature('completely unrelated words here'))).toBeLessThan(0.2);
+  });
+});
+
+describe('CrawlAgent URL lists', () => {
+  const agent = new CrawlAgent();
+  const job = {
+    baselineUrl: 'https://old.example.com',
+    crawlConfig: { depth: 1, excludePaths: ['^/admin'] },
+  };
+
+  it('imports CSV exports, deduping and filtering paths against the crawl config', () => {
+    const csv = [
+      'Page,Sessions',
+      '/about/,120',
+      '"https://old.example.com/blog/hello?utm_source=x",80',
+      '/about,40',
+      'https://other.example.com/pricing,10',
+      'contact,5',
+      '/admin/users,3',
+    ].join('\n');
+
+    expect(agent.importUrlList(csv, 'csv', job)).toEqual({
+      paths: ['/about', '/blog/hello'],
+      duplicates: 1,
+      excluded: ['/admin/users'],
+      invalid: [
+        { line: 5, value: 'https://other.example.com/pricing', reason: 'host other.example.com is not the baseline site old.example.com' },
+        { line: 6, value: 'contact', reason: 'not a path or http(s) URL' },
+      ],
+    });
+    expect(() => agent.importUrlList('# nothing here\n/admin\n', 'txt', job)).toThrow(
+      'Invalid URL list: no usable paths (0 invalid, 1 excluded by crawl config)'
+    );
+  });
+
+  it('visits only the listed paths and maps them onto the candidate', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 404 })));
+    const listAgent = new CrawlAgent();
+    const context = { newPage: async () => ({ close: async () => undefined }), close: async () => undefined };
+    vi.spyOn(listAgent, 'initialize').mockImplementation(async () => {
+      (listAgent as unknown as { browser: Browser }).browser = { newContext: async () => context } as unknown as Browser;
+    });
+    vi.spyOn(listAgent, 'loadCheckpoint').mockResolvedValue(undefined);
+    vi.spyOn(listAgent, 'saveCheckpoint').mockResolvedValue('');
+    vi.spyOn(listAgent, 'crawlPage').mockImplementation(async (_page, url, baseUrl, _depth, _maxDepth, visited) => {
+      visited.add(listAgent.normalizeUrl(url, baseUrl));
+      return { url, normalizedPath: new URL(url).pathname, statusCode: 200, links: [`${baseUrl}/linked`] };
+    });
+
+    const listJob = {
+      ...job,
+      id: 'job-1',
+      name: 'List',
+      candidateUrl: 'https://new.example.com',
+      urlSource: 'list' as const,
+      urlList: ['/about', '/blog/2024/03/hello', '/team'],
+      pageMap: [{ baselinePath: '/team', candidatePath: '/about/team' }],
+      rewriteRules: [{ pattern: '^/blog/\\d{4}/\\d{2}/(.+)$', replacement: '/articles/$1' }],
+      testMatrix: { visual: true, functional: true, data: true, seo: true },
+      status: 'pending' as const,
+      createdAt: '',
+      updatedAt: '',
+    };
+    const candidate = listAgent.discoveryFor(listJob, 'candidate');
+    expect(candidate.paths).toEqual(['/about', '/articles/hello', '/about/team']);
+
+    const result = await listAgent.crawlSite(listJob.candidateUrl, listJob.crawlConfig, 'list-run', undefined, {}, candidate);
+    expect(result.pages.map((p) => p.normalizedPath)).toEqual(['/about', '/articles/hello', '/about/team']);
+    expect(result.crawlLog).toContain('Visiting 3 listed paths without link discovery');
+    vi.unstubAllGlobals();
+  });
+});
+
+describe('CrawlAgent sitemaps and robots.txt', () => {
+  const agent = new CrawlAgent();
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('follows sitemap indexes declared in robots.txt and decompresses gzip sitemaps', async () => {
+    const files: Record<string, BodyInit> = {
+      'https://old.example.com/robots.txt': 'User-agent: *\nDisallow: /admin\nSitemap: /sitemaps/index.xml\n',
+      'https://old.example.com/sitemaps/index.xml':
+        '<sitemapindex><sitemap><loc>https://old.example.com/sitemaps/pages.xml.gz</loc></sitemap>' +
+        '<sitemap><loc>https://old.example.com/sitemaps/index.xml</loc></sitemap></sitemapindex>',
+      'https://old.example.com/sitemaps/pages.xml.gz': new Uint8Array(
+        gzipSync('<urlset><url><loc>https://old.example.com/a</loc></url><url><loc>https://old.example.com/b</loc></url></urlset>')
+      ),
+    };
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => (url in files ? new Response(files[url]) : new Response('', { status: 404 })))
+    );
+
+    const robots = await agent.readRobotsTxt('https://old.example.com');
+    expect(robots?.sitemaps).toEqual(['https://old.example.com/sitemaps/index.xml']);
+    expect(await agent.readSitemap(robots!.sitemaps[0])).toEqual(['https://old.example.com/a', 'https://old.example.com/b']);
+  });
+
+  it('applies the most specific robots.txt group and rule', () => {
+    const robots = parseRobotsTxt(
+      [
+        'User-agent: *',
+        'Disallow: /',
+        '',
+        'User-agent: googlebot',
+        'User-agent: migrate-guard',
+        'Disallow: /private',
+        'Allow: /private/press',
+        'Disallow: /*.pdf$',
+        'Crawl-delay: 2',
+      ].join('\n'),
+      'https://old.example.com'
+    );
+
+    expect(robots.crawlDelay).toBe(2);
+    expect(isAllowedByRobots('/about', robots)).toBe(true);
+    expect(isAllowedByRobots('/private/team', robots)).toBe(false);
+    expect(isAllowedByRobots('/private/press/2024', robots)).toBe(true);
+    expect(isAllowedByRobots('/files/report.pdf', robots)).toBe(false);
+    expect(isAllowedByRobots('/files/report.pdf?v=2', robots)).toBe(true);
+  });
+
+  it('lists baseline sitemap URLs missing from the candidate sitemap', () => {
+    const baseline = {
+      ...site('https://old.example.com', []),
+      sitemapUrls: ['https://old.example.com/', 'https://old.example.com/blog/2024/01/hello', 'https://old.example.com/gone'],
+    };
+    const candidate = {
+      ...site('https://new.example.com', []),
+      sitemapUrls: ['https://new.example.com/', 'https://new.example.com/articles/hello', 'https://new.example.com/new'],
+    };
+
+    const diff = agent.diffSitemaps(baseline, candidate, [{ pattern: '^/blog/\\d{4}/\\d{2}/(.+)$', replacement: '/articles/$1' }]);
+
+    expect(diff?.missingFromCandidate).toEqual([{ url: 'https://old.example.com/gone', expectedPath: '/gone' }]);
+    expect(diff?.extraInCandidate).toEqual(['https://new.example.com/new']);
+    expect(agent.diffSitemaps(site('https://old.example.com', []), site('https://new.example.com', []))).toBeUndefined();
+  });
+});
+
+describe('CrawlAgent concurrency and politeness', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('crawls with a bounded pool of pages and stops at maxPages', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 404 })));
+
+    const agent = new CrawlAgent();
+    const pages = { opened: 0, closed: 0 };
+    const context = {
+      newPage: async () => {
+        pages.opened++;
+        return { close: async () => void pages.closed++ };
+      },
+      close: vi.fn(async () => undefined),
+    };
+    vi.spyOn(agent, 'initialize').mockImplementation(async () => {
+      (agent as unknown as { browser: Browser }).browser = { newContext: async () => context } as unknown as Browser;
+    });
+    vi.spyOn(agent, 'loadCheckpoint').mockResolvedValue(undefined);
+    vi.spyOn(agent, 'saveCheckpoint').mockResolvedValue('');
+
+    // Each page links to two children; track how many loads overlap
+    let active = 0;
+    let maxActive = 0;
+    vi.spyOn(agent, 'crawlPage').mockImplementation(async (_page, url, baseUrl, _depth, _maxDepth, visited) => {
+      visited.add(agent.normalizeUrl(url, baseUrl));
+      maxActive = Math.max(maxActive, ++active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      const normalizedPath = new URL(url).pathname;
+      return { url, normalizedPath, statusCode: 200, links: [`${url.replace(/\/$/, '')}/a`, `${url.replace(/\/$/, '')}/b`] };
+    });
+
+    const result = await agent.crawlSite('https://old.example.com', { depth: 5, maxPages: 10, concurrency: 3 }, 'pool-run');
+
+    expect(result.pages).toHaveLength(10);
+    expect(new Set(result.pages.map((p) => p.url)).size).toBe(10);
+    expect(maxActive).toBe(3);
+    expect(pages).toEqual({ opened: 3, closed: 3 });
+    expect(context.close).toHaveBeenCalled();
+  });
+
+  it('checkpoints an interrupted crawl and resumes it without reloading crawled pages', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 404 })));
+
+    const agent = new CrawlAgent();
+    let crashed = false;
+    const context = {
+      newPage: async () => ({ close: async () => undefined, isClosed: () => crashed }),
+      close: async () => undefined,
+    };
+    vi.spyOn(agent, 'initialize').mockImplementation(async () => {
+      (agent as unknown as { browser: Browser }).browser = { newContext: async () => context } as unknown as Browser;
+    });
+    const checkpoints = new Map<string, CrawlCheckpoint>();
+    vi.spyOn(agent, 'saveCheckpoint').mockImplementation(async (_runId, checkpoint) => {
+      checkpoints.set(checkpoint.baseUrl, checkpoint);
+      return '';
+    });
+    vi.spyOn(agent, 'loadCheckpoint').mockImplementation(async (_runId, baseUrl) => checkpoints.get(baseUrl));
+
+    // The browser dies while loading /a/a on the first attempt
+    let crashes = 1;
+    const loaded: string[] = [];
+    vi.spyOn(agent, 'crawlPage').mockImplementation(async (_page, url, baseUrl, _depth, _maxDepth, visited) => {
+      visited.add(agent.normalizeUrl(url, baseUrl));
+      const normalizedPath = new URL(url).pathname;
+      if (normalizedPath === '/a/a' && crashes-- > 0) {
+        crashed = true;
+        return null;
+      }
+      loaded.push(normalizedPath);
+      const base = url.replace(/\/$/, '');
+      return { url, normalizedPath, statusCode: 200, links: [`${base}/a`, `${base}/b`] };
+    });
+
+    const config = { depth: 2, maxPages: 10, concurrency: 1 };
+    await expect(agent.crawlSite('https://old.example.com', config, 'resume-run')).rejects.toThrow(
+      'Crawl of https://old.example.com interrupted after 3 pages: Browser closed while crawling https://old.example.com/a/a'
+    );
+    const interrupted = checkpoints.get('https://old.example.com')!;
+    expect(interrupted.completed).toBe(false);
+    expect(interrupted.frontier.map((item) => new URL(item.url).pathname)).toEqual(['/a/a', '/a/b', '/b/a', '/b/b']);
+
+    crashed = false;
+    const resumed = await agent.crawlSite('https://old.example.com', config, 'resume-run');
+    expect(loaded).toEqual(['/', '/a', '/b', '/a/a', '/a/b', '/b/a', '/b/b']);
+    expect(resumed.pages.map((p) => p.normalizedPath)).toEqual(loaded);
+    expect(resumed.crawlLog).toContain('Resuming crawl from checkpoint: 3 pages crawled, 4 URLs queued');
+    expect(checkpoints.get('https://old.example.com')!.completed).toBe(true);
+
+    // A finished crawl is reused as is
+    const reused = await agent.crawlSite('https://old.example.com', config, 'resume-run');
+    expect(reused.pages).toHaveLength(7);
+    expect(loaded).toHaveLength(7);
+  });
+
+  it('retries 429 and 5xx responses with backoff', async () => {
+    const statuses = [503, 429, 200];
+    const page = {
+      goto: vi.fn(async () => {
+        const status = statuses.shift()!;
+        return { status: () => status, headers: () => (status === 429 ? { 'retry-after': '0' } : {}) };
+      }),
+    } as unknown as Page;
+    const log: string[] = [];
+
+    const response = await new CrawlAgent().navigate(
+      page,
+      'https://old.example.com/',
+      { depth: 0, maxRetries: 2, retryDelayMs: 1 },
+      new HostRateLimiter(0),
+      (message) => log.push(message)
+    );
+
+    expect(response?.status()).toBe(200);
+    expect(log).toEqual([
+      'HTTP 503 for https://old.example.com/, retrying in 1ms (1/2)',
+      'HTTP 429 for https://old.example.com/, retrying in 0ms (2/2)',
+    ]);
+    expect(retryDelayMs(3, 500)).toBe(4000);
+  });
+
+  it('spaces requests to the same host', async () => {
+    const limiter = HostRateLimiter.forRate(20);
+    const started = Date.now();
+    await Promise.all([
+      limiter.acquire('https://old.example.com/a'),
+      limiter.acquire('https://old.example.com/b'),
+      limiter.acquire('https://old.example.com/c'),
+      limiter.acquire('https://new.example.com/a'),
+    ]);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(90);
+    expect(HostRateLimiter.forRate(10, 2)).toEqual(new HostRateLimiter(2000));
+  });
+});
+
+describe('CrawlAgent SPA discovery', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('clicks navigation-like elements and records the routes they reveal', async () => {
+    const home = 'https://new.example.com/';
+    let url = home;
+    let history: Array<{ url: string; method: string }> = [];
+    const clicks = [
+      () => {
+        url = 'https://new.example.com/pricing';
+        history = [{ url, method: 'pushState' }];
+      },
+      () => undefined,
+      () => {
+        url = 'https://new.example.com/about';
+        history = [];
+      },
+    ];
+    // evaluate() alternates between resetting and reading the recorded history calls
+    let reads = 0;
+    const page = {
+      url: () => url,
+      $$eval: async () => [
+        { index: 0, description: 'button "Pricing"' },
+        { index: 1, description: 'link "Menu"' },
+        { index: 2, description: 'button "About"' },
+      ],
+      evaluate: async () => (reads++ % 2 === 0 ? (history = []) : history),
+      locator: () => ({ nth: (index: number) => ({ click: async () => clicks[index]() }) }),
+      waitForLoadState: async () => undefined,
+      goto: vi.fn(async (target: string) => {
+        url = target;
+      }),
+    } as unknown as Page;
+
+    expect(await discoverSpaRoutes(page)).toEqual([
+      { url: 'https://new.example.com/pricing', fromUrl: home, interaction: 'click button "Pricing"', method: 'pushState' },
+      { url: 'https://new.example.com/about', fromUrl: home, interaction: 'click button "About"', method: 'navigation' },
+    ]);
+    expect(page.goto).toHaveBeenCalledTimes(2);
+    expect(url).toBe(home);
+  });
+
+  it('queues discovered routes with the interaction that revealed them', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 404 })));
+
+    const agent = new CrawlAgent();
+    const context = {
+      newPage: async () => ({ close: async () => undefined }),
+      addInitScript: vi.fn(async () => undefined),
+      close: async () => undefined,
+    };
+    vi.spyOn(agent, 'initialize').mockImplementation(async () => {
+      (agent as unknown as { browser: Browser }).browser = { newContext: async () => context } as unknown as Browser;
+    });
+    vi.spyOn(agent, 'loadCheckpoint').mockResolvedValue(undefined);
+    vi.spyOn(agent, 'saveCheckpoint').mockResolvedValue('');
+
+    const route = {
+      url: 'https://new.example.com/pricing',
+      fromUrl: 'https://new.example.com',
+      interaction: 'click button "Pricing"',
+      method: 'pushState' as const,
+    };
+    vi.spyOn(agent, 'crawlPage').mockImplementation(async (_page, url, baseUrl, _depth, _maxDepth, visited) => {
+      visited.add(agent.normalizeUrl(url, baseUrl));
+      const normalizedPath = new URL(url).pathname;
+      return { url, normalizedPath, statusCode: 200, links: [], spaRoutes: normalizedPath === '/' ? [route, route] : [] };
+    });
+
+    const result = await agent.crawlSite('https://new.example.com', { depth: 1, spaDiscovery: true }, 'spa-run');
+
+    expect(context.addInitScript).toHaveBeenCalled();
+    expect(result.spaRoutes).toEqual([route]);
+    expect(result.pages.map((p) => [p.normalizedPath, p.discoveredVia?.interaction])).toEqual([
+      ['/', undefined],
+      ['/pricing', 'click button "Pricing"'],
+    ]);
+  });
+});
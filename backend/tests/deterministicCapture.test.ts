@@ -0,0 +1,106 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { BrowserContext } from 'playwright';
+import { DATA_DIR } from '../src/config/config';
+import { PlaywrightExecutionService } from '../src/services/playwrightExecutionService';
+import { DEFAULT_FROZEN_TIME, frozenTime, seedMathRandom } from '../src/services/deterministicCapture';
+
+const runId = 'deterministic-capture-test';
+
+/**
+ * Context whose pages record the Playwright calls made on them
+ */
+function fakeContext(calls: string[], screenshots: Array<Record<string, unknown>>): BrowserContext {
+  const page = {
+    on: () => undefined,
+    url: () => 'https://old.example.com/',
+    clock: { setFixedTime: async (time: Date) => void calls.push(`clock ${time.toISOString()}`) },
+    addInitScript: async (_script: unknown, arg: unknown) => void calls.push(`initScript ${arg}`),
+    goto: async () => {
+      calls.push('goto');
+      return { status: () => 200 };
+    },
+    waitForLoadState: async () => undefined,
+    addStyleTag: async ({ content }: { content: string }) =>
+      void calls.push(content.includes('animation-duration') ? 'animationStyles' : 'style'),
+    evaluate: async (fn: { toString(): string }) => {
+      const source = fn.toString();
+      calls.push(source.includes('fonts') ? 'fonts' : source.includes('scrollBy') ? 'scroll' : 'evaluate');
+      return '';
+    },
+    viewportSize: async () => ({ width: 1920, height: 1080 }),
+    content: async () => '<html></html>',
+    setViewportSize: async () => undefined,
+    waitForTimeout: async () => undefined,
+    locator: () => ({}),
+    screenshot: async (options: Record<string, unknown>) => {
+      calls.push('screenshot');
+      screenshots.push(options);
+    },
+    close: async () => undefined,
+  };
+  return { newPage: async () => page } as unknown as BrowserContext;
+}
+
+describe('Deterministic capture', () => {
+  afterEach(async () => {
+    await fs.rm(path.join(DATA_DIR, 'artifacts', runId), { recursive: true, force: true });
+  });
+
+  it('replays the same Math.random sequence for the same seed', () => {
+    const original = Math.random;
+    try {
+      seedMathRandom(42);
+      const first = [Math.random(), Math.random(), Math.random()];
+      seedMathRandom(42);
+      expect([Math.random(), Math.random(), Math.random()]).toEqual(first);
+      seedMathRandom(7);
+      expect(Math.random()).not.toBe(first[0]);
+      expect(first.every((value) => value >= 0 && value < 1)).toBe(true);
+    } finally {
+      Math.random = original;
+    }
+  });
+
+  it('resolves the frozen instant', () => {
+    expect(frozenTime({})).toBeUndefined();
+    expect(frozenTime({ freezeTime: true })?.toISOString()).toBe(DEFAULT_FROZEN_TIME);
+    expect(frozenTime({ freezeTime: '2025-06-01T12:00:00Z' })?.toISOString()).toBe('2025-06-01T12:00:00.000Z');
+    expect(() => frozenTime({ freezeTime: 'yesterday' })).toThrow('Invalid capture freezeTime');
+  });
+
+  it('applies capture options around navigation and screenshots', async () => {
+    const calls: string[] = [];
+    const screenshots: Array<Record<string, unknown>> = [];
+    const service = new PlaywrightExecutionService([{ name: 'desktop', width: 1280, height: 800 }]);
+
+    const result = await service.executePage(
+      fakeContext(calls, screenshots),
+      'https://old.example.com/',
+      '/',
+      'baseline',
+      runId,
+      [],
+      { freezeTime: '2025-06-01T12:00:00Z', randomSeed: 3, disableAnimations: true, scrollToLoad: true, waitForFonts: true }
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(calls.slice(0, 3)).toEqual(['clock 2025-06-01T12:00:00.000Z', 'initScript 3', 'goto']);
+    expect(calls.indexOf('animationStyles')).toBeLessThan(calls.indexOf('screenshot'));
+    expect(calls.indexOf('fonts')).toBeLessThan(calls.indexOf('screenshot'));
+    expect(calls.indexOf('scroll')).toBeLessThan(calls.indexOf('screenshot'));
+    expect(screenshots[0]).toMatchObject({ fullPage: true, animations: 'disabled', caret: 'hide' });
+  });
+
+  it('leaves the page untouched without capture options', async () => {
+    const calls: string[] = [];
+    const screenshots: Array<Record<string, unknown>> = [];
+    const service = new PlaywrightExecutionService([{ name: 'desktop', width: 1280, height: 800 }]);
+
+    await service.executePage(fakeContext(calls, screenshots), 'https://old.example.com/', '/', 'baseline', runId);
+
+    expect(calls.filter((call) => /clock|initScript|Styles|fonts|scroll/.test(call))).toEqual([]);
+    expect(screenshots[0]).toMatchObject({ animations: 'allow', caret: 'hide' });
+  });
+});
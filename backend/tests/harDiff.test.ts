@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { BrowserContext, BrowserContextOptions } from 'playwright';
+import { Har, HarEntry, diffHars, endpointKey, summarizeNetworkDiffs } from '../src/services/harDiff';
+import { FunctionalQaAgent, SiteFunctionalResult } from '../src/services/functionalQaAgent';
+import { AiReasoningService } from '../src/services/aiReasoningService';
+
+function entry(
+  url: string,
+  status: number,
+  size: number,
+  headers: Record<string, string> = {},
+  mimeType = 'application/javascript',
+  method = 'GET'
+): HarEntry {
+  return {
+    startedDateTime: '2024-01-01T00:00:00.000Z',
+    time: 50,
+    request: { method, url, headers: [] },
+    response: {
+      status,
+      statusText: '',
+      headers: Object.entries(headers).map(([name, value]) => ({ name, value })),
+      bodySize: -1,
+      content: { size, mimeType },
+    },
+  };
+}
+
+function har(entries: HarEntry[]): Har {
+  return { log: { version: '1.2', entries } };
+}
+
+describe('HAR diff', () => {
+  it('keys first-party endpoints without host, build hash or query values', () => {
+    expect(endpointKey('GET', 'https://new.example.com/static/main.3f2a9c1b.js?v=12&lang=en', 'new.example.com')).toBe(
+      'GET /static/main.js?lang&v'
+    );
+    expect(endpointKey('POST', 'https://www.google-analytics.com/collect?tid=1', 'new.example.com')).toBe(
+      'POST //www.google-analytics.com/collect?tid'
+    );
+  });
+
+  it('reports endpoint, status, size, caching, compression and duplicate changes', () => {
+    const baseline = har([
+      entry('https://old.example.com/', 200, 30000, { 'content-encoding': 'gzip' }, 'text/html'),
+      entry('https://old.example.com/static/app.11111111.js', 200, 100000, { 'cache-control': 'public, max-age=31536000', 'content-encoding': 'br' }),
+      entry('https://old.example.com/api/cart', 200, 500, {}, 'application/json'),
+      entry('https://old.example.com/legacy.css', 200, 2000, {}, 'text/css'),
+    ]);
+    const candidate = har([
+      entry('https://new.example.com/', 200, 31000, { 'content-encoding': 'gzip' }, 'text/html'),
+      entry('https://new.example.com/static/app.22222222.js', 200, 160000, { 'cache-control': 'no-store' }),
+      entry('https://new.example.com/api/cart', 500, 120, {}, 'application/json'),
+      entry('https://new.example.com/api/cart', 500, 120, {}, 'application/json'),
+      entry('https://cdn.chat.example/widget.js', 200, 8000),
+    ]);
+
+    const diff = diffHars('/', baseline, candidate, 'https://old.example.com', 'https://new.example.com');
+
+    expect(diff.missingEndpoints.map((e) => e.endpoint)).toEqual(['GET /legacy.css']);
+    expect(diff.newEndpoints.map((e) => e.endpoint)).toEqual(['GET //cdn.chat.example/widget.js']);
+    expect(diff.statusChanges).toEqual([{ endpoint: 'GET /api/cart', baselineStatus: 200, candidateStatus: 500 }]);
+    expect(diff.sizeChanges).toEqual([
+      { endpoint: 'GET /static/app.js', baselineBytes: 100000, candidateBytes: 160000, deltaPercent: 60 },
+    ]);
+    expect(diff.cachingChanges).toEqual([
+      { endpoint: 'GET /static/app.js', baseline: 'max-age=31536000, public', candidate: 'no-store' },
+    ]);
+    expect(diff.compressionChanges).toEqual([
+      { endpoint: 'GET /static/app.js', baseline: 'br', candidate: 'identity', candidateBytes: 160000 },
+    ]);
+    expect(diff.duplicateRequests).toEqual([{ url: 'https://new.example.com/api/cart', baselineCount: 1, candidateCount: 2 }]);
+    expect([diff.baselineRequests, diff.candidateRequests]).toEqual([4, 5]);
+
+    expect(summarizeNetworkDiffs([diff])).toMatchObject({
+      pagesWithChanges: 1,
+      statusRegressions: 1,
+      compressionRegressions: 1,
+      duplicateRequests: 1,
+    });
+  });
+
+  it('fails the functional analysis when the candidate breaks requests the baseline served', async () => {
+    const diff = diffHars(
+      '/',
+      har([entry('https://old.example.com/api/cart', 200, 500, {}, 'application/json')]),
+      har([entry('https://new.example.com/api/cart', 503, 120, {}, 'application/json')]),
+      'https://old.example.com',
+      'https://new.example.com'
+    );
+    const site = (baseUrl: string): SiteFunctionalResult => ({
+      baseUrl,
+      pages: [],
+      summary: { totalPages: 1, pagesWithNavigationIssues: 0, pagesWithFormIssues: 0, totalBrokenLinks: 0, totalJSErrors: 0, pagesWithJSErrors: 0 },
+    });
+
+    const aiResult = await new AiReasoningService().analyzeArtifacts(
+      undefined,
+      {
+        baseline: site('https://old.example.com'),
+        candidate: site('https://new.example.com'),
+        networkDiff: { pages: [diff], summary: summarizeNetworkDiffs([diff]) },
+        artifactPaths: [],
+      },
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      'run-1'
+    );
+
+    expect(aiResult.overallPass).toBe(false);
+    expect(aiResult.categoryAnalyses).toMatchObject([{ category: 'functional', severity: 'high', pass: false }]);
+  });
+
+  it('records pages in a new context of the site browser with its session options', async () => {
+    const created: BrowserContextOptions[] = [];
+    let closed = false;
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'migrate-guard-'));
+    const harPath = path.join(dir, 'har', 'page.har');
+    const recorder = {
+      newPage: async () => ({}),
+      close: async () => {
+        closed = true;
+        await fs.writeFile(harPath, JSON.stringify(har([])));
+      },
+    };
+    const context = {
+      browser: () => ({ newContext: async (options: BrowserContextOptions) => (created.push(options), recorder) }),
+    } as unknown as BrowserContext;
+
+    const recorded = await new FunctionalQaAgent().openRecordedPage(context, harPath, {
+      extraHTTPHeaders: { authorization: 'Bearer token' },
+    });
+    await recorded.close();
+    await fs.rm(dir, { recursive: true, force: true });
+
+    expect(recorded.recording).toBe(true);
+    expect(created).toEqual([
+      {
+        ignoreHTTPSErrors: true,
+        extraHTTPHeaders: { authorization: 'Bearer token' },
+        recordHar: { path: harPath, mode: 'full', content: 'omit' },
+      },
+    ]);
+    expect(closed).toBe(true);
+  });
+
+  it('routes the recording through the intercept rules and leaves no secret in the HAR', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'migrate-guard-'));
+    const harPath = path.join(dir, 'har', 'page.har');
+    const routes: string[] = [];
+    const recorded = entry('https://new.example.com/account?key=api-key-123', 200, 100, {
+      'set-cookie': 'session=fresh-session-id; HttpOnly',
+    });
+    recorded.request.headers = [
+      { name: 'Authorization', value: 'Basic ' + Buffer.from('admin:hunter2').toString('base64') },
+      { name: 'Cookie', value: 'sid=stored-session-id' },
+      { name: 'X-Api-Key', value: 'api-key-123' },
+      { name: 'Accept', value: 'text/html' },
+    ];
+    const recorder = {
+      route: async (pattern: string) => void routes.push(pattern),
+      newPage: async () => ({}),
+      close: async () =>
+        fs.writeFile(
+          harPath,
+          JSON.stringify({
+            log: {
+              version: '1.2',
+              entries: [{ ...recorded, request: { ...recorded.request, cookies: [{ name: 'sid', value: 'stored-session-id' }] } }],
+            },
+          })
+        ),
+    };
+    const context = { browser: () => ({ newContext: async () => recorder }) } as unknown as BrowserContext;
+
+    const page = await new FunctionalQaAgent().openRecordedPage(
+      context,
+      harPath,
+      {
+        httpCredentials: { username: 'admin', password: 'hunter2' },
+        extraHTTPHeaders: { 'x-api-key': 'api-key-123' },
+        storageState: {
+          cookies: [
+            { name: 'sid', value: 'stored-session-id', domain: 'new.example.com', path: '/', expires: -1, httpOnly: true, secure: true, sameSite: 'Lax' },
+          ],
+          origins: [],
+        },
+      },
+      [{ action: 'block', pattern: 'google-analytics.com' }]
+    );
+    await page.close();
+    const text = await fs.readFile(harPath, 'utf-8');
+    await fs.rm(dir, { recursive: true, force: true });
+
+    expect(routes).toEqual(['**/*']);
+    for (const secret of ['hunter2', 'YWRtaW46aHVudGVyMg==', 'api-key-123', 'stored-session-id', 'fresh-session-id']) {
+      expect(text).not.toContain(secret);
+    }
+    const [redacted] = (JSON.parse(text) as Har).log.entries;
+    expect(redacted.request.url).toBe('https://new.example.com/account?key=[REDACTED]');
+    expect(redacted.request.headers.find((h) => h.name === 'Accept')?.value).toBe('text/html');
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BrowserContext } from 'playwright';
+import { JourneyAgent, JourneyResult, SiteJourneyRun } from '../src/services/journeyAgent';
+import { AiReasoningService } from '../src/services/aiReasoningService';
+import { ReportAgent } from '../src/services/reportAgent';
+import { ComparisonJob, Journey, Run } from '../src/models';
+
+const checkout: Journey = {
+  name: 'checkout',
+  steps: [
+    { action: 'goto', url: '/search?q=shoes' },
+    { action: 'click', selector: '.product a' },
+    { action: 'assertUrl', url: '/products/*' },
+    { action: 'assertText', text: 'Add to cart' },
+  ],
+};
+
+/**
+ * Browser context whose single page navigates and reads text without a real browser
+ */
+function fakeContext(bodyText: string) {
+  let currentUrl = 'about:blank';
+  const page = {
+    goto: vi.fn(async (url: string) => {
+      currentUrl = url;
+      return { status: () => 200 };
+    }),
+    click: vi.fn(async () => {
+      currentUrl = new URL('/products/42', currentUrl).toString();
+    }),
+    url: () => currentUrl,
+    locator: () => ({ first: () => ({ innerText: async () => bodyText }) }),
+    close: vi.fn(async () => undefined),
+  };
+  return { context: { newPage: async () => page } as unknown as BrowserContext, page };
+}
+
+describe('JourneyAgent', () => {
+  const agent = new JourneyAgent();
+
+  it('parses YAML and JSON journeys', () => {
+    const yaml = `
+name: checkout
+steps:
+  - action: goto
+    url: /search?q=shoes
+  - action: fill
+    selector: "#qty"
+    value: "2"
+  - action: screenshot
+    name: cart
+`;
+    const [journey] = agent.parseJourneys(yaml, 'yaml');
+    expect(journey.steps.map((s) => s.action)).toEqual(['goto', 'fill', 'screenshot']);
+
+    const json = JSON.stringify({ journeys: [checkout] });
+    expect(agent.parseJourneys(json, 'json')).toEqual([checkout]);
+  });
+
+  it('rejects malformed journeys', () => {
+    expect(() => agent.parseJourneys('[{ "steps": [] }]', 'json')).toThrow('requires a name');
+    expect(() => agent.parseJourneys('name: a\nsteps: []', 'yaml')).toThrow('at least one step');
+    expect(() => agent.parseJourneys('name: a\nsteps:\n  - action: hover', 'yaml')).toThrow('unknown action "hover"');
+    expect(() => agent.parseJourneys('name: a\nsteps:\n  - action: fill\n    selector: "#q"', 'yaml')).toThrow(
+      'requires "value"'
+    );
+    expect(() => agent.parseJourneys('{', 'json')).toThrow('Invalid journey');
+  });
+
+  it('runs steps in order and skips the rest after a failure', async () => {
+    const passing = fakeContext('Add to cart');
+    const baseline = await agent.executeJourney(passing.context, checkout, 'https://old.example.com', 'baseline', 'run-1');
+
+    expect(passing.page.goto).toHaveBeenCalledWith('https://old.example.com/search?q=shoes', expect.anything());
+    expect(baseline.passed).toBe(true);
+    expect(baseline.steps.map((s) => s.status)).toEqual(['passed', 'passed', 'passed', 'passed']);
+
+    const failing = fakeContext('Sold out');
+    const candidate = await agent.executeJourney(failing.context, checkout, 'https://new.example.com', 'candidate', 'run-1');
+
+    expect(candidate.passed).toBe(false);
+    expect(candidate.steps[3]).toMatchObject({ status: 'failed', error: 'Expected "Add to cart" in body' });
+    expect(failing.page.close).toHaveBeenCalled();
+  });
+
+  it('diffs step outcomes and timings between sites', () => {
+    const run = (statuses: Array<'passed' | 'failed' | 'skipped'>, durations: number[]): SiteJourneyRun => ({
+      baseUrl: 'https://example.com',
+      passed: statuses.every((s) => s === 'passed'),
+      durationMs: durations.reduce((a, b) => a + b, 0),
+      steps: statuses.map((status, index) => ({
+        index,
+        action: 'click',
+        label: `step ${index}`,
+        status,
+        durationMs: durations[index],
+      })),
+    });
+
+    const comparison = agent.compareJourneyRuns(
+      'checkout',
+      run(['passed', 'passed', 'passed'], [100, 200, 300]),
+      run(['passed', 'failed', 'skipped'], [2500, 150, 0])
+    );
+
+    expect(comparison.verdict).toBe('regression');
+    expect(comparison.stepDiffs.map((d) => [d.outcomeChanged, d.slower, d.timingDeltaMs])).toEqual([
+      [false, true, 2400],
+      [true, false, -50],
+      [true, false, -300],
+    ]);
+  });
+
+  it('fails the verdict when a journey regresses on the candidate', async () => {
+    const journeyResult: JourneyResult = {
+      journeys: [],
+      summary: { totalJourneys: 2, passed: 1, regressions: 1, fixed: 0, broken: 0, slowSteps: 0, checkpointsWithDiffs: 0 },
+      artifactPaths: [],
+    };
+    const reportAgent = new ReportAgent();
+
+    const aiResult = await new AiReasoningService().analyzeArtifacts(
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      journeyResult,
+      'run-1'
+    );
+    const summary = reportAgent.generateExecutiveSummary(
+      { name: 'Journey job', baselineUrl: 'https://old.example.com', candidateUrl: 'https://new.example.com' } as ComparisonJob,
+      { triggeredAt: '2024-01-01T00:00:00.000Z' } as Run,
+      aiResult,
+      reportAgent.calculateRiskScore(aiResult)
+    );
+
+    expect(aiResult.overallPass).toBe(false);
+    expect(aiResult.categoryAnalyses).toMatchObject([{ category: 'functional', severity: 'high', pass: false }]);
+    expect(summary).toMatchObject({ goNoGo: 'no-go', overallStatus: 'fail' });
+  });
+});
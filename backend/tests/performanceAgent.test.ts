@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import type { BrowserContext } from 'playwright';
+import { PerformanceAgent, PerformanceResult, checkPerformanceBudgets } from '../src/services/performanceAgent';
+import { AiReasoningService } from '../src/services/aiReasoningService';
+import { ReportAgent } from '../src/services/reportAgent';
+
+describe('PerformanceAgent', () => {
+  it('flags candidate metrics outside their budgets', () => {
+    const baseline = { lcp: 2000, cls: 0.02, fcp: 900, transferBytes: 500000 };
+    const candidate = { lcp: 2300, cls: 0.1, fcp: 930, transferBytes: 520000 };
+
+    const violations = checkPerformanceBudgets(baseline, candidate, [
+      { metric: 'lcp', maxRegressionPercent: 10 },
+      { metric: 'cls', maxIncrease: 0.05 },
+      { metric: 'fcp', maxRegressionPercent: 1 }, // 30ms is below the noise floor
+      { metric: 'transferBytes', maxValue: 400000 },
+      { metric: 'inp', maxRegressionPercent: 10 }, // Not measured, nothing to check
+    ]);
+
+    expect(violations.map((v) => [v.metric, v.severity])).toEqual([
+      ['lcp', 'high'],
+      ['cls', 'high'],
+      ['transferBytes', 'low'],
+    ]);
+    expect(violations[0].message).toBe('lcp regressed by 15.0% (2000 → 2300), more than the 10% budget');
+  });
+
+  it('collects observer timings and CDP byte counts from a cold load', async () => {
+    const handlers = new Map<string, (event: Record<string, unknown>) => void>();
+    const sent: string[] = [];
+    const page = {
+      addInitScript: async () => undefined,
+      goto: async () => {
+        handlers.get('Network.responseReceived')?.({ requestId: '1', type: 'Document' });
+        handlers.get('Network.responseReceived')?.({ requestId: '2', type: 'Script' });
+        handlers.get('Network.responseReceived')?.({ requestId: '3', type: 'Image' });
+        handlers.get('Network.loadingFinished')?.({ requestId: '1', encodedDataLength: 12000 });
+        handlers.get('Network.loadingFinished')?.({ requestId: '2', encodedDataLength: 80000 });
+        handlers.get('Network.loadingFinished')?.({ requestId: '3', encodedDataLength: 40000 });
+        return { status: () => 200 };
+      },
+      waitForTimeout: async () => undefined,
+      evaluate: async () => ({ ttfb: 120.4, fcp: 800.6, lcp: 1500.2, cls: 0.123456, inp: undefined, tbt: 310 }),
+      close: async () => undefined,
+    };
+    const context = {
+      newPage: async () => page,
+      newCDPSession: async () => ({
+        on: (event: string, handler: (event: Record<string, unknown>) => void) => handlers.set(event, handler),
+        send: async (method: string) => void sent.push(method),
+      }),
+    } as unknown as BrowserContext;
+
+    const metrics = await new PerformanceAgent().collectMetrics(context, 'https://old.example.com/');
+
+    expect(sent).toEqual(['Network.enable', 'Network.setCacheDisabled']);
+    expect(metrics).toEqual({
+      ttfb: 120,
+      fcp: 801,
+      lcp: 1500,
+      cls: 0.1235,
+      tbt: 310,
+      transferBytes: 132000,
+      requestCount: 3,
+      jsBytes: 80000,
+      cssBytes: 0,
+      imageBytes: 40000,
+    });
+  });
+
+  it('raises the risk score of runs that break their budgets', async () => {
+    const result: PerformanceResult = {
+      pages: [],
+      budgets: [],
+      summary: {
+        totalPages: 3,
+        measuredPages: 3,
+        pagesWithViolations: 3,
+        totalViolations: 6,
+        criticalIssues: 2,
+        highIssues: 4,
+        mediumIssues: 0,
+        lowIssues: 0,
+        violationsByMetric: { lcp: 3, cls: 3 },
+      },
+      artifactPaths: [],
+    };
+
+    const aiResult = await new AiReasoningService().analyzeArtifacts(undefined, undefined, undefined, undefined, result, undefined, undefined, undefined, 'run-1');
+    const risk = new ReportAgent().calculateRiskScore(aiResult);
+
+    expect(aiResult.overallPass).toBe(false);
+    expect(aiResult.categoryAnalyses).toMatchObject([{ category: 'performance', severity: 'critical' }]);
+    expect(risk.performance).toBe(100);
+    expect(risk.overall).toBe(100);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { RedirectAgent, RedirectVerificationResult } from '../src/services/redirectAgent';
+import { AiReasoningService } from '../src/services/aiReasoningService';
+import { ReportAgent } from '../src/services/reportAgent';
+import { ComparisonJob, Run } from '../src/models';
+
+// A tiny candidate host with a few redirect scenarios
+const routes: Record<string, { status: number; location?: string }> = {
+  '/old': { status: 301, location: '/new' },
+  '/temp': { status: 302, location: '/new' },
+  '/chain': { status: 301, location: '/old' },
+  '/loop-a': { status: 301, location: '/loop-b' },
+  '/loop-b': { status: 301, location: '/loop-a' },
+  '/gone': { status: 301, location: '/missing' },
+  '/new': { status: 200 },
+  '/live': { status: 200 },
+};
+
+describe('RedirectAgent', () => {
+  const agent = new RedirectAgent();
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const route = routes[req.url ?? ''] ?? { status: 404 };
+      res.writeHead(route.status, route.location ? { Location: route.location } : {});
+      res.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('parses CSV with a header row and JSON maps', () => {
+    expect(agent.parseRedirectMap('from,to,status\n/old,/new,301\n/temp;/new\n', 'csv')).toEqual([
+      { from: '/old', to: '/new', expectedStatus: 301 },
+      { from: '/temp', to: '/new', expectedStatus: undefined },
+    ]);
+    expect(agent.parseRedirectMap('[{"from":"/a","to":"/b","status":308}]', 'json')).toEqual([
+      { from: '/a', to: '/b', expectedStatus: 308 },
+    ]);
+  });
+
+  it('rejects incomplete rules', () => {
+    expect(() => agent.parseRedirectMap('/old\n', 'csv')).toThrow('Invalid redirect map');
+    expect(() => agent.parseRedirectMap('{"from":"/a"}', 'json')).toThrow('Invalid redirect map');
+  });
+
+  it('classifies redirect outcomes', async () => {
+    const check = (from: string, to: string, expectedStatus?: number) =>
+      agent.verifyRule({ from, to, expectedStatus }, baseUrl);
+
+    expect((await check('/old', '/new')).status).toBe('pass');
+    expect((await check('/temp', '/new')).status).toBe('wrong_status');
+    expect((await check('/old', '/elsewhere')).status).toBe('wrong_target');
+    expect((await check('/live', '/new')).status).toBe('not_redirected');
+    expect((await check('/gone', '/missing')).status).toBe('broken_target');
+
+    const loop = await check('/loop-a', '/new');
+    expect(loop.status).toBe('loop');
+    expect(loop.statusCodes).toEqual([301, 301]);
+
+    const chain = await check('/chain', '/new');
+    expect(chain.status).toBe('pass');
+    expect(chain.hopCount).toBe(2);
+    expect(chain.statusCodes).toEqual([301, 301, 200]);
+    expect(chain.finalUrl).toBe(`${baseUrl}/new`);
+  });
+
+  it('requests absolute legacy URLs on the candidate host and reports malformed rules', async () => {
+    const absolute = await agent.verifyRule({ from: 'https://legacy.example.com/old', to: '/new' }, baseUrl);
+    expect(absolute.requestedUrl).toBe(`${baseUrl}/old`);
+    expect(absolute.status).toBe('pass');
+
+    const malformed = await agent.verifyRule({ from: 'http://[legacy/old', to: '/new' }, baseUrl);
+    expect(malformed.status).toBe('invalid_rule');
+    expect(malformed.issues).toEqual(['Invalid redirect rule: http://[legacy/old → /new']);
+  });
+
+  it('fails the verdict when legacy URLs loop or are not redirected', async () => {
+    const redirectResult: RedirectVerificationResult = {
+      candidateUrl: baseUrl,
+      results: [],
+      summary: {
+        totalRules: 3,
+        passed: 0,
+        failed: 3,
+        wrongTarget: 0,
+        wrongStatus: 0,
+        notRedirected: 2,
+        brokenTargets: 0,
+        loops: 1,
+        multiHopChains: 0,
+        invalidRules: 0,
+        errors: 0,
+      },
+      artifactPaths: [],
+    };
+    const reportAgent = new ReportAgent();
+
+    const aiResult = await new AiReasoningService().analyzeArtifacts(
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      redirectResult,
+      undefined,
+      'run-1'
+    );
+    const riskScore = reportAgent.calculateRiskScore(aiResult);
+    const summary = reportAgent.generateExecutiveSummary(
+      { name: 'Redirect job', baselineUrl: 'https://old.example.com', candidateUrl: baseUrl } as ComparisonJob,
+      { triggeredAt: '2024-01-01T00:00:00.000Z' } as Run,
+      aiResult,
+      riskScore,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      redirectResult
+    );
+
+    expect(aiResult.categoryAnalyses).toMatchObject([{ category: 'redirects', severity: 'critical', pass: false }]);
+    expect(riskScore.redirects).toBe(100);
+    expect(summary).toMatchObject({ goNoGo: 'no-go', overallStatus: 'fail', keyMetrics: { criticalIssues: 3 } });
+  });
+});
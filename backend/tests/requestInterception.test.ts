@@ -0,0 +1,134 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { BrowserContext, Page, Route } from 'playwright';
+import { FIXTURES_DIR } from '../src/config/config';
+import { InterceptRule } from '../src/models';
+import {
+  InterceptedRequest,
+  interceptRequests,
+  matchesInterceptPattern,
+  rulesForSite,
+  validateInterceptRules,
+} from '../src/services/requestInterception';
+import { PlaywrightExecutionService } from '../src/services/playwrightExecutionService';
+
+const fixture = path.join(FIXTURES_DIR, 'interception-test', 'chat.json');
+
+/**
+ * Context that records its route handlers so requests can be replayed through the latest one
+ */
+function routedContext() {
+  const handlers: Array<(route: Route) => Promise<void>> = [];
+  const context = { route: async (_url: string, handler: (route: Route) => Promise<void>) => void handlers.push(handler) };
+  const request = async (url: string, resourceType = 'script', page?: Page) => {
+    const calls: Array<[string, unknown]> = [];
+    const route = {
+      request: () => ({ url: () => url, method: () => 'GET', resourceType: () => resourceType, frame: () => ({ page: () => page }) }),
+      abort: async (code?: string) => void calls.push(['abort', code]),
+      fulfill: async (response: { status: number; contentType?: string; body: Buffer | string }) =>
+        void calls.push(['fulfill', { ...response, body: response.body.toString() }]),
+      continue: async (overrides?: unknown) => void calls.push(['continue', overrides]),
+      fallback: async () => void calls.push(['fallback', undefined]),
+    } as unknown as Route;
+    await handlers[handlers.length - 1](route);
+    return calls;
+  };
+  return { context, handlers, request };
+}
+
+describe('Request interception', () => {
+  afterEach(async () => {
+    await fs.rm(path.dirname(fixture), { recursive: true, force: true });
+  });
+
+  it('matches domains with their subdomains and URL globs', () => {
+    expect(matchesInterceptPattern('https://www.google-analytics.com/collect?v=1', 'google-analytics.com')).toBe(true);
+    expect(matchesInterceptPattern('https://stats.g.doubleclick.net/j/collect', '*.doubleclick.net')).toBe(true);
+    expect(matchesInterceptPattern('https://notgoogle-analytics.com/', 'google-analytics.com')).toBe(false);
+    expect(matchesInterceptPattern('https://new.example.com/api/track/event', '**/api/track/*')).toBe(true);
+    expect(matchesInterceptPattern('https://new.example.com/api/track/a/b', 'https://new.example.com/api/track/*')).toBe(false);
+
+    const rules: InterceptRule[] = [
+      { action: 'block', pattern: 'ads.example.com' },
+      { action: 'rewrite', pattern: 'api.example.com', site: 'candidate', rewriteHost: 'staging-api.example.com' },
+    ];
+    expect(rulesForSite(rules, 'baseline')).toEqual([rules[0]]);
+    expect(() => validateInterceptRules([{ action: 'mock', pattern: '**/chat', fixture: '../credentials.json' }])).toThrow(
+      'Invalid intercept rule 1: fixture "../credentials.json" must be a file inside the fixtures directory'
+    );
+    expect(() => validateInterceptRules([{ action: 'rewrite', pattern: 'api.example.com', rewriteHost: 'https://x' }])).toThrow(
+      'Invalid intercept rule 1'
+    );
+  });
+
+  it('blocks, mocks and rewrites matching requests and records each one', async () => {
+    await fs.mkdir(path.dirname(fixture), { recursive: true });
+    await fs.writeFile(fixture, '{"messages":[]}');
+    const intercepted: InterceptedRequest[] = [];
+    const { context, request } = routedContext();
+
+    await interceptRequests(
+      context as unknown as BrowserContext,
+      [
+        { action: 'block', pattern: '*.google-analytics.com' },
+        { action: 'mock', pattern: '**/widget/chat*', fixture: 'interception-test/chat.json' },
+        { action: 'mock', pattern: '**/beacon', status: 204 },
+        { action: 'rewrite', pattern: 'api.new.example.com', rewriteHost: 'staging-api.example.com:8443' },
+      ],
+      (entry) => intercepted.push(entry)
+    );
+
+    expect(await request('https://www.google-analytics.com/analytics.js')).toEqual([['abort', 'blockedbyclient']]);
+    expect(await request('https://chat.example.com/widget/chat.json', 'xhr')).toEqual([
+      ['fulfill', { status: 200, contentType: 'application/json', body: '{"messages":[]}' }],
+    ]);
+    expect(await request('https://new.example.com/beacon', 'ping')).toEqual([
+      ['fulfill', { status: 204, contentType: undefined, body: '' }],
+    ]);
+    expect(await request('https://api.new.example.com/v1/products?page=2', 'fetch')).toEqual([
+      ['continue', { url: 'https://staging-api.example.com:8443/v1/products?page=2' }],
+    ]);
+    expect(await request('https://new.example.com/app.js')).toEqual([['fallback', undefined]]);
+
+    expect(intercepted.map((entry) => [entry.action, entry.resourceType, entry.fixture ?? entry.rewrittenUrl])).toEqual([
+      ['block', 'script', undefined],
+      ['mock', 'xhr', 'interception-test/chat.json'],
+      ['mock', 'ping', undefined],
+      ['rewrite', 'fetch', 'https://staging-api.example.com:8443/v1/products?page=2'],
+    ]);
+  });
+
+  it('installs the rules once on the execution context, so pages other agents open there are routed too', async () => {
+    const { context, handlers, request } = routedContext();
+    const newPage = async () => {
+      const page = {
+        on: () => undefined,
+        goto: async () => {
+          await request('https://www.google-analytics.com/analytics.js', 'script', page);
+          return { status: () => 200 };
+        },
+        waitForLoadState: async () => undefined,
+        viewportSize: async () => null,
+        setViewportSize: async () => undefined,
+        close: async () => undefined,
+      } as unknown as Page;
+      return page;
+    };
+    const executionContext = Object.assign(context, { newPage }) as unknown as BrowserContext;
+    const rules: InterceptRule[] = [{ action: 'block', pattern: 'google-analytics.com' }];
+    const service = new PlaywrightExecutionService();
+
+    const results = [
+      await service.executePage(executionContext, 'https://new.example.com/', '/', 'candidate', 'run-1', [], {}, [], [], rules),
+      await service.executePage(executionContext, 'https://new.example.com/a', '/a', 'candidate', 'run-1', [], {}, [], [], rules),
+    ];
+
+    expect(handlers).toHaveLength(1);
+    expect(results.map((result) => result.interceptedRequests?.map((entry) => entry.action))).toEqual([['block'], ['block']]);
+    // A page opened later on the context, e.g. by the SEO agent, goes through the same rules
+    expect(await request('https://www.google-analytics.com/collect', 'xhr', await newPage())).toEqual([
+      ['abort', 'blockedbyclient'],
+    ]);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { applyRewriteRules, dryRunRewriteRules, validateRewriteRules } from '../src/services/rewriteRules';
+import { RewriteRule } from '../src/models';
+
+const rules: RewriteRule[] = [
+  { name: 'blog', pattern: '^/blog/\\d{4}/\\d{2}/(?<slug>[^/]+)$', replacement: '/articles/$<slug>' },
+  { pattern: '^/products/([^/]+)\\.html$', replacement: '/shop/$1', flags: 'i' },
+  { name: 'catch-all blog', pattern: '^/blog/(.*)$', replacement: '/articles/archive/$1' },
+];
+
+describe('rewrite rules', () => {
+  it('applies the first matching rule in order', () => {
+    expect(applyRewriteRules('/blog/2023/04/hello-world', rules)).toEqual({
+      path: '/articles/hello-world',
+      rule: 'blog',
+      ruleIndex: 0,
+    });
+    expect(applyRewriteRules('/PRODUCTS/Shoe.HTML', rules)).toMatchObject({ path: '/shop/Shoe', rule: 'rule 2' });
+    expect(applyRewriteRules('/blog/tags/news', rules)).toMatchObject({ path: '/articles/archive/tags/news', rule: 'catch-all blog' });
+    expect(applyRewriteRules('/about', rules)).toBeUndefined();
+  });
+
+  it('dry-runs rules against crawled paths', () => {
+    const result = dryRunRewriteRules(rules, ['/blog/2023/04/hello-world', '/products/shoe.html', '/about'], ['/articles/hello-world']);
+
+    expect(result.rules[0].mapped).toEqual([
+      { baselinePath: '/blog/2023/04/hello-world', candidatePath: '/articles/hello-world', candidateFound: true },
+    ]);
+    expect(result.rules[1].mapped).toEqual([{ baselinePath: '/products/shoe.html', candidatePath: '/shop/shoe', candidateFound: false }]);
+    expect(result.rules[2].mapped).toEqual([]);
+    expect(result.unmapped).toEqual(['/about']);
+  });
+
+  it('rejects rules that do not compile', () => {
+    expect(() => validateRewriteRules([{ pattern: '^/blog/(', replacement: '/x' }])).toThrow('Invalid rewrite rule: rule 1');
+    expect(() => validateRewriteRules([{ pattern: '^/a$' }])).toThrow('requires a replacement');
+  });
+});
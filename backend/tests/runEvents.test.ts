@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { RunEventBus, RunEvent } from '../src/services/runEvents';
+
+describe('RunEventBus', () => {
+  it('delivers events to subscribers of the same run only', () => {
+    const bus = new RunEventBus();
+    const received: RunEvent[] = [];
+    const unsubscribe = bus.subscribe('run-1', (event) => received.push(event));
+
+    bus.publish('run-1', { type: 'log', source: 'crawl:baseline', message: 'Crawling: /' });
+    bus.publish('run-2', { type: 'log', source: 'crawl:baseline', message: 'Crawling: /other' });
+    unsubscribe();
+    bus.publish('run-1', { type: 'progress', percent: 50 });
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({ runId: 'run-1', type: 'log', message: 'Crawling: /' });
+    expect(received[0].timestamp).toBeDefined();
+  });
+
+  it('keeps a bounded history until the run finishes', () => {
+    const bus = new RunEventBus(2);
+
+    bus.publish('run-1', { type: 'progress', percent: 10 });
+    bus.publish('run-1', { type: 'progress', percent: 20 });
+    bus.publish('run-1', { type: 'progress', percent: 30 });
+    expect(bus.history('run-1').map((e) => (e.type === 'progress' ? e.percent : -1))).toEqual([20, 30]);
+
+    bus.publish('run-1', { type: 'status', status: 'completed' });
+    expect(bus.history('run-1')).toEqual([]);
+  });
+});
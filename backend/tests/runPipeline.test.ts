@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DATA_DIR } from '../src/config/config';
+import { RunPipeline } from '../src/services/runPipeline';
+import { CrawlAgent, CrawlResult } from '../src/services/crawlAgent';
+import { PlaywrightExecutionService, ExecutionResult } from '../src/services/playwrightExecutionService';
+import { RedirectAgent } from '../src/services/redirectAgent';
+import { RunEventBus, RunEvent } from '../src/services/runEvents';
+import { ComparisonJob, Run, RunArtifact, StoragePort, StorageSnapshot } from '../src/models';
+
+class InMemoryStorage implements StoragePort {
+  snapshot: StorageSnapshot = {
+    version: '2.0',
+    comparisonJobs: [],
+    runs: [],
+    artifacts: [],
+  };
+
+  async load(): Promise<StorageSnapshot> {
+    return this.snapshot;
+  }
+
+  async save(snapshot: StorageSnapshot): Promise<void> {
+    this.snapshot = snapshot;
+  }
+
+  async update(mutator: (snapshot: StorageSnapshot) => StorageSnapshot): Promise<StorageSnapshot> {
+    this.snapshot = mutator(this.snapshot);
+    return this.snapshot;
+  }
+
+  async addRun(run: Run): Promise<void> {
+    this.snapshot = { ...this.snapshot, runs: [run, ...this.snapshot.runs] };
+  }
+
+  async updateRun(runId: string, mutator: (run: Run) => Run): Promise<Run | undefined> {
+    let updated: Run | undefined;
+    this.snapshot = { ...this.snapshot, runs: this.snapshot.runs.map((r) => (r.id === runId ? (updated = mutator(r)) : r)) };
+    return updated;
+  }
+
+  async addArtifacts(artifacts: RunArtifact[]): Promise<void> {
+    this.snapshot = { ...this.snapshot, artifacts: [...this.snapshot.artifacts, ...artifacts] };
+  }
+
+  async updateComparisonJob(id: string, mutator: (job: ComparisonJob) => ComparisonJob): Promise<ComparisonJob | undefined> {
+    let updated: ComparisonJob | undefined;
+    this.snapshot = {
+      ...this.snapshot,
+      comparisonJobs: this.snapshot.comparisonJobs?.map((j) => (j.id === id ? (updated = mutator(j)) : j)),
+    };
+    return updated;
+  }
+}
+
+function crawlResult(baseUrl: string): CrawlResult {
+  return {
+    baseUrl,
+    pages: [{ url: `${baseUrl}/about`, normalizedPath: '/about', title: 'About', statusCode: 200, links: [] }],
+    sitemapUrls: [],
+    crawlLog: [],
+    errors: [],
+  };
+}
+
+const job: ComparisonJob = {
+  id: 'job-1',
+  name: 'Pipeline job',
+  baselineUrl: 'https://old.example.com',
+  candidateUrl: 'https://new.example.com',
+  crawlConfig: { depth: 1, maxPages: 5 },
+  pageMap: [],
+  testMatrix: { visual: false, functional: true, data: true, seo: true },
+  status: 'pending',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+};
+
+describe('RunPipeline', () => {
+  let storage: InMemoryStorage;
+  let crawlAgent: CrawlAgent;
+  let executionService: PlaywrightExecutionService;
+
+  beforeEach(() => {
+    storage = new InMemoryStorage();
+    storage.snapshot.comparisonJobs = [job];
+    storage.snapshot.runs = [
+      { id: 'run-1', jobId: job.id, status: 'queued', triggeredBy: 'tester', triggeredAt: '2024-01-01T00:00:00.000Z' },
+    ];
+
+    crawlAgent = new CrawlAgent();
+    vi.spyOn(crawlAgent, 'crawlSite').mockImplementation(async (baseUrl) => crawlResult(baseUrl));
+    vi.spyOn(crawlAgent, 'cleanup').mockResolvedValue();
+
+    executionService = new PlaywrightExecutionService();
+    vi.spyOn(executionService, 'cleanup').mockResolvedValue();
+    vi.spyOn(executionService, 'executeComparison').mockImplementation(
+      async (baselineUrl, candidateUrl, matchedPages): Promise<ExecutionResult> => ({
+        baseline: { baseUrl: baselineUrl, pages: [], executionLog: [], errors: [] },
+        candidate: { baseUrl: candidateUrl, pages: [], executionLog: [], errors: [] },
+        matchedPages,
+        artifactPaths: [],
+      })
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(path.join(DATA_DIR, 'artifacts', 'run-1'), { recursive: true, force: true });
+  });
+
+  it('runs every phase and records status, timings and artifacts', async () => {
+    const run = await new RunPipeline(storage, { crawlAgent, executionService }).execute('run-1', job);
+
+    expect(run?.status).toBe('completed');
+    expect(run?.startedAt).toBeDefined();
+    expect(run?.phases?.map((p) => [p.name, p.status])).toEqual([
+      ['crawl', 'completed'],
+      ['match', 'completed'],
+      ['redirects', 'skipped'],
+      ['execute', 'completed'],
+      ['functional', 'skipped'],
+      ['data', 'skipped'],
+      ['seo', 'skipped'],
+      ['performance', 'skipped'],
+      ['accessibility', 'skipped'],
+      ['journeys', 'skipped'],
+      ['visual', 'skipped'],
+      ['ai', 'completed'],
+      ['report', 'completed'],
+    ]);
+    expect(run?.phases?.find((p) => p.name === 'visual')?.note).toBe('Disabled in test matrix');
+    expect(run?.phases?.find((p) => p.name === 'journeys')?.note).toBe('No journeys configured');
+    expect(run?.phases?.every((p) => p.status === 'skipped' || p.durationMs !== undefined)).toBe(true);
+
+    const labels = storage.snapshot.artifacts.map((a) => a.label);
+    expect(labels).toContain('Crawl Summary');
+    expect(labels).toContain('AI Reasoning Results');
+    expect(labels).toContain('Migration Test Report (Markdown)');
+
+    // Generated pageMap is stored on the job
+    expect(storage.snapshot.comparisonJobs?.[0].pageMap).toEqual([
+      expect.objectContaining({ baselinePath: '/about', candidatePath: '/about' }),
+    ]);
+  });
+
+  it('publishes progress events while running', async () => {
+    const events = new RunEventBus();
+    const received: RunEvent[] = [];
+    events.subscribe('run-1', (event) => received.push(event));
+
+    await new RunPipeline(storage, { crawlAgent, executionService }, events).execute('run-1', job);
+
+    const types = received.map((e) => e.type);
+    expect(types[0]).toBe('status');
+    expect(types).toContain('pages-matched');
+    expect(received.filter((e) => e.type === 'progress').pop()).toMatchObject({ percent: 100, phase: 'report' });
+    expect(received[received.length - 1]).toMatchObject({ type: 'status', status: 'completed' });
+  });
+
+  it('leaves a run cancelled before it started untouched', async () => {
+    storage.snapshot.runs[0] = { ...storage.snapshot.runs[0], status: 'cancelled' };
+    const events = new RunEventBus();
+    const received: RunEvent[] = [];
+    events.subscribe('run-1', (event) => received.push(event));
+
+    const run = await new RunPipeline(storage, { crawlAgent, executionService }, events).execute('run-1', job);
+
+    expect(run?.status).toBe('cancelled');
+    expect(run?.phases).toBeUndefined();
+    expect(received).toEqual([]);
+    expect(crawlAgent.crawlSite).not.toHaveBeenCalled();
+  });
+
+  it('fails the run when a core phase fails', async () => {
+    vi.spyOn(crawlAgent, 'crawlSite').mockRejectedValue(new Error('Browser launch failed'));
+
+    const run = await new RunPipeline(storage, { crawlAgent, executionService }).execute('run-1', job);
+
+    expect(run?.status).toBe('failed');
+    expect(run?.error).toBe('Browser launch failed');
+    expect(run?.phases?.[0]).toMatchObject({ name: 'crawl', status: 'failed', error: 'Browser launch failed' });
+    expect(run?.phases?.slice(1).every((p) => p.status === 'skipped')).toBe(true);
+    expect(storage.snapshot.artifacts.map((a) => a.label)).toEqual(['Crawl Phase Error']);
+  });
+
+  it('keeps going when an analysis phase fails', async () => {
+    const redirectAgent = new RedirectAgent();
+    vi.spyOn(redirectAgent, 'verifyRedirectMap').mockRejectedValue(new Error('DNS lookup failed'));
+
+    const run = await new RunPipeline(storage, { crawlAgent, executionService, redirectAgent }).execute('run-1', {
+      ...job,
+      redirectMap: [{ from: '/old', to: '/new' }],
+    });
+
+    expect(run?.status).toBe('failed');
+    expect(run?.error).toBe('Phases failed: redirects');
+    expect(run?.phases?.find((p) => p.name === 'redirects')?.error).toBe('DNS lookup failed');
+    expect(run?.phases?.find((p) => p.name === 'report')?.status).toBe('completed');
+  });
+});
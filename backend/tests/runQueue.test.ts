@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RunQueue, RunExecutor } from '../src/services/runQueue';
+import { ComparisonJob, Run, RunArtifact, StoragePort, StorageSnapshot } from '../src/models';
+
+class InMemoryStorage implements StoragePort {
+  snapshot: StorageSnapshot = {
+    version: '2.0',
+    comparisonJobs: [],
+    runs: [],
+    artifacts: [],
+  };
+
+  async load(): Promise<StorageSnapshot> {
+    return this.snapshot;
+  }
+
+  async save(snapshot: StorageSnapshot): Promise<void> {
+    this.snapshot = snapshot;
+  }
+
+  async update(mutator: (snapshot: StorageSnapshot) => StorageSnapshot): Promise<StorageSnapshot> {
+    this.snapshot = mutator(this.snapshot);
+    return this.snapshot;
+  }
+
+  async addRun(run: Run): Promise<void> {
+    this.snapshot = { ...this.snapshot, runs: [run, ...this.snapshot.runs] };
+  }
+
+  async updateRun(runId: string, mutator: (run: Run) => Run): Promise<Run | undefined> {
+    let updated: Run | undefined;
+    this.snapshot = { ...this.snapshot, runs: this.snapshot.runs.map((r) => (r.id === runId ? (updated = mutator(r)) : r)) };
+    return updated;
+  }
+
+  async addArtifacts(artifacts: RunArtifact[]): Promise<void> {
+    this.snapshot = { ...this.snapshot, artifacts: [...this.snapshot.artifacts, ...artifacts] };
+  }
+
+  async updateComparisonJob(id: string, mutator: (job: ComparisonJob) => ComparisonJob): Promise<ComparisonJob | undefined> {
+    let updated: ComparisonJob | undefined;
+    this.snapshot = {
+      ...this.snapshot,
+      comparisonJobs: this.snapshot.comparisonJobs?.map((j) => (j.id === id ? (updated = mutator(j)) : j)),
+    };
+    return updated;
+  }
+}
+
+function queuedRun(id: string, status: Run['status'] = 'queued'): Run {
+  return { id, jobId: 'job-1', status, triggeredBy: 'tester', triggeredAt: `2024-01-01T00:00:0${id.slice(-1)}.000Z` };
+}
+
+/**
+ * Executor that marks runs running and waits until released or aborted
+ */
+function controllableExecutor(storage: InMemoryStorage) {
+  const started: string[] = [];
+  const releases = new Map<string, () => void>();
+
+  const setStatus = async (runId: string, patch: Partial<Run>) => {
+    const snapshot = await storage.load();
+    await storage.save({ ...snapshot, runs: snapshot.runs.map((r) => (r.id === runId ? { ...r, ...patch } : r)) });
+  };
+
+  const executor: RunExecutor = async (runId, signal) => {
+    started.push(runId);
+    await setStatus(runId, { status: 'running' });
+    await new Promise<void>((resolve, reject) => {
+      releases.set(runId, resolve);
+      signal.addEventListener('abort', () => reject(signal.reason));
+    });
+    await setStatus(runId, { status: 'completed' });
+  };
+
+  return { executor, started, release: (runId: string) => releases.get(runId)?.() };
+}
+
+const statusOf = (storage: InMemoryStorage, id: string) => storage.snapshot.runs.find((r) => r.id === id)?.status;
+const waitFor = async (condition: () => boolean) => {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  expect(condition()).toBe(true);
+};
+
+describe('RunQueue', () => {
+  let storage: InMemoryStorage;
+
+  beforeEach(() => {
+    storage = new InMemoryStorage();
+    storage.snapshot.runs = [queuedRun('run-1'), queuedRun('run-2'), queuedRun('run-3')];
+  });
+
+  it('starts runs oldest first up to the concurrency limit', async () => {
+    const { executor, started, release } = controllableExecutor(storage);
+    const queue = new RunQueue(storage, executor, { concurrency: 2, timeoutMs: 0 });
+
+    queue.enqueue();
+    await waitFor(() => started.length === 2);
+    expect(started).toEqual(['run-1', 'run-2']);
+    expect(statusOf(storage, 'run-3')).toBe('queued');
+
+    release('run-1');
+    await waitFor(() => started.length === 3);
+    expect(statusOf(storage, 'run-1')).toBe('completed');
+  });
+
+  it('cancels queued and running runs', async () => {
+    const { executor, started } = controllableExecutor(storage);
+    const queue = new RunQueue(storage, executor, { concurrency: 1, timeoutMs: 0 });
+
+    queue.enqueue();
+    await waitFor(() => started.length === 1);
+
+    expect((await queue.cancel('run-2')).status).toBe('cancelled');
+    expect((await queue.cancel('run-1')).status).toBe('cancelled');
+
+    // run-2 is skipped, run-3 takes the freed slot
+    await waitFor(() => started.length === 2);
+    expect(started).toEqual(['run-1', 'run-3']);
+    expect(statusOf(storage, 'run-1')).toBe('cancelled');
+
+    await expect(queue.cancel('run-1')).rejects.toThrow('cannot be cancelled');
+    await expect(queue.cancel('missing')).rejects.toThrow('not found');
+  });
+
+  it('fails runs that exceed the timeout', async () => {
+    const { executor } = controllableExecutor(storage);
+    const queue = new RunQueue(storage, executor, { concurrency: 1, timeoutMs: 20 });
+
+    queue.enqueue();
+    await waitFor(() => statusOf(storage, 'run-1') === 'failed');
+    expect(storage.snapshot.runs[0].error).toBe('Run timed out after 20ms');
+    await queue.cancel('run-2');
+    await queue.cancel('run-3');
+  });
+
+  it('resumes failed and cancelled runs', async () => {
+    storage.snapshot.runs = [queuedRun('run-1', 'failed'), queuedRun('run-2', 'completed')];
+    storage.snapshot.artifacts = [
+      { id: 'a-1', runId: 'run-1', type: 'log', label: 'Crawl Log', path: 'data/artifacts/run-1/crawl.log', createdAt: '' },
+    ];
+    const { executor, started } = controllableExecutor(storage);
+    const queue = new RunQueue(storage, executor, { concurrency: 1, timeoutMs: 0 });
+
+    const resumed = await queue.resume('run-1');
+    expect(resumed.status).toBe('queued');
+    expect(resumed.resumedAt).toBeDefined();
+    expect(storage.snapshot.artifacts).toEqual([]);
+    await waitFor(() => started.includes('run-1'));
+
+    await expect(queue.resume('run-1')).rejects.toThrow('cannot be resumed');
+    await expect(queue.resume('run-2')).rejects.toThrow('cannot be resumed');
+    await expect(queue.resume('missing')).rejects.toThrow('not found');
+    await queue.cancel('run-1');
+  });
+
+  it('recovers orphaned runs by re-queuing or failing them', async () => {
+    storage.snapshot.runs = [queuedRun('run-1', 'running'), queuedRun('run-2'), queuedRun('run-3', 'completed')];
+    const { executor, started } = controllableExecutor(storage);
+
+    const failing = new RunQueue(storage, executor, { concurrency: 1, timeoutMs: 0 });
+    expect(await failing.recover('fail')).toEqual({ requeued: 0, failed: 2 });
+    expect(storage.snapshot.runs.map((r) => r.status)).toEqual(['failed', 'failed', 'completed']);
+
+    storage.snapshot.runs = [queuedRun('run-1', 'running'), queuedRun('run-3', 'completed')];
+    const requeuing = new RunQueue(storage, executor, { concurrency: 1, timeoutMs: 0 });
+    expect(await requeuing.recover('requeue')).toEqual({ requeued: 1, failed: 0 });
+    await waitFor(() => started.includes('run-1'));
+    await requeuing.cancel('run-1');
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { SeoAgent, SeoData, SeoResult } from '../src/services/seoAgent';
+import { AiReasoningService } from '../src/services/aiReasoningService';
+import { ReportAgent } from '../src/services/reportAgent';
+import { ComparisonJob, Run } from '../src/models';
+
+function seoData(overrides: Partial<SeoData> = {}): SeoData {
+  return {
+    url: 'https://old.example.com/products',
+    normalizedPath: '/products',
+    title: 'Products',
+    metaDescription: 'All our products',
+    canonical: 'https://old.example.com/products',
+    robots: 'index, follow',
+    hreflang: [{ lang: 'en', href: 'https://old.example.com/products' }],
+    openGraph: { 'og:title': 'Products', 'og:url': 'https://old.example.com/products' },
+    twitter: { 'twitter:card': 'summary' },
+    headings: [
+      { level: 1, text: 'Products' },
+      { level: 2, text: 'Featured' },
+    ],
+    jsonLdTypes: ['BreadcrumbList', 'Product'],
+    ...overrides,
+  };
+}
+
+describe('SeoAgent.compareSeoData', () => {
+  const agent = new SeoAgent();
+
+  it('reports no issues when only the host differs', () => {
+    const baseline = seoData();
+    const candidate = seoData({
+      url: 'https://new.example.com/products',
+      canonical: 'https://new.example.com/products/',
+      hreflang: [{ lang: 'en', href: 'https://new.example.com/products' }],
+      openGraph: { 'og:title': 'Products', 'og:url': 'https://new.example.com/products' },
+    });
+
+    expect(agent.compareSeoData(baseline, candidate)).toEqual([]);
+  });
+
+  it('flags a newly introduced noindex as critical', () => {
+    const issues = agent.compareSeoData(seoData(), seoData({ robots: 'noindex, follow' }));
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ check: 'robots', severity: 'critical' });
+  });
+
+  it('flags missing title, canonical, hreflang and structured data', () => {
+    const issues = agent.compareSeoData(
+      seoData(),
+      seoData({ title: undefined, canonical: undefined, hreflang: [], jsonLdTypes: ['BreadcrumbList'] })
+    );
+
+    expect(issues.map((i) => [i.check, i.severity])).toEqual([
+      ['title', 'high'],
+      ['canonical', 'high'],
+      ['hreflang', 'medium'],
+      ['jsonLd', 'medium'],
+    ]);
+  });
+
+  it('detects heading outline and social card changes', () => {
+    const issues = agent.compareSeoData(
+      seoData(),
+      seoData({
+        headings: [{ level: 1, text: 'Products' }],
+        twitter: {},
+      })
+    );
+
+    expect(issues.map((i) => `${i.check}:${i.field}`)).toEqual([
+      'twitterCard:twitter:card',
+      'headings:outline',
+    ]);
+  });
+});
+
+describe('ReportAgent.generateExecutiveSummary', () => {
+  it('counts pages with SEO issues, not issues, against the pass rate', async () => {
+    const seoResult: SeoResult = {
+      pages: [],
+      summary: {
+        totalPages: 4,
+        pagesWithIssues: 2,
+        totalIssues: 9,
+        criticalIssues: 0,
+        highIssues: 0,
+        mediumIssues: 0,
+        lowIssues: 9,
+        issuesByCheck: {} as SeoResult['summary']['issuesByCheck'],
+      },
+      artifactPaths: [],
+    };
+    const job = { name: 'SEO job', baselineUrl: 'https://old.example.com', candidateUrl: 'https://new.example.com' } as ComparisonJob;
+    const run = { triggeredAt: '2024-01-01T00:00:00.000Z' } as Run;
+    const reportAgent = new ReportAgent();
+
+    const aiResult = await new AiReasoningService().analyzeArtifacts(
+      undefined,
+      undefined,
+      undefined,
+      seoResult,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      'run-1'
+    );
+    const summary = reportAgent.generateExecutiveSummary(
+      job,
+      run,
+      aiResult,
+      reportAgent.calculateRiskScore(aiResult),
+      undefined,
+      undefined,
+      undefined,
+      seoResult
+    );
+
+    expect(summary.keyMetrics).toMatchObject({ pagesTested: 4, issuesFound: 2, passRate: 50 });
+  });
+});
@@ -1,31 +1,30 @@
 import { describe, it, expect, beforeEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
 import { JobService, RunService } from '../src/services/domainServices';
-import { StoragePort, StorageSnapshot } from '../src/models';
+import { FileStorage } from '../src/services/fileStorage';
+import { SqliteStorage } from '../src/services/sqliteStorage';
+import { StoragePort } from '../src/models';
 
-class InMemoryStorage implements StoragePort {
-  private snapshot: StorageSnapshot = {
-    version: '2.0',
-    comparisonJobs: [],
-    runs: [],
-    artifacts: [],
-  };
+const adapters: Array<[string, () => Promise<StoragePort>]> = [
+  [
+    'FileStorage',
+    async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'migrate-guard-'));
+      return new FileStorage(path.join(dir, 'snapshot.json'));
+    },
+  ],
+  ['SqliteStorage', async () => new SqliteStorage(':memory:')],
+];
 
-  async load(): Promise<StorageSnapshot> {
-    return this.snapshot;
-  }
-
-  async save(snapshot: StorageSnapshot): Promise<void> {
-    this.snapshot = snapshot;
-  }
-}
-
-describe('JobService and RunService', () => {
-  let storage: InMemoryStorage;
+describe.each(adapters)('JobService and RunService (%s)', (_name, createStorage) => {
+  let storage: StoragePort;
   let jobService: JobService;
   let runService: RunService;
 
-  beforeEach(() => {
-    storage = new InMemoryStorage();
+  beforeEach(async () => {
+    storage = await createStorage();
     jobService = new JobService(storage);
     runService = new RunService(storage);
   });
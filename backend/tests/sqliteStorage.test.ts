@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { SqliteStorage } from '../src/services/sqliteStorage';
+import { ComparisonJobService } from '../src/services/domainServices';
+import { Run, StorageSnapshot } from '../src/models';
+
+function run(id: string, triggeredAt: string): Run {
+  return { id, jobId: 'job-1', status: 'queued', triggeredBy: 'tester', triggeredAt };
+}
+
+const snapshot: StorageSnapshot = {
+  version: '2.0',
+  jobs: [],
+  comparisonJobs: [
+    {
+      id: 'job-1',
+      name: 'Stored job',
+      baselineUrl: 'https://old.example.com',
+      candidateUrl: 'https://new.example.com',
+      crawlConfig: { depth: 1, maxPages: 10 },
+      pageMap: [{ baselinePath: '/a', candidatePath: '/b' }],
+      testMatrix: { visual: true, functional: false, data: false, seo: true },
+      status: 'pending',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    },
+  ],
+  runs: [run('run-2', '2024-01-02T00:00:00.000Z'), run('run-1', '2024-01-01T00:00:00.000Z')],
+  artifacts: [
+    { id: 'a-1', runId: 'run-1', type: 'report', label: 'Report', path: 'data/r.json', createdAt: '2024-01-01T00:00:00.000Z' },
+  ],
+  approvals: [
+    {
+      id: 'approval-1',
+      jobId: 'job-1',
+      normalizedPath: '/',
+      viewport: 'desktop',
+      runId: 'run-1',
+      imageHash: 'abc',
+      imagePath: 'data/approvals/job-1/approval-1.png',
+      approvedBy: 'tester',
+      approvedAt: '2024-01-01T00:00:00.000Z',
+    },
+  ],
+  metadata: { migrationNotes: 'seeded' },
+};
+
+describe('SqliteStorage', () => {
+  it('round-trips a snapshot and removes deleted rows', async () => {
+    const storage = new SqliteStorage(':memory:');
+    expect(storage.appliedMigrations()).toEqual(['initial-schema', 'visual-approvals']);
+    expect(await storage.isEmpty()).toBe(true);
+
+    await storage.save(snapshot);
+    expect(await storage.load()).toEqual(snapshot);
+
+    await storage.save({ ...snapshot, runs: snapshot.runs.slice(0, 1), artifacts: [], approvals: [] });
+    const reloaded = await storage.load();
+    expect(reloaded.runs.map((r) => r.id)).toEqual(['run-2']);
+    expect(reloaded.artifacts).toEqual([]);
+    expect(reloaded.approvals).toEqual([]);
+  });
+
+  it('does not lose concurrent updates', async () => {
+    const storage = new SqliteStorage(':memory:');
+    await storage.save({ ...snapshot, runs: [] });
+
+    await Promise.all(
+      Array.from({ length: 20 }, (_, i) =>
+        storage.update((latest) => ({
+          ...latest,
+          runs: [run(`run-${i}`, `2024-01-01T00:00:${String(i).padStart(2, '0')}.000Z`), ...latest.runs],
+        }))
+      )
+    );
+
+    expect((await storage.load()).runs).toHaveLength(20);
+  });
+
+  it('keeps run writes that land while a job is edited or created', async () => {
+    const storage = new SqliteStorage(':memory:');
+    await storage.save({ ...snapshot, artifacts: [] });
+    const jobs = new ComparisonJobService(storage);
+    const artifact = (id: string) => ({ id, runId: 'run-1', type: 'log' as const, label: id, path: `data/${id}.log`, createdAt: '' });
+
+    // Each job write starts before the pipeline's update and finishes after it
+    await Promise.all([
+      jobs.updateJob('job-1', { name: 'Renamed job' }),
+      storage.update((latest) => ({ ...latest, artifacts: [...latest.artifacts, artifact('a-2')] })),
+    ]);
+    await Promise.all([
+      jobs.createJob({ name: 'Second job', baselineUrl: 'https://a.example.com', candidateUrl: 'https://b.example.com' }),
+      storage.update((latest) => ({
+        ...latest,
+        runs: latest.runs.map((r) => (r.id === 'run-1' ? { ...r, status: 'completed' } : r)),
+        artifacts: [...latest.artifacts, artifact('a-3')],
+      })),
+    ]);
+
+    const reloaded = await storage.load();
+    expect(reloaded.comparisonJobs.map((j) => j.name)).toEqual(['Renamed job', 'Second job']);
+    expect(reloaded.runs.find((r) => r.id === 'run-1')?.status).toBe('completed');
+    expect(reloaded.artifacts.map((a) => a.id)).toEqual(['a-2', 'a-3']);
+  });
+
+  it('writes single runs, artifacts and jobs without touching other rows', async () => {
+    const storage = new SqliteStorage(':memory:');
+    await storage.save(snapshot);
+
+    await storage.addRun(run('run-3', '2024-01-03T00:00:00.000Z'));
+    const updated = await storage.updateRun('run-1', (r) => ({ ...r, status: 'completed', completedAt: '2024-01-01T01:00:00.000Z' }));
+    await storage.addArtifacts([
+      { id: 'a-2', runId: 'run-1', type: 'log', label: 'Log', path: 'data/a-2.log', createdAt: '2024-01-01T01:00:00.000Z' },
+    ]);
+    const job = await storage.updateComparisonJob('job-1', (j) => ({ ...j, name: 'Renamed job' }));
+
+    expect(updated?.status).toBe('completed');
+    expect(job?.name).toBe('Renamed job');
+    expect(await storage.updateRun('missing', (r) => r)).toBeUndefined();
+    expect(await storage.updateComparisonJob('missing', (j) => j)).toBeUndefined();
+
+    const reloaded = await storage.load();
+    expect(reloaded.runs.map((r) => [r.id, r.status])).toEqual([
+      ['run-3', 'queued'],
+      ['run-2', 'queued'],
+      ['run-1', 'completed'],
+    ]);
+    expect(reloaded.artifacts.map((a) => a.id)).toEqual(['a-1', 'a-2']);
+    expect(reloaded.comparisonJobs[0]).toEqual({ ...snapshot.comparisonJobs[0], name: 'Renamed job' });
+    expect(reloaded.approvals).toEqual(snapshot.approvals);
+  });
+
+  it('persists to disk and only migrates once', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'migrate-guard-'));
+    const dbFile = path.join(dir, 'test.db');
+
+    const first = new SqliteStorage(dbFile);
+    await first.save(snapshot);
+    first.close();
+
+    const second = new SqliteStorage(dbFile);
+    expect(second.appliedMigrations()).toEqual(['initial-schema', 'visual-approvals']);
+    expect((await second.load()).comparisonJobs[0].pageMap).toEqual(snapshot.comparisonJobs[0].pageMap);
+    second.close();
+
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
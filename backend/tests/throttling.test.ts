@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import type { BrowserContext } from 'playwright';
+import {
+  LoadMetrics,
+  compareThrottledLoads,
+  measureThrottledLoad,
+  resolveThrottleProfiles,
+  validateThrottling,
+} from '../src/services/throttling';
+import { PageExecutionResult, SiteExecutionResult } from '../src/services/playwrightExecutionService';
+import { MatchedPage } from '../src/services/crawlAgent';
+
+function metrics(loadMs: number): LoadMetrics {
+  return { ttfbMs: 100, domContentLoadedMs: loadMs - 200, loadMs, transferBytes: 50000, requestCount: 12 };
+}
+
+function site(baseUrl: string, loads: Record<string, number>): SiteExecutionResult {
+  return {
+    baseUrl,
+    executionLog: [],
+    errors: [],
+    pages: Object.entries(loads).map(
+      ([normalizedPath, loadMs]): PageExecutionResult => ({
+        url: `${baseUrl}${normalizedPath}`,
+        normalizedPath,
+        screenshots: [],
+        domSnapshots: [],
+        consoleMessages: [],
+        networkRequests: [],
+        networkFailures: [],
+        errors: [],
+        throttledLoads: [{ profile: 'slow-3g', metrics: metrics(loadMs) }],
+      })
+    ),
+  };
+}
+
+describe('Throttling', () => {
+  it('fills profiles from presets and applies the CPU slowdown to each', () => {
+    expect(
+      resolveThrottleProfiles({ networkProfiles: [{ name: 'slow-3g', preset: 'slow-3g' }, { name: 'dsl', latencyMs: 40, downloadKbps: 2000 }], cpuSlowdown: 4 })
+    ).toEqual([
+      { name: 'slow-3g', latencyMs: 2000, downloadKbps: 400, uploadKbps: 400, cpuSlowdown: 4 },
+      { name: 'dsl', latencyMs: 40, downloadKbps: 2000, uploadKbps: undefined, cpuSlowdown: 4 },
+    ]);
+    expect(resolveThrottleProfiles({ cpuSlowdown: 6 })).toEqual([{ name: 'cpu-6x', latencyMs: 0, cpuSlowdown: 6 }]);
+    expect(resolveThrottleProfiles(undefined)).toEqual([]);
+    expect(() => validateThrottling({ networkProfiles: [{ name: 'empty' }] })).toThrow('Invalid throttling');
+  });
+
+  it('throttles a cold load through CDP and reads navigation timing', async () => {
+    const sent: Array<[string, unknown]> = [];
+    const page = {
+      goto: async () => ({ status: () => 200 }),
+      evaluate: async () => metrics(5400),
+      close: async () => undefined,
+    };
+    const context = {
+      newPage: async () => page,
+      newCDPSession: async () => ({ send: async (method: string, params?: unknown) => void sent.push([method, params]) }),
+    } as unknown as BrowserContext;
+
+    const load = await measureThrottledLoad(context, 'https://old.example.com/', {
+      name: 'fast-3g',
+      latencyMs: 563,
+      downloadKbps: 1440,
+      uploadKbps: 675,
+      cpuSlowdown: 4,
+    });
+
+    expect(load).toEqual({ profile: 'fast-3g', metrics: metrics(5400) });
+    expect(sent).toContainEqual(['Network.setCacheDisabled', { cacheDisabled: true }]);
+    expect(sent).toContainEqual([
+      'Network.emulateNetworkConditions',
+      { offline: false, latency: 563, downloadThroughput: 180000, uploadThroughput: 84375 },
+    ]);
+    expect(sent).toContainEqual(['Emulation.setCPUThrottlingRate', { rate: 4 }]);
+  });
+
+  it('compares baseline and candidate loads per profile and flags slow pages', () => {
+    const matchedPages = ['/', '/pricing'].map(
+      (normalizedPath) => ({ baseline: { normalizedPath }, candidate: { normalizedPath } }) as MatchedPage
+    );
+    const [comparison] = compareThrottledLoads(
+      site('https://old.example.com', { '/': 4000, '/pricing': 5000 }),
+      site('https://new.example.com', { '/': 4300, '/pricing': 9000 }),
+      matchedPages,
+      resolveThrottleProfiles({ networkProfiles: [{ name: 'slow-3g', preset: 'slow-3g' }] })
+    );
+
+    expect(comparison.pages.map((page) => [page.normalizedPath, page.loadDeltaMs, page.slower])).toEqual([
+      ['/', 300, false],
+      ['/pricing', 4000, true],
+    ]);
+    expect(comparison.baselineAverageLoadMs).toBe(4500);
+    expect(comparison.candidateAverageLoadMs).toBe(6650);
+    expect(comparison.slowerPages).toBe(1);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { artifactFileName, normalizePath, normalizeUrlWithPolicy } from '../src/services/urlNormalization';
+
+describe('URL normalization policy', () => {
+  it('drops query strings, fragments and trailing slashes by default', () => {
+    expect(normalizeUrlWithPolicy('/p/?utm_source=x#top', 'https://old.example.com')).toBe('https://old.example.com/p');
+    expect(normalizeUrlWithPolicy('https://old.example.com/', 'https://old.example.com')).toBe('https://old.example.com');
+    expect(normalizePath('/P/')).toBe('/P');
+  });
+
+  it('keeps significant and non-tracking params in a stable order', () => {
+    expect(normalizePath('/list?sort=asc&page=2&utm_campaign=spring', { significantParams: ['page'] })).toBe('/list?page=2');
+    expect(normalizePath('/list?sort=asc&gclid=1&page=2', { queryParams: 'keep' })).toBe('/list?page=2&sort=asc');
+    expect(normalizePath('/list?utm_medium=mail', { queryParams: 'keep', stripTrackingParams: false })).toBe(
+      '/list?utm_medium=mail'
+    );
+  });
+
+  it('folds case, collapses index files and handles trailing slashes and fragments', () => {
+    const policy = { caseInsensitivePaths: true, collapseIndexFiles: true, trailingSlash: 'add' as const, stripFragments: false };
+    expect(normalizePath('/Docs/Index.HTML#intro', policy)).toBe('/docs/#intro');
+    expect(normalizePath('/docs', policy)).toBe('/docs/');
+    expect(normalizePath('/files/report.pdf', policy)).toBe('/files/report.pdf');
+    expect(normalizePath('/docs/', { trailingSlash: 'keep' })).toBe('/docs/');
+  });
+
+  it('gives pages that only differ by query or case their own artifact names', () => {
+    expect(artifactFileName('/blog/post-1')).toBe('blog-post-1');
+    expect(artifactFileName('/')).toBe('index');
+    expect(artifactFileName('/list?page=2')).toMatch(/^list_page_2-[0-9a-f]{8}$/);
+    expect(artifactFileName('/list?page=2')).not.toBe(artifactFileName('/list?page_2'));
+    expect(artifactFileName('/About')).not.toBe(artifactFileName('/about'));
+  });
+});
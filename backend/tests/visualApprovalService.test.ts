@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { DATA_DIR } from '../src/config/config';
+import { ComparisonJob, Run, RunArtifact, StoragePort, StorageSnapshot } from '../src/models';
+import { VisualApprovalService } from '../src/services/visualApprovalService';
+import { hashFile } from '../src/services/visualDiffService';
+
+class InMemoryStorage implements StoragePort {
+  snapshot: StorageSnapshot = {
+    version: '2.0',
+    comparisonJobs: [],
+    runs: [{ id: 'approval-run', jobId: 'job-1', status: 'completed', triggeredBy: 'tester', triggeredAt: '2024-01-01T00:00:00.000Z' }],
+    artifacts: [],
+  };
+
+  async load(): Promise<StorageSnapshot> {
+    return this.snapshot;
+  }
+
+  async save(snapshot: StorageSnapshot): Promise<void> {
+    this.snapshot = snapshot;
+  }
+
+  async update(mutator: (snapshot: StorageSnapshot) => StorageSnapshot): Promise<StorageSnapshot> {
+    this.snapshot = mutator(this.snapshot);
+    return this.snapshot;
+  }
+
+  async addRun(run: Run): Promise<void> {
+    this.snapshot = { ...this.snapshot, runs: [run, ...this.snapshot.runs] };
+  }
+
+  async updateRun(runId: string, mutator: (run: Run) => Run): Promise<Run | undefined> {
+    let updated: Run | undefined;
+    this.snapshot = { ...this.snapshot, runs: this.snapshot.runs.map((r) => (r.id === runId ? (updated = mutator(r)) : r)) };
+    return updated;
+  }
+
+  async addArtifacts(artifacts: RunArtifact[]): Promise<void> {
+    this.snapshot = { ...this.snapshot, artifacts: [...this.snapshot.artifacts, ...artifacts] };
+  }
+
+  async updateComparisonJob(id: string, mutator: (job: ComparisonJob) => ComparisonJob): Promise<ComparisonJob | undefined> {
+    let updated: ComparisonJob | undefined;
+    this.snapshot = {
+      ...this.snapshot,
+      comparisonJobs: this.snapshot.comparisonJobs?.map((j) => (j.id === id ? (updated = mutator(j)) : j)),
+    };
+    return updated;
+  }
+}
+
+const runId = 'approval-run';
+const absolute = (relativePath: string) => path.resolve(DATA_DIR, relativePath.replace(/^data[\\/]/, ''));
+
+describe('VisualApprovalService', () => {
+  let dir: string;
+  let storage: InMemoryStorage;
+  let service: VisualApprovalService;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'migrate-guard-'));
+    const candidatePath = path.join(dir, 'candidate.png');
+    await fs.writeFile(candidatePath, 'candidate-image');
+
+    const resultsPath = path.join(DATA_DIR, 'artifacts', runId, 'visual-diff-results.json');
+    await fs.mkdir(path.dirname(resultsPath), { recursive: true });
+    await fs.writeFile(
+      resultsPath,
+      JSON.stringify({
+        pages: [{ normalizedPath: '/', screenshotDiffs: [{ candidatePath, viewport: { name: 'desktop' } }] }],
+      })
+    );
+
+    storage = new InMemoryStorage();
+    service = new VisualApprovalService(storage);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+    await fs.rm(path.join(DATA_DIR, 'artifacts', runId), { recursive: true, force: true });
+    await fs.rm(path.join(DATA_DIR, 'approvals', 'job-1'), { recursive: true, force: true });
+  });
+
+  it('stores a copy and hash of the approved candidate image', async () => {
+    const input = { runId, normalizedPath: '/', viewport: 'desktop', approvedBy: 'alice', comment: 'New header' };
+    const first = await service.approve('job-1', input);
+
+    expect(first.imageHash).toBe(await hashFile(path.join(dir, 'candidate.png')));
+    expect(existsSync(absolute(first.imagePath))).toBe(true);
+
+    // Re-approving the same path and viewport replaces the earlier approval
+    const second = await service.approve('job-1', { ...input, approvedBy: 'bob' });
+    expect((await service.listApprovals('job-1')).map((a) => a.approvedBy)).toEqual(['bob']);
+    expect(existsSync(absolute(first.imagePath))).toBe(false);
+
+    expect(await service.revoke('job-1', second.id)).toBe(true);
+    expect(await service.revoke('job-1', second.id)).toBe(false);
+    expect(await service.listApprovals('job-1')).toEqual([]);
+    expect(existsSync(absolute(second.imagePath))).toBe(false);
+  });
+
+  it('rejects runs of other jobs and unknown diffs', async () => {
+    const input = { runId, normalizedPath: '/', viewport: 'desktop', approvedBy: 'alice' };
+
+    await expect(service.approve('job-2', input)).rejects.toThrow('does not belong');
+    await expect(service.approve('job-1', { ...input, runId: 'missing' })).rejects.toThrow('not found');
+    await expect(service.approve('job-1', { ...input, viewport: 'mobile' })).rejects.toThrow('not found');
+  });
+});
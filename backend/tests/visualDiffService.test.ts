@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PNG } from 'pngjs';
+import { DATA_DIR } from '../src/config/config';
+import { VisualDiffService, hashFile, resolveIgnoreRegions } from '../src/services/visualDiffService';
+
+const viewport = { name: 'desktop', width: 40, height: 40 };
+const runId = 'visual-diff-test';
+
+/**
+ * Write a white 40x40 PNG with an optional black square
+ */
+async function writeImage(file: string, square?: { x: number; y: number; size: number }): Promise<void> {
+  const png = new PNG({ width: 40, height: 40 });
+  for (let y = 0; y < 40; y++) {
+    for (let x = 0; x < 40; x++) {
+      const inSquare = square && x >= square.x && x < square.x + square.size && y >= square.y && y < square.y + square.size;
+      const idx = (y * 40 + x) * 4;
+      png.data.fill(inSquare ? 0 : 255, idx, idx + 3);
+      png.data[idx + 3] = 255;
+    }
+  }
+  await fs.writeFile(file, PNG.sync.write(png));
+}
+
+describe('VisualDiffService masking', () => {
+  let dir: string;
+  let baseline: string;
+  let candidate: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'migrate-guard-'));
+    baseline = path.join(dir, 'baseline.png');
+    candidate = path.join(dir, 'candidate.png');
+    await writeImage(baseline);
+    await writeImage(candidate, { x: 5, y: 5, size: 10 });
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+    await fs.rm(path.join(DATA_DIR, 'artifacts', runId), { recursive: true, force: true });
+  });
+
+  it('reports differences outside masked regions', async () => {
+    const result = await new VisualDiffService().compareScreenshots(baseline, candidate, '/', viewport, runId);
+
+    expect(result.pixelMetrics.differentPixels).toBe(100);
+    expect(result.pixelMetrics.maskedPixels).toBe(0);
+    expect(result.pixelMetrics.totalPixels).toBe(1600);
+  });
+
+  it('excludes masked pixels from metrics and outlines them on the heatmap', async () => {
+    const result = await new VisualDiffService().compareScreenshots(
+      baseline,
+      candidate,
+      '/',
+      viewport,
+      runId,
+      [{ x: 0, y: 0, width: 20, height: 10 }],
+      [{ x: 0, y: 10, width: 20, height: 10 }]
+    );
+
+    expect(result.pixelMetrics.differentPixels).toBe(0);
+    expect(result.pixelMetrics.maskedPixels).toBe(400);
+    expect(result.pixelMetrics.totalPixels).toBe(1200);
+    expect(result.layoutShifts.some((shift) => shift.region.x < 20 && shift.region.y < 20)).toBe(false);
+
+    const heatmap = PNG.sync.read(await fs.readFile(path.resolve(DATA_DIR, result.heatmapPath.replace(/^data[\\/]/, ''))));
+    expect([...heatmap.data.subarray(0, 3)]).toEqual([255, 0, 255]);
+  });
+
+  it('matches candidates against approved images within tolerance', async () => {
+    const service = new VisualDiffService();
+    const approval = {
+      id: 'approval-1',
+      jobId: 'job-1',
+      normalizedPath: '/',
+      viewport: 'desktop',
+      runId,
+      imageHash: await hashFile(candidate),
+      imagePath: candidate,
+      approvedBy: 'tester',
+      approvedAt: '2024-01-01T00:00:00.000Z',
+    };
+
+    expect(await service.matchesApproval(candidate, approval)).toBe(true);
+
+    // Same pixels under a different hash are compared image to image
+    expect(await service.matchesApproval(candidate, { ...approval, imageHash: 'stale', imagePath: candidate })).toBe(true);
+    expect(await service.matchesApproval(baseline, { ...approval, imagePath: candidate })).toBe(false);
+    expect(
+      await service.matchesApproval(baseline, { ...approval, imagePath: candidate }, [{ x: 0, y: 0, width: 20, height: 20 }])
+    ).toBe(true);
+  });
+
+  it('resolves ignore regions by path pattern and viewport', () => {
+    const masks = {
+      ignoreRegions: [
+        { x: 0, y: 0, width: 10, height: 10 },
+        { x: 1, y: 1, width: 10, height: 10, pathPattern: '/blog/*' },
+        { x: 2, y: 2, width: 10, height: 10, viewport: 'mobile' },
+      ],
+    };
+
+    const mobile = { name: 'mobile', width: 375, height: 667 };
+    expect(resolveIgnoreRegions(masks, '/blog/post', viewport).map((r) => r.x)).toEqual([0, 1]);
+    expect(resolveIgnoreRegions(masks, '/about/blog/post', mobile).map((r) => r.x)).toEqual([0, 2]);
+    expect(resolveIgnoreRegions(undefined, '/', viewport)).toEqual([]);
+
+    // Regions are CSS pixels; a 2x profile's screenshots are twice as large
+    expect(resolveIgnoreRegions(masks, '/', { ...mobile, deviceScaleFactor: 2 })).toEqual([
+      { x: 0, y: 0, width: 20, height: 20 },
+      { x: 4, y: 4, width: 20, height: 20 },
+    ]);
+  });
+});
@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react';
+import { subscribeToRunEvents, RunDto, RunEventDto } from '@/lib/api';
+import { Progress } from '@/components/ui/progress';
+
+const LOG_TAIL_SIZE = 5;
+
+function initialPercent(run: RunDto): number {
+  const phases = run.phases ?? [];
+  if (phases.length === 0) return 0;
+  const done = phases.filter((p) => p.status !== 'pending' && p.status !== 'running').length;
+  return Math.round((done / phases.length) * 100);
+}
+
+function describeEvent(event: RunEventDto): string | undefined {
+  switch (event.type) {
+    case 'log':
+      return `[${event.source}] ${event.message}`;
+    case 'phase':
+      return `Phase ${event.phase}: ${event.status}${event.error ? ` (${event.error})` : ''}`;
+    case 'page-crawled':
+      return `Crawled ${event.site} ${event.path} (${event.count})`;
+    case 'pages-matched':
+      return `Matched ${event.matched} pages (${event.baselinePages} baseline, ${event.candidatePages} candidate; ${event.unmatchedBaseline} + ${event.unmatchedCandidate} unmatched)`;
+    case 'screenshot':
+      return `Screenshot ${event.site} ${event.path} (${event.viewport})`;
+    case 'diff':
+      return `Diff ${event.path} (${event.viewport}): ${event.severity}, ${event.diffPercentage.toFixed(2)}%`;
+    default:
+      return undefined;
+  }
+}
+
+interface RunProgressProps {
+  run: RunDto;
+  onFinished?: () => void;
+}
+
+/**
+ * Live progress bar and log tail for a queued or running run
+ */
+export function RunProgress({ run, onFinished }: RunProgressProps) {
+  const [percent, setPercent] = useState(() => initialPercent(run));
+  const [phase, setPhase] = useState<string | undefined>(
+    () => run.phases?.find((p) => p.status === 'running')?.name,
+  );
+  const [logs, setLogs] = useState<string[]>([]);
+
+  useEffect(() => {
+    return subscribeToRunEvents(run.id, (event) => {
+      if (event.type === 'progress') {
+        setPercent(event.percent);
+        setPhase(event.phase);
+      }
+
+      if (event.type === 'status' && !['queued', 'running'].includes(event.status)) {
+        onFinished?.();
+      }
+
+      const line = describeEvent(event);
+      if (line) {
+        setLogs((previous) => [...previous, line].slice(-LOG_TAIL_SIZE));
+      }
+    });
+  }, [run.id, onFinished]);
+
+  return (
+    <div className="space-y-2 pt-2">
+      <div className="flex items-center gap-2">
+        <Progress value={percent} className="h-2 w-48" />
+        <span className="text-xs text-muted-foreground">
+          {percent}%{phase ? ` · ${phase}` : ''}
+        </span>
+      </div>
+      {logs.length > 0 && (
+        <div className="font-mono text-[10px] text-muted-foreground bg-muted/50 rounded p-2 max-w-md space-y-0.5">
+          {logs.map((line, index) => (
+            <div key={index} className="truncate">
+              {line}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
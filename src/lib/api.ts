@@ -14,15 +14,49 @@ export interface JobDto extends CreateJobPayload {
   updatedAt: string;
 }
 
+export type RunPhaseStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface RunPhaseDto {
+  name: string;
+  status: RunPhaseStatus;
+  startedAt?: string;
+  completedAt?: string;
+  durationMs?: number;
+  error?: string;
+  note?: string;
+}
+
 export interface RunDto {
   id: string;
   jobId: string;
-  status: 'queued' | 'running' | 'completed' | 'failed';
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
   triggeredBy: string;
   triggeredAt: string;
+  startedAt?: string;
   completedAt?: string;
+  phases?: RunPhaseDto[];
+  error?: string;
+  resumedAt?: string;
 }
 
+export type RunEventDto = { runId: string; timestamp: string } & (
+  | { type: 'status'; status: RunDto['status']; error?: string }
+  | { type: 'phase'; phase: string; status: RunPhaseStatus; durationMs?: number; error?: string }
+  | { type: 'progress'; percent: number; phase?: string }
+  | { type: 'page-crawled'; site: 'baseline' | 'candidate'; path: string; count: number }
+  | {
+      type: 'pages-matched';
+      matched: number;
+      baselinePages: number;
+      candidatePages: number;
+      unmatchedBaseline: number;
+      unmatchedCandidate: number;
+    }
+  | { type: 'screenshot'; site: 'baseline' | 'candidate'; path: string; viewport: string }
+  | { type: 'diff'; path: string; viewport: string; severity: string; diffPercentage: number }
+  | { type: 'log'; source: string; message: string }
+);
+
 export interface RunArtifactDto {
   id: string;
   runId: string;
@@ -74,3 +108,35 @@ export async function listRuns(): Promise<RunDto[]> {
 export async function listRunArtifacts(runId: string): Promise<RunArtifactDto[]> {
   return request<RunArtifactDto[]>(`/api/runs/${encodeURIComponent(runId)}/artifacts`);
 }
+
+export async function cancelRun(runId: string): Promise<RunDto> {
+  return request<RunDto>(`/api/runs/${encodeURIComponent(runId)}/cancel`, {
+    method: 'POST',
+    body: JSON.stringify({}),
+  });
+}
+
+export async function resumeRun(runId: string): Promise<RunDto> {
+  return request<RunDto>(`/api/runs/${encodeURIComponent(runId)}/resume`, {
+    method: 'POST',
+    body: JSON.stringify({}),
+  });
+}
+
+/**
+ * Subscribe to live run progress (Server-Sent Events). Returns an unsubscribe function.
+ */
+export function subscribeToRunEvents(runId: string, onEvent: (event: RunEventDto) => void): () => void {
+  const source = new EventSource(`${API_BASE}/api/runs/${encodeURIComponent(runId)}/events`);
+
+  source.onmessage = (message) => {
+    const event = JSON.parse(message.data) as RunEventDto;
+    onEvent(event);
+    // The server ends the stream once the run is finished; don't let EventSource reconnect
+    if (event.type === 'status' && !['queued', 'running'].includes(event.status)) {
+      source.close();
+    }
+  };
+
+  return () => source.close();
+}
@@ -1,11 +1,14 @@
+import { useCallback } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { listRuns, listRunArtifacts, RunDto, RunArtifactDto } from '@/lib/api';
+import { listRuns, listRunArtifacts, cancelRun, resumeRun, RunDto, RunArtifactDto } from '@/lib/api';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { RunProgress } from '@/components/runs/RunProgress';
 import { Button } from '@/components/ui/button';
-import { Calendar, PlayCircle, Activity } from 'lucide-react';
+import { Calendar, PlayCircle, Activity, XCircle, RotateCcw } from 'lucide-react';
 import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
 
 function statusVariant(status: RunDto['status']): string {
   switch (status) {
@@ -15,6 +18,8 @@ function statusVariant(status: RunDto['status']): string {
       return 'bg-primary/10 text-primary';
     case 'failed':
       return 'bg-destructive/10 text-destructive';
+    case 'cancelled':
+      return 'bg-warning/10 text-warning';
     case 'queued':
     default:
       return 'bg-muted text-muted-foreground';
@@ -45,6 +50,47 @@ export default function RunsPage() {
   const runs = runsQuery.data ?? [];
   const artifactsByRun = artifactsQuery.data ?? {};
 
+  const { refetch: refetchRuns } = runsQuery;
+  const { refetch: refetchArtifacts } = artifactsQuery;
+  const handleFinished = useCallback(() => {
+    refetchRuns();
+    refetchArtifacts();
+  }, [refetchRuns, refetchArtifacts]);
+
+  const handleCancel = async (run: RunDto) => {
+    try {
+      await cancelRun(run.id);
+      toast({
+        title: 'Run cancelled',
+        description: `Run ${run.id} was cancelled.`,
+      });
+      runsQuery.refetch();
+    } catch (error) {
+      toast({
+        title: 'Failed to cancel run',
+        description: 'An error occurred while cancelling the run.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleResume = async (run: RunDto) => {
+    try {
+      await resumeRun(run.id);
+      toast({
+        title: 'Run resumed',
+        description: `Run ${run.id} will continue from its last crawl checkpoint.`,
+      });
+      runsQuery.refetch();
+    } catch (error) {
+      toast({
+        title: 'Failed to resume run',
+        description: 'The run has no crawl checkpoint to resume from, or is still stopping.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   return (
     <div className="space-y-6 animate-fade-in">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
@@ -93,6 +139,21 @@ export default function RunsPage() {
                         </span>
                         <span>Triggered by {run.triggeredBy}</span>
                       </div>
+                      {(run.status === 'queued' || run.status === 'running') && (
+                        <RunProgress run={run} onFinished={handleFinished} />
+                      )}
+                      {(run.status === 'queued' || run.status === 'running') && (
+                        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => handleCancel(run)}>
+                          <XCircle className="w-3 h-3 mr-1" />
+                          Cancel
+                        </Button>
+                      )}
+                      {(run.status === 'failed' || run.status === 'cancelled') && (
+                        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => handleResume(run)}>
+                          <RotateCcw className="w-3 h-3 mr-1" />
+                          Resume
+                        </Button>
+                      )}
                     </div>
 
                     <div className="flex flex-col items-start sm:items-end gap-1 text-xs">